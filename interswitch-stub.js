@@ -0,0 +1,137 @@
+/**
+ * Local Interswitch stand-in for refund development
+ *
+ * Implements just enough of the Interswitch API for the refund pipeline:
+ *   POST /oauth/token                           - client credentials token
+ *   POST /api/v1/refunds                        - submit a refund
+ *   GET  /api/v1/refunds/:refundReference       - refund status query
+ *   GET  /collections/api/v1/gettransaction.json - payment verification (always approved)
+ *
+ * Usage:
+ *   STUB_REFUND_MODE=pending node interswitch-stub.js
+ *   INTERSWITCH_REFUND_BASE_URL=http://localhost:4010 npm run dev
+ *
+ * STUB_REFUND_MODE:
+ *   approve  - refunds complete immediately with 00 (default)
+ *   pending  - refunds return 09, then a REFUND.COMPLETED webhook is sent
+ *   decline  - refunds are rejected with 51
+ *
+ * Webhooks are signed like Interswitch's (HMAC-SHA512 in X-Interswitch-Signature) with
+ * STUB_WEBHOOK_SECRET, which defaults to the API's INTERSWITCH_WEBHOOK_SECRET or
+ * INTERSWITCH_CLIENT_SECRET.
+ */
+
+require('dotenv').config();
+const crypto = require('crypto');
+const express = require('express');
+
+const PORT = process.env.STUB_PORT || 4010;
+const MODE = process.env.STUB_REFUND_MODE || 'approve';
+const WEBHOOK_URL = process.env.STUB_WEBHOOK_URL || 'http://localhost:5000/api/payments/webhook';
+const WEBHOOK_DELAY_MS = parseInt(process.env.STUB_WEBHOOK_DELAY_MS || '3000');
+const WEBHOOK_SECRET =
+    process.env.STUB_WEBHOOK_SECRET ||
+    process.env.INTERSWITCH_WEBHOOK_SECRET ||
+    process.env.INTERSWITCH_CLIENT_SECRET ||
+    '';
+
+const app = express();
+app.use(express.json());
+
+const refunds = new Map();
+
+function responseFor(mode) {
+    if (mode === 'decline') {
+        return { responseCode: '51', responseDescription: 'Refund declined' };
+    }
+    if (mode === 'pending') {
+        return { responseCode: '09', responseDescription: 'Refund in progress' };
+    }
+    return { responseCode: '00', responseDescription: 'Refund approved' };
+}
+
+async function sendWebhook(refund) {
+    try {
+        const body = JSON.stringify({
+            uuid: crypto.randomUUID(),
+            eventType: 'REFUND.COMPLETED',
+            refundReference: refund.refundReference,
+            providerReference: refund.providerReference,
+            transactionReference: refund.transactionReference,
+            responseCode: '00',
+            responseDescription: 'Refund approved',
+        });
+        const signature = crypto.createHmac('sha512', WEBHOOK_SECRET).update(body).digest('hex');
+
+        const response = await fetch(WEBHOOK_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-Interswitch-Signature': signature },
+            body,
+        });
+        console.log(`📨 Webhook for ${refund.refundReference} -> ${response.status}`);
+    } catch (error) {
+        console.error(`❌ Webhook for ${refund.refundReference} failed:`, error.message);
+    }
+}
+
+app.post('/oauth/token', (req, res) => {
+    res.json({ access_token: `stub-token-${Date.now()}`, token_type: 'bearer', expires_in: 3600 });
+});
+
+app.post('/api/v1/refunds', (req, res) => {
+    const { refundReference, transactionReference, amount } = req.body;
+
+    if (!refundReference || !transactionReference || !amount) {
+        return res.status(400).json({ responseCode: '12', responseDescription: 'Invalid request' });
+    }
+
+    // Same reference twice returns the original result (provider-side idempotency)
+    const existing = refunds.get(refundReference);
+    if (existing) {
+        return res.json(existing);
+    }
+
+    const refund = {
+        refundReference: `ISW-${refundReference}`,
+        transactionReference,
+        amount,
+        ...responseFor(MODE),
+    };
+    refunds.set(refundReference, refund);
+    console.log(`↩️  Refund ${refundReference} (${amount} kobo) -> ${refund.responseCode}`);
+
+    if (MODE === 'pending') {
+        setTimeout(() => {
+            refund.responseCode = '00';
+            refund.responseDescription = 'Refund approved';
+            sendWebhook({ ...refund, refundReference, providerReference: refund.refundReference });
+        }, WEBHOOK_DELAY_MS);
+    }
+
+    res.status(MODE === 'decline' ? 400 : 200).json(refund);
+});
+
+app.get('/api/v1/refunds/:refundReference', (req, res) => {
+    const refund = refunds.get(req.params.refundReference);
+    if (!refund) {
+        return res.status(404).json({ responseCode: '25', responseDescription: 'Refund not found' });
+    }
+    res.json(refund);
+});
+
+app.get('/collections/api/v1/gettransaction.json', (req, res) => {
+    res.json({
+        Amount: parseInt(req.query.amount || '0'),
+        MerchantReference: req.query.transactionreference,
+        PaymentReference: `STUB-${Date.now()}`,
+        RetrievalReferenceNumber: `${Date.now()}`,
+        SplitAccounts: [],
+        TransactionDate: new Date().toISOString(),
+        ResponseCode: '00',
+        ResponseDescription: 'Approved by Financial Institution',
+    });
+});
+
+app.listen(PORT, () => {
+    console.log(`🧪 Interswitch stand-in listening on http://localhost:${PORT} (refund mode: ${MODE})`);
+});
@@ -0,0 +1,86 @@
+-- CreateEnum
+CREATE TYPE "DisputeStatus" AS ENUM ('OPEN', 'UNDER_REVIEW', 'RESOLVED');
+
+-- CreateEnum
+CREATE TYPE "DisputeRuling" AS ENUM ('RELEASE_TO_DESIGNER', 'REFUND_TO_CUSTOMER', 'PARTIAL_SPLIT');
+
+-- CreateTable
+CREATE TABLE "disputes" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "openedById" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "evidence" TEXT[],
+    "status" "DisputeStatus" NOT NULL DEFAULT 'OPEN',
+    "orderStatusAtOpen" "OrderStatus" NOT NULL,
+    "designerRespondedAt" TIMESTAMP(3),
+    "ruling" "DisputeRuling",
+    "customerRefundAmount" DOUBLE PRECISION,
+    "designerPayoutAmount" DOUBLE PRECISION,
+    "platformFee" DOUBLE PRECISION,
+    "resolutionNotes" TEXT,
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "disputes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "dispute_messages" (
+    "id" TEXT NOT NULL,
+    "disputeId" TEXT NOT NULL,
+    "senderId" TEXT NOT NULL,
+    "senderRole" "UserRole" NOT NULL,
+    "message" TEXT NOT NULL,
+    "attachments" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "dispute_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "disputes_orderId_key" ON "disputes"("orderId");
+
+-- CreateIndex
+CREATE INDEX "disputes_openedById_idx" ON "disputes"("openedById");
+
+-- CreateIndex
+CREATE INDEX "disputes_status_idx" ON "disputes"("status");
+
+-- CreateIndex
+CREATE INDEX "dispute_messages_disputeId_idx" ON "dispute_messages"("disputeId");
+
+-- CreateIndex
+CREATE INDEX "dispute_messages_senderId_idx" ON "dispute_messages"("senderId");
+
+-- AddForeignKey
+ALTER TABLE "disputes" ADD CONSTRAINT "disputes_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "disputes" ADD CONSTRAINT "disputes_openedById_fkey" FOREIGN KEY ("openedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "disputes" ADD CONSTRAINT "disputes_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dispute_messages" ADD CONSTRAINT "dispute_messages_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "disputes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dispute_messages" ADD CONSTRAINT "dispute_messages_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill disputes for orders that were frozen before the dispute subsystem existed
+INSERT INTO "disputes" ("id", "orderId", "openedById", "reason", "evidence", "status", "orderStatusAtOpen", "createdAt", "updatedAt")
+SELECT
+    'dsp_' || md5("id"),
+    "id",
+    "customerId",
+    COALESCE("disputeReason", 'Dispute opened before dispute threads were available'),
+    ARRAY[]::TEXT[],
+    'OPEN',
+    'DELIVERED',
+    COALESCE("disputeOpenedAt", CURRENT_TIMESTAMP),
+    CURRENT_TIMESTAMP
+FROM "orders"
+WHERE "status" = 'DISPUTED';
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING', 'PROCESSING', 'SUCCESSFUL', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "payment_transactions" ADD COLUMN     "refundedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "refunds" (
+    "id" TEXT NOT NULL,
+    "refundReference" TEXT NOT NULL,
+    "paymentTransactionId" TEXT NOT NULL,
+    "orderId" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "isFull" BOOLEAN NOT NULL DEFAULT false,
+    "reason" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "requestedById" TEXT,
+    "status" "RefundStatus" NOT NULL DEFAULT 'PENDING',
+    "providerReference" TEXT,
+    "responseCode" TEXT,
+    "responseDescription" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "completedAt" TIMESTAMP(3),
+    "failedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_refundReference_key" ON "refunds"("refundReference");
+
+-- CreateIndex
+CREATE INDEX "refunds_paymentTransactionId_idx" ON "refunds"("paymentTransactionId");
+
+-- CreateIndex
+CREATE INDEX "refunds_orderId_idx" ON "refunds"("orderId");
+
+-- CreateIndex
+CREATE INDEX "refunds_status_idx" ON "refunds"("status");
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_paymentTransactionId_fkey" FOREIGN KEY ("paymentTransactionId") REFERENCES "payment_transactions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "TrackingEventStatus" AS ENUM ('INFO_RECEIVED', 'IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED', 'FAILED_ATTEMPT', 'EXCEPTION', 'RETURNED');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "lastTrackingSyncAt" TIMESTAMP(3),
+ADD COLUMN     "trackingStatus" "TrackingEventStatus";
+
+-- CreateTable
+CREATE TABLE "tracking_events" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "carrier" TEXT NOT NULL,
+    "trackingNumber" TEXT NOT NULL,
+    "status" "TrackingEventStatus" NOT NULL,
+    "rawStatus" TEXT,
+    "description" TEXT NOT NULL,
+    "location" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tracking_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "orders_trackingNumber_idx" ON "orders"("trackingNumber");
+
+-- CreateIndex
+CREATE INDEX "tracking_events_orderId_idx" ON "tracking_events"("orderId");
+
+-- CreateIndex
+CREATE INDEX "tracking_events_trackingNumber_idx" ON "tracking_events"("trackingNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tracking_events_orderId_trackingNumber_occurredAt_status_key" ON "tracking_events"("orderId", "trackingNumber", "occurredAt", "status");
+
+-- AddForeignKey
+ALTER TABLE "tracking_events" ADD CONSTRAINT "tracking_events_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,125 @@
+-- CreateEnum
+CREATE TYPE "ReviewStatus" AS ENUM ('PUBLISHED', 'FLAGGED', 'HIDDEN');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "averageRating" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "reviewCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingDistribution" JSONB;
+
+-- AlterTable
+ALTER TABLE "designs" ADD COLUMN     "averageRating" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "reviewCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "reviews" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "designerId" TEXT NOT NULL,
+    "designId" TEXT,
+    "rating" INTEGER NOT NULL,
+    "comment" TEXT,
+    "photos" TEXT[],
+    "editableUntil" TIMESTAMP(3) NOT NULL,
+    "editedAt" TIMESTAMP(3),
+    "designerReply" TEXT,
+    "designerRepliedAt" TIMESTAMP(3),
+    "status" "ReviewStatus" NOT NULL DEFAULT 'PUBLISHED',
+    "flaggedById" TEXT,
+    "flagReason" TEXT,
+    "flaggedAt" TIMESTAMP(3),
+    "moderatedById" TEXT,
+    "moderationNote" TEXT,
+    "moderatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reviews_orderId_key" ON "reviews"("orderId");
+
+-- CreateIndex
+CREATE INDEX "reviews_designerId_status_idx" ON "reviews"("designerId", "status");
+
+-- CreateIndex
+CREATE INDEX "reviews_designId_status_idx" ON "reviews"("designId", "status");
+
+-- CreateIndex
+CREATE INDEX "reviews_status_idx" ON "reviews"("status");
+
+-- CreateIndex
+CREATE INDEX "designs_averageRating_idx" ON "designs"("averageRating");
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_designerId_fkey" FOREIGN KEY ("designerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_designId_fkey" FOREIGN KEY ("designId") REFERENCES "designs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_flaggedById_fkey" FOREIGN KEY ("flaggedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_moderatedById_fkey" FOREIGN KEY ("moderatedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill reviews from ratings stored on orders (edit window already closed)
+INSERT INTO "reviews" ("id", "orderId", "customerId", "designerId", "designId", "rating", "comment", "photos", "editableUntil", "createdAt", "updatedAt")
+SELECT
+    'rev_' || md5("id"),
+    "id",
+    "customerId",
+    "designerId",
+    "designId",
+    LEAST(GREATEST("rating", 1), 5),
+    NULLIF(TRIM("review"), ''),
+    ARRAY[]::TEXT[],
+    COALESCE("customerConfirmedAt", "deliveredAt", "updatedAt"),
+    COALESCE("customerConfirmedAt", "deliveredAt", "updatedAt"),
+    CURRENT_TIMESTAMP
+FROM "orders"
+WHERE "rating" IS NOT NULL;
+
+-- Backfill designer aggregates
+UPDATE "users" u
+SET "averageRating" = agg."averageRating",
+    "reviewCount" = agg."reviewCount",
+    "ratingDistribution" = agg."ratingDistribution"
+FROM (
+    SELECT
+        "designerId",
+        ROUND(AVG("rating")::numeric, 2)::DOUBLE PRECISION AS "averageRating",
+        COUNT(*)::INTEGER AS "reviewCount",
+        jsonb_build_object(
+            '1', COUNT(*) FILTER (WHERE "rating" = 1),
+            '2', COUNT(*) FILTER (WHERE "rating" = 2),
+            '3', COUNT(*) FILTER (WHERE "rating" = 3),
+            '4', COUNT(*) FILTER (WHERE "rating" = 4),
+            '5', COUNT(*) FILTER (WHERE "rating" = 5)
+        ) AS "ratingDistribution"
+    FROM "reviews"
+    GROUP BY "designerId"
+) agg
+WHERE u."id" = agg."designerId";
+
+-- Backfill design aggregates
+UPDATE "designs" d
+SET "averageRating" = agg."averageRating",
+    "reviewCount" = agg."reviewCount"
+FROM (
+    SELECT
+        "designId",
+        ROUND(AVG("rating")::numeric, 2)::DOUBLE PRECISION AS "averageRating",
+        COUNT(*)::INTEGER AS "reviewCount"
+    FROM "reviews"
+    WHERE "designId" IS NOT NULL
+    GROUP BY "designId"
+) agg
+WHERE d."id" = agg."designId";
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "OfferRoundAction" AS ENUM ('OFFERED', 'COUNTERED', 'ACCEPTED', 'REJECTED', 'WITHDRAWN');
+
+-- CreateTable
+CREATE TABLE "offer_rounds" (
+    "id" TEXT NOT NULL,
+    "offerId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "action" "OfferRoundAction" NOT NULL,
+    "actorRole" "ResponsibleParty" NOT NULL,
+    "actorId" TEXT,
+    "price" DOUBLE PRECISION,
+    "deadline" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "offer_rounds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "offer_rounds_offerId_sequence_key" ON "offer_rounds"("offerId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "offer_rounds" ADD CONSTRAINT "offer_rounds_offerId_fkey" FOREIGN KEY ("offerId") REFERENCES "offers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "offer_rounds" ADD CONSTRAINT "offer_rounds_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: earlier rounds were overwritten, so existing offers only get their
+-- latest customer terms (round 1) and latest designer counter (round 2)
+INSERT INTO "offer_rounds" ("id", "offerId", "sequence", "action", "actorRole", "actorId", "price", "deadline", "notes", "createdAt")
+SELECT
+    'ofr_' || md5("id" || '1'),
+    "id",
+    1,
+    'OFFERED',
+    'CUSTOMER',
+    "customerId",
+    "customerPrice",
+    "deadline",
+    "notes",
+    "createdAt"
+FROM "offers";
+
+INSERT INTO "offer_rounds" ("id", "offerId", "sequence", "action", "actorRole", "actorId", "price", "deadline", "notes", "createdAt")
+SELECT
+    'ofr_' || md5("id" || '2'),
+    "id",
+    2,
+    'COUNTERED',
+    'DESIGNER',
+    "designerId",
+    "designerPrice",
+    "designerDeadline",
+    "designerNotes",
+    "updatedAt"
+FROM "offers"
+WHERE "designerPrice" IS NOT NULL;
@@ -0,0 +1,134 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccountType" AS ENUM ('CUSTOMER_ESCROW', 'DESIGNER_PENDING', 'DESIGNER_AVAILABLE', 'PLATFORM_REVENUE', 'PAYOUT_CLEARING', 'PROVIDER_CASH');
+
+-- CreateEnum
+CREATE TYPE "LedgerDirection" AS ENUM ('DEBIT', 'CREDIT');
+
+-- AlterTable
+ALTER TABLE "wallet_transactions" ADD COLUMN "ledgerEntryId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ledger_accounts" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "type" "LedgerAccountType" NOT NULL,
+    "userId" TEXT,
+    "balance" BIGINT NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ledger_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "orderId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_lines" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "direction" "LedgerDirection" NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_lines_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "ledger_lines_amount_positive" CHECK ("amount" > 0)
+);
+
+-- CreateIndex
+CREATE INDEX "wallet_transactions_ledgerEntryId_idx" ON "wallet_transactions"("ledgerEntryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_key_key" ON "ledger_accounts"("key");
+
+-- CreateIndex
+CREATE INDEX "ledger_accounts_userId_idx" ON "ledger_accounts"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_entries_reference_key" ON "ledger_entries"("reference");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_orderId_idx" ON "ledger_entries"("orderId");
+
+-- CreateIndex
+CREATE INDEX "ledger_lines_entryId_idx" ON "ledger_lines"("entryId");
+
+-- CreateIndex
+CREATE INDEX "ledger_lines_accountId_idx" ON "ledger_lines"("accountId");
+
+-- AddForeignKey
+ALTER TABLE "wallet_transactions" ADD CONSTRAINT "wallet_transactions_ledgerEntryId_fkey" FOREIGN KEY ("ledgerEntryId") REFERENCES "ledger_entries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_lines" ADD CONSTRAINT "ledger_lines_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "ledger_entries"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_lines" ADD CONSTRAINT "ledger_lines_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "ledger_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: open the ledger from the existing Float balances.
+-- Wallet balances become DESIGNER_AVAILABLE, unreleased paid orders become
+-- CUSTOMER_ESCROW, and PROVIDER_CASH is debited with the total so the opening
+-- entry balances.
+UPDATE "users" SET "walletBalance" = ROUND("walletBalance"::numeric, 2)::double precision;
+
+CREATE TEMP TABLE "opening_balances" AS
+SELECT
+    'DESIGNER_AVAILABLE:' || "id" AS "key",
+    'DESIGNER_AVAILABLE'::"LedgerAccountType" AS "type",
+    "id" AS "userId",
+    ROUND("walletBalance"::numeric * 100)::BIGINT AS "amount"
+FROM "users"
+WHERE "walletBalance" > 0
+UNION ALL
+SELECT
+    'CUSTOMER_ESCROW:' || o."customerId",
+    'CUSTOMER_ESCROW'::"LedgerAccountType",
+    o."customerId",
+    SUM(GREATEST(
+        ROUND(o."finalPrice"::numeric * 100) - ROUND(COALESCE(p."refundedAmount", 0)::numeric * 100),
+        0
+    ))::BIGINT
+FROM "orders" o
+LEFT JOIN "payment_transactions" p ON p."id" = o."paymentTransactionId"
+WHERE o."paymentReleasedAt" IS NULL
+  AND o."status" NOT IN ('PENDING_PAYMENT', 'PAYMENT_FAILED', 'COMPLETED', 'REFUNDED', 'CANCELLED')
+GROUP BY o."customerId";
+
+DELETE FROM "opening_balances" WHERE "amount" <= 0;
+
+INSERT INTO "ledger_accounts" ("id", "key", "type", "userId", "balance", "updatedAt")
+SELECT 'lacc_' || md5("key"), "key", "type", "userId", "amount", CURRENT_TIMESTAMP
+FROM "opening_balances";
+
+INSERT INTO "ledger_accounts" ("id", "key", "type", "balance", "updatedAt")
+SELECT 'lacc_' || md5('PROVIDER_CASH'), 'PROVIDER_CASH', 'PROVIDER_CASH', SUM("amount"), CURRENT_TIMESTAMP
+FROM "opening_balances"
+HAVING COUNT(*) > 0;
+
+INSERT INTO "ledger_entries" ("id", "reference", "description")
+SELECT 'lent_' || md5('opening-balance'), 'opening-balance', 'Opening balances migrated from wallet and escrow floats'
+FROM "opening_balances"
+HAVING COUNT(*) > 0;
+
+INSERT INTO "ledger_lines" ("id", "entryId", "accountId", "direction", "amount")
+SELECT 'llin_' || md5("key"), 'lent_' || md5('opening-balance'), 'lacc_' || md5("key"), 'CREDIT', "amount"
+FROM "opening_balances";
+
+INSERT INTO "ledger_lines" ("id", "entryId", "accountId", "direction", "amount")
+SELECT 'llin_' || md5('PROVIDER_CASH'), 'lent_' || md5('opening-balance'), 'lacc_' || md5('PROVIDER_CASH'), 'DEBIT', SUM("amount")
+FROM "opening_balances"
+HAVING COUNT(*) > 0;
+
+DROP TABLE "opening_balances";
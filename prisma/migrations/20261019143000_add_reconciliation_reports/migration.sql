@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationStatus" AS ENUM ('CLEAN', 'DRIFT');
+
+-- CreateTable
+CREATE TABLE "reconciliation_reports" (
+    "id" TEXT NOT NULL,
+    "status" "ReconciliationStatus" NOT NULL,
+    "triggeredById" TEXT,
+    "usersChecked" INTEGER NOT NULL,
+    "ordersChecked" INTEGER NOT NULL,
+    "accountsChecked" INTEGER NOT NULL,
+    "payoutsChecked" INTEGER NOT NULL,
+    "ledgerIssues" JSONB NOT NULL,
+    "userMismatches" JSONB NOT NULL,
+    "orderMismatches" JSONB NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reconciliation_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reconciliation_reports_finishedAt_idx" ON "reconciliation_reports"("finishedAt");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_reports_status_idx" ON "reconciliation_reports"("status");
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_reports" ADD CONSTRAINT "reconciliation_reports_triggeredById_fkey" FOREIGN KEY ("triggeredById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
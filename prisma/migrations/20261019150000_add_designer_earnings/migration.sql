@@ -0,0 +1,115 @@
+-- CreateEnum
+CREATE TYPE "EarningStatus" AS ENUM ('PENDING', 'ON_HOLD', 'AVAILABLE', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "designer_earnings" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "designerId" TEXT NOT NULL,
+    "status" "EarningStatus" NOT NULL DEFAULT 'PENDING',
+    "grossAmount" DOUBLE PRECISION NOT NULL,
+    "platformFee" DOUBLE PRECISION NOT NULL,
+    "netAmount" DOUBLE PRECISION NOT NULL,
+    "heldAt" TIMESTAMP(3),
+    "releasedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "designer_earnings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "designer_earnings_orderId_key" ON "designer_earnings"("orderId");
+
+-- CreateIndex
+CREATE INDEX "designer_earnings_designerId_status_idx" ON "designer_earnings"("designerId", "status");
+
+-- AddForeignKey
+ALTER TABLE "designer_earnings" ADD CONSTRAINT "designer_earnings_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "designer_earnings" ADD CONSTRAINT "designer_earnings_designerId_fkey" FOREIGN KEY ("designerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: orders already released to the designer
+INSERT INTO "designer_earnings" ("id", "orderId", "designerId", "status", "grossAmount", "platformFee", "netAmount", "releasedAt", "createdAt", "updatedAt")
+SELECT
+    'earn_' || md5(o."id"),
+    o."id",
+    o."designerId",
+    'AVAILABLE'::"EarningStatus",
+    o."paymentAmount" + COALESCE(o."platformFee", 0),
+    COALESCE(o."platformFee", 0),
+    o."paymentAmount",
+    o."paymentReleasedAt",
+    o."createdAt",
+    CURRENT_TIMESTAMP
+FROM "orders" o
+WHERE o."paymentReleasedAt" IS NOT NULL
+  AND o."paymentAmount" IS NOT NULL;
+
+-- Backfill: paid orders still in escrow, with the fee the release would charge now
+-- (feeService.calculateFeeForDesigner: override, then promotion, then tier by
+-- completed orders, then the platform default). It is calculated again at release.
+-- A dispute already resolved without a release was ruled a full refund to the customer.
+INSERT INTO "designer_earnings" ("id", "orderId", "designerId", "status", "grossAmount", "platformFee", "netAmount", "heldAt", "cancelledAt", "createdAt", "updatedAt")
+WITH "completed_orders" AS (
+    SELECT c."designerId", COUNT(*) AS "completed"
+    FROM "orders" c
+    WHERE c."status" = 'COMPLETED'
+    GROUP BY c."designerId"
+),
+"in_escrow" AS (
+    SELECT
+        o.*,
+        d."status" AS "disputeStatus",
+        d."resolvedAt" AS "disputeResolvedAt",
+        COALESCE(
+            (SELECT fo."feePercentage"
+             FROM "designer_fee_overrides" fo
+             WHERE fo."designerId" = o."designerId"
+               AND fo."effectiveFrom" <= CURRENT_TIMESTAMP
+               AND (fo."effectiveUntil" IS NULL OR fo."effectiveUntil" >= CURRENT_TIMESTAMP)
+             LIMIT 1),
+            (SELECT fp."feePercentage"
+             FROM "fee_promotional_periods" fp
+             WHERE fp."isActive"
+               AND fp."startDate" <= CURRENT_TIMESTAMP
+               AND fp."endDate" >= CURRENT_TIMESTAMP
+             LIMIT 1),
+            (SELECT ft."feePercentage"
+             FROM "fee_tiers" ft
+             WHERE ft."isActive"
+               AND ft."minOrders" <= COALESCE(co."completed", 0)
+               AND (ft."maxOrders" IS NULL OR ft."maxOrders" >= COALESCE(co."completed", 0))
+             ORDER BY ft."priority" DESC
+             LIMIT 1),
+            (SELECT CAST(ps."value" AS DOUBLE PRECISION)
+             FROM "platform_settings" ps
+             WHERE ps."key" = 'platform_fee_percentage' AND ps."dataType" = 'number'),
+            0.1
+        ) AS "feePercentage"
+    FROM "orders" o
+    LEFT JOIN "disputes" d ON d."orderId" = o."id"
+    LEFT JOIN "completed_orders" co ON co."designerId" = o."designerId"
+    WHERE o."paymentTransactionId" IS NOT NULL
+      AND o."paymentReleasedAt" IS NULL
+      AND o."status" NOT IN ('CANCELLED', 'REFUNDED')
+)
+SELECT
+    'earn_' || md5(e."id"),
+    e."id",
+    e."designerId",
+    CASE
+        WHEN e."disputeStatus" = 'RESOLVED' THEN 'CANCELLED'::"EarningStatus"
+        WHEN e."status" = 'DISPUTED' THEN 'ON_HOLD'::"EarningStatus"
+        ELSE 'PENDING'::"EarningStatus"
+    END,
+    e."finalPrice",
+    e."finalPrice" * e."feePercentage",
+    e."finalPrice" - e."finalPrice" * e."feePercentage",
+    CASE WHEN e."status" = 'DISPUTED' THEN e."disputeOpenedAt" END,
+    CASE WHEN e."disputeStatus" = 'RESOLVED' THEN e."disputeResolvedAt" END,
+    e."createdAt",
+    CURRENT_TIMESTAMP
+FROM "in_escrow" e;
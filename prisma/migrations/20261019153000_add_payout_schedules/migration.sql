@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "PayoutFrequency" AS ENUM ('DAILY', 'WEEKLY', 'THRESHOLD');
+
+-- AlterTable
+ALTER TABLE "payouts" ADD COLUMN "scheduled" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "payout_schedules" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "frequency" "PayoutFrequency" NOT NULL,
+    "dayOfWeek" INTEGER,
+    "minimumBalance" DOUBLE PRECISION,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastRunAt" TIMESTAMP(3),
+    "lastPayoutId" TEXT,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payout_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payout_schedules_userId_key" ON "payout_schedules"("userId");
+
+-- CreateIndex
+CREATE INDEX "payout_schedules_enabled_idx" ON "payout_schedules"("enabled");
+
+-- AddForeignKey
+ALTER TABLE "payout_schedules" ADD CONSTRAINT "payout_schedules_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
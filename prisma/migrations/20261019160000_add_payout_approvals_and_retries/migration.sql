@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "PayoutAuditAction" AS ENUM ('REQUESTED', 'QUEUED_FOR_APPROVAL', 'APPROVED', 'REJECTED', 'SUBMITTED', 'RETRY_SCHEDULED', 'FORCE_RETRIED', 'SUCCEEDED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "payouts" ADD COLUMN "nextRetryAt" TIMESTAMP(3),
+ADD COLUMN "retryOfId" TEXT;
+
+-- CreateTable
+CREATE TABLE "payout_audit_logs" (
+    "id" TEXT NOT NULL,
+    "payoutId" TEXT NOT NULL,
+    "action" "PayoutAuditAction" NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "performedById" TEXT,
+    "reason" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payout_audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payouts_status_nextRetryAt_idx" ON "payouts"("status", "nextRetryAt");
+
+-- CreateIndex
+CREATE INDEX "payout_audit_logs_payoutId_idx" ON "payout_audit_logs"("payoutId");
+
+-- CreateIndex
+CREATE INDEX "payout_audit_logs_performedById_idx" ON "payout_audit_logs"("performedById");
+
+-- CreateIndex
+CREATE INDEX "payout_audit_logs_createdAt_idx" ON "payout_audit_logs"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "payouts" ADD CONSTRAINT "payouts_retryOfId_fkey" FOREIGN KEY ("retryOfId") REFERENCES "payouts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_audit_logs" ADD CONSTRAINT "payout_audit_logs_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "payouts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_audit_logs" ADD CONSTRAINT "payout_audit_logs_performedById_fkey" FOREIGN KEY ("performedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "WebhookSource" AS ENUM ('PAYMENT', 'PAYOUT');
+
+-- CreateEnum
+CREATE TYPE "WebhookEventStatus" AS ENUM ('RECEIVED', 'PROCESSED', 'IGNORED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "webhook_events" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "source" "WebhookSource" NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "eventType" TEXT,
+    "payload" JSONB NOT NULL,
+    "signature" TEXT,
+    "status" "WebhookEventStatus" NOT NULL DEFAULT 'RECEIVED',
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "lastError" TEXT,
+    "deliveries" INTEGER NOT NULL DEFAULT 1,
+    "lastReplayedById" TEXT,
+    "lastReplayedAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_events_provider_eventId_key" ON "webhook_events"("provider", "eventId");
+
+-- CreateIndex
+CREATE INDEX "webhook_events_source_status_idx" ON "webhook_events"("source", "status");
+
+-- CreateIndex
+CREATE INDEX "webhook_events_receivedAt_idx" ON "webhook_events"("receivedAt");
+
+-- AddForeignKey
+ALTER TABLE "webhook_events" ADD CONSTRAINT "webhook_events_lastReplayedById_fkey" FOREIGN KEY ("lastReplayedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
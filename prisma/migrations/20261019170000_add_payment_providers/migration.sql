@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "payment_transactions" ADD COLUMN     "provider" TEXT NOT NULL DEFAULT 'interswitch',
+ADD COLUMN     "checkoutParams" JSONB;
+
+-- CreateIndex
+CREATE INDEX "payment_transactions_provider_idx" ON "payment_transactions"("provider");
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "PaymentPurpose" AS ENUM ('FULL', 'DEPOSIT', 'BALANCE');
+
+-- AlterTable
+ALTER TABLE "offers" ADD COLUMN     "depositPercentage" DOUBLE PRECISION,
+ADD COLUMN     "balanceDueStatus" "OrderStatus";
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "depositPercentage" DOUBLE PRECISION,
+ADD COLUMN     "balanceDueStatus" "OrderStatus",
+ADD COLUMN     "amountPaid" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "balanceDueAt" TIMESTAMP(3),
+ADD COLUMN     "balanceReminderSentAt" TIMESTAMP(3),
+ADD COLUMN     "fullyPaidAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "payment_transactions" ADD COLUMN     "purpose" "PaymentPurpose" NOT NULL DEFAULT 'FULL';
+
+-- Backfill: every existing order was paid in full up front
+UPDATE "orders" SET "amountPaid" = "finalPrice", "fullyPaidAt" = "createdAt";
+
+-- Drop links to orders that no longer exist before adding the foreign key
+UPDATE "payment_transactions" pt SET "orderId" = NULL
+WHERE pt."orderId" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "orders" o WHERE o."id" = pt."orderId");
+
+-- CreateIndex
+CREATE INDEX "orders_fullyPaidAt_balanceDueAt_idx" ON "orders"("fullyPaidAt", "balanceDueAt");
+
+-- CreateIndex
+CREATE INDEX "payment_transactions_orderId_idx" ON "payment_transactions"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "payment_transactions" ADD CONSTRAINT "payment_transactions_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
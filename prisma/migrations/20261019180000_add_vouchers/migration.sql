@@ -0,0 +1,92 @@
+-- CreateEnum
+CREATE TYPE "VoucherDiscountType" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- CreateEnum
+CREATE TYPE "VoucherFundedBy" AS ENUM ('PLATFORM', 'DESIGNER');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "voucherId" TEXT,
+ADD COLUMN     "discountAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "discountFundedBy" "VoucherFundedBy";
+
+-- CreateTable
+CREATE TABLE "vouchers" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "discountType" "VoucherDiscountType" NOT NULL,
+    "discountValue" DOUBLE PRECISION NOT NULL,
+    "maxDiscountAmount" DOUBLE PRECISION,
+    "minOrderAmount" DOUBLE PRECISION,
+    "fundedBy" "VoucherFundedBy" NOT NULL DEFAULT 'PLATFORM',
+    "usageLimit" INTEGER,
+    "perUserLimit" INTEGER DEFAULT 1,
+    "startsAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "designerId" TEXT,
+    "category" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vouchers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "voucher_redemptions" (
+    "id" TEXT NOT NULL,
+    "voucherId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "paymentTransactionId" TEXT NOT NULL,
+    "orderId" TEXT,
+    "discountAmount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "voucher_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vouchers_code_key" ON "vouchers"("code");
+
+-- CreateIndex
+CREATE INDEX "vouchers_isActive_idx" ON "vouchers"("isActive");
+
+-- CreateIndex
+CREATE INDEX "vouchers_designerId_idx" ON "vouchers"("designerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "voucher_redemptions_paymentTransactionId_key" ON "voucher_redemptions"("paymentTransactionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "voucher_redemptions_orderId_key" ON "voucher_redemptions"("orderId");
+
+-- CreateIndex
+CREATE INDEX "voucher_redemptions_voucherId_idx" ON "voucher_redemptions"("voucherId");
+
+-- CreateIndex
+CREATE INDEX "voucher_redemptions_userId_idx" ON "voucher_redemptions"("userId");
+
+-- CreateIndex
+CREATE INDEX "orders_voucherId_idx" ON "orders"("voucherId");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_voucherId_fkey" FOREIGN KEY ("voucherId") REFERENCES "vouchers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vouchers" ADD CONSTRAINT "vouchers_designerId_fkey" FOREIGN KEY ("designerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vouchers" ADD CONSTRAINT "vouchers_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_redemptions" ADD CONSTRAINT "voucher_redemptions_voucherId_fkey" FOREIGN KEY ("voucherId") REFERENCES "vouchers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_redemptions" ADD CONSTRAINT "voucher_redemptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_redemptions" ADD CONSTRAINT "voucher_redemptions_paymentTransactionId_fkey" FOREIGN KEY ("paymentTransactionId") REFERENCES "payment_transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_redemptions" ADD CONSTRAINT "voucher_redemptions_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "InvoiceType" AS ENUM ('RECEIPT', 'EARNINGS_STATEMENT');
+
+-- CreateTable
+CREATE TABLE "invoices" (
+    "id" TEXT NOT NULL,
+    "invoiceNumber" TEXT NOT NULL,
+    "type" "InvoiceType" NOT NULL,
+    "reference" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "recipientId" TEXT NOT NULL,
+    "paymentTransactionId" TEXT,
+    "finalPrice" DOUBLE PRECISION NOT NULL,
+    "discountAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "discountFundedBy" "VoucherFundedBy",
+    "voucherCode" TEXT,
+    "paymentPurpose" "PaymentPurpose",
+    "amount" DOUBLE PRECISION NOT NULL,
+    "amountPaidToDate" DOUBLE PRECISION NOT NULL,
+    "balanceDue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "platformFee" DOUBLE PRECISION,
+    "feePercentageApplied" DOUBLE PRECISION,
+    "designerPayout" DOUBLE PRECISION,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_sequences" (
+    "year" INTEGER NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("year")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_invoiceNumber_key" ON "invoices"("invoiceNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_reference_key" ON "invoices"("reference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_paymentTransactionId_key" ON "invoices"("paymentTransactionId");
+
+-- CreateIndex
+CREATE INDEX "invoices_orderId_idx" ON "invoices"("orderId");
+
+-- CreateIndex
+CREATE INDEX "invoices_recipientId_idx" ON "invoices"("recipientId");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_paymentTransactionId_fkey" FOREIGN KEY ("paymentTransactionId") REFERENCES "payment_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "OrderActor" AS ENUM ('CUSTOMER', 'DESIGNER', 'ADMIN', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "order_status_history" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" "OrderStatus",
+    "toStatus" "OrderStatus" NOT NULL,
+    "actor" "OrderActor" NOT NULL,
+    "actorId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_status_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_status_history_orderId_createdAt_idx" ON "order_status_history"("orderId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "order_status_history_actorId_idx" ON "order_status_history"("actorId");
+
+-- AddForeignKey
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: start existing orders' timelines at their current status
+INSERT INTO "order_status_history" ("id", "orderId", "fromStatus", "toStatus", "actor", "note", "createdAt")
+SELECT
+    'osh_' || md5("id"),
+    "id",
+    NULL,
+    "status",
+    'SYSTEM',
+    'Status when history tracking began',
+    "updatedAt"
+FROM "orders";
@@ -0,0 +1,27 @@
+-- Move orders off the legacy statuses onto their place in the current lifecycle.
+-- The legacy values stay in the enum until older app builds are retired.
+
+-- Orders
+UPDATE "orders" SET "status" = 'PAID' WHERE "status" = 'PENDING';
+UPDATE "orders" SET "status" = 'IN_PRODUCTION' WHERE "status" IN ('SOURCING', 'CONSTRUCTION', 'QUALITY_CHECK');
+UPDATE "orders" SET "status" = 'SHIPPED' WHERE "status" = 'SHIPPING';
+
+-- Disputes opened while an order was in a legacy status
+UPDATE "disputes" SET "orderStatusAtOpen" = 'PAID' WHERE "orderStatusAtOpen" = 'PENDING';
+UPDATE "disputes" SET "orderStatusAtOpen" = 'IN_PRODUCTION' WHERE "orderStatusAtOpen" IN ('SOURCING', 'CONSTRUCTION', 'QUALITY_CHECK');
+UPDATE "disputes" SET "orderStatusAtOpen" = 'SHIPPED' WHERE "orderStatusAtOpen" = 'SHIPPING';
+
+-- Timeline rows written before the migration keep the legacy name in their note
+UPDATE "order_status_history"
+SET "note" = COALESCE("note" || ' ', '') || '(legacy status ' || "toStatus"::TEXT || ')'
+WHERE "toStatus" IN ('PENDING', 'SOURCING', 'CONSTRUCTION', 'QUALITY_CHECK', 'SHIPPING');
+
+UPDATE "order_status_history" SET "fromStatus" = 'PAID' WHERE "fromStatus" = 'PENDING';
+UPDATE "order_status_history" SET "fromStatus" = 'IN_PRODUCTION' WHERE "fromStatus" IN ('SOURCING', 'CONSTRUCTION', 'QUALITY_CHECK');
+UPDATE "order_status_history" SET "fromStatus" = 'SHIPPED' WHERE "fromStatus" = 'SHIPPING';
+UPDATE "order_status_history" SET "toStatus" = 'PAID' WHERE "toStatus" = 'PENDING';
+UPDATE "order_status_history" SET "toStatus" = 'IN_PRODUCTION' WHERE "toStatus" IN ('SOURCING', 'CONSTRUCTION', 'QUALITY_CHECK');
+UPDATE "order_status_history" SET "toStatus" = 'SHIPPED' WHERE "toStatus" = 'SHIPPING';
+
+-- Orders are created once paid
+ALTER TABLE "orders" ALTER COLUMN "status" SET DEFAULT 'PAID';
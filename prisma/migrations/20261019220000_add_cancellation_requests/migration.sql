@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "CancellationRequestStatus" AS ENUM ('PENDING', 'CONTESTED', 'ACCEPTED', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "cancellation_requests" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "requestedByRole" "OrderActor" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "CancellationRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "orderStatusAtRequest" "OrderStatus" NOT NULL,
+    "cancellationFeePercentage" DOUBLE PRECISION NOT NULL,
+    "customerRefundAmount" DOUBLE PRECISION NOT NULL,
+    "designerCompensation" DOUBLE PRECISION NOT NULL,
+    "respondedById" TEXT,
+    "responseNote" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "resolutionNotes" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "settledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cancellation_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "cancellation_requests_orderId_status_idx" ON "cancellation_requests"("orderId", "status");
+
+-- CreateIndex
+CREATE INDEX "cancellation_requests_status_idx" ON "cancellation_requests"("status");
+
+-- CreateIndex
+CREATE INDEX "cancellation_requests_requestedById_idx" ON "cancellation_requests"("requestedById");
+
+-- AddForeignKey
+ALTER TABLE "cancellation_requests" ADD CONSTRAINT "cancellation_requests_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cancellation_requests" ADD CONSTRAINT "cancellation_requests_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cancellation_requests" ADD CONSTRAINT "cancellation_requests_respondedById_fkey" FOREIGN KEY ("respondedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cancellation_requests" ADD CONSTRAINT "cancellation_requests_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
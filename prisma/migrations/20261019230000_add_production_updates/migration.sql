@@ -0,0 +1,93 @@
+-- CreateEnum
+CREATE TYPE "ProductionReaction" AS ENUM ('LOVE', 'LIKE', 'UNSURE');
+
+-- CreateEnum
+CREATE TYPE "ProductionChangeRequestStatus" AS ENUM ('OPEN', 'RESOLVED');
+
+-- CreateTable
+CREATE TABLE "production_updates" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "stepName" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "note" TEXT,
+    "photos" TEXT[],
+    "stepStatus" TEXT,
+    "reaction" "ProductionReaction",
+    "reactedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "production_updates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "production_change_requests" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "stepName" TEXT NOT NULL,
+    "productionUpdateId" TEXT,
+    "customerId" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "photos" TEXT[],
+    "status" "ProductionChangeRequestStatus" NOT NULL DEFAULT 'OPEN',
+    "resolvedByUpdateId" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "production_change_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "production_updates_orderId_stepName_idx" ON "production_updates"("orderId", "stepName");
+
+-- CreateIndex
+CREATE INDEX "production_updates_authorId_idx" ON "production_updates"("authorId");
+
+-- CreateIndex
+CREATE INDEX "production_change_requests_orderId_stepName_status_idx" ON "production_change_requests"("orderId", "stepName", "status");
+
+-- CreateIndex
+CREATE INDEX "production_change_requests_customerId_idx" ON "production_change_requests"("customerId");
+
+-- AddForeignKey
+ALTER TABLE "production_updates" ADD CONSTRAINT "production_updates_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "production_updates" ADD CONSTRAINT "production_updates_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "production_change_requests" ADD CONSTRAINT "production_change_requests_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "production_change_requests" ADD CONSTRAINT "production_change_requests_productionUpdateId_fkey" FOREIGN KEY ("productionUpdateId") REFERENCES "production_updates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "production_change_requests" ADD CONSTRAINT "production_change_requests_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "production_change_requests" ADD CONSTRAINT "production_change_requests_resolvedByUpdateId_fkey" FOREIGN KEY ("resolvedByUpdateId") REFERENCES "production_updates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: move step notes out of the productionSteps JSON
+INSERT INTO "production_updates" ("id", "orderId", "stepName", "authorId", "note", "photos", "stepStatus", "createdAt")
+SELECT
+    'pu_' || md5(o."id" || position::TEXT),
+    o."id",
+    step ->> 'step',
+    o."designerId",
+    step ->> 'notes',
+    ARRAY[]::TEXT[],
+    step ->> 'status',
+    o."updatedAt"
+FROM "orders" o
+CROSS JOIN LATERAL jsonb_array_elements(o."productionSteps") WITH ORDINALITY AS steps(step, position)
+WHERE jsonb_typeof(o."productionSteps") = 'array'
+  AND COALESCE(step ->> 'notes', '') <> '';
+
+UPDATE "orders"
+SET "productionSteps" = (
+    SELECT jsonb_agg(step - 'notes' ORDER BY position)
+    FROM jsonb_array_elements("productionSteps") WITH ORDINALITY AS steps(step, position)
+)
+WHERE jsonb_typeof("productionSteps") = 'array'
+  AND jsonb_array_length("productionSteps") > 0;
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "AlterationType" AS ENUM ('ALTERATION', 'REMAKE');
+
+-- CreateEnum
+CREATE TYPE "AlterationStatus" AS ENUM ('REQUESTED', 'ACCEPTED', 'SHIPPED', 'DELIVERED', 'DECLINED', 'WITHDRAWN', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "alteration_requests" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "type" "AlterationType" NOT NULL DEFAULT 'ALTERATION',
+    "status" "AlterationStatus" NOT NULL DEFAULT 'REQUESTED',
+    "description" TEXT NOT NULL,
+    "photos" TEXT[],
+    "bodyMeasurementId" TEXT,
+    "fitIssues" JSONB NOT NULL,
+    "responseNote" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "turnaroundDays" INTEGER,
+    "dueAt" TIMESTAMP(3),
+    "carrier" TEXT,
+    "trackingNumber" TEXT,
+    "trackingStatus" "TrackingEventStatus",
+    "lastTrackingSyncAt" TIMESTAMP(3),
+    "shippedAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "deliveryConfirmedBy" TEXT,
+    "autoConfirmPausedAt" TIMESTAMP(3) NOT NULL,
+    "pausedAutoConfirmAt" TIMESTAMP(3) NOT NULL,
+    "autoConfirmResumedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alteration_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "alteration_requests_orderId_status_idx" ON "alteration_requests"("orderId", "status");
+
+-- CreateIndex
+CREATE INDEX "alteration_requests_status_idx" ON "alteration_requests"("status");
+
+-- CreateIndex
+CREATE INDEX "alteration_requests_customerId_idx" ON "alteration_requests"("customerId");
+
+-- CreateIndex
+CREATE INDEX "alteration_requests_trackingNumber_idx" ON "alteration_requests"("trackingNumber");
+
+-- AddForeignKey
+ALTER TABLE "alteration_requests" ADD CONSTRAINT "alteration_requests_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alteration_requests" ADD CONSTRAINT "alteration_requests_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alteration_requests" ADD CONSTRAINT "alteration_requests_bodyMeasurementId_fkey" FOREIGN KEY ("bodyMeasurementId") REFERENCES "body_measurements"("id") ON DELETE SET NULL ON UPDATE CASCADE;
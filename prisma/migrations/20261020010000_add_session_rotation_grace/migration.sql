@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "previousRefreshTokenHash" TEXT,
+ADD COLUMN     "rotatedAt" TIMESTAMP(3);
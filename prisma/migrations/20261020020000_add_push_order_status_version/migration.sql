@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "pushOrderStatusVersion" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "CancellationRequestStatus" ADD VALUE 'EXPIRED';
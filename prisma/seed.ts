@@ -37,6 +37,78 @@ async function main() {
     },
   });
 
+  await prisma.platformSettings.upsert({
+    where: { key: 'review_edit_window_hours' },
+    update: {},
+    create: {
+      key: 'review_edit_window_hours',
+      value: '48',
+      dataType: 'number',
+      category: 'general',
+      description: 'How long customers can edit a review after posting it (hours)',
+    },
+  });
+
+  await prisma.platformSettings.upsert({
+    where: { key: 'offer_max_negotiation_rounds' },
+    update: {},
+    create: {
+      key: 'offer_max_negotiation_rounds',
+      value: '6',
+      dataType: 'number',
+      category: 'general',
+      description: 'Maximum counter offers (customer and designer combined) per offer',
+    },
+  });
+
+  await prisma.platformSettings.upsert({
+    where: { key: 'payout_approval_threshold' },
+    update: {},
+    create: {
+      key: 'payout_approval_threshold',
+      value: '500000',
+      dataType: 'number',
+      category: 'payments',
+      description: 'Withdrawals above this amount wait for admin approval (0 disables the queue)',
+    },
+  });
+
+  await prisma.platformSettings.upsert({
+    where: { key: 'payout_max_retries' },
+    update: {},
+    create: {
+      key: 'payout_max_retries',
+      value: '3',
+      dataType: 'number',
+      category: 'payments',
+      description: 'Automatic retries for a payout that failed with a transient error',
+    },
+  });
+
+  await prisma.platformSettings.upsert({
+    where: { key: 'payment_provider' },
+    update: {},
+    create: {
+      key: 'payment_provider',
+      value: 'interswitch',
+      dataType: 'string',
+      category: 'payments',
+      description: 'Provider for new customer payments (interswitch | paystack | flutterwave)',
+    },
+  });
+
+  await prisma.platformSettings.upsert({
+    where: { key: 'balance_reminder_interval_hours' },
+    update: {},
+    create: {
+      key: 'balance_reminder_interval_hours',
+      value: '48',
+      dataType: 'number',
+      category: 'payments',
+      description: 'Hours between reminders for an unpaid payment-plan balance',
+    },
+  });
+
   console.log('✅ Platform settings created');
 
   // Seed default fee tiers
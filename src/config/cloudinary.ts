@@ -66,4 +66,26 @@ export const getCloudinaryUrl = (publicId: string, transformations?: any): strin
   });
 };
 
+/**
+ * Whether a URL points at an asset in our own Cloudinary account
+ * @param url - URL to check
+ */
+export const isCloudinaryAssetUrl = (url: string): boolean => {
+  const cloudName = cloudinary.config().cloud_name;
+  if (!cloudName) {
+    return false;
+  }
+
+  try {
+    const parsed = new URL(url);
+    return (
+      parsed.protocol === 'https:' &&
+      parsed.hostname === 'res.cloudinary.com' &&
+      parsed.pathname.startsWith(`/${cloudName}/`)
+    );
+  } catch {
+    return false;
+  }
+};
+
 export default cloudinary;
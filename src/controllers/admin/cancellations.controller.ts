@@ -0,0 +1,66 @@
+/**
+ * Admin Cancellations Controller
+ * Handles contested order cancellation requests (admin only)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { cancellationService } from '../../services/cancellation.service';
+
+/**
+ * List cancellation requests with pagination and status filter
+ */
+export const getAllCancellations = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, page = '1', limit = '20' } = req.query;
+
+    const result = await cancellationService.listCancellations({
+      status: status as string | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Rule on an order's open cancellation request (approve cancels and settles it)
+ */
+export const resolveCancellation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { approve, notes } = req.body;
+
+    if (typeof approve !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        message: 'approve must be true or false',
+      });
+    }
+
+    if (!notes || !notes.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Resolution notes are required',
+      });
+    }
+
+    const request = await cancellationService.resolveCancellation(
+      req.params.orderId,
+      req.user!.id,
+      { approve, notes }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: approve ? 'Cancellation approved and settled' : 'Cancellation rejected',
+      data: request,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,121 @@
+/**
+ * Admin Disputes Controller
+ * Handles dispute review and rulings (admin only)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { DisputeRuling } from '@prisma/client';
+import disputeService from '../../services/dispute.service';
+
+/**
+ * List disputes with pagination and status filter
+ */
+export const getAllDisputes = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, page = '1', limit = '20' } = req.query;
+
+    const result = await disputeService.listDisputes({
+      status: status as string | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the dispute (with full thread) for an order
+ */
+export const getOrderDispute = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const dispute = await disputeService.getDisputeByOrderId(req.params.orderId);
+
+    res.status(200).json({
+      success: true,
+      data: dispute,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Post an admin message on a dispute thread (e.g. request more evidence)
+ */
+export const addDisputeMessage = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { message } = req.body;
+
+    if (!message || !message.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Message is required',
+      });
+    }
+
+    const disputeMessage = await disputeService.addMessage(
+      req.params.orderId,
+      req.user!.id,
+      'ADMIN',
+      { message }
+    );
+
+    res.status(201).json({
+      success: true,
+      data: disputeMessage,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Rule on a dispute: full release, full refund, or partial split
+ */
+export const resolveDispute = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { ruling, customerRefundAmount, notes } = req.body;
+
+    if (!ruling || !Object.values(DisputeRuling).includes(ruling)) {
+      return res.status(400).json({
+        success: false,
+        message: `Ruling must be one of: ${Object.values(DisputeRuling).join(', ')}`,
+      });
+    }
+
+    if (!notes || !notes.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Resolution notes are required',
+      });
+    }
+
+    if (ruling === 'PARTIAL_SPLIT' && customerRefundAmount === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'customerRefundAmount is required for a partial split',
+      });
+    }
+
+    const dispute = await disputeService.resolveDispute(req.params.orderId, req.user!.id, {
+      ruling,
+      customerRefundAmount:
+        customerRefundAmount !== undefined ? parseFloat(customerRefundAmount) : undefined,
+      notes,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Dispute resolved successfully',
+      data: dispute,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
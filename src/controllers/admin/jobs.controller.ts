@@ -0,0 +1,68 @@
+/**
+ * Admin Jobs Controller
+ * Lists scheduled jobs, their run history and manual triggers (admin only)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { jobRunnerService } from '../../services/job-runner.service';
+
+/**
+ * List registered jobs with schedule, lock state and last run
+ */
+export const getJobs = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const jobs = await jobRunnerService.listJobs();
+
+    res.status(200).json({
+      success: true,
+      data: jobs,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Recent runs of a job, newest first
+ */
+export const getJobRuns = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page = '1', limit = '20' } = req.query;
+
+    const result = await jobRunnerService.getRuns(
+      req.params.name,
+      parseInt(page as string),
+      parseInt(limit as string)
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Run a job now. Responds as soon as the run has started.
+ */
+export const triggerJob = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = await jobRunnerService.trigger(req.params.name, req.user!.id);
+
+    res.status(202).json({
+      success: true,
+      message: `Job ${req.params.name} started`,
+      data: run,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('already running')) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+};
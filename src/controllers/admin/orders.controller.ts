@@ -5,6 +5,8 @@
 
 import { Request, Response, NextFunction } from 'express';
 import prisma from '../../config/database';
+import { orderStatusService } from '../../services/order-status.service';
+import { LIFECYCLE_ORDER_STATUSES, toLifecycleStatus } from '../../utils/legacy-order-status';
 
 /**
  * Get all orders with filters and pagination
@@ -100,13 +102,13 @@ export const getOrderStats = async (req: Request, res: Response, next: NextFunct
       todayOrders,
     ] = await Promise.all([
       prisma.order.count(),
-      prisma.order.count({ where: { status: 'PENDING' } }),
+      prisma.order.count({ where: { status: 'PAID' } }),
       prisma.order.count({
         where: {
-          status: { in: ['SOURCING', 'CONSTRUCTION', 'QUALITY_CHECK'] },
+          status: { in: ['IN_PRODUCTION', 'READY_TO_SHIP'] },
         },
       }),
-      prisma.order.count({ where: { status: 'DELIVERED' } }),
+      prisma.order.count({ where: { status: 'COMPLETED' } }),
       prisma.order.count({ where: { status: 'CANCELLED' } }),
       prisma.order.count({
         where: {
@@ -193,9 +195,9 @@ export const getDashboardStats = async (req: Request, res: Response, next: NextF
           createdAt: { gte: thisMonthStart },
         },
       }),
-      // Pending orders
+      // Paid orders the designer hasn't started
       prisma.order.count({
-        where: { status: 'PENDING' },
+        where: { status: 'PAID' },
       }),
       // Order status distribution
       prisma.order.groupBy({
@@ -231,3 +233,59 @@ export const getDashboardStats = async (req: Request, res: Response, next: NextF
     next(error);
   }
 };
+
+/**
+ * Get an order's status history, oldest first
+ */
+export const getOrderTimeline = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const timeline = await orderStatusService.getTimeline(req.params.orderId);
+
+    res.status(200).json({
+      success: true,
+      data: timeline,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Move an order to a new status on behalf of the platform
+ */
+export const updateOrderStatus = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { note } = req.body;
+    const status = req.body.status ? toLifecycleStatus(req.body.status) : undefined;
+
+    if (!status || !LIFECYCLE_ORDER_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Status must be one of: ${LIFECYCLE_ORDER_STATUSES.join(', ')}`,
+      });
+    }
+
+    // Settling a dispute moves money, so it goes through the ruling instead
+    if (status === 'COMPLETED' || status === 'REFUNDED') {
+      return res.status(400).json({
+        success: false,
+        message: `Disputed orders are ${status.toLowerCase()} by resolving the dispute`,
+      });
+    }
+
+    await orderStatusService.transition(req.params.orderId, status, {
+      actor: 'ADMIN',
+      actorId: req.user!.id,
+      note: note?.trim() || undefined,
+    });
+    const timeline = await orderStatusService.getTimeline(req.params.orderId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Order status updated successfully',
+      data: timeline,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,105 @@
+/**
+ * Admin Payouts Controller
+ * Withdrawal approval queue, rejections and forced retries (admin only)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { PayoutService } from '../../services/payout.service';
+
+const payoutService = new PayoutService();
+
+/**
+ * List payouts (filter by status, e.g. PENDING_APPROVAL, and userId)
+ */
+export const getPayouts = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, userId, page = '1', limit = '20' } = req.query;
+
+    const result = await payoutService.listPayouts({
+      status: status as string | undefined,
+      userId: userId as string | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * A payout with its audit trail
+ */
+export const getPayoutById = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const payout = await payoutService.getPayoutForAdmin(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: payout,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Approve a queued withdrawal and send it to Interswitch
+ */
+export const approvePayout = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const payout = await payoutService.approvePayout(req.params.id, req.user!.id, req.body?.note);
+
+    res.status(200).json({
+      success: true,
+      message: 'Payout approved',
+      data: payout,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Reject a queued withdrawal; the designer's wallet is refunded
+ */
+export const rejectPayout = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const payout = await payoutService.rejectPayout(req.params.id, req.user!.id, req.body?.reason);
+
+    res.status(200).json({
+      success: true,
+      message: 'Payout rejected and wallet refunded',
+      data: payout,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Retry a payout now instead of waiting for its backoff (or re-attempt a failed one)
+ */
+export const retryPayout = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const payout = await payoutService.forceRetryPayout(req.params.id, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Payout retried',
+      data: payout,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('already being processed')) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+};
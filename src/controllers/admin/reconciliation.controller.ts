@@ -0,0 +1,63 @@
+/**
+ * Admin Reconciliation Controller
+ * Runs wallet/escrow reconciliation on demand and lists past reports (admin only)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { reconciliationService } from '../../services/reconciliation.service';
+
+/**
+ * Run a reconciliation now and return the full report
+ */
+export const runReconciliation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const report = await reconciliationService.run(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message:
+        report.status === 'CLEAN' ? 'No drift found' : 'Drift found - see report for details',
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List report summaries, newest first (filter by status: CLEAN | DRIFT)
+ */
+export const getReports = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, page = '1', limit = '20' } = req.query;
+
+    const result = await reconciliationService.listReports({
+      status: status as string | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * A single report with its per-user and per-order mismatches
+ */
+export const getReportById = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const report = await reconciliationService.getReport(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,120 @@
+/**
+ * Admin Refunds Controller
+ * Handles customer refunds back through the payment provider (admin only)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { refundService } from '../../services/refund.service';
+
+/**
+ * List refunds with pagination and status filter
+ */
+export const getAllRefunds = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, page = '1', limit = '20' } = req.query;
+
+    const result = await refundService.listRefunds({
+      status: status as string | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get refund details
+ */
+export const getRefundById = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const refund = await refundService.getRefundById(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: refund,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Issue a full or partial refund for a cancelled order
+ */
+export const createRefund = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId, amount, reason } = req.body;
+
+    if (!orderId || !reason) {
+      return res.status(400).json({
+        success: false,
+        message: 'Order ID and reason are required',
+      });
+    }
+
+    if (amount !== undefined && (isNaN(parseFloat(amount)) || parseFloat(amount) <= 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Amount must be a positive number',
+      });
+    }
+
+    // One refund per payment on orders paid in instalments
+    const refunds = await refundService.createRefund({
+      orderId,
+      amount: amount !== undefined ? parseFloat(amount) : undefined,
+      reason,
+      requestedById: req.user!.id,
+      source: 'ADMIN',
+    });
+
+    res.status(201).json({
+      success: true,
+      message: refunds
+        .map((refund) => `Refund ${refund.refundReference} ${refund.status.toLowerCase()}`)
+        .join(', '),
+      data: refunds,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Resubmit a failed or stuck refund to the provider
+ */
+export const retryRefund = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const refund = await refundService.submitRefund(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: `Refund ${refund.status.toLowerCase()}`,
+      data: refund,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Query the provider for the latest refund status
+ */
+export const syncRefund = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const refund = await refundService.syncRefundStatus(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: refund,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
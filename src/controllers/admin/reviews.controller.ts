@@ -0,0 +1,68 @@
+/**
+ * Admin Reviews Controller
+ * Handles review moderation (admin only)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { reviewService } from '../../services/review.service';
+
+const MODERATION_ACTIONS = ['PUBLISH', 'HIDE'] as const;
+
+/**
+ * List reviews with pagination and status filter (e.g. status=FLAGGED)
+ */
+export const getAllReviews = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, designerId, page = '1', limit = '20' } = req.query;
+
+    const result = await reviewService.listReviews({
+      status: status as string | undefined,
+      designerId: designerId as string | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Publish (clear a flag) or hide a review
+ */
+export const moderateReview = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { action, note } = req.body;
+
+    if (!MODERATION_ACTIONS.includes(action)) {
+      return res.status(400).json({
+        success: false,
+        message: `Action must be one of: ${MODERATION_ACTIONS.join(', ')}`,
+      });
+    }
+
+    if (action === 'HIDE' && (!note || !note.trim())) {
+      return res.status(400).json({
+        success: false,
+        message: 'A moderation note is required when hiding a review',
+      });
+    }
+
+    const review = await reviewService.moderateReview(req.params.id, req.user!.id, {
+      action,
+      note,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: action === 'HIDE' ? 'Review hidden' : 'Review published',
+      data: review,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
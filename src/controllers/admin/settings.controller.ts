@@ -5,6 +5,11 @@
 
 import { Request, Response, NextFunction } from 'express';
 import settingsService from '../../services/settings.service';
+import {
+  getPaymentProviderByKey,
+  listPaymentProviders,
+  PAYMENT_PROVIDER_SETTING,
+} from '../../services/payment-providers';
 
 /**
  * Get all platform settings
@@ -52,6 +57,19 @@ export const updateSetting = async (req: Request, res: Response, next: NextFunct
       }
     }
 
+    if (key === PAYMENT_PROVIDER_SETTING) {
+      const provider = getPaymentProviderByKey(String(value));
+      if (!provider || !provider.isConfigured()) {
+        const configured = listPaymentProviders()
+          .filter((adapter) => adapter.isConfigured())
+          .map((adapter) => adapter.key);
+        return res.status(400).json({
+          success: false,
+          message: `Payment provider must be one of the configured providers: ${configured.join(', ')}`,
+        });
+      }
+    }
+
     const setting = await settingsService.updateSetting(key, value, adminId, reason, ipAddress);
 
     res.status(200).json({
@@ -7,6 +7,8 @@ import { Request, Response, NextFunction } from 'express';
 import prisma from '../../config/database';
 import adminEventsService from '../../services/admin-events.service';
 import { realtimeEventService } from '../../services/realtime-event.service';
+import { ledgerService } from '../../services/ledger.service';
+import walletService from '../../services/wallet.service';
 
 /**
  * Get all users with filters and pagination
@@ -271,3 +273,32 @@ export const updateUserStatus = async (req: Request, res: Response, next: NextFu
     next(error);
   }
 };
+
+/**
+ * Get a user's ledger accounts, each verified against its lines, and check the
+ * walletBalance projection against the ledger
+ */
+export const getUserLedger = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.params.id;
+
+    const [accounts, wallet] = await Promise.all([
+      ledgerService.getUserAccounts(userId),
+      walletService.verifyBalance(userId),
+    ]);
+
+    const verifications = await Promise.all(
+      accounts.map((account) => ledgerService.verifyAccount(account.id))
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        accounts: verifications,
+        wallet,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,124 @@
+/**
+ * Admin Vouchers Controller
+ * Manages customer-facing discount codes (admin only)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { voucherService, UpdateVoucherData } from '../../services/voucher.service';
+
+const toNumber = (value: unknown) =>
+  value === undefined ? undefined : value === null || value === '' ? null : Number(value);
+
+const toDate = (value: unknown) =>
+  value === undefined ? undefined : value ? new Date(value as string) : null;
+
+/**
+ * Parse the optional voucher fields shared by create and update
+ */
+const parseVoucherFields = (body: Record<string, unknown>): UpdateVoucherData => ({
+  description: body.description as string | undefined,
+  discountType: body.discountType as string | undefined,
+  discountValue: body.discountValue !== undefined ? Number(body.discountValue) : undefined,
+  maxDiscountAmount: toNumber(body.maxDiscountAmount),
+  minOrderAmount: toNumber(body.minOrderAmount),
+  fundedBy: body.fundedBy as string | undefined,
+  usageLimit: toNumber(body.usageLimit),
+  perUserLimit: toNumber(body.perUserLimit),
+  startsAt: toDate(body.startsAt),
+  expiresAt: toDate(body.expiresAt),
+  designerId: body.designerId as string | null | undefined,
+  category: body.category as string | null | undefined,
+});
+
+/**
+ * List vouchers (filter by active)
+ */
+export const listVouchers = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { active, page = '1', limit = '20' } = req.query;
+
+    const result = await voucherService.listVouchers({
+      active: active === undefined ? undefined : active === 'true',
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a voucher with its redemption totals and recent redemptions
+ */
+export const getVoucherById = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const voucher = await voucherService.getVoucherById(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: voucher,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a voucher
+ */
+export const createVoucher = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { code, discountType, discountValue } = req.body;
+
+    if (!code || !discountType || discountValue === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'Code, discount type and discount value are required',
+      });
+    }
+
+    const fields = parseVoucherFields(req.body);
+    const voucher = await voucherService.createVoucher(
+      {
+        ...fields,
+        code,
+        discountType,
+        discountValue: Number(discountValue),
+      },
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Voucher created successfully',
+      data: voucher,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a voucher's terms, limits, validity or active status
+ */
+export const updateVoucher = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const voucher = await voucherService.updateVoucher(req.params.id, {
+      ...parseVoucherFields(req.body),
+      isActive: req.body.isActive,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Voucher updated successfully',
+      data: voucher,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,71 @@
+/**
+ * Admin Webhooks Controller
+ * Inspects stored payment/payout webhook events and replays them (admin only)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { webhookEventService } from '../../services/webhook-event.service';
+
+/**
+ * List stored webhook events, newest first
+ */
+export const getWebhookEvents = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { provider, source, status, eventId, page = '1', limit = '20' } = req.query;
+
+    const result = await webhookEventService.listEvents({
+      provider: provider as string | undefined,
+      source: source as string | undefined,
+      status: status as string | undefined,
+      eventId: eventId as string | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * A stored webhook event with its payload
+ */
+export const getWebhookEventById = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const event = await webhookEventService.getEvent(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: event,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Run a stored event through its handler again
+ */
+export const replayWebhookEvent = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await webhookEventService.replay(req.params.id, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: `Webhook event ${result.status.toLowerCase()}`,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('already being processed')) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+};
@@ -1,6 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
 import authService from '../services/auth.service';
+import sessionService, { SessionContext } from '../services/session.service';
 import { isValidEmail } from '../utils/validation';
+import { ORDER_STATUS_VERSION_HEADER } from '../utils/legacy-order-status';
+
+/**
+ * Device details stored on the session so users can recognise their logins
+ */
+const getSessionContext = (req: Request): SessionContext => ({
+  userAgent: req.headers['user-agent'],
+  ipAddress: req.ip,
+});
 
 export const signup = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -54,20 +64,23 @@ export const signup = async (req: Request, res: Response, next: NextFunction) =>
       }
     }
 
-    const result = await authService.signup({
-      email,
-      password,
-      fullName,
-      phoneNumber,
-      role,
-      gender,
-      brandName,
-      brandLogo,
-      brandBanner,
-      bio,
-      yearsOfExperience,
-      specialties,
-    });
+    const result = await authService.signup(
+      {
+        email,
+        password,
+        fullName,
+        phoneNumber,
+        role,
+        gender,
+        brandName,
+        brandLogo,
+        brandBanner,
+        bio,
+        yearsOfExperience,
+        specialties,
+      },
+      getSessionContext(req)
+    );
 
     res.status(201).json(result);
   } catch (error: any) {
@@ -93,7 +106,7 @@ export const login = async (req: Request, res: Response, next: NextFunction) =>
       });
     }
 
-    const result = await authService.login({ email, password });
+    const result = await authService.login({ email, password }, getSessionContext(req));
 
     res.status(200).json(result);
   } catch (error: any) {
@@ -117,10 +130,154 @@ export const getProfile = async (req: Request, res: Response, next: NextFunction
   }
 };
 
-export const logout = async (req: Request, res: Response) => {
-  // With JWT, logout is handled client-side by removing the token
-  // Server-side logout would require token blacklisting (optional enhancement)
-  res.status(200).json({ message: 'Logged out successfully' });
+export const refreshToken = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({ message: 'refreshToken is required' });
+    }
+
+    const tokens = await sessionService.refreshSession(refreshToken, getSessionContext(req));
+
+    res.status(200).json(tokens);
+  } catch (error) {
+    // A parallel refresh got there first; the client should retry with its latest token
+    if (error instanceof Error && error.message.includes('already rotated')) {
+      return res.status(409).json({ message: error.message });
+    }
+    if (error instanceof Error && error.message.startsWith('Refresh token')) {
+      return res.status(401).json({ message: error.message });
+    }
+    next(error);
+  }
+};
+
+export const logout = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+    const sessionId = req.sessionId;
+
+    if (!userId || !sessionId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    // Revokes the refresh token and every access token issued for this session
+    await sessionService.revokeSession(userId, sessionId, 'LOGOUT');
+
+    res.status(200).json({ message: 'Logged out successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSessions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    const sessions = await sessionService.listSessions(userId, req.sessionId);
+
+    res.status(200).json(sessions);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeSession = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    await sessionService.revokeSession(userId, req.params.id);
+
+    res.status(200).json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const forgotPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || !isValidEmail(email)) {
+      return res.status(400).json({ message: 'A valid email is required' });
+    }
+
+    await authService.requestPasswordReset(email);
+
+    // Same response whether or not the account exists
+    res.status(200).json({
+      message: 'If an account exists for that email, a password reset link has been sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resetPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      return res.status(400).json({ message: 'Missing required fields: token, password' });
+    }
+
+    if (password.length < 6) {
+      return res.status(400).json({ message: 'Password must be at least 6 characters long' });
+    }
+
+    await authService.resetPassword(token, password);
+
+    res.status(200).json({ message: 'Password reset successfully. Please log in again.' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ message: 'token is required' });
+    }
+
+    await authService.verifyEmail(token);
+
+    res.status(200).json({ message: 'Email verified successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resendVerification = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    await authService.resendVerificationEmail(userId);
+
+    res.status(200).json({ message: 'Verification email sent' });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('already verified')) {
+      return res.status(409).json({ message: error.message });
+    }
+    if (error instanceof Error && error.message.includes('sent recently')) {
+      return res.status(429).json({ message: error.message });
+    }
+    next(error);
+  }
 };
 
 export const updatePushToken = async (req: Request, res: Response, next: NextFunction) => {
@@ -136,7 +293,8 @@ export const updatePushToken = async (req: Request, res: Response, next: NextFun
       return res.status(400).json({ message: 'expoPushToken is required' });
     }
 
-    await authService.updatePushToken(userId, expoPushToken);
+    const orderStatusVersion = req.get(ORDER_STATUS_VERSION_HEADER) === '2' ? 2 : 1;
+    await authService.updatePushToken(userId, expoPushToken, orderStatusVersion);
 
     res.status(200).json({ message: 'Push token updated successfully' });
   } catch (error: any) {
@@ -248,11 +406,14 @@ export const createAdmin = async (req: Request, res: Response, next: NextFunctio
     }
 
     // Create admin using auth service
-    const result = await authService.createAdminUser({
-      email,
-      password,
-      fullName: adminName,
-    });
+    const result = await authService.createAdminUser(
+      {
+        email,
+        password,
+        fullName: adminName,
+      },
+      getSessionContext(req)
+    );
 
     console.log('✅ Admin user created successfully', {
       id: result.user.id,
@@ -0,0 +1,122 @@
+/**
+ * Conversation Controller
+ *
+ * HTTP request handlers for customer <-> designer messaging.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { conversationService } from '../services/conversation.service';
+import { collectUploadedUrls } from '../utils/uploads';
+
+/**
+ * List the authenticated user's conversations (inbox)
+ */
+export const getConversations = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page = '1', limit = '20' } = req.query;
+
+    const result = await conversationService.listConversations(
+      req.user!.id,
+      parseInt(page as string),
+      Math.min(parseInt(limit as string) || 20, 50)
+    );
+
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Total unread messages for the badge
+ */
+export const getUnreadCount = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const count = await conversationService.getUnreadCount(req.user!.id);
+    res.status(200).json({ count });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Open (or create) the conversation for an offer, bid or order
+ */
+export const openConversation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { offerId, bidId, orderId } = req.body;
+
+    const conversation = await conversationService.getOrCreateConversation(req.user!.id, {
+      offerId,
+      bidId,
+      orderId,
+    });
+
+    res.status(200).json(conversation);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getConversation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const conversation = await conversationService.getConversation(req.params.id, req.user!.id);
+    res.status(200).json(conversation);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Message history, newest first (?before=<messageId> for older pages)
+ */
+export const getMessages = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { before, limit = '30' } = req.query;
+
+    const result = await conversationService.getMessages(
+      req.params.id,
+      req.user!.id,
+      before as string | undefined,
+      Math.min(parseInt(limit as string) || 30, 100)
+    );
+
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const sendMessage = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { body } = req.body;
+    const attachments = collectUploadedUrls(req, 'attachments');
+
+    if ((!body || !body.trim()) && attachments.length === 0) {
+      return res.status(400).json({
+        error: 'Message text or an attachment is required',
+      });
+    }
+
+    const message = await conversationService.sendMessage(req.params.id, req.user!.id, {
+      body,
+      attachments,
+    });
+
+    res.status(201).json(message);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Mark the other participant's messages as read
+ */
+export const markAsRead = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await conversationService.markAsRead(req.params.id, req.user!.id);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
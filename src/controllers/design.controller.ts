@@ -63,6 +63,7 @@ export const getDesigns = async (req: Request, res: Response, next: NextFunction
       maxPrice,
       designerId,
       search,
+      minRating,
       sortBy,
       page = '1',
       limit = '20',
@@ -90,8 +91,12 @@ export const getDesigns = async (req: Request, res: Response, next: NextFunction
       filters.search = search as string;
     }
 
+    if (minRating) {
+      filters.minRating = parseFloat(minRating as string);
+    }
+
     if (sortBy) {
-      filters.sortBy = sortBy as 'price-asc' | 'price-desc' | 'newest';
+      filters.sortBy = sortBy as 'price-asc' | 'price-desc' | 'newest' | 'rating' | 'most-reviewed';
     }
 
     const result = await designService.getDesigns(
@@ -175,7 +180,7 @@ export const getDesigners = async (req: Request, res: Response, next: NextFuncti
       filters.search = search as string;
     }
     if (sortBy) {
-      filters.sortBy = sortBy as 'most-designs' | 'newest' | 'a-z';
+      filters.sortBy = sortBy as 'most-designs' | 'newest' | 'a-z' | 'top-rated';
     }
 
     const designers = await designService.getDesigners(filters);
@@ -50,6 +50,7 @@ export const createOffer = async (req: Request, res: Response, next: NextFunctio
       tryOnImageUrl,
       expiresAt: expiresAt ? new Date(expiresAt) : undefined,
       deadline: deadline ? new Date(deadline) : undefined,
+      paymentPlan: req.body.paymentPlan,
     });
 
     console.log('🔵 [CREATE OFFER] Created offer with measurements:', offer.measurements);
@@ -97,7 +98,7 @@ export const acceptOffer = async (req: Request, res: Response, next: NextFunctio
 export const counterOffer = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { designerPrice, designerNotes, designerDeadline } = req.body;
+    const { designerPrice, designerNotes, designerDeadline, paymentPlan } = req.body;
 
     if (!designerPrice) {
       return res.status(400).json({
@@ -109,6 +110,7 @@ export const counterOffer = async (req: Request, res: Response, next: NextFuncti
       designerPrice: parseFloat(designerPrice),
       designerNotes,
       designerDeadline: designerDeadline ? new Date(designerDeadline) : undefined,
+      paymentPlan,
     });
 
     res.status(200).json(offer);
@@ -120,7 +122,7 @@ export const counterOffer = async (req: Request, res: Response, next: NextFuncti
 export const customerCounterOffer = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { customerPrice, notes, deadline } = req.body;
+    const { customerPrice, notes, deadline, paymentPlan } = req.body;
 
     if (!customerPrice) {
       return res.status(400).json({
@@ -133,7 +135,8 @@ export const customerCounterOffer = async (req: Request, res: Response, next: Ne
       req.user!.id,
       parseFloat(customerPrice),
       notes,
-      deadline ? new Date(deadline) : undefined
+      deadline ? new Date(deadline) : undefined,
+      paymentPlan
     );
 
     res.status(200).json(offer);
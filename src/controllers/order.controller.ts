@@ -6,6 +6,16 @@
 
 import { Request, Response, NextFunction } from 'express';
 import orderService from '../services/order.service';
+import disputeService from '../services/dispute.service';
+import { trackingService } from '../services/tracking.service';
+import { reviewService } from '../services/review.service';
+import { invoiceService } from '../services/invoice.service';
+import { cancellationService } from '../services/cancellation.service';
+import { orderStatusService } from '../services/order-status.service';
+import { productionUpdateService } from '../services/production-update.service';
+import { alterationService } from '../services/alteration.service';
+import { collectUploadedUrls } from '../utils/uploads';
+import { toLifecycleStatus } from '../utils/legacy-order-status';
 
 /**
  * Get all orders for authenticated user
@@ -51,7 +61,7 @@ export const updateOrderStatus = async (req: Request, res: Response, next: NextF
     }
 
     const order = await orderService.updateOrderStatus(orderId, userId, {
-      status,
+      status: toLifecycleStatus(status),
       progressNotes,
     });
 
@@ -82,18 +92,21 @@ export const updateProduction = async (req: Request, res: Response, next: NextFu
 };
 
 /**
- * Update single production step (designer only)
+ * Update single production step, with optional progress photos (designer only)
  */
 export const updateProductionStep = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { orderId, stepId } = req.params;
     const userId = req.user!.id;
-    const { status, completedAt, notes } = req.body;
+    const { status, completedAt, notes, changeRequestId } = req.body;
 
+    const photos = collectUploadedUrls(req, 'productionPhotos');
     const order = await orderService.updateProductionStep(orderId, userId, stepId, {
       status,
       completedAt,
       notes,
+      photos,
+      changeRequestId,
     });
 
     res.status(200).json(order);
@@ -102,6 +115,59 @@ export const updateProductionStep = async (req: Request, res: Response, next: Ne
   }
 };
 
+/**
+ * Get production steps with their updates and change requests (customer or designer)
+ */
+export const getProductionUpdates = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+
+    const production = await productionUpdateService.getOrderProduction(orderId, userId);
+    res.status(200).json(production);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * React to a production update (customer only)
+ */
+export const reactToProductionUpdate = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId, updateId } = req.params;
+    const userId = req.user!.id;
+    const { reaction } = req.body;
+
+    const update = await productionUpdateService.reactToUpdate(orderId, updateId, userId, reaction);
+    res.status(200).json(update);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Ask for changes on a production step before it is completed (customer only)
+ */
+export const requestProductionChange = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId, stepId } = req.params;
+    const userId = req.user!.id;
+    const { message, productionUpdateId } = req.body;
+
+    const photos = collectUploadedUrls(req, 'productionPhotos');
+    const changeRequest = await productionUpdateService.requestChange(orderId, stepId, userId, {
+      message,
+      photos,
+      productionUpdateId,
+    });
+
+    res.status(201).json(changeRequest);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Add shipment tracking (designer only)
  */
@@ -209,7 +275,8 @@ export const openDispute = async (req: Request, res: Response, next: NextFunctio
       });
     }
 
-    const order = await orderService.openDispute(orderId, userId, reason);
+    const evidence = collectUploadedUrls(req, 'evidence');
+    const order = await orderService.openDispute(orderId, userId, reason, evidence);
 
     res.status(200).json(order);
   } catch (error: any) {
@@ -217,6 +284,349 @@ export const openDispute = async (req: Request, res: Response, next: NextFunctio
   }
 };
 
+/**
+ * Review a delivered or completed order (customer only)
+ */
+export const createReview = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+    const rating = Number(req.body.rating);
+    const { comment } = req.body;
+
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return res.status(400).json({
+        error: 'Rating must be a whole number between 1 and 5',
+      });
+    }
+
+    const photos = collectUploadedUrls(req, 'photos');
+    const review = await reviewService.createReview(orderId, userId, { rating, comment, photos });
+
+    res.status(201).json(review);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the review for an order (customer or designer)
+ */
+export const getOrderReview = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+
+    const review = await reviewService.getOrderReview(orderId, userId);
+    res.status(200).json(review);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get shipment tracking history for an order (customer or designer)
+ */
+export const getTrackingHistory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+
+    const tracking = await trackingService.getOrderTrackingHistory(orderId, userId);
+    res.status(200).json(tracking);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the status timeline for an order (customer or designer)
+ */
+export const getOrderTimeline = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+
+    const timeline = await orderStatusService.getTimeline(orderId, userId);
+    res.status(200).json(timeline);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get dispute thread for an order (customer or designer)
+ */
+export const getDispute = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+
+    const dispute = await disputeService.getDisputeForParticipant(orderId, userId);
+    res.status(200).json(dispute);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get cancellation requests for an order and what cancelling now would settle to
+ * (customer or designer)
+ */
+export const getCancellation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+
+    const cancellation = await cancellationService.getOrderCancellation(orderId, userId);
+    res.status(200).json(cancellation);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Request cancellation of an order (customer or designer)
+ */
+export const requestCancellation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+    const { reason } = req.body;
+
+    if (!reason || reason.trim().length < 10) {
+      return res.status(400).json({
+        error: 'Please provide a detailed reason for the cancellation (at least 10 characters)',
+      });
+    }
+
+    const request = await cancellationService.requestCancellation(orderId, userId, { reason });
+    res.status(201).json(request);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Accept or contest the other party's cancellation request
+ */
+export const respondToCancellation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+    const { accept, note } = req.body;
+
+    if (typeof accept !== 'boolean') {
+      return res.status(400).json({ error: 'accept must be true or false' });
+    }
+
+    const request = await cancellationService.respondToCancellation(orderId, userId, {
+      accept,
+      note,
+    });
+    res.status(200).json(request);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get alteration requests for an order (customer or designer)
+ */
+export const getAlterations = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+
+    const alterations = await alterationService.getOrderAlterations(orderId, userId);
+    res.status(200).json(alterations);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Request an alteration or remake of a delivered order (customer only)
+ */
+export const requestAlteration = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+    const { type, description, bodyMeasurementId } = req.body;
+
+    // Multipart requests send the fit issues as a JSON string
+    let { fitIssues } = req.body;
+    if (typeof fitIssues === 'string') {
+      try {
+        fitIssues = JSON.parse(fitIssues);
+      } catch {
+        return res.status(400).json({ error: 'fitIssues must be a JSON array' });
+      }
+    }
+
+    const photos = collectUploadedUrls(req, 'alterationPhotos');
+    const alteration = await alterationService.requestAlteration(orderId, userId, {
+      type,
+      description,
+      fitIssues,
+      bodyMeasurementId,
+      photos,
+    });
+
+    res.status(201).json(alteration);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Accept or decline the open alteration request (designer only)
+ */
+export const respondToAlteration = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+    const { accept, turnaroundDays, note } = req.body;
+
+    if (typeof accept !== 'boolean') {
+      return res.status(400).json({ error: 'accept must be true or false' });
+    }
+
+    const alteration = await alterationService.respondToAlteration(orderId, userId, {
+      accept,
+      turnaroundDays,
+      note,
+    });
+    res.status(200).json(alteration);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Withdraw the open alteration request (customer only)
+ */
+export const withdrawAlteration = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+
+    const alteration = await alterationService.withdrawAlteration(orderId, userId);
+    res.status(200).json(alteration);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Ship the altered garment back to the customer (designer only)
+ */
+export const addAlterationShipment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+    const { carrier, trackingNumber } = req.body;
+
+    const alteration = await alterationService.addReturnShipment(orderId, userId, {
+      carrier,
+      trackingNumber,
+    });
+    res.status(200).json(alteration);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Confirm the altered garment was received (customer only)
+ */
+export const confirmAlterationDelivery = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+
+    const alteration = await alterationService.confirmAlterationDelivery(orderId, userId);
+    res.status(200).json(alteration);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List the caller's invoices for an order (receipts for the customer, the earnings
+ * statement for the designer)
+ */
+export const getOrderInvoices = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const userId = req.user!.id;
+
+    const invoices = await invoiceService.listOrderInvoices(orderId, userId);
+    res.status(200).json(invoices);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get one invoice as JSON, or rendered with ?format=html or ?format=pdf
+ */
+export const getOrderInvoice = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId, invoiceId } = req.params;
+    const userId = req.user!.id;
+    const format = (req.query.format as string | undefined) || 'json';
+
+    if (!['json', 'html', 'pdf'].includes(format)) {
+      return res.status(400).json({ error: 'Invalid format. Must be one of: json, html, pdf' });
+    }
+
+    const invoice = await invoiceService.getOrderInvoice(orderId, invoiceId, userId);
+
+    if (format === 'html') {
+      return res.status(200).type('html').send(invoiceService.renderHtml(invoice));
+    }
+
+    if (format === 'pdf') {
+      const pdf = await invoiceService.renderPdf(invoice);
+      res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+      return res.status(200).type('pdf').send(pdf);
+    }
+
+    res.status(200).json(invoice);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Post a message / evidence on a dispute thread (customer or designer)
+ */
+export const addDisputeMessage = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+    const { message } = req.body;
+
+    const attachments = collectUploadedUrls(req, 'evidence');
+    if (!message?.trim() && attachments.length === 0) {
+      return res.status(400).json({ error: 'Message or evidence is required' });
+    }
+
+    const disputeMessage = await disputeService.addMessage(orderId, req.user!.id, req.user!.role, {
+      message,
+      attachments,
+    });
+
+    res.status(201).json(disputeMessage);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Get designer order statistics
  */
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { paymentService } from '../services/payment.service';
 import orderService from '../services/order.service';
+import { refundService } from '../services/refund.service';
+import { webhookEventService } from '../services/webhook-event.service';
 
 /**
  * Initiate payment for an accepted offer
@@ -8,7 +10,7 @@ import orderService from '../services/order.service';
  */
 export const initiatePayment = async (req: Request, res: Response) => {
   try {
-    const { offerId, addressId } = req.body;
+    const { offerId, addressId, voucherCode } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -21,7 +23,12 @@ export const initiatePayment = async (req: Request, res: Response) => {
       });
     }
 
-    const checkoutParams = await paymentService.initiatePayment(offerId, addressId, userId);
+    const checkoutParams = await paymentService.initiatePayment(
+      offerId,
+      addressId,
+      userId,
+      voucherCode || undefined
+    );
 
     res.status(200).json({
       success: true,
@@ -36,6 +43,38 @@ export const initiatePayment = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Check a voucher code against an accepted offer before paying
+ * POST /api/payments/vouchers/validate
+ */
+export const validateVoucher = async (req: Request, res: Response) => {
+  try {
+    const { offerId, voucherCode } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!offerId || !voucherCode) {
+      return res.status(400).json({
+        error: 'Offer ID and voucher code are required',
+      });
+    }
+
+    const preview = await paymentService.previewVoucher(offerId, userId, voucherCode);
+
+    res.status(200).json({
+      success: true,
+      data: preview,
+    });
+  } catch (error) {
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to validate voucher',
+    });
+  }
+};
+
 /**
  * Verify payment and create order if successful
  * POST /api/payments/verify
@@ -159,15 +198,33 @@ export const verifyPayment = async (req: Request, res: Response) => {
 };
 
 /**
- * Handle webhook from Interswitch
- * POST /api/payments/webhook
+ * Handle webhook from a payment provider
+ * POST /api/payments/webhook (Interswitch)
+ * POST /api/payments/webhook/:provider
+ * Requires the provider's signature header; redelivered events are acknowledged
+ * without being processed twice.
  */
 export const handleWebhook = async (req: Request, res: Response) => {
   try {
-    const payload = req.body;
+    const ingested = await webhookEventService.ingest(
+      'PAYMENT',
+      {
+        headers: req.headers,
+        rawBody: req.rawBody,
+        body: req.body,
+      },
+      req.params.provider
+    );
 
-    // Process the webhook
-    const result = await paymentService.handleWebhook(payload);
+    if (ingested.duplicate) {
+      return res.status(200).json({
+        success: true,
+        message: 'Webhook already received',
+        data: { eventId: ingested.eventId, status: ingested.status },
+      });
+    }
+
+    const result = ingested.result as Awaited<ReturnType<typeof paymentService.handleWebhook>>;
 
     // If payment is successful, try to create order
     if (
@@ -187,6 +244,15 @@ export const handleWebhook = async (req: Request, res: Response) => {
       data: result,
     });
   } catch (error: any) {
+    if (error.message === 'Invalid webhook signature') {
+      return res.status(401).json({ error: error.message });
+    }
+    if (error.message?.startsWith('Invalid webhook')) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.message?.startsWith('Payment provider')) {
+      return res.status(404).json({ error: error.message });
+    }
     console.error('Error processing webhook:', error);
     res.status(500).json({
       error: error.message || 'Failed to process webhook',
@@ -220,3 +286,63 @@ export const getPaymentByRef = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Request a refund for a cancelled order
+ * POST /api/payments/refunds
+ */
+export const requestRefund = async (req: Request, res: Response) => {
+  try {
+    const { orderId, reason } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!orderId) {
+      return res.status(400).json({ error: 'Order ID is required' });
+    }
+
+    const refunds = await refundService.requestCustomerRefund(orderId, userId, reason);
+
+    res.status(201).json({
+      success: true,
+      message: refunds.some((refund) => refund.status === 'FAILED')
+        ? 'Refund could not be processed. Our team has been notified.'
+        : 'Refund initiated successfully',
+      data: refunds,
+    });
+  } catch (error) {
+    console.error('Error requesting refund:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to request refund',
+    });
+  }
+};
+
+/**
+ * Get refunds for an order
+ * GET /api/payments/refunds/order/:orderId
+ */
+export const getOrderRefunds = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const refunds = await refundService.getOrderRefunds(req.params.orderId, userId);
+
+    res.status(200).json({
+      success: true,
+      data: refunds,
+    });
+  } catch (error) {
+    console.error('Error fetching refunds:', error);
+    res.status(404).json({
+      error: error instanceof Error ? error.message : 'Failed to fetch refunds',
+    });
+  }
+};
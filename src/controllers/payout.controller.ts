@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { PayoutService } from '../services/payout.service';
+import walletService from '../services/wallet.service';
+import { payoutScheduleService } from '../services/payout-schedule.service';
+import { webhookEventService } from '../services/webhook-event.service';
 
 const prisma = new PrismaClient();
 const payoutService = new PayoutService();
@@ -207,7 +210,10 @@ export async function requestWithdrawal(req: Request, res: Response) {
 
     res.json({
       success: true,
-      message: 'Withdrawal request submitted successfully',
+      message:
+        payout.status === 'PENDING_APPROVAL'
+          ? 'Withdrawal request submitted for review'
+          : 'Withdrawal request submitted successfully',
       payout: {
         id: payout.id,
         amount: payout.amount,
@@ -229,6 +235,89 @@ export async function requestWithdrawal(req: Request, res: Response) {
   }
 }
 
+/**
+ * GET /api/payouts/schedule
+ * Get the designer's automatic payout schedule (null if none)
+ */
+export async function getPayoutSchedule(req: Request, res: Response) {
+  try {
+    const userId = getAuthenticatedUserId(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const schedule = await payoutScheduleService.getSchedule(userId);
+
+    res.json({
+      success: true,
+      schedule,
+    });
+  } catch (error) {
+    console.error('Get payout schedule error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve payout schedule',
+    });
+  }
+}
+
+/**
+ * PUT /api/payouts/schedule
+ * Create or update the automatic payout schedule
+ * Body: { frequency: DAILY | WEEKLY | THRESHOLD, dayOfWeek?: 0-6, minimumBalance?: number }
+ */
+export async function savePayoutSchedule(req: Request, res: Response) {
+  try {
+    const userId = getAuthenticatedUserId(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const { frequency, dayOfWeek, minimumBalance } = req.body;
+
+    const schedule = await payoutScheduleService.saveSchedule(userId, {
+      frequency,
+      dayOfWeek,
+      minimumBalance,
+    });
+
+    res.json({
+      success: true,
+      message: 'Payout schedule saved successfully',
+      schedule,
+    });
+  } catch (error) {
+    console.error('Save payout schedule error:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to save payout schedule',
+    });
+  }
+}
+
+/**
+ * DELETE /api/payouts/schedule
+ * Turn off automatic payouts
+ */
+export async function disablePayoutSchedule(req: Request, res: Response) {
+  try {
+    const userId = getAuthenticatedUserId(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const schedule = await payoutScheduleService.disableSchedule(userId);
+
+    res.json({
+      success: true,
+      message: 'Automatic payouts turned off',
+      schedule,
+    });
+  } catch (error) {
+    console.error('Disable payout schedule error:', error);
+    res.status(404).json({
+      error: error instanceof Error ? error.message : 'Failed to disable payout schedule',
+    });
+  }
+}
+
 /**
  * GET /api/payouts
  * Get user's payout history
@@ -320,22 +409,24 @@ export async function checkPayoutStatus(req: Request, res: Response) {
 
 /**
  * POST /api/payouts/webhook
- * Handle Interswitch webhook notifications
+ * Handle Interswitch webhook notifications (signed with X-Interswitch-Signature)
  */
 export async function handlePayoutWebhook(req: Request, res: Response) {
   try {
-    // TODO: Add webhook signature verification for security
-    const payload = req.body;
-
-    console.log('Received payout webhook:', payload);
-
-    await payoutService.handleWebhook(payload);
+    const ingested = await webhookEventService.ingest('PAYOUT', {
+      headers: req.headers,
+      rawBody: req.rawBody,
+      body: req.body,
+    });
 
     res.json({
       success: true,
-      message: 'Webhook processed successfully',
+      message: ingested.duplicate ? 'Webhook already received' : 'Webhook processed successfully',
     });
   } catch (error: any) {
+    if (error.message === 'Invalid webhook signature') {
+      return res.status(401).json({ error: error.message });
+    }
     console.error('Webhook processing error:', error);
     // Still return 200 to prevent webhook retries
     res.json({
@@ -347,9 +438,35 @@ export async function handlePayoutWebhook(req: Request, res: Response) {
 
 /**
  * GET /api/payouts/wallet/balance
- * Get Interswitch wallet balance (admin/debugging)
+ * Available, pending (escrow) and on-hold (disputed) balances, with the orders
+ * behind them and their expected release dates
  */
 export async function getWalletBalance(req: Request, res: Response) {
+  try {
+    const userId = getAuthenticatedUserId(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const balance = await walletService.getBalanceBreakdown(userId);
+
+    res.json({
+      success: true,
+      balance,
+    });
+  } catch (error) {
+    console.error('Get wallet balance error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve wallet balance',
+    });
+  }
+}
+
+/**
+ * GET /api/payouts/provider/balance
+ * Get Interswitch wallet balance (admin/debugging)
+ */
+export async function getProviderBalance(req: Request, res: Response) {
   try {
     const balance = await payoutService.getWalletBalance();
 
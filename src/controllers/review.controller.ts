@@ -0,0 +1,125 @@
+/**
+ * Review Controller
+ *
+ * HTTP request handlers for designer/design reviews.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ListReviewsOptions, reviewService } from '../services/review.service';
+import { collectUploadedUrls } from '../utils/uploads';
+
+const parseListOptions = (query: Request['query']): ListReviewsOptions => {
+  const { page = '1', limit = '20', rating, sort } = query;
+
+  return {
+    page: parseInt(page as string),
+    limit: Math.min(parseInt(limit as string) || 20, 50),
+    rating: rating ? parseInt(rating as string) : undefined,
+    sort: sort as ListReviewsOptions['sort'],
+  };
+};
+
+/**
+ * Public reviews for a designer, with rating summary
+ */
+export const getDesignerReviews = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await reviewService.getDesignerReviews(
+      req.params.designerId,
+      parseListOptions(req.query)
+    );
+
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Public reviews for a design, with rating summary
+ */
+export const getDesignReviews = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await reviewService.getDesignReviews(
+      req.params.designId,
+      parseListOptions(req.query)
+    );
+
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Customer edits their review (within the edit window)
+ */
+export const updateReview = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const { comment } = req.body;
+    const rating = req.body.rating !== undefined ? Number(req.body.rating) : undefined;
+
+    if (rating !== undefined && (!Number.isInteger(rating) || rating < 1 || rating > 5)) {
+      return res.status(400).json({
+        error: 'Rating must be a whole number between 1 and 5',
+      });
+    }
+
+    const hasPhotos = (req.files as Express.Multer.File[] | undefined)?.length || req.body.photos;
+    const photos = hasPhotos ? collectUploadedUrls(req, 'photos') : undefined;
+
+    const review = await reviewService.updateReview(id, userId, { rating, comment, photos });
+
+    res.status(200).json(review);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Designer replies to a review of one of their orders
+ */
+export const replyToReview = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const { reply } = req.body;
+
+    if (!reply || !reply.trim()) {
+      return res.status(400).json({
+        error: 'Reply is required',
+      });
+    }
+
+    const review = await reviewService.replyToReview(id, userId, reply);
+
+    res.status(200).json(review);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Report a review for moderation
+ */
+export const flagReview = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const { reason } = req.body;
+
+    if (!reason || reason.trim().length < 5) {
+      return res.status(400).json({
+        error: 'Please provide a reason for flagging this review',
+      });
+    }
+
+    await reviewService.flagReview(id, userId, reason);
+
+    res.status(200).json({ message: 'Review reported. Our team will take a look.' });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,31 @@
+/**
+ * Tracking Controller
+ *
+ * Carrier webhook ingestion for shipment status pushes.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { trackingService } from '../services/tracking.service';
+
+/**
+ * Receive a status push from a carrier
+ * POST /api/tracking/webhooks/:carrier
+ */
+export const handleCarrierWebhook = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { carrier } = req.params;
+
+    const result = await trackingService.ingestWebhook(carrier, {
+      headers: req.headers,
+      rawBody: req.rawBody,
+      body: req.body,
+    });
+
+    res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid webhook signature') {
+      return res.status(401).json({ error: error.message });
+    }
+    next(error);
+  }
+};
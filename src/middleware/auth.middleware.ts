@@ -1,8 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
 import { verifyToken } from '../utils/jwt';
-
-const prisma = new PrismaClient();
+import sessionService from '../services/session.service';
 
 export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -18,17 +16,21 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
     // Verify token
     const decoded = verifyToken(token);
 
-    // Get user from database
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-    });
+    // Tokens issued before sessions existed carry no sid and must log in again
+    if (!decoded.sid) {
+      return res.status(401).json({ message: 'Session expired' });
+    }
+
+    // Get session (and its user) from database; revoked sessions are rejected
+    const session = await sessionService.getActiveSession(decoded.sid);
 
-    if (!user) {
-      return res.status(401).json({ message: 'User not found' });
+    if (!session || session.userId !== decoded.userId) {
+      return res.status(401).json({ message: 'Session expired' });
     }
 
-    // Attach user to request
-    req.user = user;
+    // Attach user and session to request
+    req.user = session.user;
+    req.sessionId = session.id;
 
     next();
   } catch (error: any) {
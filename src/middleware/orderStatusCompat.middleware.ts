@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  ORDER_STATUS_VERSION_HEADER,
+  toLegacyResponse,
+  usesLegacyOrderStatuses,
+} from '../utils/legacy-order-status';
+
+/**
+ * Middleware that returns legacy order status names to older app builds
+ * (clients that don't send X-Order-Status-Version: 2)
+ */
+export const orderStatusCompat = (req: Request, res: Response, next: NextFunction) => {
+  if (!usesLegacyOrderStatuses(req.get(ORDER_STATUS_VERSION_HEADER))) {
+    return next();
+  }
+
+  res.setHeader('Deprecation', 'true');
+
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => json(toLegacyResponse(body));
+
+  next();
+};
@@ -11,10 +11,20 @@ const cloudinaryStorage = new CloudinaryStorage({
     let folder = 'qt-fashion/misc';
     if (file.fieldname.includes('design') || file.fieldname === 'images') {
       folder = 'qt-fashion/designs';
+    } else if (file.fieldname === 'productionPhotos') {
+      folder = 'qt-fashion/production';
+    } else if (file.fieldname === 'alterationPhotos') {
+      folder = 'qt-fashion/alterations';
     } else if (file.fieldname.includes('Photo') || file.fieldname.includes('measurement')) {
       folder = 'qt-fashion/measurements';
     } else if (file.fieldname.includes('user') || file.fieldname.includes('garment')) {
       folder = 'qt-fashion/try-on-temp';
+    } else if (file.fieldname === 'evidence') {
+      folder = 'qt-fashion/disputes';
+    } else if (file.fieldname === 'photos') {
+      folder = 'qt-fashion/reviews';
+    } else if (file.fieldname === 'attachments') {
+      folder = 'qt-fashion/messages';
     }
 
     return {
@@ -10,6 +10,15 @@ import * as feesController from '../controllers/admin/fees.controller';
 import * as usersController from '../controllers/admin/users.controller';
 import * as ordersController from '../controllers/admin/orders.controller';
 import * as eventsController from '../controllers/admin/events.controller';
+import * as disputesController from '../controllers/admin/disputes.controller';
+import * as cancellationsController from '../controllers/admin/cancellations.controller';
+import * as refundsController from '../controllers/admin/refunds.controller';
+import * as reviewsController from '../controllers/admin/reviews.controller';
+import * as jobsController from '../controllers/admin/jobs.controller';
+import * as reconciliationController from '../controllers/admin/reconciliation.controller';
+import * as payoutsController from '../controllers/admin/payouts.controller';
+import * as webhooksController from '../controllers/admin/webhooks.controller';
+import * as vouchersController from '../controllers/admin/vouchers.controller';
 import { createAdmin } from '../controllers/auth.controller';
 
 const router = express.Router();
@@ -145,6 +154,34 @@ router.post('/fees/promotions', feesController.createPromotionalPeriod);
  */
 router.put('/fees/promotions/:id/toggle', feesController.togglePromotionalPeriod);
 
+// ========================================
+// VOUCHER ROUTES
+// ========================================
+
+/**
+ * GET /api/admin/vouchers
+ * List customer vouchers (filter by active)
+ */
+router.get('/vouchers', vouchersController.listVouchers);
+
+/**
+ * POST /api/admin/vouchers
+ * Create a voucher (percentage or fixed, funded by the platform or the designer)
+ */
+router.post('/vouchers', vouchersController.createVoucher);
+
+/**
+ * GET /api/admin/vouchers/:id
+ * Get voucher details with redemption totals
+ */
+router.get('/vouchers/:id', vouchersController.getVoucherById);
+
+/**
+ * PUT /api/admin/vouchers/:id
+ * Update a voucher's terms, limits, validity or active status
+ */
+router.put('/vouchers/:id', vouchersController.updateVoucher);
+
 // ========================================
 // USER MANAGEMENT ROUTES
 // ========================================
@@ -173,6 +210,12 @@ router.get('/users/:id', usersController.getUserById);
  */
 router.patch('/users/:id/status', usersController.updateUserStatus);
 
+/**
+ * GET /api/admin/users/:id/ledger
+ * Ledger accounts for a user, verified against their postings, plus a wallet balance check
+ */
+router.get('/users/:id/ledger', usersController.getUserLedger);
+
 // ========================================
 // ORDER MANAGEMENT ROUTES
 // ========================================
@@ -189,6 +232,212 @@ router.get('/orders', ordersController.getAllOrders);
  */
 router.get('/orders/stats', ordersController.getOrderStats);
 
+/**
+ * GET /api/admin/orders/:orderId/timeline
+ * Get an order's status history
+ */
+router.get('/orders/:orderId/timeline', ordersController.getOrderTimeline);
+
+/**
+ * POST /api/admin/orders/:orderId/status
+ * Move an order to a new status (recorded on the timeline as an admin change)
+ */
+router.post('/orders/:orderId/status', ordersController.updateOrderStatus);
+
+// ========================================
+// DISPUTE ROUTES
+// ========================================
+
+/**
+ * GET /api/admin/orders/disputes
+ * List disputes with pagination and status filter
+ */
+router.get('/orders/disputes', disputesController.getAllDisputes);
+
+/**
+ * GET /api/admin/orders/:orderId/dispute
+ * Get dispute details with message thread and evidence
+ */
+router.get('/orders/:orderId/dispute', disputesController.getOrderDispute);
+
+/**
+ * POST /api/admin/orders/:orderId/dispute/messages
+ * Post an admin message on the dispute thread
+ */
+router.post('/orders/:orderId/dispute/messages', disputesController.addDisputeMessage);
+
+/**
+ * POST /api/admin/orders/:orderId/dispute/resolve
+ * Rule on a dispute (RELEASE_TO_DESIGNER | REFUND_TO_CUSTOMER | PARTIAL_SPLIT)
+ */
+router.post('/orders/:orderId/dispute/resolve', disputesController.resolveDispute);
+
+// ========================================
+// CANCELLATION ROUTES
+// ========================================
+
+/**
+ * GET /api/admin/orders/cancellations
+ * List cancellation requests with pagination and status filter
+ */
+router.get('/orders/cancellations', cancellationsController.getAllCancellations);
+
+/**
+ * POST /api/admin/orders/:orderId/cancellation/resolve
+ * Approve (cancel and settle) or reject an order's open cancellation request
+ */
+router.post('/orders/:orderId/cancellation/resolve', cancellationsController.resolveCancellation);
+
+// ========================================
+// REFUND ROUTES
+// ========================================
+
+/**
+ * GET /api/admin/refunds
+ * List refunds with pagination and status filter
+ */
+router.get('/refunds', refundsController.getAllRefunds);
+
+/**
+ * POST /api/admin/refunds
+ * Issue a full or partial refund for an order
+ */
+router.post('/refunds', refundsController.createRefund);
+
+/**
+ * GET /api/admin/refunds/:id
+ * Get refund details
+ */
+router.get('/refunds/:id', refundsController.getRefundById);
+
+/**
+ * POST /api/admin/refunds/:id/retry
+ * Resubmit a failed or unsubmitted refund
+ */
+router.post('/refunds/:id/retry', refundsController.retryRefund);
+
+/**
+ * POST /api/admin/refunds/:id/sync
+ * Query the provider for the latest refund status
+ */
+router.post('/refunds/:id/sync', refundsController.syncRefund);
+
+// ========================================
+// PAYOUT ROUTES
+// ========================================
+
+/**
+ * GET /api/admin/payouts
+ * List payouts (filter by status, e.g. PENDING_APPROVAL, and userId)
+ */
+router.get('/payouts', payoutsController.getPayouts);
+
+/**
+ * GET /api/admin/payouts/:id
+ * Get payout details with its audit trail
+ */
+router.get('/payouts/:id', payoutsController.getPayoutById);
+
+/**
+ * POST /api/admin/payouts/:id/approve
+ * Approve a withdrawal waiting in the approval queue
+ */
+router.post('/payouts/:id/approve', payoutsController.approvePayout);
+
+/**
+ * POST /api/admin/payouts/:id/reject
+ * Reject a queued withdrawal and refund the wallet (reason required)
+ */
+router.post('/payouts/:id/reject', payoutsController.rejectPayout);
+
+/**
+ * POST /api/admin/payouts/:id/retry
+ * Retry a payout now (PENDING retries, or a new attempt for a FAILED payout)
+ */
+router.post('/payouts/:id/retry', payoutsController.retryPayout);
+
+// ========================================
+// WEBHOOK EVENT ROUTES
+// ========================================
+
+/**
+ * GET /api/admin/webhooks
+ * List stored webhook events (filter by source, status, eventId)
+ */
+router.get('/webhooks', webhooksController.getWebhookEvents);
+
+/**
+ * GET /api/admin/webhooks/:id
+ * Get a stored webhook event with its payload
+ */
+router.get('/webhooks/:id', webhooksController.getWebhookEventById);
+
+/**
+ * POST /api/admin/webhooks/:id/replay
+ * Reprocess a stored webhook event (409 if it is being processed)
+ */
+router.post('/webhooks/:id/replay', webhooksController.replayWebhookEvent);
+
+// ========================================
+// REVIEW MODERATION ROUTES
+// ========================================
+
+/**
+ * GET /api/admin/reviews
+ * List reviews (filter by status, e.g. FLAGGED, and designerId)
+ */
+router.get('/reviews', reviewsController.getAllReviews);
+
+/**
+ * PATCH /api/admin/reviews/:id/moderate
+ * Publish or hide a review (action: PUBLISH | HIDE)
+ */
+router.patch('/reviews/:id/moderate', reviewsController.moderateReview);
+
+// ========================================
+// SCHEDULED JOB ROUTES
+// ========================================
+
+/**
+ * GET /api/admin/jobs
+ * List scheduled jobs with lock state and last run
+ */
+router.get('/jobs', jobsController.getJobs);
+
+/**
+ * GET /api/admin/jobs/:name/runs
+ * Run history for a job (paginated, newest first)
+ */
+router.get('/jobs/:name/runs', jobsController.getJobRuns);
+
+/**
+ * POST /api/admin/jobs/:name/run
+ * Trigger a job manually (409 if it is already running)
+ */
+router.post('/jobs/:name/run', jobsController.triggerJob);
+
+// ========================================
+// RECONCILIATION ROUTES
+// ========================================
+
+/**
+ * POST /api/admin/reconciliation/run
+ * Reconcile wallets, escrow and payouts against history now
+ */
+router.post('/reconciliation/run', reconciliationController.runReconciliation);
+
+/**
+ * GET /api/admin/reconciliation/reports
+ * List reconciliation reports (filter by status: CLEAN | DRIFT)
+ */
+router.get('/reconciliation/reports', reconciliationController.getReports);
+
+/**
+ * GET /api/admin/reconciliation/reports/:id
+ * Get a report with its per-user and per-order mismatches
+ */
+router.get('/reconciliation/reports/:id', reconciliationController.getReportById);
+
 // ========================================
 // DASHBOARD & ANALYTICS ROUTES
 // ========================================
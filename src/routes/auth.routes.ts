@@ -3,6 +3,13 @@ import {
   signup,
   login,
   logout,
+  refreshToken,
+  getSessions,
+  revokeSession,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
   getProfile,
   updatePushToken,
   removePushToken,
@@ -88,6 +95,15 @@ router.post('/signup', signup);
  *               properties:
  *                 token:
  *                   type: string
+ *                   description: Short-lived access token
+ *                 expiresIn:
+ *                   type: number
+ *                   description: Access token lifetime in seconds
+ *                 refreshToken:
+ *                   type: string
+ *                 refreshTokenExpiresAt:
+ *                   type: string
+ *                   format: date-time
  *                 user:
  *                   $ref: '#/components/schemas/User'
  *       401:
@@ -116,13 +132,42 @@ router.post('/login', login);
  */
 router.get('/profile', authenticate, getProfile);
 
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Exchange a refresh token for a new access token
+ *     description: |
+ *       The refresh token is rotated on every call; store the new one.
+ *       Re-using an old refresh token revokes the whole session.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New access and refresh tokens
+ *       401:
+ *         description: Refresh token invalid, expired or revoked
+ */
+router.post('/refresh', refreshToken);
+
 /**
  * @swagger
  * /api/auth/logout:
  *   post:
  *     tags:
  *       - Authentication
- *     summary: Logout user
+ *     summary: Logout user (revokes the current session)
  *     security:
  *       - bearerAuth: []
  *     responses:
@@ -133,6 +178,154 @@ router.get('/profile', authenticate, getProfile);
  */
 router.post('/logout', authenticate, logout);
 
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     tags:
+ *       - Authentication
+ *     summary: List active sessions (logged-in devices)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, the current one flagged with current=true
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/sessions', authenticate, getSessions);
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     tags:
+ *       - Authentication
+ *     summary: Revoke a session (log out another device)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Session not found
+ */
+router.delete('/sessions/:id', authenticate, revokeSession);
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Email a password reset link
+ *     description: Always returns 200 so the endpoint can't be used to check which emails are registered.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ *       400:
+ *         description: Invalid email
+ */
+router.post('/forgot-password', forgotPassword);
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Set a new password using the emailed reset token
+ *     description: The token is single-use and expires after 1 hour. All sessions are logged out.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 minLength: 6
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *       400:
+ *         description: Invalid or expired token
+ */
+router.post('/reset-password', resetPassword);
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Confirm an email address using the emailed verification token
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *       400:
+ *         description: Invalid or expired token
+ */
+router.post('/verify-email', verifyEmail);
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Send a new email verification link to the current user
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Email already verified
+ *       429:
+ *         description: Sent too recently
+ */
+router.post('/resend-verification', authenticate, resendVerification);
+
 /**
  * @swagger
  * /api/auth/push-token:
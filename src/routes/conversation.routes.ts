@@ -0,0 +1,207 @@
+/**
+ * Conversation Routes
+ *
+ * Customer <-> designer messaging scoped to an offer, custom request bid or order.
+ * New messages and read receipts are also delivered live over /api/events/stream
+ * (domain: "message").
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import * as conversationController from '../controllers/conversation.controller';
+import { upload } from '../middleware/upload';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/conversations:
+ *   get:
+ *     tags:
+ *       - Messaging
+ *     summary: List my conversations
+ *     description: Most recent activity first, each with an unreadCount.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Conversations with pagination
+ */
+router.get('/', conversationController.getConversations);
+
+/**
+ * @swagger
+ * /api/conversations/unread-count:
+ *   get:
+ *     tags:
+ *       - Messaging
+ *     summary: Total unread messages
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Unread message count
+ */
+router.get('/unread-count', conversationController.getUnreadCount);
+
+/**
+ * @swagger
+ * /api/conversations:
+ *   post:
+ *     tags:
+ *       - Messaging
+ *     summary: Open the conversation for an offer, bid or order
+ *     description: Returns the existing conversation or creates it. Provide exactly one id.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               offerId:
+ *                 type: string
+ *               bidId:
+ *                 type: string
+ *               orderId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Conversation
+ *       400:
+ *         description: Zero or several scope ids provided
+ *       403:
+ *         description: Not the customer or designer involved
+ */
+router.post('/', conversationController.openConversation);
+
+/**
+ * @swagger
+ * /api/conversations/{id}:
+ *   get:
+ *     tags:
+ *       - Messaging
+ *     summary: Get a conversation
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Conversation with participants and context
+ *       404:
+ *         description: Conversation not found
+ */
+router.get('/:id', conversationController.getConversation);
+
+/**
+ * @swagger
+ * /api/conversations/{id}/messages:
+ *   get:
+ *     tags:
+ *       - Messaging
+ *     summary: Get messages (newest first)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *         description: Message id to page back from
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *     responses:
+ *       200:
+ *         description: Messages and hasMore flag
+ */
+router.get('/:id/messages', conversationController.getMessages);
+
+/**
+ * @swagger
+ * /api/conversations/{id}/messages:
+ *   post:
+ *     tags:
+ *       - Messaging
+ *     summary: Send a message
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               body:
+ *                 type: string
+ *               attachments:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Message sent
+ *       400:
+ *         description: Empty message
+ */
+router.post('/:id/messages', upload.array('attachments', 5), conversationController.sendMessage);
+
+/**
+ * @swagger
+ * /api/conversations/{id}/read:
+ *   post:
+ *     tags:
+ *       - Messaging
+ *     summary: Mark the other participant's messages as read
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Number of messages marked read
+ */
+router.post('/:id/read', conversationController.markAsRead);
+
+export default router;
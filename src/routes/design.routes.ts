@@ -39,6 +39,19 @@ const router = Router();
  *           type: string
  *         description: Search term
  *       - in: query
+ *         name: minRating
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *           maximum: 5
+ *         description: Only designs with at least this average rating
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [newest, price-asc, price-desc, rating, most-reviewed]
+ *         description: Sort order (default newest)
+ *       - in: query
  *         name: page
  *         schema:
  *           type: integer
@@ -265,6 +278,16 @@ router.delete(
  *     tags:
  *       - Designs
  *     summary: Get all designers (public)
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [most-designs, newest, a-z, top-rated]
  *     responses:
  *       200:
  *         description: List of designers
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { authenticate } from '../middleware/auth.middleware';
 import { realtimeEventService } from '../services/realtime-event.service';
+import { ORDER_STATUS_VERSION_HEADER, usesLegacyOrderStatuses } from '../utils/legacy-order-status';
 
 const router = Router();
 
@@ -11,7 +12,10 @@ router.get('/stream', authenticate, (req: Request, res: Response) => {
     return res.status(401).json({ message: 'Unauthorized' });
   }
 
-  realtimeEventService.subscribe(userId, res);
+  // Older app builds get legacy order status names unless they send X-Order-Status-Version: 2
+  realtimeEventService.subscribe(userId, res, {
+    legacyOrderStatuses: usesLegacyOrderStatuses(req.get(ORDER_STATUS_VERSION_HEADER)),
+  });
 });
 
 export default router;
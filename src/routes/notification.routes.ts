@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { authenticate } from '../middleware/auth.middleware';
+import { orderStatusCompat } from '../middleware/orderStatusCompat.middleware';
 import {
   getNotifications,
   getUnreadCount,
@@ -13,6 +14,9 @@ const router = Router();
 // All notification routes require authentication
 router.use(authenticate);
 
+// Older app builds get legacy status names unless they send X-Order-Status-Version: 2
+router.use(orderStatusCompat);
+
 // Get user's notifications with optional filters
 router.get('/', getNotifications);
 
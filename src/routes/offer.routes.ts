@@ -129,6 +129,8 @@ router.put(
  *     responses:
  *       200:
  *         description: Counter offer sent
+ *       400:
+ *         description: Maximum negotiation rounds reached
  *       403:
  *         description: Designer role required
  */
@@ -206,6 +208,8 @@ router.put(
  *     responses:
  *       200:
  *         description: Counter offer sent
+ *       400:
+ *         description: Maximum negotiation rounds reached
  *       403:
  *         description: Customer role required
  */
@@ -298,6 +302,11 @@ router.get('/', offerController.getOffers);
  *     tags:
  *       - Offers
  *     summary: Get offer details
+ *     description: |
+ *       Includes `rounds`, the negotiation history in order (who offered, countered,
+ *       accepted, rejected or withdrew, with the price, deadline and note of each step),
+ *       and `negotiation` with roundsUsed, maxRounds and roundsRemaining.
+ *       Counter offers are limited by the `offer_max_negotiation_rounds` setting.
  *     security:
  *       - bearerAuth: []
  *     parameters:
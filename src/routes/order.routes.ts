@@ -8,12 +8,17 @@ import { Router } from 'express';
 import { authenticate, requireRole } from '../middleware/auth.middleware';
 import { requireVerifiedAccount } from '../middleware/verifyAccount.middleware';
 import * as orderController from '../controllers/order.controller';
+import { upload } from '../middleware/upload';
+import { orderStatusCompat } from '../middleware/orderStatusCompat.middleware';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticate);
 
+// Older app builds get legacy status names unless they send X-Order-Status-Version: 2
+router.use(orderStatusCompat);
+
 /**
  * @swagger
  * /api/orders:
@@ -25,6 +30,9 @@ router.use(authenticate);
  *       Returns orders for authenticated user.
  *       - Customers see their own orders
  *       - Designers see orders for their designs
+ *
+ *       Clients that don't send `X-Order-Status-Version: 2` get the deprecated legacy
+ *       status names (PENDING, CONSTRUCTION, QUALITY_CHECK, SHIPPING) on all order routes.
  *     security:
  *       - bearerAuth: []
  *     responses:
@@ -44,7 +52,7 @@ router.use(authenticate);
  *                     example: "QT-2024-00001"
  *                   status:
  *                     type: string
- *                     enum: [PENDING, SOURCING, CONSTRUCTION, QUALITY_CHECK, SHIPPING, DELIVERED, CANCELLED]
+ *                     enum: [PAID, IN_PRODUCTION, READY_TO_SHIP, SHIPPED, DELIVERED, AWAITING_CONFIRMATION, COMPLETED, DISPUTED, REFUNDED, CANCELLED]
  *                   finalPrice:
  *                     type: number
  *                   customer:
@@ -140,7 +148,7 @@ router.get('/:orderId', orderController.getOrderById);
  *     tags:
  *       - Orders
  *     summary: Update order status (Designer only)
- *     description: Designer can update the order status to track progress
+ *     description: Designer can update the order status to track progress. Legacy statuses sent by older app builds are read as their current equivalent (SOURCING, CONSTRUCTION and QUALITY_CHECK as IN_PRODUCTION).
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -160,7 +168,7 @@ router.get('/:orderId', orderController.getOrderById);
  *             properties:
  *               status:
  *                 type: string
- *                 enum: [PENDING, SOURCING, CONSTRUCTION, QUALITY_CHECK, SHIPPING, DELIVERED, CANCELLED]
+ *                 enum: [IN_PRODUCTION, READY_TO_SHIP]
  *               progressNotes:
  *                 type: string
  *     responses:
@@ -234,7 +242,11 @@ router.patch('/:orderId/production', requireVerifiedAccount, orderController.upd
  *     tags:
  *       - Orders
  *     summary: Update single production step (Designer only)
- *     description: Designer updates status of a specific production step
+ *     description: |
+ *       Designer updates the status of a specific production step, optionally posting
+ *       a note and progress photos that are shown to the customer. A step can't be
+ *       marked completed while the customer has open change requests on it; pass
+ *       changeRequestId to address one with this update.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -252,6 +264,27 @@ router.patch('/:orderId/production', requireVerifiedAccount, orderController.upd
  *     requestBody:
  *       required: true
  *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [pending, in_progress, completed]
+ *               completedAt:
+ *                 type: string
+ *                 format: date-time
+ *               notes:
+ *                 type: string
+ *               changeRequestId:
+ *                 type: string
+ *                 description: Open change request this update addresses
+ *               productionPhotos:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                   format: binary
  *         application/json:
  *           schema:
  *             type: object
@@ -264,15 +297,157 @@ router.patch('/:orderId/production', requireVerifiedAccount, orderController.upd
  *                 format: date-time
  *               notes:
  *                 type: string
+ *               changeRequestId:
+ *                 type: string
+ *               productionPhotos:
+ *                 type: array
+ *                 description: Image URLs already uploaded via /api/uploads/images
+ *                 items:
+ *                   type: string
  *     responses:
  *       200:
  *         description: Production step updated
+ *       400:
+ *         description: Open change requests on the step, or invalid update
  *       401:
  *         description: Unauthorized
  *       404:
  *         description: Order or step not found
  */
-router.patch('/:orderId/production/steps/:stepId', orderController.updateProductionStep);
+router.patch(
+  '/:orderId/production/steps/:stepId',
+  upload.array('productionPhotos', 5),
+  orderController.updateProductionStep
+);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/production/updates:
+ *   get:
+ *     tags:
+ *       - Orders
+ *     summary: Get production progress
+ *     description: Production steps with the designer's updates and the customer's change requests on each
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Production steps with updates and change requests
+ *       404:
+ *         description: Order not found
+ */
+router.get('/:orderId/production/updates', orderController.getProductionUpdates);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/production/updates/{updateId}/reaction:
+ *   post:
+ *     tags:
+ *       - Orders
+ *     summary: React to a production update (Customer only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: updateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reaction
+ *             properties:
+ *               reaction:
+ *                 type: string
+ *                 enum: [LOVE, LIKE, UNSURE]
+ *     responses:
+ *       200:
+ *         description: Reaction saved
+ *       400:
+ *         description: Invalid reaction
+ *       404:
+ *         description: Order or update not found
+ */
+router.post(
+  '/:orderId/production/updates/:updateId/reaction',
+  requireRole('CUSTOMER'),
+  orderController.reactToProductionUpdate
+);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/production/steps/{stepId}/change-requests:
+ *   post:
+ *     tags:
+ *       - Orders
+ *     summary: Ask for changes on a production step (Customer only)
+ *     description: |
+ *       Customer asks for changes on a step that isn't completed yet. The designer
+ *       can't mark the step completed until an update addresses the request.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: stepId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The step name (e.g., "Fabric Sourcing")
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - message
+ *             properties:
+ *               message:
+ *                 type: string
+ *               productionUpdateId:
+ *                 type: string
+ *                 description: The update being responded to
+ *               productionPhotos:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Change request created
+ *       400:
+ *         description: Missing message, step already completed or production finished
+ *       404:
+ *         description: Order, step or update not found
+ */
+router.post(
+  '/:orderId/production/steps/:stepId/change-requests',
+  requireRole('CUSTOMER'),
+  upload.array('productionPhotos', 5),
+  orderController.requestProductionChange
+);
 
 /**
  * @swagger
@@ -325,6 +500,58 @@ router.patch('/:orderId/production/steps/:stepId', orderController.updateProduct
  */
 router.post('/:orderId/shipment', requireVerifiedAccount, orderController.addShipment);
 
+/**
+ * @swagger
+ * /api/orders/{orderId}/tracking:
+ *   get:
+ *     tags:
+ *       - Orders
+ *     summary: Get shipment tracking history
+ *     description: Returns the carrier scan history for the order, newest first, with the latest normalized tracking status.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tracking history
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Order not found
+ */
+router.get('/:orderId/tracking', orderController.getTrackingHistory);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/timeline:
+ *   get:
+ *     tags:
+ *       - Orders
+ *     summary: Get order status timeline
+ *     description: Returns every status change on the order, oldest first, with who made it (customer, designer, admin or system) and any note.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Status timeline
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Order not found
+ */
+router.get('/:orderId/timeline', orderController.getOrderTimeline);
+
 /**
  * @swagger
  * /api/orders/{orderId}/confirm-delivery:
@@ -332,7 +559,8 @@ router.post('/:orderId/shipment', requireVerifiedAccount, orderController.addShi
  *     tags:
  *       - Orders
  *     summary: Confirm delivery (Customer only)
- *     description: Customer confirms receipt of order and optionally provides rating/review. Releases payment from escrow.
+ *     deprecated: true
+ *     description: Kept for older app builds; behaves exactly like confirm-receipt. Customer confirms receipt of order and optionally provides rating/review. Releases payment from escrow, less the platform fee.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -403,7 +631,7 @@ router.post('/:orderId/confirm-delivery', orderController.confirmDelivery);
  *       200:
  *         description: Receipt confirmed, payment released
  *       400:
- *         description: Invalid rating or order status
+ *         description: Invalid rating or order status, or an alteration is still open
  *       401:
  *         description: Unauthorized
  *       404:
@@ -413,12 +641,100 @@ router.post('/:orderId/confirm-receipt', orderController.confirmReceipt);
 
 /**
  * @swagger
- * /api/orders/{orderId}/dispute:
+ * /api/orders/{orderId}/invoice:
+ *   get:
+ *     tags:
+ *       - Orders
+ *     summary: List invoices for an order
+ *     description: |
+ *       Returns the caller's invoices for the order with their itemised lines.
+ *       - Customers get a receipt for each captured payment
+ *       - Designers get an earnings statement once payment is released
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoices, oldest first
+ *       404:
+ *         description: Order not found
+ */
+router.get('/:orderId/invoice', orderController.getOrderInvoices);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/invoice/{invoiceId}:
+ *   get:
+ *     tags:
+ *       - Orders
+ *     summary: Get or download an invoice
+ *     description: Returns the invoice as JSON, or renders it as HTML or a PDF download.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: invoiceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, html, pdf]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Invoice
+ *       400:
+ *         description: Invalid format
+ *       404:
+ *         description: Invoice not found
+ */
+router.get('/:orderId/invoice/:invoiceId', orderController.getOrderInvoice);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/cancellation:
+ *   get:
+ *     tags:
+ *       - Orders
+ *     summary: Get cancellation requests
+ *     description: Returns the order's cancellation requests, newest first, and what cancelling now would settle to under the cancellation policy (or why the order can't be cancelled).
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Cancellation requests and quote
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Order not found
  *   post:
  *     tags:
  *       - Orders
- *     summary: Open dispute
- *     description: Customer opens a dispute for an order. Freezes payment until resolved.
+ *     summary: Request cancellation
+ *     description: |
+ *       Customer or designer asks to cancel the order; the other party accepts or contests it.
+ *       - Before production starts: full refund
+ *       - Once production has started: the policy percentage of the amount paid goes to the designer when the customer cancels
+ *       - Once shipped: not possible
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -439,18 +755,543 @@ router.post('/:orderId/confirm-receipt', orderController.confirmReceipt);
  *               reason:
  *                 type: string
  *                 minLength: 10
- *                 example: "The item doesn't match the design agreed upon. Wrong color and size."
+ *                 example: "I no longer need the outfit for the event."
  *     responses:
- *       200:
- *         description: Dispute opened successfully
+ *       201:
+ *         description: Cancellation requested
  *       400:
- *         description: Invalid reason or buyer protection expired
+ *         description: Invalid reason or the order can't be cancelled
  *       401:
  *         description: Unauthorized
  *       404:
  *         description: Order not found
+ *       409:
+ *         description: A cancellation request is already open for this order
+ */
+router.get('/:orderId/cancellation', orderController.getCancellation);
+router.post('/:orderId/cancellation', orderController.requestCancellation);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/cancellation/respond:
+ *   post:
+ *     tags:
+ *       - Orders
+ *     summary: Respond to a cancellation request
+ *     description: The other party accepts the request (the order is cancelled, the customer refunded and the designer compensated automatically) or contests it for an admin to rule on.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accept
+ *             properties:
+ *               accept:
+ *                 type: boolean
+ *               note:
+ *                 type: string
+ *                 description: Required when contesting
+ *     responses:
+ *       200:
+ *         description: Request accepted and settled, or contested
+ *       400:
+ *         description: Missing note, or the request can no longer be answered
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Can't respond to your own request
+ *       404:
+ *         description: Order or open request not found
+ */
+router.post('/:orderId/cancellation/respond', orderController.respondToCancellation);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/alterations:
+ *   get:
+ *     tags:
+ *       - Orders
+ *     summary: Get alteration requests for an order
+ *     description: The order's alteration and remake requests, newest first (customer or designer)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Alteration requests
+ *       404:
+ *         description: Order not found
+ *   post:
+ *     tags:
+ *       - Orders
+ *     summary: Request an alteration or remake (Customer only)
+ *     description: |
+ *       During the confirmation window of a delivered order, the customer describes the
+ *       fit problem against their body measurements. The order's auto-confirm countdown
+ *       is paused until the request is declined or withdrawn, or the altered garment
+ *       is delivered.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - description
+ *               - fitIssues
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [ALTERATION, REMAKE]
+ *                 default: ALTERATION
+ *               description:
+ *                 type: string
+ *                 minLength: 10
+ *                 example: "The waist is too tight and the sleeves are too long."
+ *               bodyMeasurementId:
+ *                 type: string
+ *                 description: Defaults to the customer's active measurement
+ *               fitIssues:
+ *                 type: string
+ *                 description: JSON array of fit issues
+ *                 example: '[{"measurement":"waist","issue":"TOO_TIGHT","adjustmentCm":2}]'
+ *               alterationPhotos:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - description
+ *               - fitIssues
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [ALTERATION, REMAKE]
+ *               description:
+ *                 type: string
+ *               bodyMeasurementId:
+ *                 type: string
+ *               fitIssues:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - measurement
+ *                     - issue
+ *                   properties:
+ *                     measurement:
+ *                       type: string
+ *                       enum: [bust, underbust, chest, waist, hips, height, shoulder, armLength, inseam, neck]
+ *                     issue:
+ *                       type: string
+ *                       enum: [TOO_TIGHT, TOO_LOOSE, TOO_LONG, TOO_SHORT]
+ *                     adjustmentCm:
+ *                       type: number
+ *                     note:
+ *                       type: string
+ *               alterationPhotos:
+ *                 type: array
+ *                 description: Image URLs already uploaded via /api/uploads/images
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: Alteration requested, countdown paused
+ *       400:
+ *         description: Invalid fit issues, or the confirmation window has closed
+ *       404:
+ *         description: Order or body measurement not found
+ *       409:
+ *         description: An alteration request is already open for this order
+ */
+router.get('/:orderId/alterations', orderController.getAlterations);
+router.post(
+  '/:orderId/alterations',
+  requireRole('CUSTOMER'),
+  upload.array('alterationPhotos', 5),
+  orderController.requestAlteration
+);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/alterations/respond:
+ *   post:
+ *     tags:
+ *       - Orders
+ *     summary: Respond to an alteration request (Designer only)
+ *     description: Accept the open request with a turnaround, or decline it with a note (the countdown resumes).
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accept
+ *             properties:
+ *               accept:
+ *                 type: boolean
+ *               turnaroundDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 30
+ *                 description: Required when accepting
+ *               note:
+ *                 type: string
+ *                 description: Required when declining
+ *     responses:
+ *       200:
+ *         description: Request accepted or declined
+ *       400:
+ *         description: Missing turnaround or note, or the request was already answered
+ *       404:
+ *         description: Order or open request not found
+ */
+router.post(
+  '/:orderId/alterations/respond',
+  requireRole('DESIGNER'),
+  orderController.respondToAlteration
+);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/alterations/withdraw:
+ *   post:
+ *     tags:
+ *       - Orders
+ *     summary: Withdraw an alteration request (Customer only)
+ *     description: Withdraw the open request before the designer accepts it. The countdown resumes.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Request withdrawn
+ *       400:
+ *         description: Already accepted by the designer
+ *       404:
+ *         description: Order or open request not found
+ */
+router.post(
+  '/:orderId/alterations/withdraw',
+  requireRole('CUSTOMER'),
+  orderController.withdrawAlteration
+);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/alterations/shipment:
+ *   post:
+ *     tags:
+ *       - Orders
+ *     summary: Ship the altered garment back (Designer only)
+ *     description: Records the return shipment. Carrier tracking marks it delivered and resumes the countdown.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - carrier
+ *               - trackingNumber
+ *             properties:
+ *               carrier:
+ *                 type: string
+ *                 example: "GIG Logistics"
+ *               trackingNumber:
+ *                 type: string
+ *                 example: "1234567890"
+ *     responses:
+ *       200:
+ *         description: Return shipment recorded
+ *       400:
+ *         description: Missing tracking details, or the alteration isn't accepted
+ *       404:
+ *         description: Order or open request not found
+ */
+router.post(
+  '/:orderId/alterations/shipment',
+  requireRole('DESIGNER'),
+  orderController.addAlterationShipment
+);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/alterations/confirm-delivery:
+ *   post:
+ *     tags:
+ *       - Orders
+ *     summary: Confirm the altered garment was received (Customer only)
+ *     description: For hand deliveries or when tracking lags. Resumes the countdown, leaving at least 3 days to check the fit.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Alteration delivered, countdown resumed
+ *       400:
+ *         description: Not accepted yet, or already delivered
+ *       404:
+ *         description: Order or open request not found
+ */
+router.post(
+  '/:orderId/alterations/confirm-delivery',
+  requireRole('CUSTOMER'),
+  orderController.confirmAlterationDelivery
+);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/dispute:
+ *   post:
+ *     tags:
+ *       - Orders
+ *     summary: Open dispute
+ *     description: Customer opens a dispute for an order. Freezes payment until resolved.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 minLength: 10
+ *                 example: "The item doesn't match the design agreed upon. Wrong color and size."
+ *               evidence:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *                 maxItems: 5
+ *     responses:
+ *       200:
+ *         description: Dispute opened successfully
+ *       400:
+ *         description: Invalid reason or buyer protection expired
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: A dispute already exists for this order
+ */
+router.post('/:orderId/dispute', upload.array('evidence', 5), orderController.openDispute);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/dispute:
+ *   get:
+ *     tags:
+ *       - Orders
+ *     summary: Get dispute thread
+ *     description: Returns the dispute for an order with its full message thread and evidence. Customer or designer of the order only.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dispute with messages
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Dispute not found
+ */
+router.get('/:orderId/dispute', orderController.getDispute);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/dispute/messages:
+ *   post:
+ *     tags:
+ *       - Orders
+ *     summary: Reply on dispute thread
+ *     description: |
+ *       Customer adds more evidence or the designer responds to the dispute.
+ *       The designer's first reply moves the dispute to UNDER_REVIEW.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               message:
+ *                 type: string
+ *               evidence:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *                 maxItems: 5
+ *     responses:
+ *       201:
+ *         description: Message posted
+ *       400:
+ *         description: Message or evidence is required, or dispute already resolved
+ *       404:
+ *         description: Dispute not found
+ */
+router.post(
+  '/:orderId/dispute/messages',
+  upload.array('evidence', 5),
+  orderController.addDisputeMessage
+);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/review:
+ *   post:
+ *     tags:
+ *       - Orders
+ *     summary: Review an order
+ *     description: |
+ *       Customer rates a delivered or completed order (one review per order).
+ *       The review can be edited via PATCH /api/reviews/{id} until its edit window closes.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               comment:
+ *                 type: string
+ *               photos:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Review created
+ *       400:
+ *         description: Invalid rating or order not yet delivered
+ *       409:
+ *         description: Order already reviewed
+ */
+router.post(
+  '/:orderId/review',
+  requireRole('CUSTOMER'),
+  upload.array('photos', 5),
+  orderController.createReview
+);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/review:
+ *   get:
+ *     tags:
+ *       - Orders
+ *     summary: Get the review for an order
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Review details
+ *       404:
+ *         description: Order has no review
  */
-router.post('/:orderId/dispute', orderController.openDispute);
+router.get('/:orderId/review', orderController.getOrderReview);
 
 /**
  * @swagger
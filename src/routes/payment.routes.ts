@@ -2,9 +2,12 @@ import { Router } from 'express';
 import { authenticate } from '../middleware/auth.middleware';
 import {
   initiatePayment,
+  validateVoucher,
   verifyPayment,
   handleWebhook,
   getPaymentByRef,
+  requestRefund,
+  getOrderRefunds,
 } from '../controllers/payment.controller';
 
 const router = Router();
@@ -16,6 +19,13 @@ const router = Router();
  */
 router.post('/initiate', authenticate, initiatePayment);
 
+/**
+ * @route   POST /api/payments/vouchers/validate
+ * @desc    Check a voucher code against an accepted offer and preview the discount
+ * @access  Private (Customer)
+ */
+router.post('/vouchers/validate', authenticate, validateVoucher);
+
 /**
  * @route   POST /api/payments/verify
  * @desc    Verify payment and create order
@@ -25,11 +35,32 @@ router.post('/verify', authenticate, verifyPayment);
 
 /**
  * @route   POST /api/payments/webhook
- * @desc    Handle Interswitch webhook notifications
+ * @desc    Handle Interswitch webhook notifications (X-Interswitch-Signature required)
  * @access  Public (Webhook)
  */
 router.post('/webhook', handleWebhook);
 
+/**
+ * @route   POST /api/payments/webhook/:provider
+ * @desc    Handle webhook notifications from a payment provider (interswitch | paystack | flutterwave)
+ * @access  Public (Webhook, signature required)
+ */
+router.post('/webhook/:provider', handleWebhook);
+
+/**
+ * @route   POST /api/payments/refunds
+ * @desc    Request a refund for a cancelled order
+ * @access  Private (Customer)
+ */
+router.post('/refunds', authenticate, requestRefund);
+
+/**
+ * @route   GET /api/payments/refunds/order/:orderId
+ * @desc    Get refunds for an order
+ * @access  Private (Customer)
+ */
+router.get('/refunds/order/:orderId', authenticate, getOrderRefunds);
+
 /**
  * @route   GET /api/payments/:txnRef
  * @desc    Get payment transaction by reference
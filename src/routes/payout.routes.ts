@@ -1,10 +1,13 @@
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, requireRole } from '../middleware/auth.middleware';
 import * as payoutController from '../controllers/payout.controller';
 
 const router = Router();
 
-// All routes require authentication
+// Webhook endpoint (no auth required - signature verified in controller)
+router.post('/webhook', payoutController.handlePayoutWebhook);
+
+// All other routes require authentication
 router.use(authenticate);
 
 /**
@@ -24,6 +27,14 @@ router.get('/bank-details', payoutController.getBankDetails);
  * Withdrawal/Payout Operations
  */
 
+// Available, pending (escrow) and on-hold (disputed) balances
+router.get('/wallet/balance', payoutController.getWalletBalance);
+
+// Automatic payout schedule (daily, weekly or balance threshold)
+router.get('/schedule', payoutController.getPayoutSchedule);
+router.put('/schedule', payoutController.savePayoutSchedule);
+router.delete('/schedule', payoutController.disablePayoutSchedule);
+
 // Request a withdrawal
 router.post('/request', payoutController.requestWithdrawal);
 
@@ -37,13 +48,10 @@ router.get('/:id', payoutController.getPayoutDetails);
 router.get('/:transactionReference/status', payoutController.checkPayoutStatus);
 
 /**
- * Webhook & Admin
+ * Admin
  */
 
-// Webhook endpoint (no auth required - handled in controller)
-router.post('/webhook', payoutController.handlePayoutWebhook);
-
 // Get Interswitch wallet balance (for monitoring)
-router.get('/wallet/balance', payoutController.getWalletBalance);
+router.get('/provider/balance', requireRole('ADMIN'), payoutController.getProviderBalance);
 
 export default router;
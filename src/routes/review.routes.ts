@@ -0,0 +1,214 @@
+/**
+ * Review Routes
+ *
+ * Public review listings plus review edits, designer replies and flagging.
+ * Reviews are created per order: POST /api/orders/{orderId}/review
+ */
+
+import { Router } from 'express';
+import { authenticate, requireRole } from '../middleware/auth.middleware';
+import * as reviewController from '../controllers/review.controller';
+import { upload } from '../middleware/upload';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/reviews/designer/{designerId}:
+ *   get:
+ *     tags:
+ *       - Reviews
+ *     summary: Get a designer's reviews (public)
+ *     description: Returns visible reviews plus the designer's average rating and rating distribution.
+ *     parameters:
+ *       - in: path
+ *         name: designerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: rating
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 5
+ *         description: Only reviews with this star rating
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, highest, lowest]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Reviews with summary and pagination
+ *       404:
+ *         description: Designer not found
+ */
+router.get('/designer/:designerId', reviewController.getDesignerReviews);
+
+/**
+ * @swagger
+ * /api/reviews/design/{designId}:
+ *   get:
+ *     tags:
+ *       - Reviews
+ *     summary: Get a design's reviews (public)
+ *     parameters:
+ *       - in: path
+ *         name: designId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: rating
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, highest, lowest]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Reviews with summary and pagination
+ *       404:
+ *         description: Design not found
+ */
+router.get('/design/:designId', reviewController.getDesignReviews);
+
+/**
+ * @swagger
+ * /api/reviews/{id}:
+ *   patch:
+ *     tags:
+ *       - Reviews
+ *     summary: Edit your review
+ *     description: Allowed only while the review's edit window is open (see editableUntil).
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               comment:
+ *                 type: string
+ *               photos:
+ *                 type: array
+ *                 description: Replaces the existing photos when provided
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       200:
+ *         description: Review updated
+ *       403:
+ *         description: Not your review, or edit window closed
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  requireRole('CUSTOMER'),
+  upload.array('photos', 5),
+  reviewController.updateReview
+);
+
+/**
+ * @swagger
+ * /api/reviews/{id}/reply:
+ *   post:
+ *     tags:
+ *       - Reviews
+ *     summary: Reply to a review (designer)
+ *     description: Posts or replaces the designer's public reply.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reply
+ *             properties:
+ *               reply:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Reply saved
+ *       403:
+ *         description: Review is not for one of your orders
+ */
+router.post('/:id/reply', authenticate, requireRole('DESIGNER'), reviewController.replyToReview);
+
+/**
+ * @swagger
+ * /api/reviews/{id}/flag:
+ *   post:
+ *     tags:
+ *       - Reviews
+ *     summary: Report a review for moderation
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Review reported
+ *       404:
+ *         description: Review not found
+ */
+router.post('/:id/flag', authenticate, reviewController.flagReview);
+
+export default router;
@@ -0,0 +1,42 @@
+/**
+ * Tracking Routes
+ *
+ * Public webhook endpoints for carrier status pushes.
+ */
+
+import { Router } from 'express';
+import * as trackingController from '../controllers/tracking.controller';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/tracking/webhooks/{carrier}:
+ *   post:
+ *     tags:
+ *       - Tracking
+ *     summary: Carrier tracking webhook
+ *     description: |
+ *       Receives shipment status pushes from carriers so orders move to DELIVERED
+ *       without waiting for the 6-hourly poll. Each carrier is verified separately:
+ *       - gig: `X-GIG-Webhook-Secret` header must match GIG_WEBHOOK_SECRET
+ *       - dhl: `X-DHL-Webhook-Secret` header must match DHL_WEBHOOK_SECRET
+ *       - aftership: `aftership-hmac-sha256` signature using AFTERSHIP_WEBHOOK_SECRET
+ *     parameters:
+ *       - in: path
+ *         name: carrier
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [gig, dhl, aftership]
+ *     responses:
+ *       200:
+ *         description: Webhook processed
+ *       401:
+ *         description: Invalid webhook signature
+ *       404:
+ *         description: Unknown carrier
+ */
+router.post('/webhooks/:carrier', trackingController.handleCarrierWebhook);
+
+export default router;
@@ -17,7 +17,9 @@ import payoutRoutes from './routes/payout.routes';
 import notificationRoutes from './routes/notification.routes';
 import eventsRoutes from './routes/events.routes';
 import adminRoutes from './routes/admin.routes';
-import { deadlineService } from './services/deadline.service';
+import trackingRoutes from './routes/tracking.routes';
+import reviewRoutes from './routes/review.routes';
+import conversationRoutes from './routes/conversation.routes';
 import { cronService } from './services/cron.service';
 
 // Load environment variables
@@ -40,7 +42,7 @@ app.use((req, res, next) => {
   }
 
   res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, PUT, PATCH, POST, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With, X-Order-Status-Version');
   res.setHeader('Access-Control-Max-Age', '86400');
 
   if (req.method === 'OPTIONS') {
@@ -50,7 +52,14 @@ app.use((req, res, next) => {
 
   next();
 });
-app.use(express.json());
+app.use(
+  express.json({
+    verify: (req, _res, buf) => {
+      // Keep the raw body so webhook signatures can be verified
+      (req as express.Request).rawBody = buf;
+    },
+  })
+);
 app.use(express.urlencoded({ extended: true }));
 
 // Swagger API Documentation
@@ -82,6 +91,9 @@ app.use('/api/custom-requests', customRequestRoutes);
 app.use('/api/payouts', payoutRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/events', eventsRoutes);
+app.use('/api/tracking', trackingRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/conversations', conversationRoutes);
 app.use('/api/admin', adminRoutes); // Admin routes
 
 // 404 handler
@@ -98,24 +110,8 @@ app.listen(PORT, () => {
   console.log(`📍 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`📚 API Documentation: http://localhost:${PORT}/api-docs`);
 
-  // Start deadline monitoring service (runs every hour)
-  console.log('📅 Starting deadline monitoring service...');
-
-  // Run immediately on startup
-  deadlineService.monitorDeadlines().catch((err) => {
-    console.error('❌ Error in initial deadline monitoring:', err);
-  });
-
-  // Then run every hour
-  const ONE_HOUR = 60 * 60 * 1000;
-  setInterval(() => {
-    deadlineService.monitorDeadlines().catch((err) => {
-      console.error('❌ Error in scheduled deadline monitoring:', err);
-    });
-  }, ONE_HOUR);
-
-  // Start cron jobs for escrow automation
-  console.log('⏰ Starting escrow automation cron jobs...');
+  // Start scheduled jobs (escrow automation, deadline monitoring, expiry sweeps)
+  console.log('⏰ Starting scheduled jobs...');
   cronService.start();
 });
 
@@ -0,0 +1,631 @@
+/**
+ * Alteration Service
+ *
+ * Post-delivery alterations and remakes. During the confirmation window the customer
+ * describes a fit problem against their body measurements and the designer accepts
+ * with a turnaround or declines. The order's auto-confirm countdown is paused while
+ * the request is open and resumes when it is declined or withdrawn, or once the
+ * altered garment's return shipment is delivered.
+ */
+
+import prisma from '../config/database';
+import {
+  AlterationRequest,
+  AlterationStatus,
+  AlterationType,
+  BodyMeasurement,
+  Order,
+  Prisma,
+} from '@prisma/client';
+import { notificationService } from './notification.service';
+import { realtimeEventService } from './realtime-event.service';
+
+export interface FitIssue {
+  measurement: MeasurementField;
+  issue: FitProblem;
+  adjustmentCm?: number;
+  recordedValue?: number | null; // The customer's measurement when the request was made
+  note?: string;
+}
+
+interface RequestAlterationData {
+  type?: string;
+  description: string;
+  fitIssues: unknown;
+  bodyMeasurementId?: string;
+  photos?: string[];
+}
+
+interface ReturnShipmentData {
+  carrier: string;
+  trackingNumber: string;
+}
+
+// BodyMeasurement fields a fit problem can refer to
+const MEASUREMENT_FIELDS = [
+  'bust',
+  'underbust',
+  'chest',
+  'waist',
+  'hips',
+  'height',
+  'shoulder',
+  'armLength',
+  'inseam',
+  'neck',
+] as const;
+type MeasurementField = (typeof MEASUREMENT_FIELDS)[number];
+
+const FIT_PROBLEMS = ['TOO_TIGHT', 'TOO_LOOSE', 'TOO_LONG', 'TOO_SHORT'] as const;
+type FitProblem = (typeof FIT_PROBLEMS)[number];
+
+const ALTERATION_TYPES = Object.values(AlterationType);
+
+const OPEN_STATUSES: AlterationStatus[] = ['REQUESTED', 'ACCEPTED', 'SHIPPED'];
+
+const MAX_TURNAROUND_DAYS = 30;
+const MAX_ADJUSTMENT_CM = 50;
+const MAX_PHOTOS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The customer always gets at least this long to check the altered garment
+const MIN_INSPECTION_MS = 3 * DAY_MS;
+
+const alterationInclude = {
+  bodyMeasurement: {
+    select: {
+      id: true,
+      bust: true,
+      underbust: true,
+      chest: true,
+      waist: true,
+      hips: true,
+      height: true,
+      shoulder: true,
+      armLength: true,
+      inseam: true,
+      neck: true,
+      createdAt: true,
+    },
+  },
+};
+
+const typeLabel = (type: AlterationType) => (type === 'REMAKE' ? 'remake' : 'alteration');
+
+class AlterationService {
+  /**
+   * Alteration requests for an order, newest first (customer or designer)
+   */
+  async getOrderAlterations(orderId: string, userId: string) {
+    const order = await prisma.order.findFirst({
+      where: {
+        id: orderId,
+        OR: [{ customerId: userId }, { designerId: userId }],
+      },
+    });
+
+    if (!order) {
+      throw new Error('Order not found or access denied');
+    }
+
+    return prisma.alterationRequest.findMany({
+      where: { orderId },
+      include: alterationInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Customer asks for the delivered garment to be altered or remade. Pauses the
+   * order's auto-confirm countdown.
+   */
+  async requestAlteration(
+    orderId: string,
+    customerId: string,
+    data: RequestAlterationData
+  ): Promise<AlterationRequest> {
+    const order = await this.getCustomerOrder(orderId, customerId);
+    const now = new Date();
+
+    if (order.status !== 'DELIVERED' || order.paymentReleasedAt) {
+      throw new Error('Invalid alteration request: the order is not awaiting confirmation');
+    }
+
+    const type = (data.type || 'ALTERATION') as AlterationType;
+    if (!ALTERATION_TYPES.includes(type)) {
+      throw new Error(`Invalid alteration type. Must be one of: ${ALTERATION_TYPES.join(', ')}`);
+    }
+
+    const description = data.description?.trim();
+    if (!description || description.length < 10) {
+      throw new Error(
+        'Invalid alteration request: describe the fit problem in at least 10 characters'
+      );
+    }
+
+    const photos = data.photos || [];
+    if (photos.length > MAX_PHOTOS) {
+      throw new Error(`Invalid alteration request: at most ${MAX_PHOTOS} photos`);
+    }
+
+    const measurement = await this.getCustomerMeasurement(customerId, data.bodyMeasurementId);
+    const fitIssues = this.parseFitIssues(data.fitIssues, measurement);
+
+    const existing = await prisma.alterationRequest.findFirst({
+      where: { orderId, status: { in: OPEN_STATUSES } },
+    });
+    if (existing) {
+      throw new Error('An open alteration request already exists for this order');
+    }
+
+    const alteration = await prisma.$transaction(async (tx) => {
+      // Pause the countdown, unless it ran out or the order moved on meanwhile
+      const paused = await tx.order.updateMany({
+        where: { id: orderId, status: 'DELIVERED', autoConfirmAt: { gt: now } },
+        data: { autoConfirmAt: null },
+      });
+
+      if (paused.count === 0) {
+        throw new Error('Invalid alteration request: the confirmation window has closed');
+      }
+
+      return tx.alterationRequest.create({
+        data: {
+          orderId,
+          customerId,
+          type,
+          description,
+          photos,
+          bodyMeasurementId: measurement.id,
+          fitIssues: fitIssues as unknown as Prisma.InputJsonValue,
+          autoConfirmPausedAt: now,
+          pausedAutoConfirmAt: order.autoConfirmAt!,
+        },
+        include: alterationInclude,
+      });
+    });
+
+    await this.notify(order, order.designerId, alteration, {
+      type: 'ALTERATION_REQUESTED',
+      title: '✂️ Alteration Requested',
+      message: `The customer asked for a ${typeLabel(type)} on order #${order.orderNumber}: ${description}`,
+    });
+    this.publish(order, 'alteration_requested', customerId, alteration.id);
+
+    return alteration;
+  }
+
+  /**
+   * Designer accepts the open request with a turnaround, or declines it (which
+   * resumes the countdown)
+   */
+  async respondToAlteration(
+    orderId: string,
+    designerId: string,
+    data: { accept: boolean; turnaroundDays?: number; note?: string }
+  ): Promise<AlterationRequest> {
+    const order = await this.getDesignerOrder(orderId, designerId);
+    const alteration = await this.getOpenRequest(orderId);
+    const note = data.note?.trim() || null;
+    const now = new Date();
+
+    if (alteration.status !== 'REQUESTED') {
+      throw new Error('Invalid response: this alteration request has already been answered');
+    }
+
+    if (data.accept) {
+      const turnaroundDays = Number(data.turnaroundDays);
+      if (
+        !Number.isInteger(turnaroundDays) ||
+        turnaroundDays < 1 ||
+        turnaroundDays > MAX_TURNAROUND_DAYS
+      ) {
+        throw new Error(
+          `Invalid turnaround: must be a whole number of days between 1 and ${MAX_TURNAROUND_DAYS}`
+        );
+      }
+
+      const dueAt = new Date(now.getTime() + turnaroundDays * DAY_MS);
+      await this.claim(alteration.id, ['REQUESTED'], {
+        status: 'ACCEPTED',
+        responseNote: note,
+        respondedAt: now,
+        turnaroundDays,
+        dueAt,
+      });
+
+      const accepted = await this.getRequestById(alteration.id);
+      await this.notify(order, order.customerId, accepted, {
+        type: 'ALTERATION_ACCEPTED',
+        title: '✂️ Alteration Accepted',
+        message: `Your designer accepted the ${typeLabel(accepted.type)} on order #${order.orderNumber} and will send it back by ${dueAt.toDateString()}.`,
+      });
+      this.publish(order, 'alteration_accepted', designerId, accepted.id);
+
+      return accepted;
+    }
+
+    if (!note) {
+      throw new Error('A note explaining why you decline the alteration is required');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await this.claim(
+        alteration.id,
+        ['REQUESTED'],
+        { status: 'DECLINED', responseNote: note, respondedAt: now, closedAt: now },
+        tx
+      );
+      await this.resumeCountdown(alteration, now, 0, tx);
+    });
+
+    const declined = await this.getRequestById(alteration.id);
+    await this.notify(order, order.customerId, declined, {
+      type: 'ALTERATION_DECLINED',
+      title: 'Alteration Declined',
+      message: `Your designer declined the ${typeLabel(declined.type)} on order #${order.orderNumber}: ${note}. You can still confirm receipt or open a dispute.`,
+    });
+    this.publish(order, 'alteration_declined', designerId, declined.id);
+
+    return declined;
+  }
+
+  /**
+   * Customer withdraws the open request before the designer accepts it
+   */
+  async withdrawAlteration(orderId: string, customerId: string): Promise<AlterationRequest> {
+    const order = await this.getCustomerOrder(orderId, customerId);
+    const alteration = await this.getOpenRequest(orderId);
+    const now = new Date();
+
+    if (alteration.status !== 'REQUESTED') {
+      throw new Error('Invalid withdrawal: the designer has already accepted this alteration');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await this.claim(alteration.id, ['REQUESTED'], { status: 'WITHDRAWN', closedAt: now }, tx);
+      await this.resumeCountdown(alteration, now, 0, tx);
+    });
+
+    const withdrawn = await this.getRequestById(alteration.id);
+    await this.notify(order, order.designerId, withdrawn, {
+      type: 'ALTERATION_WITHDRAWN',
+      title: 'Alteration Withdrawn',
+      message: `The customer withdrew the ${typeLabel(withdrawn.type)} request on order #${order.orderNumber}.`,
+    });
+    this.publish(order, 'alteration_withdrawn', customerId, withdrawn.id);
+
+    return withdrawn;
+  }
+
+  /**
+   * Designer ships the altered garment back to the customer
+   */
+  async addReturnShipment(
+    orderId: string,
+    designerId: string,
+    data: ReturnShipmentData
+  ): Promise<AlterationRequest> {
+    const order = await this.getDesignerOrder(orderId, designerId);
+    const alteration = await this.getOpenRequest(orderId);
+
+    if (alteration.status !== 'ACCEPTED') {
+      throw new Error('Invalid shipment: the alteration must be accepted before it ships');
+    }
+
+    const carrier = data.carrier?.trim();
+    const trackingNumber = data.trackingNumber?.trim();
+    if (!carrier || !trackingNumber) {
+      throw new Error('Carrier and tracking number are required');
+    }
+
+    if (trackingNumber.length < 5) {
+      throw new Error('Invalid tracking number: must be at least 5 characters');
+    }
+
+    await this.claim(alteration.id, ['ACCEPTED'], {
+      status: 'SHIPPED',
+      carrier,
+      trackingNumber,
+      shippedAt: new Date(),
+    });
+
+    const shipped = await this.getRequestById(alteration.id);
+    await this.notify(order, order.customerId, shipped, {
+      type: 'ALTERATION_SHIPPED',
+      title: '📦 Altered Garment Shipped',
+      message: `Your altered garment for order #${order.orderNumber} has been shipped via ${carrier}. Tracking: ${trackingNumber}`,
+    });
+    this.publish(order, 'alteration_shipped', designerId, shipped.id);
+
+    return shipped;
+  }
+
+  /**
+   * Customer confirms they have the altered garment (also covers hand delivery)
+   */
+  async confirmAlterationDelivery(orderId: string, customerId: string): Promise<AlterationRequest> {
+    await this.getCustomerOrder(orderId, customerId);
+    const alteration = await this.getOpenRequest(orderId);
+
+    if (alteration.status === 'REQUESTED') {
+      throw new Error('Invalid confirmation: the designer has not accepted this alteration yet');
+    }
+
+    const delivered = await this.markReturnDelivered(alteration.id, new Date(), 'CUSTOMER');
+    if (!delivered) {
+      throw new Error('Invalid confirmation: this alteration has already been delivered');
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Close an alteration once the altered garment is delivered and resume the order's
+   * countdown from the delivery. Returns null if it was already closed (tracking and
+   * the customer may both report delivery).
+   */
+  async markReturnDelivered(
+    alterationId: string,
+    deliveredAt: Date,
+    confirmedBy: 'TRACKING' | 'CUSTOMER'
+  ): Promise<AlterationRequest | null> {
+    const alteration = await prisma.alterationRequest.findUniqueOrThrow({
+      where: { id: alterationId },
+      include: { order: true },
+    });
+
+    const resumed = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.alterationRequest.updateMany({
+        where: { id: alterationId, status: { in: ['ACCEPTED', 'SHIPPED'] } },
+        data: {
+          status: 'DELIVERED',
+          deliveredAt,
+          deliveryConfirmedBy: confirmedBy,
+          closedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      await this.resumeCountdown(alteration, deliveredAt, MIN_INSPECTION_MS, tx);
+      return true;
+    });
+
+    if (!resumed) {
+      return null;
+    }
+
+    const { order } = alteration;
+    const delivered = await this.getRequestById(alterationId);
+    await this.notify(order, order.designerId, delivered, {
+      type: 'ALTERATION_DELIVERED',
+      title: '✅ Altered Garment Delivered',
+      message: `The altered garment for order #${order.orderNumber} has been delivered.`,
+    });
+    this.publish(order, 'alteration_delivered', order.customerId, delivered.id);
+
+    return delivered;
+  }
+
+  /**
+   * Reject confirming receipt while an alteration is open
+   */
+  async assertNoOpenRequest(orderId: string) {
+    const open = await prisma.alterationRequest.findFirst({
+      where: { orderId, status: { in: OPEN_STATUSES } },
+    });
+
+    if (open) {
+      throw new Error(
+        `Invalid confirmation: the ${typeLabel(open.type)} on this order is still open`
+      );
+    }
+  }
+
+  /**
+   * Close open requests when a dispute takes over the order (the dispute keeps the
+   * countdown frozen)
+   */
+  async closeOpenRequests(orderId: string, tx: Prisma.TransactionClient) {
+    await tx.alterationRequest.updateMany({
+      where: { orderId, status: { in: OPEN_STATUSES } },
+      data: { status: 'CANCELLED', closedAt: new Date() },
+    });
+  }
+
+  /**
+   * Restart the order's countdown with the time that was left when it was paused,
+   * counted from `from` and never less than `minimumMs` from now
+   */
+  private async resumeCountdown(
+    alteration: AlterationRequest,
+    from: Date,
+    minimumMs: number,
+    tx: Prisma.TransactionClient
+  ) {
+    const now = new Date();
+    const remainingMs =
+      alteration.pausedAutoConfirmAt.getTime() - alteration.autoConfirmPausedAt.getTime();
+    const autoConfirmAt = new Date(
+      Math.max(from.getTime() + remainingMs, now.getTime() + minimumMs)
+    );
+
+    await tx.order.updateMany({
+      where: { id: alteration.orderId, status: 'DELIVERED', autoConfirmAt: null },
+      data: { autoConfirmAt, confirmationWindowEnd: autoConfirmAt },
+    });
+
+    await tx.alterationRequest.update({
+      where: { id: alteration.id },
+      data: { autoConfirmResumedAt: now },
+    });
+  }
+
+  /**
+   * Move a request on from one of `from`, failing if someone else got there first
+   */
+  private async claim(
+    alterationId: string,
+    from: AlterationStatus[],
+    data: Prisma.AlterationRequestUpdateManyMutationInput,
+    tx: Prisma.TransactionClient = prisma
+  ) {
+    const claimed = await tx.alterationRequest.updateMany({
+      where: { id: alterationId, status: { in: from } },
+      data,
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Invalid update: this alteration request has changed, please refresh');
+    }
+  }
+
+  private parseFitIssues(value: unknown, measurement: BodyMeasurement): FitIssue[] {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new Error('At least one fit issue is required');
+    }
+
+    return value.map((entry) => {
+      const {
+        measurement: field,
+        issue,
+        adjustmentCm,
+        note,
+      } = (entry || {}) as Record<string, unknown>;
+
+      if (!MEASUREMENT_FIELDS.includes(field as MeasurementField)) {
+        throw new Error(
+          `Invalid fit issue measurement. Must be one of: ${MEASUREMENT_FIELDS.join(', ')}`
+        );
+      }
+
+      if (!FIT_PROBLEMS.includes(issue as FitProblem)) {
+        throw new Error(`Invalid fit issue. Must be one of: ${FIT_PROBLEMS.join(', ')}`);
+      }
+
+      if (
+        adjustmentCm !== undefined &&
+        (typeof adjustmentCm !== 'number' || adjustmentCm <= 0 || adjustmentCm > MAX_ADJUSTMENT_CM)
+      ) {
+        throw new Error(
+          `Invalid fit issue adjustment: must be between 0 and ${MAX_ADJUSTMENT_CM} cm`
+        );
+      }
+
+      return {
+        measurement: field as MeasurementField,
+        issue: issue as FitProblem,
+        ...(adjustmentCm !== undefined && { adjustmentCm: adjustmentCm as number }),
+        recordedValue: measurement[field as MeasurementField],
+        ...(typeof note === 'string' && note.trim() && { note: note.trim() }),
+      };
+    });
+  }
+
+  /**
+   * The measurement the fit problem is described against: the one given, or the
+   * customer's active measurement
+   */
+  private async getCustomerMeasurement(
+    customerId: string,
+    bodyMeasurementId?: string
+  ): Promise<BodyMeasurement> {
+    const measurement = await prisma.bodyMeasurement.findFirst({
+      where: bodyMeasurementId
+        ? { id: bodyMeasurementId, userId: customerId }
+        : { userId: customerId, isActive: true },
+    });
+
+    if (!measurement) {
+      throw new Error('Body measurement not found');
+    }
+
+    return measurement;
+  }
+
+  private async getCustomerOrder(orderId: string, customerId: string): Promise<Order> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, customerId },
+    });
+
+    if (!order) {
+      throw new Error('Order not found or access denied');
+    }
+
+    return order;
+  }
+
+  private async getDesignerOrder(orderId: string, designerId: string): Promise<Order> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, designerId },
+    });
+
+    if (!order) {
+      throw new Error('Order not found or access denied');
+    }
+
+    return order;
+  }
+
+  private async getOpenRequest(orderId: string): Promise<AlterationRequest> {
+    const alteration = await prisma.alterationRequest.findFirst({
+      where: { orderId, status: { in: OPEN_STATUSES } },
+    });
+
+    if (!alteration) {
+      throw new Error('No open alteration request found for this order');
+    }
+
+    return alteration;
+  }
+
+  private getRequestById(alterationId: string) {
+    return prisma.alterationRequest.findUniqueOrThrow({
+      where: { id: alterationId },
+      include: alterationInclude,
+    });
+  }
+
+  private async notify(
+    order: Order,
+    userId: string,
+    alteration: AlterationRequest,
+    content: { type: string; title: string; message: string }
+  ) {
+    try {
+      await notificationService.notifyUser({
+        userId,
+        type: content.type,
+        title: content.title,
+        message: content.message,
+        orderId: order.id,
+        data: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          alterationRequestId: alteration.id,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to send alteration notification:', error);
+    }
+  }
+
+  private publish(order: Order, action: string, actorUserId: string, alterationId: string) {
+    realtimeEventService.publishToUsers([order.customerId, order.designerId], {
+      type: 'ALTERATION_UPDATED',
+      domain: 'order',
+      action,
+      entityId: order.id,
+      actorUserId,
+      payload: {
+        orderId: order.id,
+        alterationRequestId: alterationId,
+      },
+    });
+  }
+}
+
+export const alterationService = new AlterationService();
@@ -1,12 +1,21 @@
 import bcrypt from 'bcryptjs';
 import { PrismaClient, UserRole } from '@prisma/client';
-import { generateToken } from '../utils/jwt';
 import { validateAndNormalizeEmail } from '../utils/validation';
 import adminEventsService from './admin-events.service';
 import { notificationService } from './notification.service';
+import sessionService, { SessionContext, SessionTokens } from './session.service';
+import { userTokenService } from './user-token.service';
+import { emailVerificationTemplate, mailService, passwordResetTemplate } from './mail';
 
 const prisma = new PrismaClient();
 
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 48;
+// Minimum gap between two emails of the same kind to one user
+const TOKEN_RESEND_COOLDOWN_MS = 60 * 1000;
+
+const getAppUrl = (): string => (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
 export interface SignupData {
   email: string;
   password: string;
@@ -28,7 +37,7 @@ export interface LoginData {
   password: string;
 }
 
-export interface AuthResponse {
+export interface AuthResponse extends SessionTokens {
   user: {
     id: string;
     email: string;
@@ -42,14 +51,13 @@ export interface AuthResponse {
     brandBanner: string | null;
     bio: string | null;
     accountVerified: boolean;
+    emailVerified: boolean;
     createdAt: string;
   };
-  token: string;
-  expiresIn: number;
 }
 
 class AuthService {
-  async signup(data: SignupData): Promise<AuthResponse> {
+  async signup(data: SignupData, context: SessionContext = {}): Promise<AuthResponse> {
     // Normalize email
     const normalizedEmail = validateAndNormalizeEmail(data.email);
 
@@ -129,12 +137,15 @@ class AuthService {
       }
     }
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    try {
+      await this.sendVerificationEmail(user);
+    } catch (error) {
+      console.error('Failed to send verification email on signup:', error);
+      // The user can request another one from the app
+    }
+
+    // Start a session (access + refresh token)
+    const tokens = await sessionService.createSession(user, context);
 
     return {
       user: {
@@ -150,14 +161,14 @@ class AuthService {
         brandBanner: user.brandBanner,
         bio: user.bio,
         accountVerified: user.accountVerified,
+        emailVerified: user.emailVerified,
         createdAt: user.createdAt.toISOString(),
       },
-      token,
-      expiresIn: 604800, // 7 days in seconds
+      ...tokens,
     };
   }
 
-  async login(data: LoginData): Promise<AuthResponse> {
+  async login(data: LoginData, context: SessionContext = {}): Promise<AuthResponse> {
     // Normalize email
     const normalizedEmail = validateAndNormalizeEmail(data.email);
 
@@ -177,12 +188,8 @@ class AuthService {
       throw new Error('Invalid email or password');
     }
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    // Start a session (access + refresh token)
+    const tokens = await sessionService.createSession(user, context);
 
     return {
       user: {
@@ -198,10 +205,10 @@ class AuthService {
         brandBanner: user.brandBanner,
         bio: user.bio,
         accountVerified: user.accountVerified,
+        emailVerified: user.emailVerified,
         createdAt: user.createdAt.toISOString(),
       },
-      token,
-      expiresIn: 604800,
+      ...tokens,
     };
   }
 
@@ -221,6 +228,7 @@ class AuthService {
         brandBanner: true,
         bio: true,
         accountVerified: true,
+        emailVerified: true,
         createdAt: true,
       },
     });
@@ -232,10 +240,127 @@ class AuthService {
     return user;
   }
 
-  async updatePushToken(userId: string, expoPushToken: string) {
+  /**
+   * Email a password reset link. Silently does nothing for unknown emails so
+   * the endpoint can't be used to discover accounts: the lookup and the email
+   * happen after the response, so neither its timing nor a mail failure shows.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const normalizedEmail = validateAndNormalizeEmail(email);
+
+    this.sendPasswordReset(normalizedEmail).catch((error) => {
+      console.error('Failed to send password reset email:', error);
+    });
+  }
+
+  private async sendPasswordReset(normalizedEmail: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { email: normalizedEmail },
+    });
+
+    if (!user || (await this.isInResendCooldown(user.id, 'PASSWORD_RESET'))) {
+      return;
+    }
+
+    const token = await userTokenService.issue(
+      user.id,
+      'PASSWORD_RESET',
+      PASSWORD_RESET_TTL_MINUTES
+    );
+    const resetUrl = `${getAppUrl()}/reset-password?token=${token}`;
+
+    await mailService.send({
+      to: user.email,
+      ...passwordResetTemplate(user.fullName, resetUrl, PASSWORD_RESET_TTL_MINUTES),
+    });
+  }
+
+  /**
+   * Set a new password using a reset token. Logs the user out everywhere.
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const { userId } = await userTokenService.consume(token, 'PASSWORD_RESET');
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+
     await prisma.user.update({
       where: { id: userId },
-      data: { expoPushToken },
+      data: {
+        password: hashedPassword,
+        // Following the emailed link proves the address belongs to the user
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+      },
+    });
+
+    await sessionService.revokeAllSessions(userId, 'PASSWORD_CHANGED');
+  }
+
+  /**
+   * Send (or resend) the verification email to a user
+   */
+  async sendVerificationEmail(user: { id: string; email: string; fullName: string }) {
+    const token = await userTokenService.issue(
+      user.id,
+      'EMAIL_VERIFICATION',
+      EMAIL_VERIFICATION_TTL_HOURS * 60
+    );
+    const verifyUrl = `${getAppUrl()}/verify-email?token=${token}`;
+
+    await mailService.send({
+      to: user.email,
+      ...emailVerificationTemplate(user.fullName, verifyUrl, EMAIL_VERIFICATION_TTL_HOURS),
+    });
+  }
+
+  async resendVerificationEmail(userId: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.emailVerified) {
+      throw new Error('Email is already verified');
+    }
+
+    if (await this.isInResendCooldown(user.id, 'EMAIL_VERIFICATION')) {
+      throw new Error('Verification email was sent recently, please wait a minute');
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    const { userId } = await userTokenService.consume(token, 'EMAIL_VERIFICATION');
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+      },
+    });
+  }
+
+  private async isInResendCooldown(
+    userId: string,
+    type: 'PASSWORD_RESET' | 'EMAIL_VERIFICATION'
+  ): Promise<boolean> {
+    const lastIssuedAt = await userTokenService.getLastIssuedAt(userId, type);
+    return !!lastIssuedAt && Date.now() - lastIssuedAt.getTime() < TOKEN_RESEND_COOLDOWN_MS;
+  }
+
+  /**
+   * Register the device's push token, with the order status version its app build
+   * understands (push payloads are sent with legacy status names below version 2)
+   */
+  async updatePushToken(userId: string, expoPushToken: string, orderStatusVersion = 1) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { expoPushToken, pushOrderStatusVersion: orderStatusVersion },
     });
   }
 
@@ -249,14 +374,17 @@ class AuthService {
   /**
    * Create admin user (one-time use)
    * @param data Admin user details
-   * @returns User and JWT token
+   * @returns User and session tokens
    * @throws Error if admin already exists or user with email exists
    */
-  async createAdminUser(data: {
-    email: string;
-    password: string;
-    fullName: string;
-  }): Promise<AuthResponse> {
+  async createAdminUser(
+    data: {
+      email: string;
+      password: string;
+      fullName: string;
+    },
+    context: SessionContext = {}
+  ): Promise<AuthResponse> {
     // Normalize email
     const normalizedEmail = validateAndNormalizeEmail(data.email);
 
@@ -291,15 +419,13 @@ class AuthService {
         fullName: data.fullName,
         role: 'ADMIN',
         accountVerified: true,
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
       },
     });
 
-    // Generate JWT token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    // Start a session (access + refresh token)
+    const tokens = await sessionService.createSession(user, context);
 
     return {
       user: {
@@ -315,10 +441,10 @@ class AuthService {
         brandBanner: user.brandBanner,
         bio: user.bio,
         accountVerified: user.accountVerified,
+        emailVerified: user.emailVerified,
         createdAt: user.createdAt.toISOString(),
       },
-      token,
-      expiresIn: 604800, // 7 days in seconds
+      ...tokens,
     };
   }
 
@@ -0,0 +1,599 @@
+/**
+ * Cancellation Service
+ *
+ * Customer- and designer-initiated order cancellations. A request is evaluated
+ * against the cancellation policy, answered by the other party (or ruled on by an
+ * admin when contested) and then settled: the order is cancelled, the customer is
+ * refunded and the designer is compensated from escrow.
+ */
+
+import prisma from '../config/database';
+import {
+  CancellationRequest,
+  CancellationRequestStatus,
+  Order,
+  OrderActor,
+  OrderStatus,
+  Prisma,
+} from '@prisma/client';
+import settingsService from './settings.service';
+import walletService from './wallet.service';
+import feeService from './fee.service';
+import { notificationService } from './notification.service';
+import { realtimeEventService } from './realtime-event.service';
+import adminEventsService from './admin-events.service';
+import { refundService } from './refund.service';
+import { voucherService } from './voucher.service';
+import { invoiceService } from './invoice.service';
+import { orderStatusService } from './order-status.service';
+
+export interface CancellationQuote {
+  orderStatus: OrderStatus;
+  cancellationFeePercentage: number;
+  amountPaid: number; // Naira
+  customerRefundAmount: number; // Naira
+  designerCompensation: number; // Naira, before the platform fee
+}
+
+interface ListCancellationsFilters {
+  status?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Share of the amount paid kept for the designer once production has started
+const DEFAULT_PRODUCTION_FEE_PERCENTAGE = 0.25;
+
+// Free to cancel: the designer hasn't started work
+const FREE_CANCELLATION: OrderStatus[] = ['PAID'];
+// Production has started: the policy percentage is kept for the designer
+const PRODUCTION_STARTED: OrderStatus[] = ['IN_PRODUCTION', 'READY_TO_SHIP'];
+const SHIPPED_OR_LATER: OrderStatus[] = [
+  'SHIPPED',
+  'DELIVERED',
+  'AWAITING_CONFIRMATION',
+  'COMPLETED',
+];
+
+const OPEN_STATUSES: CancellationRequestStatus[] = ['PENDING', 'CONTESTED'];
+
+const cancellationInclude = {
+  requestedBy: { select: { id: true, fullName: true, brandName: true, role: true } },
+  respondedBy: { select: { id: true, fullName: true, brandName: true, role: true } },
+  resolvedBy: { select: { id: true, fullName: true } },
+};
+
+const roundNaira = (amount: number) => Math.round(amount * 100) / 100;
+
+class CancellationService {
+  /**
+   * The share of the amount paid kept for the designer when the customer cancels
+   * after production has started (PlatformSettings: cancellation_production_fee_percentage)
+   */
+  async getProductionFeePercentage(): Promise<number> {
+    const percentage = await settingsService.getSetting<number>(
+      'cancellation_production_fee_percentage',
+      DEFAULT_PRODUCTION_FEE_PERCENTAGE
+    );
+
+    return Number.isFinite(percentage) && percentage >= 0 && percentage <= 1
+      ? percentage
+      : DEFAULT_PRODUCTION_FEE_PERCENTAGE;
+  }
+
+  /**
+   * Evaluate the cancellation policy for an order. Free before production, the
+   * policy percentage kept once production has started (only when the customer
+   * cancels; a designer backing out refunds in full), and not possible once shipped.
+   */
+  async quote(order: Order, requestedByRole: OrderActor): Promise<CancellationQuote> {
+    let cancellationFeePercentage = 0;
+
+    if (PRODUCTION_STARTED.includes(order.status)) {
+      cancellationFeePercentage =
+        requestedByRole === 'CUSTOMER' ? await this.getProductionFeePercentage() : 0;
+    } else if (SHIPPED_OR_LATER.includes(order.status)) {
+      throw new Error("Invalid cancellation: orders can't be cancelled once shipped");
+    } else if (!FREE_CANCELLATION.includes(order.status)) {
+      throw new Error(
+        `Invalid cancellation: a ${order.status.toLowerCase()} order can't be cancelled`
+      );
+    }
+
+    if (order.paymentReleasedAt) {
+      throw new Error(
+        'Invalid cancellation: payment for this order has already been released to the designer'
+      );
+    }
+
+    const designerCompensation = roundNaira(order.amountPaid * cancellationFeePercentage);
+
+    return {
+      orderStatus: order.status,
+      cancellationFeePercentage,
+      amountPaid: order.amountPaid,
+      customerRefundAmount: roundNaira(order.amountPaid - designerCompensation),
+      designerCompensation,
+    };
+  }
+
+  /**
+   * Cancellation requests on an order, newest first, with what a new request would
+   * settle to (customer or designer of the order)
+   */
+  async getOrderCancellation(orderId: string, userId: string) {
+    const order = await this.getParticipantOrder(orderId, userId);
+    const role = this.getRole(order, userId);
+
+    const requests = await prisma.cancellationRequest.findMany({
+      where: { orderId },
+      include: cancellationInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    let quote: CancellationQuote | null = null;
+    let unavailableReason: string | null = null;
+    try {
+      quote = await this.quote(order, role);
+    } catch (error) {
+      unavailableReason = error instanceof Error ? error.message : String(error);
+    }
+
+    return { requests, quote, unavailableReason };
+  }
+
+  /**
+   * Customer or designer asks to cancel the order. The other party then accepts or
+   * contests it.
+   */
+  async requestCancellation(
+    orderId: string,
+    userId: string,
+    data: { reason: string }
+  ): Promise<CancellationRequest> {
+    const order = await this.getParticipantOrder(orderId, userId);
+    const role = this.getRole(order, userId);
+
+    const reason = data.reason?.trim();
+    if (!reason || reason.length < 10) {
+      throw new Error(
+        'Please provide a detailed reason for the cancellation (at least 10 characters)'
+      );
+    }
+
+    const quote = await this.quote(order, role);
+
+    const request = await prisma.$transaction(async (tx) => {
+      const open = await tx.cancellationRequest.findFirst({
+        where: { orderId, status: { in: OPEN_STATUSES } },
+      });
+      if (open) {
+        throw new Error('A cancellation request already exists for this order');
+      }
+
+      return tx.cancellationRequest.create({
+        data: {
+          orderId,
+          requestedById: userId,
+          requestedByRole: role,
+          reason,
+          orderStatusAtRequest: order.status,
+          cancellationFeePercentage: quote.cancellationFeePercentage,
+          customerRefundAmount: quote.customerRefundAmount,
+          designerCompensation: quote.designerCompensation,
+        },
+        include: cancellationInclude,
+      });
+    });
+
+    const requester = role === 'CUSTOMER' ? 'The customer' : 'The designer';
+    await this.notify(order, this.getCounterpartyId(order, role), {
+      type: 'CANCELLATION_REQUESTED',
+      title: '🚫 Cancellation Requested',
+      message: `${requester} has asked to cancel order #${order.orderNumber}: "${reason}". Accept or contest the request.`,
+      requestId: request.id,
+    });
+    this.publishRealtime(order, 'cancellation_requested', userId, request.id);
+
+    return request;
+  }
+
+  /**
+   * The other party accepts (the order is cancelled and settled) or contests the
+   * request (an admin rules on it)
+   */
+  async respondToCancellation(
+    orderId: string,
+    userId: string,
+    data: { accept: boolean; note?: string }
+  ): Promise<CancellationRequest> {
+    const order = await this.getParticipantOrder(orderId, userId);
+    const role = this.getRole(order, userId);
+    const request = await this.getOpenRequest(orderId);
+
+    if (request.requestedById === userId) {
+      throw new Error("Forbidden: you can't respond to your own cancellation request");
+    }
+
+    if (request.status !== 'PENDING') {
+      throw new Error('Invalid response: this cancellation request is awaiting an admin ruling');
+    }
+
+    const note = data.note?.trim() || null;
+    const now = new Date();
+
+    if (data.accept) {
+      return this.settle(order, request, {
+        status: 'ACCEPTED',
+        actor: role,
+        actorId: userId,
+        data: { respondedById: userId, responseNote: note, respondedAt: now },
+      });
+    }
+
+    if (!note) {
+      throw new Error('A note explaining why you contest the cancellation is required');
+    }
+
+    const claimed = await prisma.cancellationRequest.updateMany({
+      where: { id: request.id, status: 'PENDING' },
+      data: { status: 'CONTESTED', respondedById: userId, responseNote: note, respondedAt: now },
+    });
+    if (claimed.count === 0) {
+      throw new Error('Invalid response: this cancellation request has already been answered');
+    }
+
+    await this.notify(order, request.requestedById, {
+      type: 'CANCELLATION_CONTESTED',
+      title: '⚖️ Cancellation Contested',
+      message: `Your request to cancel order #${order.orderNumber} was contested. Our team will review it.`,
+      requestId: request.id,
+    });
+    this.publishRealtime(order, 'cancellation_contested', userId, request.id);
+    adminEventsService.emitSystemAlert(
+      'warning',
+      `Cancellation contested on order ${order.orderNumber}`,
+      { orderId: order.id, cancellationRequestId: request.id }
+    );
+
+    return this.getRequestById(request.id);
+  }
+
+  /**
+   * Admin ruling on an open request: approve (cancel and settle) or reject (the
+   * order goes ahead)
+   */
+  async resolveCancellation(
+    orderId: string,
+    adminId: string,
+    data: { approve: boolean; notes: string }
+  ): Promise<CancellationRequest> {
+    const notes = data.notes?.trim();
+    if (!notes) {
+      throw new Error('Resolution notes are required');
+    }
+
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const request = await this.getOpenRequest(orderId);
+    const now = new Date();
+
+    if (data.approve) {
+      return this.settle(order, request, {
+        status: 'APPROVED',
+        actor: 'ADMIN',
+        actorId: adminId,
+        data: { resolvedById: adminId, resolutionNotes: notes, resolvedAt: now },
+      });
+    }
+
+    const claimed = await prisma.cancellationRequest.updateMany({
+      where: { id: request.id, status: { in: OPEN_STATUSES } },
+      data: { status: 'REJECTED', resolvedById: adminId, resolutionNotes: notes, resolvedAt: now },
+    });
+    if (claimed.count === 0) {
+      throw new Error('Invalid ruling: this cancellation request has already been resolved');
+    }
+
+    await Promise.all(
+      [order.customerId, order.designerId].map((userId) =>
+        this.notify(order, userId, {
+          type: 'CANCELLATION_REJECTED',
+          title: '📋 Cancellation Declined',
+          message: `The request to cancel order #${order.orderNumber} was declined: ${notes}. The order goes ahead.`,
+          requestId: request.id,
+        })
+      )
+    );
+    this.publishRealtime(order, 'cancellation_rejected', adminId, request.id);
+
+    return this.getRequestById(request.id);
+  }
+
+  /**
+   * Cancellation requests for the admin queue
+   */
+  async listCancellations(filters: ListCancellationsFilters) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const where: Prisma.CancellationRequestWhereInput = {};
+
+    if (filters.status && filters.status !== 'ALL') {
+      where.status = filters.status as CancellationRequestStatus;
+    }
+
+    const [requests, total] = await Promise.all([
+      prisma.cancellationRequest.findMany({
+        where,
+        include: {
+          ...cancellationInclude,
+          order: {
+            select: {
+              id: true,
+              orderNumber: true,
+              status: true,
+              finalPrice: true,
+              amountPaid: true,
+              customer: { select: { id: true, fullName: true, email: true } },
+              designer: { select: { id: true, fullName: true, brandName: true, email: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.cancellationRequest.count({ where }),
+    ]);
+
+    return {
+      requests,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Cancel the order and settle escrow by the policy as it applies now: the designer's
+   * compensation is released to their wallet (less the platform fee) and the rest is
+   * refunded to the customer. The order is locked and quoted inside the transaction,
+   * so the status change and every ledger posting commit together with the claim and
+   * match the order as it is then; only the provider refund is submitted afterwards.
+   */
+  private async settle(
+    order: Order,
+    request: CancellationRequest,
+    outcome: {
+      status: 'ACCEPTED' | 'APPROVED';
+      actor: OrderActor;
+      actorId: string;
+      data: Prisma.CancellationRequestUncheckedUpdateManyInput;
+    }
+  ): Promise<CancellationRequest> {
+    const requester = request.requestedByRole === 'CUSTOMER' ? 'customer' : 'designer';
+
+    const settled = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "orders" WHERE id = ${order.id} FOR UPDATE`;
+      const current = await tx.order.findUniqueOrThrow({ where: { id: order.id } });
+
+      // The order may have moved on since the request was made
+      const quote = await this.quote(current, request.requestedByRole);
+      const feeCalc =
+        quote.designerCompensation > 0
+          ? await feeService.calculateFeeForDesigner(
+              current.designerId,
+              quote.designerCompensation,
+              new Date()
+            )
+          : null;
+
+      // Claim the request first so it can't be settled twice
+      const claimed = await tx.cancellationRequest.updateMany({
+        where: { id: request.id, status: { in: OPEN_STATUSES } },
+        data: {
+          ...outcome.data,
+          status: outcome.status,
+          cancellationFeePercentage: quote.cancellationFeePercentage,
+          customerRefundAmount: quote.customerRefundAmount,
+          designerCompensation: quote.designerCompensation,
+          settledAt: new Date(),
+        },
+      });
+      if (claimed.count === 0) {
+        throw new Error('Invalid cancellation: this request has already been resolved');
+      }
+
+      const statusChange = await orderStatusService.applyInTransaction(
+        current.id,
+        'CANCELLED',
+        {
+          actor: outcome.actor,
+          actorId: outcome.actorId,
+          note: `Cancelled at the ${requester}'s request: ${request.reason}`,
+          data: feeCalc
+            ? {
+                paymentReleasedAt: new Date(),
+                paymentAmount: feeCalc.designerReceives,
+                platformFee: feeCalc.feeAmount,
+                feePercentageApplied: feeCalc.percentage,
+                feeRuleApplied: feeCalc.appliedRule,
+              }
+            : undefined,
+        },
+        tx
+      );
+
+      const designerRelease = {
+        reference: `order-release:${current.id}`,
+        orderId: current.id,
+        customerId: current.customerId,
+        recipientId: current.designerId,
+        grossAmount: quote.designerCompensation,
+        platformFee: feeCalc?.feeAmount,
+        description: `Cancellation compensation for order ${current.orderNumber}`,
+      };
+      const designerPosted = feeCalc
+        ? await walletService.releaseEscrowInTransaction(designerRelease, tx)
+        : null;
+      if (!feeCalc) {
+        await walletService.cancelEarning(current.id, tx);
+      }
+
+      // The order won't be fulfilled, so a platform-funded discount goes back to revenue
+      await walletService.reverseVoucherFunding(
+        {
+          orderId: current.id,
+          customerId: current.customerId,
+          amount: voucherService.getPlatformFunding(current),
+        },
+        tx
+      );
+
+      // Back to the customer's original payment method. Orders created before online
+      // payments have nothing captured to refund against: that refund is made outside
+      // the platform and only recorded on the request.
+      const capturedPayments = await tx.paymentTransaction.count({
+        where: { orderId: current.id, status: 'SUCCESSFUL' },
+      });
+      const refunds =
+        quote.customerRefundAmount > 0 && capturedPayments > 0
+          ? await refundService.createRefundRecords(
+              {
+                orderId: current.id,
+                amount: quote.customerRefundAmount,
+                reason: `Order cancelled: ${request.reason}`,
+                requestedById: request.requestedById,
+                source: 'CANCELLATION',
+              },
+              tx
+            )
+          : [];
+      const manualRefundAmount = capturedPayments > 0 ? 0 : quote.customerRefundAmount;
+
+      return {
+        quote,
+        feeCalc,
+        statusChange,
+        designerRelease,
+        designerPosted,
+        refunds,
+        manualRefundAmount,
+      };
+    });
+    const { quote } = settled;
+
+    // Notifies both parties
+    await orderStatusService.runSideEffects(settled.statusChange);
+    walletService.publishRelease(settled.designerRelease, settled.designerPosted);
+
+    // Provider failures are recorded on the refunds and can be resubmitted by an admin
+    await refundService.submitRefunds(settled.refunds);
+
+    if (settled.manualRefundAmount > 0) {
+      adminEventsService.emitSystemAlert(
+        'warning',
+        `Refund ₦${settled.manualRefundAmount.toLocaleString()} for order ${order.orderNumber} to the customer outside the platform: it has no online payment to refund`,
+        { orderId: order.id, cancellationRequestId: request.id, amount: settled.manualRefundAmount }
+      );
+    }
+
+    if (settled.feeCalc) {
+      await invoiceService.sendEarningsStatement(order.id);
+    }
+
+    console.log(
+      `🚫 Order ${order.orderNumber} cancelled (${outcome.status.toLowerCase()}): customer ₦${quote.customerRefundAmount.toLocaleString()}, designer ₦${quote.designerCompensation.toLocaleString()}`
+    );
+    adminEventsService.emitStatsUpdated('order_cancelled');
+
+    return this.getRequestById(request.id);
+  }
+
+  private async getParticipantOrder(orderId: string, userId: string): Promise<Order> {
+    const order = await prisma.order.findFirst({
+      where: {
+        id: orderId,
+        OR: [{ customerId: userId }, { designerId: userId }],
+      },
+    });
+
+    if (!order) {
+      throw new Error('Order not found or access denied');
+    }
+
+    return order;
+  }
+
+  private async getOpenRequest(orderId: string): Promise<CancellationRequest> {
+    const request = await prisma.cancellationRequest.findFirst({
+      where: { orderId, status: { in: OPEN_STATUSES } },
+    });
+
+    if (!request) {
+      throw new Error('No open cancellation request found for this order');
+    }
+
+    return request;
+  }
+
+  private getRequestById(requestId: string) {
+    return prisma.cancellationRequest.findUniqueOrThrow({
+      where: { id: requestId },
+      include: cancellationInclude,
+    });
+  }
+
+  private getRole(order: Order, userId: string): OrderActor {
+    return order.customerId === userId ? 'CUSTOMER' : 'DESIGNER';
+  }
+
+  private getCounterpartyId(order: Order, role: OrderActor): string {
+    return role === 'CUSTOMER' ? order.designerId : order.customerId;
+  }
+
+  private async notify(
+    order: Order,
+    userId: string,
+    content: { type: string; title: string; message: string; requestId: string }
+  ) {
+    try {
+      await notificationService.notifyUser({
+        userId,
+        type: content.type,
+        title: content.title,
+        message: content.message,
+        orderId: order.id,
+        data: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          cancellationRequestId: content.requestId,
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to send ${content.type} notification for order ${order.id}:`, error);
+    }
+  }
+
+  private publishRealtime(order: Order, action: string, actorUserId: string, requestId: string) {
+    realtimeEventService.publishToUsers([order.customerId, order.designerId], {
+      type: 'CANCELLATION_UPDATED',
+      domain: 'order',
+      action,
+      entityId: order.id,
+      actorUserId,
+      payload: {
+        orderId: order.id,
+        cancellationRequestId: requestId,
+      },
+    });
+  }
+}
+
+export const cancellationService = new CancellationService();
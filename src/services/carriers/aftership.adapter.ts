@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import {
+  CarrierAdapter,
+  CarrierTrackingEvent,
+  CarrierTrackingResult,
+  CarrierWebhookRequest,
+  CarrierWebhookUpdate,
+} from './carrier.types';
+import { buildTrackingResult, normalizeCarrierName, safeEqual } from './carrier.utils';
+
+interface AfterShipCheckpoint {
+  checkpoint_time: string;
+  tag?: string;
+  subtag_message?: string;
+  message?: string;
+  location?: string;
+  city?: string;
+  country_name?: string;
+}
+
+interface AfterShipTracking {
+  tracking_number: string;
+  slug?: string;
+  tag?: string;
+  checkpoints?: AfterShipCheckpoint[];
+}
+
+interface AfterShipResponse {
+  data?: { tracking?: AfterShipTracking };
+}
+
+const AFTERSHIP_TAGS: Record<string, CarrierTrackingEvent['status']> = {
+  Pending: 'INFO_RECEIVED',
+  InfoReceived: 'INFO_RECEIVED',
+  InTransit: 'IN_TRANSIT',
+  AvailableForPickup: 'OUT_FOR_DELIVERY',
+  OutForDelivery: 'OUT_FOR_DELIVERY',
+  AttemptFail: 'FAILED_ATTEMPT',
+  Delivered: 'DELIVERED',
+  Exception: 'EXCEPTION',
+  Expired: 'EXCEPTION',
+};
+
+// Carrier names designers commonly type, mapped to AfterShip courier slugs
+const AFTERSHIP_SLUGS: Record<string, string> = {
+  fedex: 'fedex',
+  ups: 'ups',
+  aramex: 'aramex',
+  nipost: 'nigerian-postal-service',
+  redstar: 'redstar-express',
+  redstarexpress: 'redstar-express',
+  sendbox: 'sendbox',
+  kwik: 'kwik-delivery',
+};
+
+/**
+ * Generic AfterShip-style adapter
+ *
+ * Used for any carrier without a dedicated adapter. Webhooks are signed with
+ * HMAC-SHA256 of the raw body (base64) in the `aftership-hmac-sha256` header.
+ */
+export class AfterShipAdapter implements CarrierAdapter {
+  readonly key = 'aftership';
+  readonly displayName = 'AfterShip';
+  readonly aliases = ['aftership', ...Object.keys(AFTERSHIP_SLUGS)];
+
+  private apiBaseUrl = process.env.AFTERSHIP_API_BASE_URL || 'https://api.aftership.com';
+  private apiKey = process.env.AFTERSHIP_API_KEY || '';
+  private webhookSecret = process.env.AFTERSHIP_WEBHOOK_SECRET;
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async getTracking(trackingNumber: string, carrierName?: string): Promise<CarrierTrackingResult> {
+    const normalized = carrierName ? normalizeCarrierName(carrierName) : '';
+    const slug = AFTERSHIP_SLUGS[normalized] || normalized;
+
+    const response = await axios.get<AfterShipResponse>(
+      `${this.apiBaseUrl}/v4/trackings/${encodeURIComponent(slug)}/${encodeURIComponent(trackingNumber)}`,
+      {
+        headers: { 'as-api-key': this.apiKey },
+        timeout: 15000,
+      }
+    );
+
+    const checkpoints = response.data.data?.tracking?.checkpoints || [];
+    return buildTrackingResult(trackingNumber, checkpoints.map(this.toEvent));
+  }
+
+  verifyWebhook(request: CarrierWebhookRequest): boolean {
+    if (!this.webhookSecret || !request.rawBody) {
+      return false;
+    }
+
+    const signature = request.headers['aftership-hmac-sha256'];
+    if (typeof signature !== 'string') {
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', this.webhookSecret)
+      .update(request.rawBody)
+      .digest('base64');
+
+    return safeEqual(signature, expected);
+  }
+
+  parseWebhook(body: unknown): CarrierWebhookUpdate[] {
+    const tracking = (body as { msg?: AfterShipTracking })?.msg;
+    if (!tracking?.tracking_number) {
+      return [];
+    }
+
+    return [
+      {
+        trackingNumber: tracking.tracking_number,
+        events: (tracking.checkpoints || []).map(this.toEvent),
+      },
+    ];
+  }
+
+  private toEvent = (checkpoint: AfterShipCheckpoint): CarrierTrackingEvent => {
+    const location =
+      checkpoint.location ||
+      [checkpoint.city, checkpoint.country_name].filter(Boolean).join(', ') ||
+      undefined;
+
+    return {
+      status: AFTERSHIP_TAGS[checkpoint.tag || ''] || 'IN_TRANSIT',
+      rawStatus: checkpoint.tag,
+      description: checkpoint.message || checkpoint.subtag_message || checkpoint.tag || 'Update',
+      location,
+      occurredAt: new Date(checkpoint.checkpoint_time),
+    };
+  };
+}
@@ -0,0 +1,59 @@
+import { IncomingHttpHeaders } from 'http';
+import { TrackingEventStatus } from '@prisma/client';
+
+/**
+ * A single carrier scan, normalized across carriers
+ */
+export interface CarrierTrackingEvent {
+  status: TrackingEventStatus;
+  rawStatus?: string;
+  description: string;
+  location?: string;
+  occurredAt: Date;
+}
+
+/**
+ * Result of polling a carrier for a tracking number
+ */
+export interface CarrierTrackingResult {
+  trackingNumber: string;
+  events: CarrierTrackingEvent[];
+  isDelivered: boolean;
+  deliveredAt?: Date;
+}
+
+/**
+ * Status push received from a carrier webhook
+ */
+export interface CarrierWebhookUpdate {
+  trackingNumber: string;
+  events: CarrierTrackingEvent[];
+}
+
+export interface CarrierWebhookRequest {
+  headers: IncomingHttpHeaders;
+  rawBody?: Buffer;
+  body: unknown;
+}
+
+/**
+ * Carrier adapter contract. Adapters are selected by `Order.carrier`
+ * (free text entered by the designer) via their key and aliases.
+ */
+export interface CarrierAdapter {
+  /** Stable key used in webhook URLs and stored on tracking events */
+  readonly key: string;
+  readonly displayName: string;
+  /** Normalized carrier names that resolve to this adapter */
+  readonly aliases: string[];
+
+  /** Whether API credentials are configured for polling */
+  isConfigured(): boolean;
+
+  getTracking(trackingNumber: string, carrierName?: string): Promise<CarrierTrackingResult>;
+
+  /** Verify a webhook request really came from the carrier */
+  verifyWebhook(request: CarrierWebhookRequest): boolean;
+
+  parseWebhook(body: unknown): CarrierWebhookUpdate[];
+}
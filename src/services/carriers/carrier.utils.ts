@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import { TrackingEventStatus } from '@prisma/client';
+import {
+  CarrierTrackingEvent,
+  CarrierTrackingResult,
+  CarrierWebhookRequest,
+} from './carrier.types';
+
+/**
+ * Normalize a free-text carrier name for alias matching ("GIG Logistics" -> "giglogistics")
+ */
+export const normalizeCarrierName = (carrier: string): string =>
+  carrier.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Constant-time string comparison
+ */
+export const safeEqual = (a: string, b: string): boolean => {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+};
+
+/**
+ * Verify a shared secret sent by the carrier in a request header.
+ * Carriers without signed payloads are configured to send this header.
+ */
+export const verifySharedSecretHeader = (
+  request: CarrierWebhookRequest,
+  headerName: string,
+  secret: string | undefined
+): boolean => {
+  if (!secret) {
+    return false;
+  }
+
+  const provided = request.headers[headerName.toLowerCase()];
+  return typeof provided === 'string' && safeEqual(provided, secret);
+};
+
+/**
+ * Map a carrier status label to a normalized status using keyword rules (first match wins)
+ */
+export const matchStatusByKeyword = (
+  label: string,
+  rules: Array<[RegExp, TrackingEventStatus]>,
+  fallback: TrackingEventStatus = 'IN_TRANSIT'
+): TrackingEventStatus => {
+  for (const [pattern, status] of rules) {
+    if (pattern.test(label)) {
+      return status;
+    }
+  }
+  return fallback;
+};
+
+/**
+ * Build a tracking result from events (oldest first)
+ */
+export const buildTrackingResult = (
+  trackingNumber: string,
+  events: CarrierTrackingEvent[]
+): CarrierTrackingResult => {
+  const sorted = events
+    .filter((event) => !isNaN(event.occurredAt.getTime()))
+    .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+  const delivered = sorted.find((event) => event.status === 'DELIVERED');
+
+  return {
+    trackingNumber,
+    events: sorted,
+    isDelivered: !!delivered,
+    deliveredAt: delivered?.occurredAt,
+  };
+};
@@ -0,0 +1,124 @@
+import axios from 'axios';
+import {
+  CarrierAdapter,
+  CarrierTrackingEvent,
+  CarrierTrackingResult,
+  CarrierWebhookRequest,
+  CarrierWebhookUpdate,
+} from './carrier.types';
+import {
+  buildTrackingResult,
+  matchStatusByKeyword,
+  verifySharedSecretHeader,
+} from './carrier.utils';
+
+interface DhlLocation {
+  address?: { addressLocality?: string; countryCode?: string };
+}
+
+interface DhlEvent {
+  timestamp: string;
+  statusCode?: string; // pre-transit | transit | delivered | failure | unknown
+  status?: string;
+  description?: string;
+  location?: DhlLocation;
+}
+
+interface DhlShipment {
+  id: string;
+  status?: DhlEvent;
+  events?: DhlEvent[];
+}
+
+interface DhlTrackResponse {
+  shipments?: DhlShipment[];
+}
+
+const DHL_DESCRIPTION_RULES: Array<[RegExp, CarrierTrackingEvent['status']]> = [
+  [/with delivery courier|out for delivery/i, 'OUT_FOR_DELIVERY'],
+  [/attempt|recipient not available|closed on arrival/i, 'FAILED_ATTEMPT'],
+  [/return/i, 'RETURNED'],
+  [/clearance delay|held|on hold/i, 'EXCEPTION'],
+];
+
+/**
+ * DHL adapter (DHL Shipment Tracking - Unified API)
+ *
+ * Push notifications use the same shipment objects as the polling API and
+ * carry the secret we register in the `X-DHL-Webhook-Secret` header.
+ */
+export class DhlAdapter implements CarrierAdapter {
+  readonly key = 'dhl';
+  readonly displayName = 'DHL';
+  readonly aliases = ['dhl', 'dhlexpress', 'dhlecommerce', 'dhlparcel'];
+
+  private apiBaseUrl = process.env.DHL_API_BASE_URL || 'https://api-eu.dhl.com';
+  private apiKey = process.env.DHL_API_KEY || '';
+  private webhookSecret = process.env.DHL_WEBHOOK_SECRET;
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async getTracking(trackingNumber: string): Promise<CarrierTrackingResult> {
+    const response = await axios.get<DhlTrackResponse>(`${this.apiBaseUrl}/track/shipments`, {
+      params: { trackingNumber },
+      headers: { 'DHL-API-Key': this.apiKey },
+      timeout: 15000,
+    });
+
+    const shipment = response.data.shipments?.[0];
+    return buildTrackingResult(trackingNumber, (shipment?.events || []).map(this.toEvent));
+  }
+
+  verifyWebhook(request: CarrierWebhookRequest): boolean {
+    return verifySharedSecretHeader(request, 'x-dhl-webhook-secret', this.webhookSecret);
+  }
+
+  parseWebhook(body: unknown): CarrierWebhookUpdate[] {
+    const shipments = (body as DhlTrackResponse)?.shipments || [];
+
+    return shipments
+      .filter((shipment) => !!shipment.id)
+      .map((shipment) => ({
+        trackingNumber: shipment.id,
+        // Pushes may carry only the latest status rather than the full history
+        events: (shipment.events?.length
+          ? shipment.events
+          : shipment.status
+            ? [shipment.status]
+            : []
+        ).map(this.toEvent),
+      }));
+  }
+
+  private toEvent = (event: DhlEvent): CarrierTrackingEvent => {
+    const description = event.description || event.status || 'Shipment update';
+
+    let status: CarrierTrackingEvent['status'];
+    switch (event.statusCode) {
+      case 'delivered':
+        status = 'DELIVERED';
+        break;
+      case 'pre-transit':
+        status = 'INFO_RECEIVED';
+        break;
+      case 'failure':
+        status = matchStatusByKeyword(description, DHL_DESCRIPTION_RULES, 'EXCEPTION');
+        break;
+      default:
+        status = matchStatusByKeyword(description, DHL_DESCRIPTION_RULES, 'IN_TRANSIT');
+    }
+
+    const address = event.location?.address;
+    const location = [address?.addressLocality, address?.countryCode].filter(Boolean).join(', ');
+
+    return {
+      status,
+      rawStatus: event.statusCode,
+      description,
+      location: location || undefined,
+      occurredAt: new Date(event.timestamp),
+    };
+  };
+}
@@ -0,0 +1,113 @@
+import axios from 'axios';
+import {
+  CarrierAdapter,
+  CarrierTrackingEvent,
+  CarrierTrackingResult,
+  CarrierWebhookRequest,
+  CarrierWebhookUpdate,
+} from './carrier.types';
+import {
+  buildTrackingResult,
+  matchStatusByKeyword,
+  verifySharedSecretHeader,
+} from './carrier.utils';
+
+interface GigScan {
+  Waybill?: string;
+  Status?: string;
+  ScanStatus?: { Code?: string; Incident?: string; Reason?: string; Comment?: string };
+  DateTime?: string;
+  Location?: string;
+}
+
+interface GigTrackResponse {
+  Code?: string;
+  ShortDescription?: string;
+  Object?: GigScan[] | { Waybill?: string; MobileShipmentTrackingHistory?: GigScan[] };
+}
+
+const GIG_STATUS_RULES: Array<[RegExp, CarrierTrackingEvent['status']]> = [
+  [/delivered|^okt$|^okc$|collected by customer/i, 'DELIVERED'],
+  [/out for delivery|with courier|^wc$/i, 'OUT_FOR_DELIVERY'],
+  [/attempt|unreachable|not available/i, 'FAILED_ATTEMPT'],
+  [/return/i, 'RETURNED'],
+  [/shipment created|^crt$|awaiting pickup|received/i, 'INFO_RECEIVED'],
+  [/delay|held|damaged|missing|cancel/i, 'EXCEPTION'],
+];
+
+/**
+ * GIG Logistics adapter
+ *
+ * Polls the GIG third-party tracking API; GIG pushes the same scan objects to
+ * our webhook with the shared secret we register in the `X-GIG-Webhook-Secret` header.
+ */
+export class GigLogisticsAdapter implements CarrierAdapter {
+  readonly key = 'gig';
+  readonly displayName = 'GIG Logistics';
+  readonly aliases = ['gig', 'gigl', 'giglogistics', 'gigm', 'giglogisticsng'];
+
+  private apiBaseUrl = process.env.GIG_API_BASE_URL || 'https://thirdparty.gigl-go.com';
+  private apiKey = process.env.GIG_API_KEY || '';
+  private webhookSecret = process.env.GIG_WEBHOOK_SECRET;
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async getTracking(trackingNumber: string): Promise<CarrierTrackingResult> {
+    const response = await axios.get<GigTrackResponse>(
+      `${this.apiBaseUrl}/api/thirdparty/TrackAllShipment/${encodeURIComponent(trackingNumber)}`,
+      {
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        timeout: 15000,
+      }
+    );
+
+    return buildTrackingResult(trackingNumber, this.extractScans(response.data).map(this.toEvent));
+  }
+
+  verifyWebhook(request: CarrierWebhookRequest): boolean {
+    return verifySharedSecretHeader(request, 'x-gig-webhook-secret', this.webhookSecret);
+  }
+
+  parseWebhook(body: unknown): CarrierWebhookUpdate[] {
+    const scans = Array.isArray(body) ? (body as GigScan[]) : [body as GigScan];
+    const byWaybill = new Map<string, CarrierTrackingEvent[]>();
+
+    for (const scan of scans) {
+      if (!scan?.Waybill) continue;
+      const events = byWaybill.get(scan.Waybill) || [];
+      events.push(this.toEvent(scan));
+      byWaybill.set(scan.Waybill, events);
+    }
+
+    return Array.from(byWaybill.entries()).map(([trackingNumber, events]) => ({
+      trackingNumber,
+      events,
+    }));
+  }
+
+  private extractScans(data: GigTrackResponse): GigScan[] {
+    if (Array.isArray(data.Object)) {
+      return data.Object;
+    }
+    return data.Object?.MobileShipmentTrackingHistory || [];
+  }
+
+  private toEvent = (scan: GigScan): CarrierTrackingEvent => {
+    const label = scan.ScanStatus?.Incident || scan.Status || scan.ScanStatus?.Code || 'Update';
+    const code = scan.ScanStatus?.Code || '';
+
+    return {
+      status: matchStatusByKeyword(
+        `${code}`,
+        GIG_STATUS_RULES,
+        matchStatusByKeyword(label, GIG_STATUS_RULES)
+      ),
+      rawStatus: code || scan.Status,
+      description: scan.ScanStatus?.Comment || scan.ScanStatus?.Reason || label,
+      location: scan.Location,
+      occurredAt: new Date(scan.DateTime || Date.now()),
+    };
+  };
+}
@@ -0,0 +1,33 @@
+import { CarrierAdapter } from './carrier.types';
+import { normalizeCarrierName } from './carrier.utils';
+import { GigLogisticsAdapter } from './gig-logistics.adapter';
+import { DhlAdapter } from './dhl.adapter';
+import { AfterShipAdapter } from './aftership.adapter';
+
+export * from './carrier.types';
+
+const gigAdapter = new GigLogisticsAdapter();
+const dhlAdapter = new DhlAdapter();
+const afterShipAdapter = new AfterShipAdapter();
+
+const adapters: CarrierAdapter[] = [gigAdapter, dhlAdapter, afterShipAdapter];
+
+/**
+ * Get adapter by its key (used by webhook routes: /api/tracking/webhooks/:carrier)
+ */
+export const getCarrierAdapterByKey = (key: string): CarrierAdapter | undefined =>
+  adapters.find((adapter) => adapter.key === key.toLowerCase());
+
+/**
+ * Resolve the adapter for an order's free-text carrier name.
+ * Carriers without a dedicated adapter fall back to the generic AfterShip adapter.
+ */
+export const resolveCarrierAdapter = (carrier: string | null | undefined): CarrierAdapter => {
+  const normalized = normalizeCarrierName(carrier || '');
+
+  return (
+    adapters.find((adapter) =>
+      adapter.aliases.some((alias) => normalized === alias || normalized.startsWith(alias))
+    ) || afterShipAdapter
+  );
+};
@@ -0,0 +1,381 @@
+/**
+ * Conversation Service
+ * Customer <-> designer messaging scoped to an offer, a custom request bid or an order.
+ * New messages and read receipts are pushed live on the `message` realtime domain.
+ */
+
+import prisma from '../config/database';
+import { Conversation, ConversationContext, Prisma } from '@prisma/client';
+import { notificationService } from './notification.service';
+import { realtimeEventService } from './realtime-event.service';
+
+const MAX_MESSAGE_LENGTH = 4000;
+const PREVIEW_LENGTH = 120;
+
+export interface ConversationScope {
+  offerId?: string;
+  bidId?: string;
+  orderId?: string;
+}
+
+export interface SendMessageInput {
+  body?: string;
+  attachments?: string[];
+}
+
+const participantSelect = {
+  id: true,
+  fullName: true,
+  brandName: true,
+  brandLogo: true,
+  profileImage: true,
+} satisfies Prisma.UserSelect;
+
+const conversationInclude = {
+  customer: { select: participantSelect },
+  designer: { select: participantSelect },
+  offer: { select: { id: true, status: true, design: { select: { id: true, title: true } } } },
+  bid: { select: { id: true, status: true, request: { select: { id: true, title: true } } } },
+  order: { select: { id: true, orderNumber: true, status: true } },
+} satisfies Prisma.ConversationInclude;
+
+class ConversationService {
+  /**
+   * Open the conversation for an offer, bid or order, creating it on first use.
+   * Only the customer and designer involved can open it.
+   */
+  async getOrCreateConversation(userId: string, scope: ConversationScope) {
+    const context = await this.resolveScope(scope);
+
+    if (userId !== context.customerId && userId !== context.designerId) {
+      throw new Error('Forbidden: you are not a participant in this conversation');
+    }
+
+    const where = this.scopeWhere(context.contextType, context.entityId);
+    const existing = await prisma.conversation.findUnique({
+      where,
+      include: conversationInclude,
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    try {
+      return await prisma.conversation.create({
+        data: {
+          contextType: context.contextType,
+          ...where,
+          customerId: context.customerId,
+          designerId: context.designerId,
+        },
+        include: conversationInclude,
+      });
+    } catch (error) {
+      // Both participants opened the thread at the same time
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return prisma.conversation.findUniqueOrThrow({ where, include: conversationInclude });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Inbox for a user, most recent activity first, with unread counts
+   */
+  async listConversations(userId: string, page = 1, limit = 20) {
+    const where: Prisma.ConversationWhereInput = {
+      OR: [{ customerId: userId }, { designerId: userId }],
+    };
+
+    const [conversations, total] = await Promise.all([
+      prisma.conversation.findMany({
+        where,
+        include: conversationInclude,
+        orderBy: [{ lastMessageAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.conversation.count({ where }),
+    ]);
+
+    const unread = await prisma.message.groupBy({
+      by: ['conversationId'],
+      where: {
+        conversationId: { in: conversations.map((conversation) => conversation.id) },
+        senderId: { not: userId },
+        readAt: null,
+      },
+      _count: { _all: true },
+    });
+    const unreadByConversation = new Map(
+      unread.map((group) => [group.conversationId, group._count._all])
+    );
+
+    return {
+      conversations: conversations.map((conversation) => ({
+        ...conversation,
+        unreadCount: unreadByConversation.get(conversation.id) || 0,
+      })),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getConversation(conversationId: string, userId: string) {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      include: conversationInclude,
+    });
+
+    if (!conversation || !this.isParticipant(conversation, userId)) {
+      throw new Error('Conversation not found');
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Messages newest first. Pass `before` (a message id) to page back through history.
+   */
+  async getMessages(conversationId: string, userId: string, before?: string, limit = 30) {
+    await this.getParticipantConversation(conversationId, userId);
+
+    const messages = await prisma.message.findMany({
+      where: { conversationId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(before ? { cursor: { id: before }, skip: 1 } : {}),
+    });
+
+    const hasMore = messages.length > limit;
+
+    return {
+      messages: hasMore ? messages.slice(0, limit) : messages,
+      hasMore,
+    };
+  }
+
+  async sendMessage(conversationId: string, senderId: string, input: SendMessageInput) {
+    const conversation = await this.getParticipantConversation(conversationId, senderId);
+
+    const body = input.body?.trim() || null;
+    const attachments = input.attachments || [];
+
+    if (!body && attachments.length === 0) {
+      throw new Error('Message text or an attachment is required');
+    }
+
+    if (body && body.length > MAX_MESSAGE_LENGTH) {
+      throw new Error(`Invalid message: maximum length is ${MAX_MESSAGE_LENGTH} characters`);
+    }
+
+    const preview = body ? body.slice(0, PREVIEW_LENGTH) : '📷 Photo';
+
+    const [message] = await prisma.$transaction([
+      prisma.message.create({
+        data: {
+          conversationId,
+          senderId,
+          body,
+          attachments,
+        },
+      }),
+      prisma.conversation.update({
+        where: { id: conversationId },
+        data: {
+          lastMessageAt: new Date(),
+          lastMessagePreview: preview,
+        },
+      }),
+    ]);
+
+    const recipientId =
+      senderId === conversation.customerId ? conversation.designerId : conversation.customerId;
+
+    // Sender's other devices get it too
+    realtimeEventService.publishToUsers([recipientId, senderId], {
+      type: 'MESSAGE_CREATED',
+      domain: 'message',
+      action: 'message_created',
+      entityId: conversationId,
+      actorUserId: senderId,
+      payload: {
+        conversationId,
+        message,
+      },
+    });
+
+    // Push only - chat messages are not stored as in-app notifications
+    const sender = await prisma.user.findUnique({
+      where: { id: senderId },
+      select: { fullName: true, brandName: true },
+    });
+
+    notificationService
+      .sendPushNotification({
+        userId: recipientId,
+        title: `💬 ${sender?.brandName || sender?.fullName || 'New message'}`,
+        message: preview,
+        data: {
+          type: 'NEW_MESSAGE',
+          conversationId,
+          messageId: message.id,
+        },
+      })
+      .catch((error) => {
+        console.error('Failed to send message push notification:', error);
+      });
+
+    return message;
+  }
+
+  /**
+   * Mark everything the other participant sent as read (read receipt)
+   */
+  async markAsRead(conversationId: string, userId: string) {
+    const conversation = await this.getParticipantConversation(conversationId, userId);
+    const readAt = new Date();
+
+    const result = await prisma.message.updateMany({
+      where: {
+        conversationId,
+        senderId: { not: userId },
+        readAt: null,
+      },
+      data: { readAt },
+    });
+
+    if (result.count > 0) {
+      const otherParticipantId =
+        userId === conversation.customerId ? conversation.designerId : conversation.customerId;
+
+      realtimeEventService.publishToUsers([otherParticipantId, userId], {
+        type: 'MESSAGES_READ',
+        domain: 'message',
+        action: 'messages_read',
+        entityId: conversationId,
+        actorUserId: userId,
+        payload: {
+          conversationId,
+          readAt: readAt.toISOString(),
+          count: result.count,
+        },
+      });
+    }
+
+    return { count: result.count, readAt };
+  }
+
+  /**
+   * Total unread messages across all of a user's conversations
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    return prisma.message.count({
+      where: {
+        senderId: { not: userId },
+        readAt: null,
+        conversation: {
+          OR: [{ customerId: userId }, { designerId: userId }],
+        },
+      },
+    });
+  }
+
+  private async getParticipantConversation(
+    conversationId: string,
+    userId: string
+  ): Promise<Conversation> {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+    });
+
+    if (!conversation || !this.isParticipant(conversation, userId)) {
+      throw new Error('Conversation not found');
+    }
+
+    return conversation;
+  }
+
+  private isParticipant(conversation: Conversation, userId: string): boolean {
+    return conversation.customerId === userId || conversation.designerId === userId;
+  }
+
+  private scopeWhere(
+    contextType: ConversationContext,
+    entityId: string
+  ): { offerId: string } | { bidId: string } | { orderId: string } {
+    switch (contextType) {
+      case 'OFFER':
+        return { offerId: entityId };
+      case 'CUSTOM_REQUEST_BID':
+        return { bidId: entityId };
+      default:
+        return { orderId: entityId };
+    }
+  }
+
+  /**
+   * Work out the context and its two participants from exactly one of offerId/bidId/orderId
+   */
+  private async resolveScope(scope: ConversationScope): Promise<{
+    contextType: ConversationContext;
+    entityId: string;
+    customerId: string;
+    designerId: string;
+  }> {
+    const provided = [scope.offerId, scope.bidId, scope.orderId].filter(Boolean);
+
+    if (provided.length !== 1) {
+      throw new Error('Invalid conversation scope: provide exactly one of offerId, bidId, orderId');
+    }
+
+    if (scope.offerId) {
+      const offer = await prisma.offer.findUnique({
+        where: { id: scope.offerId },
+        select: { customerId: true, designerId: true },
+      });
+
+      if (!offer) {
+        throw new Error('Offer not found');
+      }
+
+      return { contextType: 'OFFER', entityId: scope.offerId, ...offer };
+    }
+
+    if (scope.bidId) {
+      const bid = await prisma.customRequestBid.findUnique({
+        where: { id: scope.bidId },
+        select: { designerId: true, request: { select: { customerId: true } } },
+      });
+
+      if (!bid) {
+        throw new Error('Bid not found');
+      }
+
+      return {
+        contextType: 'CUSTOM_REQUEST_BID',
+        entityId: scope.bidId,
+        customerId: bid.request.customerId,
+        designerId: bid.designerId,
+      };
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: scope.orderId },
+      select: { customerId: true, designerId: true },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    return { contextType: 'ORDER', entityId: scope.orderId!, ...order };
+  }
+}
+
+export const conversationService = new ConversationService();
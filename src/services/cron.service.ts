@@ -1,78 +1,138 @@
-import cron from 'node-cron';
 import prisma from '../config/database';
 import { OrderStatus } from '@prisma/client';
 import { trackingService } from './tracking.service';
 import walletService from './wallet.service';
 import { notificationService } from './notification.service';
 import feeService from './fee.service';
+import offerService from './offer.service';
+import { paymentService } from './payment.service';
+import { deadlineService } from './deadline.service';
+import { reconciliationService } from './reconciliation.service';
+import { payoutScheduleService } from './payout-schedule.service';
+import { paymentPlanService } from './payment-plan.service';
+import { voucherService } from './voucher.service';
+import { invoiceService } from './invoice.service';
+import { orderStatusService, BEFORE_SHIPPING } from './order-status.service';
+import { PayoutService } from './payout.service';
+import { jobRunnerService, JobResult } from './job-runner.service';
+
+const payoutService = new PayoutService();
 
 /**
  * Cron Service
- * Manages all scheduled background jobs for the escrow system
+ * Defines all scheduled background jobs for the escrow system. Scheduling, leader
+ * locking, retries and run history are handled by the job runner.
  */
 class CronService {
-  private jobs: any[] = [];
+  constructor() {
+    jobRunnerService.register({
+      name: 'shipment-tracking',
+      description: 'Poll carriers for shipment status updates',
+      schedule: '0 */6 * * *', // Every 6 hours
+      handler: () => trackingService.checkShipmentStatus(),
+    });
 
-  /**
-   * Initialize all cron jobs
-   */
-  start(): void {
-    console.log('[Cron] Starting scheduled jobs...');
+    jobRunnerService.register({
+      name: 'auto-confirm-orders',
+      description: 'Confirm delivered orders past their confirmation window and release payment',
+      schedule: '0 2 * * *', // Daily at 2 AM
+      handler: () => this.autoConfirmOrders(),
+    });
 
-    // Job 1: Check shipment tracking every 6 hours
-    const trackingJob = cron.schedule('0 */6 * * *', async () => {
-      console.log('[Cron] Running shipment tracking check...');
-      try {
-        await trackingService.checkShipmentStatus();
-      } catch (error) {
-        console.error('[Cron] Error in tracking job:', error);
-      }
+    jobRunnerService.register({
+      name: 'deadline-reminders',
+      description: 'Remind designers of upcoming and missed deadlines',
+      schedule: '0 9 * * *', // Daily at 9 AM
+      handler: () => this.sendDeadlineReminders(),
     });
-    this.jobs.push(trackingJob);
 
-    // Job 2: Auto-confirm delivered orders (runs daily at 2 AM)
-    const autoConfirmJob = cron.schedule('0 2 * * *', async () => {
-      console.log('[Cron] Running auto-confirm check...');
-      try {
-        await this.autoConfirmOrders();
-      } catch (error) {
-        console.error('[Cron] Error in auto-confirm job:', error);
-      }
+    jobRunnerService.register({
+      name: 'auto-confirm-warnings',
+      description: 'Warn customers two days before an order auto-confirms',
+      schedule: '0 10 * * *', // Daily at 10 AM
+      handler: () => this.sendAutoConfirmWarnings(),
     });
-    this.jobs.push(autoConfirmJob);
 
-    // Job 3: Send deadline reminders (runs daily at 9 AM)
-    const deadlineRemindersJob = cron.schedule('0 9 * * *', async () => {
-      console.log('[Cron] Running deadline reminders...');
-      try {
-        await this.sendDeadlineReminders();
-      } catch (error) {
-        console.error('[Cron] Error in deadline reminders job:', error);
-      }
+    jobRunnerService.register({
+      name: 'expire-offers-and-payments',
+      description: 'Expire stale offers and payment links',
+      schedule: '*/5 * * * *', // Every 5 minutes
+      handler: () => this.expireStaleOffersAndPayments(),
     });
-    this.jobs.push(deadlineRemindersJob);
 
-    // Job 4: Send auto-confirm warnings (runs daily at 10 AM)
-    const autoConfirmWarningJob = cron.schedule('0 10 * * *', async () => {
-      console.log('[Cron] Sending auto-confirm warnings...');
-      try {
-        await this.sendAutoConfirmWarnings();
-      } catch (error) {
-        console.error('[Cron] Error in auto-confirm warning job:', error);
-      }
+    jobRunnerService.register({
+      name: 'deadline-monitor',
+      description: 'Flag overdue orders and send deadline notifications',
+      schedule: '0 * * * *', // Hourly
+      handler: () => deadlineService.monitorDeadlines(),
+      runOnStart: true,
+    });
+
+    jobRunnerService.register({
+      name: 'scheduled-payouts',
+      description: 'Pay out available balances for designers with an automatic payout schedule',
+      schedule: '0 8 * * *', // Daily at 8 AM, after auto-confirm has released payments
+      handler: () => payoutScheduleService.runScheduledPayouts(),
+      maxAttempts: 1, // Each schedule is claimed for the day; a retry would skip them anyway
+    });
+
+    jobRunnerService.register({
+      name: 'payout-retries',
+      description: 'Resubmit payouts that failed with a transient error once their backoff elapses',
+      schedule: '*/5 * * * *', // Every 5 minutes
+      handler: () => payoutService.retryDuePayouts(),
+      maxAttempts: 1, // Payouts keep their own retry count and backoff
     });
-    this.jobs.push(autoConfirmWarningJob);
 
-    console.log(`[Cron] Started ${this.jobs.length} scheduled jobs`);
+    jobRunnerService.register({
+      name: 'wallet-reconciliation',
+      description: 'Reconcile wallets, escrow and payouts against history and alert on drift',
+      schedule: '30 3 * * *', // Daily at 3:30 AM, after auto-confirm has released payments
+      handler: async () => {
+        const report = await reconciliationService.run();
+        return { reportId: report.id, status: report.status };
+      },
+    });
+
+    jobRunnerService.register({
+      name: 'balance-reminders',
+      description: 'Remind customers of payment-plan balances that are due',
+      schedule: '0 10 * * *', // Daily at 10 AM
+      handler: () => paymentPlanService.sendBalanceReminders(),
+      maxAttempts: 1, // Each reminder is claimed before sending; a retry would skip them anyway
+    });
   }
 
   /**
-   * Stop all cron jobs
+   * Start all scheduled jobs
+   */
+  start(): void {
+    console.log('[Cron] Starting scheduled jobs...');
+    jobRunnerService.start();
+  }
+
+  /**
+   * Stop all scheduled jobs
    */
   stop(): void {
     console.log('[Cron] Stopping all scheduled jobs...');
-    this.jobs.forEach((job) => job.stop());
-    this.jobs = [];
+    jobRunnerService.stop();
+  }
+
+  /**
+   * Move offers and pending payments past their expiresAt to EXPIRED
+   */
+  private async expireStaleOffersAndPayments(): Promise<JobResult> {
+    const expiredOffers = await offerService.expireStaleOffers();
+    const expiredPayments = await paymentService.expireStalePayments();
+
+    if (expiredOffers > 0 || expiredPayments > 0) {
+      console.log(
+        `[Cron] Expired ${expiredOffers} offers and ${expiredPayments} payment transactions`
+      );
+    }
+
+    return { expiredOffers, expiredPayments };
   }
 
   /**
@@ -101,9 +161,10 @@ class CronService {
     for (const order of ordersToConfirm) {
       try {
         // Calculate platform fee using dynamic fee service
+        const settlementAmount = voucherService.getSettlementAmount(order);
         const feeCalc = await feeService.calculateFeeForDesigner(
           order.designerId,
-          order.finalPrice,
+          settlementAmount,
           now
         );
         const platformFee = feeCalc.feeAmount;
@@ -113,37 +174,60 @@ class CronService {
           `[Cron] Order ${order.orderNumber}: ${(feeCalc.percentage * 100).toFixed(1)}% fee via ${feeCalc.appliedRule}`
         );
 
-        // Release payment to designer
-        await walletService.creditWallet({
-          userId: order.designerId,
-          amount: netAmount,
-          description: `Payment for order ${order.id} (auto-confirmed)`,
+        const release = {
+          reference: `order-release:${order.id}`,
           orderId: order.id,
+          customerId: order.customerId,
+          recipientId: order.designerId,
+          grossAmount: settlementAmount,
+          platformFee,
+          description: `Payment for order ${order.id} (auto-confirmed)`,
+        };
+
+        // Complete the order and release escrow to the designer (fee stays with the
+        // platform) together; an order disputed meanwhile is skipped and not released
+        const settled = await prisma.$transaction(async (tx) => {
+          const change = await orderStatusService.applyIfAllowedInTransaction(
+            order.id,
+            OrderStatus.COMPLETED,
+            {
+              actor: 'SYSTEM',
+              note: 'Auto-confirmed after the confirmation window',
+              data: {
+                deliveryConfirmedBy: 'SYSTEM',
+                customerConfirmedAt: now,
+                paymentReleasedAt: now,
+                paymentAmount: netAmount,
+                platformFee,
+                feePercentageApplied: feeCalc.percentage,
+                feeRuleApplied: feeCalc.appliedRule,
+              },
+            },
+            tx
+          );
+
+          if (!change) {
+            return null;
+          }
+
+          const posted = await walletService.releaseEscrowInTransaction(release, tx);
+          return { change, posted };
         });
 
-        // Update order
-        const updatedOrder = await prisma.order.update({
-          where: { id: order.id },
-          data: {
-            status: OrderStatus.COMPLETED,
-            deliveryConfirmedBy: 'SYSTEM',
-            customerConfirmedAt: now,
-            paymentReleasedAt: now,
-            paymentAmount: netAmount,
-            platformFee,
-            feePercentageApplied: feeCalc.percentage,
-            feeRuleApplied: feeCalc.appliedRule,
-          },
-          include: {
-            customer: true,
-            designer: true,
-          },
-        });
+        if (!settled) {
+          console.log(`[Cron] Order ${order.id} changed status, skipping auto-confirm`);
+          continue;
+        }
+
+        await orderStatusService.runSideEffects(settled.change);
+        walletService.publishRelease(release, settled.posted);
+        const confirmedOrder = settled.change.order;
 
         console.log(`[Cron] Auto-confirmed order ${order.id}`);
 
-        // Notify designer
-        await notificationService.notifyPaymentReleased(updatedOrder);
+        // Notify designer, with their earnings statement
+        const statement = await invoiceService.sendEarningsStatement(order.id);
+        await notificationService.notifyPaymentReleased(confirmedOrder, statement);
 
         // Notify buyer about auto-confirmation
         await notificationService.notifyUser({
@@ -210,7 +294,7 @@ class CronService {
     const orders = await prisma.order.findMany({
       where: {
         status: {
-          in: [OrderStatus.PENDING, OrderStatus.CONSTRUCTION, OrderStatus.SOURCING],
+          in: BEFORE_SHIPPING,
         },
         deadline: {
           not: null,
@@ -1,5 +1,6 @@
-import { PrismaClient, OrderStatus } from '@prisma/client';
+import { PrismaClient } from '@prisma/client';
 import { notificationService } from './notification.service';
+import { BEFORE_SHIPPING } from './order-status.service';
 
 const prisma = new PrismaClient();
 
@@ -32,7 +33,7 @@ class DeadlineService {
         thresholdTime.setHours(thresholdTime.getHours() + threshold.hours);
 
         // Find orders with deadlines within this threshold
-        // That are not yet delivered/cancelled
+        // That haven't shipped yet
         // And haven't been notified for this specific threshold yet
         const orders = await prisma.order.findMany({
           where: {
@@ -41,7 +42,7 @@ class DeadlineService {
               gt: now,
             },
             status: {
-              notIn: [OrderStatus.DELIVERED, OrderStatus.CANCELLED],
+              in: BEFORE_SHIPPING,
             },
           },
           include: {
@@ -109,14 +110,14 @@ class DeadlineService {
     try {
       const now = new Date();
 
-      // Find orders past their deadline that are not delivered/cancelled
+      // Find orders past their deadline that haven't shipped yet
       const overdueOrders = await prisma.order.findMany({
         where: {
           deadline: {
             lt: now,
           },
           status: {
-            notIn: [OrderStatus.DELIVERED, OrderStatus.CANCELLED],
+            in: BEFORE_SHIPPING,
           },
         },
         include: {
@@ -233,7 +234,7 @@ class DeadlineService {
           lte: sevenDaysFromNow,
         },
         status: {
-          notIn: [OrderStatus.DELIVERED, OrderStatus.CANCELLED],
+          in: BEFORE_SHIPPING,
         },
       },
     });
@@ -246,7 +247,7 @@ class DeadlineService {
           lt: now,
         },
         status: {
-          notIn: [OrderStatus.DELIVERED, OrderStatus.CANCELLED],
+          in: BEFORE_SHIPPING,
         },
       },
     });
@@ -258,7 +259,9 @@ class DeadlineService {
         deadline: {
           not: null,
         },
-        status: OrderStatus.DELIVERED,
+        deliveredAt: {
+          not: null,
+        },
       },
       select: {
         deadline: true,
@@ -40,7 +40,8 @@ export interface DesignFilters {
   maxPrice?: number;
   designerId?: string;
   search?: string;
-  sortBy?: 'price-asc' | 'price-desc' | 'newest';
+  minRating?: number;
+  sortBy?: 'price-asc' | 'price-desc' | 'newest' | 'rating' | 'most-reviewed';
 }
 
 class DesignService {
@@ -105,12 +106,21 @@ class DesignService {
       ];
     }
 
+    if (filters.minRating !== undefined) {
+      where.averageRating = { gte: filters.minRating };
+      where.reviewCount = { gt: 0 };
+    }
+
     // Determine sort order
     let orderBy: any = { createdAt: 'desc' }; // default: newest first
     if (filters.sortBy === 'price-asc') {
       orderBy = { price: 'asc' };
     } else if (filters.sortBy === 'price-desc') {
       orderBy = { price: 'desc' };
+    } else if (filters.sortBy === 'rating') {
+      orderBy = [{ averageRating: 'desc' }, { reviewCount: 'desc' }, { createdAt: 'desc' }];
+    } else if (filters.sortBy === 'most-reviewed') {
+      orderBy = [{ reviewCount: 'desc' }, { averageRating: 'desc' }];
     }
 
     const [designs, total] = await Promise.all([
@@ -409,7 +419,7 @@ class DesignService {
   }
 
   async getDesigners(
-    filters: { search?: string; sortBy?: 'most-designs' | 'newest' | 'a-z' } = {}
+    filters: { search?: string; sortBy?: 'most-designs' | 'newest' | 'a-z' | 'top-rated' } = {}
   ) {
     const where: any = {
       role: 'DESIGNER',
@@ -430,6 +440,8 @@ class DesignService {
       orderBy = { createdAt: 'desc' };
     } else if (filters.sortBy === 'a-z') {
       orderBy = { brandName: 'asc' };
+    } else if (filters.sortBy === 'top-rated') {
+      orderBy = [{ averageRating: 'desc' }, { reviewCount: 'desc' }];
     }
 
     const designers = await prisma.user.findMany({
@@ -441,6 +453,8 @@ class DesignService {
         brandLogo: true,
         profileImage: true,
         bio: true,
+        averageRating: true,
+        reviewCount: true,
         _count: {
           select: {
             designs: true,
@@ -0,0 +1,613 @@
+/**
+ * Dispute Service
+ *
+ * Dispute threads, evidence and admin rulings for orders held in escrow.
+ */
+
+import prisma from '../config/database';
+import { Dispute, DisputeRuling, OrderStatus, Prisma, UserRole } from '@prisma/client';
+import walletService from './wallet.service';
+import feeService from './fee.service';
+import { notificationService } from './notification.service';
+import { realtimeEventService } from './realtime-event.service';
+import adminEventsService from './admin-events.service';
+import { refundService } from './refund.service';
+import { voucherService } from './voucher.service';
+import { invoiceService } from './invoice.service';
+import { orderStatusService } from './order-status.service';
+import { alterationService } from './alteration.service';
+
+interface OpenDisputeData {
+  reason: string;
+  evidence?: string[];
+}
+
+interface AddMessageData {
+  message: string;
+  attachments?: string[];
+}
+
+interface ResolveDisputeData {
+  ruling: DisputeRuling;
+  customerRefundAmount?: number; // Required for PARTIAL_SPLIT
+  notes: string;
+}
+
+interface ListDisputesFilters {
+  status?: string;
+  page?: number;
+  limit?: number;
+}
+
+const disputeInclude = {
+  order: {
+    select: {
+      id: true,
+      orderNumber: true,
+      status: true,
+      finalPrice: true,
+      customerId: true,
+      designerId: true,
+      customer: {
+        select: { id: true, fullName: true, email: true, profileImage: true },
+      },
+      designer: {
+        select: { id: true, fullName: true, brandName: true, brandLogo: true, email: true },
+      },
+      design: {
+        select: { id: true, title: true, images: true },
+      },
+    },
+  },
+  messages: {
+    orderBy: { createdAt: 'asc' as const },
+    include: {
+      sender: {
+        select: { id: true, fullName: true, brandName: true, profileImage: true },
+      },
+    },
+  },
+  resolvedBy: {
+    select: { id: true, fullName: true, email: true },
+  },
+} satisfies Prisma.DisputeInclude;
+
+class DisputeService {
+  private publishDisputeRealtime(
+    order: { id: string; customerId: string; designerId: string },
+    action: string,
+    actorUserId: string,
+    payload?: Record<string, unknown>
+  ) {
+    realtimeEventService.publishToUsers([order.customerId, order.designerId], {
+      type: 'DISPUTE_UPDATED',
+      domain: 'order',
+      action,
+      entityId: order.id,
+      actorUserId,
+      payload: {
+        orderId: order.id,
+        ...(payload || {}),
+      },
+    });
+  }
+
+  /**
+   * Open a dispute for an order (customer only).
+   * Freezes the order in DISPUTED until an admin rules on it.
+   */
+  async openDispute(orderId: string, userId: string, data: OpenDisputeData): Promise<Dispute> {
+    const existing = await prisma.order.findFirst({
+      where: {
+        id: orderId,
+        customerId: userId,
+      },
+      include: { dispute: { select: { id: true } } },
+    });
+
+    if (!existing) {
+      throw new Error('Order not found or access denied');
+    }
+
+    if (existing.dispute) {
+      throw new Error('A dispute already exists for this order');
+    }
+
+    // Check buyer protection period (60 days from creation)
+    const protectionExpired =
+      existing.buyerProtectionUntil && new Date() > existing.buyerProtectionUntil;
+    if (protectionExpired) {
+      throw new Error('Invalid dispute: the buyer protection period has expired');
+    }
+
+    // Escrow can only be ruled on while the money is still held
+    if (existing.paymentReleasedAt) {
+      throw new Error(
+        'Invalid dispute: payment for this order has already been released to the designer'
+      );
+    }
+
+    if (['CANCELLED', 'REFUNDED'].includes(existing.status)) {
+      throw new Error(
+        `Invalid dispute: cannot open a dispute on a ${existing.status.toLowerCase()} order`
+      );
+    }
+
+    const reason = data.reason?.trim();
+    if (!reason || reason.length < 10) {
+      throw new Error('A detailed reason for the dispute is required (at least 10 characters)');
+    }
+
+    const evidence = data.evidence || [];
+
+    const { dispute, statusChange } = await prisma.$transaction(async (tx) => {
+      // Also holds the designer's pending earning until the ruling
+      const change = await orderStatusService.applyInTransaction(
+        orderId,
+        'DISPUTED',
+        {
+          actor: 'CUSTOMER',
+          actorId: userId,
+          note: reason,
+          data: {
+            disputeOpenedAt: new Date(),
+            disputeReason: reason,
+            // Freeze the auto-confirm countdown while the dispute is open
+            autoConfirmAt: null,
+          },
+        },
+        tx
+      );
+
+      // The dispute takes over from any alteration in progress
+      await alterationService.closeOpenRequests(orderId, tx);
+
+      const created = await tx.dispute.create({
+        data: {
+          orderId,
+          openedById: userId,
+          reason,
+          evidence,
+          orderStatusAtOpen: existing.status,
+          messages: {
+            create: {
+              senderId: userId,
+              senderRole: 'CUSTOMER',
+              message: reason,
+              attachments: evidence,
+            },
+          },
+        },
+        include: disputeInclude,
+      });
+
+      return { dispute: created, statusChange: change };
+    });
+
+    // Notifies the designer
+    await orderStatusService.runSideEffects(statusChange);
+
+    this.publishDisputeRealtime(existing, 'dispute_opened', userId, { disputeId: dispute.id });
+
+    adminEventsService.emitSystemAlert(
+      'warning',
+      `Dispute opened on order ${existing.orderNumber}`,
+      {
+        orderId: existing.id,
+        disputeId: dispute.id,
+      }
+    );
+
+    return dispute;
+  }
+
+  /**
+   * Get the dispute thread for an order (customer or designer of the order)
+   */
+  async getDisputeForParticipant(orderId: string, userId: string) {
+    const dispute = await prisma.dispute.findUnique({
+      where: { orderId },
+      include: disputeInclude,
+    });
+
+    if (!dispute || (dispute.order.customerId !== userId && dispute.order.designerId !== userId)) {
+      throw new Error('Dispute not found or access denied');
+    }
+
+    return dispute;
+  }
+
+  /**
+   * Post a message (optionally with photo evidence) on a dispute thread.
+   * The designer's first reply moves the dispute to UNDER_REVIEW.
+   */
+  async addMessage(orderId: string, userId: string, userRole: string, data: AddMessageData) {
+    const dispute = await prisma.dispute.findUnique({
+      where: { orderId },
+      include: {
+        order: {
+          select: { id: true, orderNumber: true, customerId: true, designerId: true },
+        },
+      },
+    });
+
+    const isAdmin = userRole === 'ADMIN';
+    if (
+      !dispute ||
+      (!isAdmin && dispute.order.customerId !== userId && dispute.order.designerId !== userId)
+    ) {
+      throw new Error('Dispute not found or access denied');
+    }
+
+    if (dispute.status === 'RESOLVED') {
+      throw new Error('Invalid message: this dispute has already been resolved');
+    }
+
+    const message = data.message?.trim();
+    const attachments = data.attachments || [];
+    if (!message && attachments.length === 0) {
+      throw new Error('Message or evidence is required');
+    }
+
+    const senderRole: UserRole = isAdmin
+      ? 'ADMIN'
+      : dispute.order.designerId === userId
+        ? 'DESIGNER'
+        : 'CUSTOMER';
+
+    const isFirstDesignerResponse = senderRole === 'DESIGNER' && !dispute.designerRespondedAt;
+
+    const created = await prisma.$transaction(async (tx) => {
+      const disputeMessage = await tx.disputeMessage.create({
+        data: {
+          disputeId: dispute.id,
+          senderId: userId,
+          senderRole,
+          message: message || '',
+          attachments,
+        },
+        include: {
+          sender: {
+            select: { id: true, fullName: true, brandName: true, profileImage: true },
+          },
+        },
+      });
+
+      if (isFirstDesignerResponse) {
+        await tx.dispute.update({
+          where: { id: dispute.id },
+          data: { designerRespondedAt: new Date(), status: 'UNDER_REVIEW' },
+        });
+      } else if (senderRole === 'CUSTOMER' && attachments.length > 0) {
+        await tx.dispute.update({
+          where: { id: dispute.id },
+          data: { evidence: { push: attachments } },
+        });
+      }
+
+      return disputeMessage;
+    });
+
+    // Notify the other participant(s)
+    const recipients =
+      senderRole === 'ADMIN'
+        ? [dispute.order.customerId, dispute.order.designerId]
+        : [senderRole === 'DESIGNER' ? dispute.order.customerId : dispute.order.designerId];
+
+    await Promise.all(
+      recipients.map((recipientId) =>
+        notificationService.notifyUser({
+          userId: recipientId,
+          type: 'DISPUTE_MESSAGE',
+          title: senderRole === 'ADMIN' ? '🛡️ Message from QT Fashion' : '💬 New Dispute Message',
+          message: `New message on the dispute for order #${dispute.order.orderNumber}`,
+          orderId: dispute.order.id,
+          data: {
+            orderId: dispute.order.id,
+            orderNumber: dispute.order.orderNumber,
+            disputeId: dispute.id,
+          },
+        })
+      )
+    );
+
+    this.publishDisputeRealtime(dispute.order, 'dispute_message', userId, {
+      disputeId: dispute.id,
+      messageId: created.id,
+      senderRole,
+    });
+
+    return created;
+  }
+
+  /**
+   * List disputes (admin)
+   */
+  async listDisputes(filters: ListDisputesFilters) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const where: Prisma.DisputeWhereInput = {};
+
+    if (filters.status && filters.status !== 'ALL') {
+      where.status = filters.status as Dispute['status'];
+    }
+
+    const [disputes, total] = await Promise.all([
+      prisma.dispute.findMany({
+        where,
+        include: {
+          order: {
+            select: {
+              id: true,
+              orderNumber: true,
+              status: true,
+              finalPrice: true,
+              customer: { select: { id: true, fullName: true, email: true } },
+              designer: { select: { id: true, fullName: true, brandName: true, email: true } },
+            },
+          },
+          _count: { select: { messages: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.dispute.count({ where }),
+    ]);
+
+    return {
+      disputes,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get full dispute for an order (admin)
+   */
+  async getDisputeByOrderId(orderId: string) {
+    const dispute = await prisma.dispute.findUnique({
+      where: { orderId },
+      include: disputeInclude,
+    });
+
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+
+    return dispute;
+  }
+
+  /**
+   * Apply an admin ruling to a dispute and settle the escrow through the wallet.
+   *
+   * - RELEASE_TO_DESIGNER: designer receives the full price minus platform fee
+   * - REFUND_TO_CUSTOMER: customer receives the full price back
+   * - PARTIAL_SPLIT: customer receives `customerRefundAmount`, the designer
+   *   receives the remainder minus platform fee on that remainder
+   *
+   * The customer's share is refunded to their payment method, or only recorded (and
+   * flagged to admins) when the order has no online payment to refund against.
+   */
+  async resolveDispute(orderId: string, adminId: string, data: ResolveDisputeData) {
+    const dispute = await prisma.dispute.findUnique({
+      where: { orderId },
+      include: {
+        order: {
+          include: {
+            design: { select: { title: true } },
+          },
+        },
+      },
+    });
+
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+
+    if (dispute.status === 'RESOLVED') {
+      throw new Error('A ruling already exists for this dispute');
+    }
+
+    if (!Object.values(DisputeRuling).includes(data.ruling)) {
+      throw new Error(`Invalid ruling. Must be one of: ${Object.values(DisputeRuling).join(', ')}`);
+    }
+
+    const notes = data.notes?.trim();
+    if (!notes) {
+      throw new Error('Resolution notes are required');
+    }
+
+    const order = dispute.order;
+    // Only what the customer has paid so far is theirs to get back
+    const total = Math.min(order.finalPrice - order.discountAmount, order.amountPaid);
+
+    let customerRefundAmount = 0;
+    if (data.ruling === 'REFUND_TO_CUSTOMER') {
+      customerRefundAmount = total;
+    } else if (data.ruling === 'PARTIAL_SPLIT') {
+      const amount = Number(data.customerRefundAmount);
+      if (!Number.isFinite(amount) || amount <= 0 || amount >= total) {
+        throw new Error(
+          `Invalid customer refund amount. Must be greater than 0 and less than ₦${total.toLocaleString()}`
+        );
+      }
+      customerRefundAmount = Math.round(amount * 100) / 100;
+    }
+
+    // A platform-funded voucher discount follows the designer's share; on a full
+    // refund it goes back to revenue once the refund completes
+    const platformFunding =
+      customerRefundAmount < total ? voucherService.getPlatformFunding(order) : 0;
+    const designerGross = Math.round((total - customerRefundAmount + platformFunding) * 100) / 100;
+
+    let platformFee = 0;
+    let designerPayoutAmount = 0;
+    let feePercentageApplied: number | null = null;
+    let feeRuleApplied: string | null = null;
+    if (designerGross > 0) {
+      const feeCalc = await feeService.calculateFeeForDesigner(
+        order.designerId,
+        designerGross,
+        new Date()
+      );
+      platformFee = feeCalc.feeAmount;
+      designerPayoutAmount = feeCalc.designerReceives;
+      feePercentageApplied = feeCalc.percentage;
+      feeRuleApplied = feeCalc.appliedRule;
+    }
+
+    // Orders created before online payments have nothing captured to refund against:
+    // the customer's share is refunded outside the platform and only recorded here
+    const capturedPayments = await prisma.paymentTransaction.count({
+      where: { orderId: order.id, status: 'SUCCESSFUL' },
+    });
+    const refundToProvider = customerRefundAmount > 0 && capturedPayments > 0;
+    const manualRefundAmount = refundToProvider ? 0 : customerRefundAmount;
+
+    // A full refund keeps the order DISPUTED until the provider confirms the
+    // refund, at which point the refund service moves it to REFUNDED. A manual one
+    // is settled by the ruling itself.
+    let newStatus: OrderStatus = 'COMPLETED';
+    if (data.ruling === 'REFUND_TO_CUSTOMER') {
+      newStatus = refundToProvider ? 'DISPUTED' : 'REFUNDED';
+    }
+    const now = new Date();
+
+    const disputeResolution = `${data.ruling}: ${notes}`;
+    const designerRelease = {
+      reference: `order-release:${order.id}`,
+      orderId: order.id,
+      customerId: order.customerId,
+      recipientId: order.designerId,
+      grossAmount: designerGross,
+      platformFee,
+      description: `Dispute ruling for order ${order.orderNumber} - ${order.design.title}`,
+    };
+
+    // The ruling, the order status and every ledger posting commit together; only the
+    // provider refund is submitted after the commit
+    const settled = await prisma.$transaction(async (tx) => {
+      // Claim the dispute first so concurrent rulings cannot settle it twice
+      const claimed = await tx.dispute.updateMany({
+        where: { id: dispute.id, status: { not: 'RESOLVED' } },
+        data: {
+          status: 'RESOLVED',
+          ruling: data.ruling,
+          customerRefundAmount,
+          designerPayoutAmount,
+          platformFee,
+          resolutionNotes: notes,
+          resolvedById: adminId,
+          resolvedAt: now,
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new Error('A ruling already exists for this dispute');
+      }
+
+      const statusChange =
+        newStatus !== 'DISPUTED'
+          ? await orderStatusService.applyInTransaction(
+              orderId,
+              newStatus,
+              {
+                actor: 'ADMIN',
+                actorId: adminId,
+                note: `Dispute ruling ${disputeResolution}`,
+                data: {
+                  disputeResolution,
+                  ...(designerGross > 0
+                    ? {
+                        paymentReleasedAt: now,
+                        paymentAmount: designerPayoutAmount,
+                        platformFee,
+                        feePercentageApplied,
+                        feeRuleApplied,
+                      }
+                    : {}),
+                },
+              },
+              tx
+            )
+          : null;
+      const updatedOrder =
+        statusChange?.order ||
+        (await tx.order.update({
+          where: { id: orderId },
+          data: { disputeResolution },
+        }));
+
+      const designerPosted =
+        designerGross > 0
+          ? await walletService.releaseEscrowInTransaction(designerRelease, tx)
+          : null;
+      if (designerGross === 0) {
+        await walletService.cancelEarning(order.id, tx);
+      }
+
+      // Return the customer's share to their original payment method
+      const refunds = refundToProvider
+        ? await refundService.createRefundRecords(
+            {
+              orderId: order.id,
+              amount: customerRefundAmount,
+              reason: `Dispute ruling (${data.ruling}): ${notes}`,
+              requestedById: adminId,
+              source: 'DISPUTE',
+            },
+            tx
+          )
+        : [];
+
+      return { updatedOrder, statusChange, designerPosted, refunds };
+    });
+
+    if (settled.statusChange) {
+      await orderStatusService.runSideEffects(settled.statusChange);
+    }
+    walletService.publishRelease(designerRelease, settled.designerPosted);
+
+    if (manualRefundAmount > 0) {
+      adminEventsService.emitSystemAlert(
+        'warning',
+        `Refund ₦${manualRefundAmount.toLocaleString()} for order ${order.orderNumber} to the customer outside the platform: it has no online payment to refund`,
+        { orderId: order.id, disputeId: dispute.id, amount: manualRefundAmount }
+      );
+    }
+
+    // Provider failures are recorded on the refunds and can be resubmitted by an admin
+    await refundService.submitRefunds(settled.refunds);
+
+    if (designerGross > 0) {
+      await invoiceService.sendEarningsStatement(order.id);
+    }
+
+    console.log(
+      `⚖️ Dispute on order ${order.orderNumber} resolved as ${data.ruling}: customer ₦${customerRefundAmount.toLocaleString()}, designer ₦${designerPayoutAmount.toLocaleString()} (fee ₦${platformFee.toLocaleString()})`
+    );
+
+    await notificationService.notifyDisputeResolved(settled.updatedOrder, {
+      ruling: data.ruling,
+      customerRefundAmount,
+      designerPayoutAmount,
+    });
+
+    this.publishDisputeRealtime(order, 'dispute_resolved', adminId, {
+      disputeId: dispute.id,
+      ruling: data.ruling,
+      status: newStatus,
+    });
+
+    adminEventsService.emitStatsUpdated('dispute_resolved');
+
+    return this.getDisputeByOrderId(orderId);
+  }
+}
+
+export default new DisputeService();
@@ -0,0 +1,477 @@
+import PDFDocument from 'pdfkit';
+import {
+  Invoice,
+  InvoiceType,
+  Order,
+  PaymentPurpose,
+  PaymentStatus,
+  Prisma,
+  VoucherFundedBy,
+} from '@prisma/client';
+import prisma from '../config/database';
+import { invoiceTemplate, mailService } from './mail';
+import { paymentPlanService } from './payment-plan.service';
+
+/**
+ * Invoice Service
+ * Receipts for the customer (one per captured payment) and an earnings statement for
+ * the designer once the order's payment is released. Invoices are numbered
+ * sequentially per year and keep a snapshot of the amounts they were issued with;
+ * the PDF and HTML are rendered from that snapshot on demand.
+ */
+
+export interface InvoiceLine {
+  label: string;
+  amount: number; // Naira, negative for deductions
+  total?: boolean;
+}
+
+const invoiceInclude = {
+  order: {
+    select: {
+      id: true,
+      orderNumber: true,
+      customerId: true,
+      designerId: true,
+      design: { select: { title: true } },
+      customer: { select: { fullName: true, email: true } },
+      designer: { select: { fullName: true, brandName: true, email: true } },
+    },
+  },
+  recipient: { select: { id: true, fullName: true, email: true } },
+} satisfies Prisma.InvoiceInclude;
+
+export type InvoiceWithDetails = Prisma.InvoiceGetPayload<{ include: typeof invoiceInclude }>;
+
+const PURPOSE_LABELS: Record<PaymentPurpose, string> = {
+  FULL: 'Payment in full',
+  DEPOSIT: 'Deposit',
+  BALANCE: 'Balance payment',
+};
+
+const roundNaira = (amount: number) => Math.round(amount * 100) / 100;
+
+// Plain "NGN" rather than the Naira sign, which the standard PDF fonts can't draw
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}NGN ${Math.abs(amount).toLocaleString('en-NG', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-NG', { year: 'numeric', month: 'long', day: 'numeric' });
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const getAppUrl = (): string => (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+class InvoiceService {
+  /**
+   * Issue the customer's receipt for a captured payment (idempotent)
+   */
+  async issueReceipt(paymentTransactionId: string): Promise<Invoice> {
+    const payment = await prisma.paymentTransaction.findUnique({
+      where: { id: paymentTransactionId },
+      include: { paidOrder: { include: { voucher: { select: { code: true } } } } },
+    });
+
+    if (!payment) {
+      throw new Error('Payment transaction not found');
+    }
+
+    const order = payment.paidOrder;
+    if (payment.status !== PaymentStatus.SUCCESSFUL || !order) {
+      throw new Error('Invalid receipt: the payment has not been captured for an order');
+    }
+
+    return this.issue(`receipt:${payment.id}`, {
+      type: InvoiceType.RECEIPT,
+      orderId: order.id,
+      recipientId: order.customerId,
+      paymentTransactionId: payment.id,
+      ...this.getPriceSnapshot(order),
+      paymentPurpose: payment.purpose,
+      amount: payment.amount,
+      amountPaidToDate: order.amountPaid,
+      balanceDue: paymentPlanService.getOutstandingBalance(order),
+    });
+  }
+
+  /**
+   * Issue the designer's earnings statement once the order's payment is released
+   * (idempotent)
+   */
+  async issueEarningsStatement(orderId: string): Promise<Invoice> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: { voucher: { select: { code: true } } },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    if (!order.paymentReleasedAt || order.paymentAmount === null) {
+      throw new Error('Invalid statement: payment for this order has not been released');
+    }
+
+    const platformFee = order.platformFee || 0;
+
+    return this.issue(`statement:${order.id}`, {
+      type: InvoiceType.EARNINGS_STATEMENT,
+      orderId: order.id,
+      recipientId: order.designerId,
+      ...this.getPriceSnapshot(order),
+      amount: roundNaira(order.paymentAmount + platformFee),
+      amountPaidToDate: order.amountPaid,
+      platformFee,
+      feePercentageApplied: order.feePercentageApplied,
+      designerPayout: order.paymentAmount,
+    });
+  }
+
+  /**
+   * Issue and email the receipt for a payment. Never fails the payment flow; returns
+   * null if the receipt couldn't be issued.
+   */
+  async sendPaymentReceipt(paymentTransactionId: string): Promise<Invoice | null> {
+    return this.issueAndSend(() => this.issueReceipt(paymentTransactionId));
+  }
+
+  /**
+   * Issue and email the earnings statement for a released order. Never fails the
+   * release; returns null if the statement couldn't be issued.
+   */
+  async sendEarningsStatement(orderId: string): Promise<Invoice | null> {
+    return this.issueAndSend(() => this.issueEarningsStatement(orderId));
+  }
+
+  /**
+   * The caller's invoices for an order: receipts for the customer, the earnings
+   * statement for the designer. Anything missing (e.g. for orders paid before
+   * invoicing existed) is issued first.
+   */
+  async listOrderInvoices(orderId: string, userId: string) {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, OR: [{ customerId: userId }, { designerId: userId }] },
+      include: {
+        payments: { where: { status: PaymentStatus.SUCCESSFUL }, select: { id: true } },
+        invoices: { select: { reference: true } },
+      },
+    });
+
+    if (!order) {
+      throw new Error('Order not found or access denied');
+    }
+
+    const issued = new Set(order.invoices.map((invoice) => invoice.reference));
+
+    if (order.customerId === userId) {
+      for (const payment of order.payments) {
+        if (!issued.has(`receipt:${payment.id}`)) {
+          await this.issueReceipt(payment.id);
+        }
+      }
+    }
+
+    if (
+      order.designerId === userId &&
+      order.paymentReleasedAt &&
+      !issued.has(`statement:${order.id}`)
+    ) {
+      await this.issueEarningsStatement(order.id);
+    }
+
+    const invoices = await prisma.invoice.findMany({
+      where: { orderId, recipientId: userId },
+      include: invoiceInclude,
+      orderBy: { issuedAt: 'asc' },
+    });
+
+    return invoices.map((invoice) => this.withLines(invoice));
+  }
+
+  /**
+   * One of the caller's invoices for an order
+   */
+  async getOrderInvoice(orderId: string, invoiceId: string, userId: string) {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, orderId, recipientId: userId },
+      include: invoiceInclude,
+    });
+
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    return this.withLines(invoice);
+  }
+
+  /**
+   * Itemised amounts, in the order they appear on the invoice
+   */
+  getLines(invoice: Invoice): InvoiceLine[] {
+    const voucherLabel = `Voucher discount${invoice.voucherCode ? ` (${invoice.voucherCode})` : ''}`;
+    const lines: InvoiceLine[] = [{ label: 'Agreed price', amount: invoice.finalPrice }];
+
+    if (invoice.type === InvoiceType.RECEIPT) {
+      if (invoice.discountAmount > 0) {
+        lines.push({ label: voucherLabel, amount: -invoice.discountAmount });
+      }
+      lines.push(
+        {
+          label: 'Order total',
+          amount: roundNaira(invoice.finalPrice - invoice.discountAmount),
+          total: true,
+        },
+        {
+          label: `This payment: ${PURPOSE_LABELS[invoice.paymentPurpose || PaymentPurpose.FULL]}`,
+          amount: invoice.amount,
+        },
+        { label: 'Paid to date', amount: invoice.amountPaidToDate },
+        { label: 'Balance due', amount: invoice.balanceDue, total: true }
+      );
+
+      return lines;
+    }
+
+    // A discount the designer funds comes out of their earnings; one the platform
+    // funds is paid back to them in full
+    let expectedGross = invoice.finalPrice;
+    if (invoice.discountAmount > 0) {
+      lines.push({ label: voucherLabel, amount: -invoice.discountAmount });
+
+      if (invoice.discountFundedBy === VoucherFundedBy.PLATFORM) {
+        lines.push({ label: 'Voucher funded by QT Fashion', amount: invoice.discountAmount });
+      } else {
+        expectedGross = roundNaira(expectedGross - invoice.discountAmount);
+      }
+    }
+
+    // Disputes settled with a partial refund release less than the sale was worth
+    const adjustment = roundNaira(invoice.amount - expectedGross);
+    if (adjustment !== 0) {
+      lines.push({ label: 'Dispute adjustment', amount: adjustment });
+    }
+
+    const feeLabel =
+      invoice.feePercentageApplied !== null
+        ? `Platform fee (${roundNaira(invoice.feePercentageApplied * 100)}%)`
+        : 'Platform fee';
+
+    lines.push(
+      { label: 'Gross earnings', amount: invoice.amount, total: true },
+      { label: feeLabel, amount: -(invoice.platformFee || 0) },
+      { label: 'Net payout', amount: invoice.designerPayout || 0, total: true }
+    );
+
+    return lines;
+  }
+
+  renderHtml(invoice: InvoiceWithDetails): string {
+    const { title, parties } = this.getHeading(invoice);
+    const rows = this.getLines(invoice).map((line) => {
+      const style = line.total ? ' style="font-weight: bold; border-top: 1px solid #ddd;"' : '';
+      return `<tr${style}><td style="padding: 6px 0;">${escapeHtml(line.label)}</td><td style="padding: 6px 0; text-align: right;">${formatMoney(line.amount)}</td></tr>`;
+    });
+
+    return [
+      '<!DOCTYPE html>',
+      `<html><head><meta charset="utf-8"><title>${escapeHtml(`${title} ${invoice.invoiceNumber}`)}</title></head>`,
+      '<body style="font-family: Arial, sans-serif; max-width: 640px; margin: 0 auto; padding: 24px; color: #111;">',
+      `<h2 style="margin-bottom: 4px;">QT Fashion ${escapeHtml(title)}</h2>`,
+      `<p style="color: #666; margin-top: 0;">${escapeHtml(invoice.invoiceNumber)} &middot; ${escapeHtml(formatDate(invoice.issuedAt))}</p>`,
+      ...parties.map(
+        ([label, value]) =>
+          `<p style="margin: 4px 0;"><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</p>`
+      ),
+      '<table style="width: 100%; border-collapse: collapse; margin-top: 24px;">',
+      ...rows,
+      '</table>',
+      '<p style="color: #666; font-size: 12px; margin-top: 32px;">QT Fashion</p>',
+      '</body></html>',
+    ].join('\n');
+  }
+
+  renderPdf(invoice: InvoiceWithDetails): Promise<Buffer> {
+    const { title, parties } = this.getHeading(invoice);
+
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A4', margin: 50 });
+      const chunks: Buffer[] = [];
+
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      doc.font('Helvetica-Bold').fontSize(20).text(`QT Fashion ${title}`);
+      doc
+        .font('Helvetica')
+        .fontSize(10)
+        .fillColor('#666666')
+        .text(`${invoice.invoiceNumber} - ${formatDate(invoice.issuedAt)}`)
+        .fillColor('#000000')
+        .moveDown();
+
+      for (const [label, value] of parties) {
+        doc.font('Helvetica-Bold').text(`${label}: `, { continued: true });
+        doc.font('Helvetica').text(value);
+      }
+      doc.moveDown(2);
+
+      const left = doc.page.margins.left;
+      const width = doc.page.width - left - doc.page.margins.right;
+      for (const line of this.getLines(invoice)) {
+        const y = doc.y;
+        if (line.total) {
+          doc
+            .moveTo(left, y - 4)
+            .lineTo(left + width, y - 4)
+            .strokeColor('#dddddd')
+            .stroke();
+        }
+        doc.font(line.total ? 'Helvetica-Bold' : 'Helvetica').fontSize(11);
+        doc.text(line.label, left, y, { width: width * 0.65 });
+        doc.text(formatMoney(line.amount), left, y, { width, align: 'right' });
+        doc.moveDown(0.6);
+      }
+
+      doc.end();
+    });
+  }
+
+  /**
+   * Create the invoice under the next number, or return the one already issued
+   * for this reference
+   */
+  private async issue(
+    reference: string,
+    data: Omit<Prisma.InvoiceUncheckedCreateInput, 'invoiceNumber' | 'reference'>
+  ): Promise<Invoice> {
+    const existing = await prisma.invoice.findUnique({ where: { reference } });
+    if (existing) {
+      return existing;
+    }
+
+    try {
+      // Numbered in the same transaction, so a failed insert doesn't leave a gap
+      return await prisma.$transaction(async (tx) => {
+        const invoiceNumber = await this.nextInvoiceNumber(tx);
+        return tx.invoice.create({ data: { ...data, reference, invoiceNumber } });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const issued = await prisma.invoice.findUnique({ where: { reference } });
+        if (issued) {
+          return issued;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * INV-YYYY-000001. The per-year counter row is locked by the increment, so
+   * concurrent invoices are numbered one after another.
+   */
+  private async nextInvoiceNumber(client: Prisma.TransactionClient): Promise<string> {
+    const year = new Date().getFullYear();
+    const sequence = await client.invoiceSequence.upsert({
+      where: { year },
+      create: { year, lastNumber: 1 },
+      update: { lastNumber: { increment: 1 } },
+    });
+
+    return `INV-${year}-${sequence.lastNumber.toString().padStart(6, '0')}`;
+  }
+
+  private async issueAndSend(issue: () => Promise<Invoice>): Promise<Invoice | null> {
+    let invoice: Invoice;
+    try {
+      invoice = await issue();
+    } catch (error) {
+      console.error('[Invoice Service] Failed to issue invoice:', error);
+      return null;
+    }
+
+    try {
+      await this.emailInvoice(invoice.id);
+    } catch (error) {
+      console.error(`[Invoice Service] Failed to email invoice ${invoice.invoiceNumber}:`, error);
+    }
+
+    return invoice;
+  }
+
+  private async emailInvoice(invoiceId: string): Promise<void> {
+    const invoice = await prisma.invoice.findUniqueOrThrow({
+      where: { id: invoiceId },
+      include: invoiceInclude,
+    });
+    const isReceipt = invoice.type === InvoiceType.RECEIPT;
+
+    await mailService.send({
+      to: invoice.recipient.email,
+      ...invoiceTemplate(
+        invoice.recipient.fullName,
+        {
+          kind: invoice.type,
+          invoiceNumber: invoice.invoiceNumber,
+          orderNumber: invoice.order.orderNumber,
+          amount: isReceipt ? invoice.amount : invoice.designerPayout || 0,
+        },
+        `${getAppUrl()}/orders/${invoice.orderId}`
+      ),
+      attachments: [
+        {
+          filename: `${invoice.invoiceNumber}.pdf`,
+          content: await this.renderPdf(invoice),
+          contentType: 'application/pdf',
+        },
+      ],
+    });
+  }
+
+  private getPriceSnapshot(
+    order: Pick<Order, 'finalPrice' | 'discountAmount' | 'discountFundedBy'> & {
+      voucher: { code: string } | null;
+    }
+  ) {
+    return {
+      finalPrice: order.finalPrice,
+      discountAmount: order.discountAmount,
+      discountFundedBy: order.discountFundedBy,
+      voucherCode: order.voucher?.code ?? null,
+    };
+  }
+
+  private getHeading(invoice: InvoiceWithDetails) {
+    const { order } = invoice;
+    const designerName = order.designer.brandName || order.designer.fullName;
+    const parties: [string, string][] =
+      invoice.type === InvoiceType.RECEIPT
+        ? [
+            ['Billed to', `${order.customer.fullName} (${order.customer.email})`],
+            ['Designer', designerName],
+          ]
+        : [
+            ['Designer', `${designerName} (${order.designer.email})`],
+            ['Customer', order.customer.fullName],
+          ];
+
+    return {
+      title: invoice.type === InvoiceType.RECEIPT ? 'Receipt' : 'Earnings Statement',
+      parties: [
+        ...parties,
+        ['Order', `${order.orderNumber} - ${order.design.title}`] as [string, string],
+      ],
+    };
+  }
+
+  private withLines(invoice: InvoiceWithDetails) {
+    return { ...invoice, lines: this.getLines(invoice) };
+  }
+}
+
+export const invoiceService = new InvoiceService();
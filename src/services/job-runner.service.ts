@@ -0,0 +1,318 @@
+import os from 'os';
+import cron, { ScheduledTask } from 'node-cron';
+import { JobRun, JobRunStatus, JobTrigger, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+
+/**
+ * Job Runner Service
+ * Runs scheduled background jobs with a DB-backed leader lock so that, with several
+ * instances running, each tick executes on exactly one of them. Every attempt is
+ * recorded in job_runs; failed attempts are retried with a linear backoff.
+ */
+
+export type JobResult = Record<string, unknown>;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // Cron expression (server local time)
+  handler: () => Promise<JobResult | void>;
+  maxAttempts?: number;
+  retryDelayMs?: number; // Multiplied by the attempt number
+  lockTtlMs?: number; // How long a lock survives if the holding instance dies
+  runOnStart?: boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 60 * 1000;
+const DEFAULT_LOCK_TTL_MS = 30 * 60 * 1000;
+
+class JobRunnerService {
+  private definitions = new Map<string, JobDefinition>();
+  private tasks: ScheduledTask[] = [];
+  private readonly instanceId = `${os.hostname()}:${process.pid}`;
+
+  register(definition: JobDefinition): void {
+    if (!cron.validate(definition.schedule)) {
+      throw new Error(`Invalid cron expression for job ${definition.name}`);
+    }
+
+    this.definitions.set(definition.name, definition);
+  }
+
+  /**
+   * Schedule every registered job on this instance
+   */
+  start(): void {
+    for (const definition of this.definitions.values()) {
+      const task = cron.schedule(definition.schedule, () => {
+        this.runScheduled(definition).catch((error) => {
+          console.error(`[Jobs] Error running ${definition.name}:`, error);
+        });
+      });
+      this.tasks.push(task);
+
+      if (definition.runOnStart) {
+        this.runScheduled(definition).catch((error) => {
+          console.error(`[Jobs] Error running ${definition.name} on start:`, error);
+        });
+      }
+    }
+
+    console.log(`[Jobs] Scheduled ${this.tasks.length} jobs on ${this.instanceId}`);
+  }
+
+  stop(): void {
+    this.tasks.forEach((task) => task.stop());
+    this.tasks = [];
+  }
+
+  /**
+   * Registered jobs with their lock state and most recent run
+   */
+  async listJobs() {
+    const names = [...this.definitions.keys()];
+
+    const [locks, latestRuns] = await Promise.all([
+      prisma.jobLock.findMany({ where: { name: { in: names } } }),
+      Promise.all(
+        names.map((jobName) =>
+          prisma.jobRun.findFirst({
+            where: { jobName },
+            orderBy: { startedAt: 'desc' },
+          })
+        )
+      ),
+    ]);
+
+    const locksByName = new Map(locks.map((lock) => [lock.name, lock]));
+    const now = new Date();
+
+    return names.map((name, index) => {
+      const definition = this.definitions.get(name)!;
+      const lock = locksByName.get(name);
+
+      return {
+        name,
+        description: definition.description,
+        schedule: definition.schedule,
+        maxAttempts: definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        running: !!lock?.lockedUntil && lock.lockedUntil > now,
+        lockedBy: lock?.lockedUntil && lock.lockedUntil > now ? lock.lockedBy : null,
+        lastRun: latestRuns[index],
+      };
+    });
+  }
+
+  async getRuns(jobName: string, page = 1, limit = 20) {
+    this.getDefinition(jobName);
+
+    const [runs, total] = await Promise.all([
+      prisma.jobRun.findMany({
+        where: { jobName },
+        include: {
+          triggeredBy: { select: { id: true, fullName: true, email: true } },
+        },
+        orderBy: { startedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.jobRun.count({ where: { jobName } }),
+    ]);
+
+    return {
+      runs,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Run a job now on behalf of an admin. Returns once the first attempt has started;
+   * the job itself (and any retries) continues in the background.
+   */
+  async trigger(jobName: string, adminId: string): Promise<JobRun> {
+    const definition = this.getDefinition(jobName);
+
+    const acquired = await this.acquireLock(definition);
+    if (!acquired) {
+      throw new Error(`Job ${jobName} is already running`);
+    }
+
+    const run = await this.startRun(definition, JobTrigger.MANUAL, 1, adminId);
+
+    this.execute(definition, run).catch((error) => {
+      console.error(`[Jobs] Error running ${jobName} (manual):`, error);
+    });
+
+    return run;
+  }
+
+  private getDefinition(jobName: string): JobDefinition {
+    const definition = this.definitions.get(jobName);
+
+    if (!definition) {
+      throw new Error('Job not found');
+    }
+
+    return definition;
+  }
+
+  private async runScheduled(definition: JobDefinition): Promise<void> {
+    // Every instance fires on the same minute; only the one that claims the slot runs
+    const slot = new Date();
+    slot.setSeconds(0, 0);
+
+    const acquired = await this.acquireLock(definition, slot);
+    if (!acquired) {
+      return;
+    }
+
+    const run = await this.startRun(definition, JobTrigger.SCHEDULE, 1);
+    await this.execute(definition, run);
+  }
+
+  /**
+   * Run the attempts for a job whose lock is held, then release the lock
+   */
+  private async execute(definition: JobDefinition, firstRun: JobRun): Promise<void> {
+    const maxAttempts = definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const retryDelayMs = definition.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    let run = firstRun;
+
+    console.log(`[Jobs] Running ${definition.name} (${run.trigger.toLowerCase()})`);
+
+    try {
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        if (attempt > 1) {
+          await new Promise((resolve) => setTimeout(resolve, retryDelayMs * (attempt - 1)));
+          await this.extendLock(definition);
+          run = await this.startRun(definition, run.trigger, attempt, run.triggeredById);
+        }
+
+        try {
+          const result = await definition.handler();
+          await this.finishRun(run, JobRunStatus.SUCCEEDED, { result: result || undefined });
+          return;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(
+            `[Jobs] ${definition.name} attempt ${attempt}/${maxAttempts} failed:`,
+            message
+          );
+          await this.finishRun(run, JobRunStatus.FAILED, { error: message });
+        }
+      }
+    } finally {
+      await this.releaseLock(definition.name);
+    }
+  }
+
+  private async startRun(
+    definition: JobDefinition,
+    trigger: JobTrigger,
+    attempt: number,
+    triggeredById?: string | null
+  ): Promise<JobRun> {
+    return prisma.jobRun.create({
+      data: {
+        jobName: definition.name,
+        trigger,
+        attempt,
+        instanceId: this.instanceId,
+        triggeredById,
+      },
+    });
+  }
+
+  private async finishRun(
+    run: JobRun,
+    status: JobRunStatus,
+    outcome: { result?: JobResult; error?: string }
+  ): Promise<void> {
+    const finishedAt = new Date();
+
+    await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status,
+        finishedAt,
+        durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+        result: outcome.result as Prisma.InputJsonValue | undefined,
+        error: outcome.error,
+      },
+    });
+  }
+
+  /**
+   * Claim the job's lock. Pass the scheduled slot for cron ticks so a tick already
+   * claimed by another instance is skipped even if that instance has finished.
+   */
+  private async acquireLock(definition: JobDefinition, slot?: Date): Promise<boolean> {
+    const now = new Date();
+
+    try {
+      await prisma.jobLock.upsert({
+        where: { name: definition.name },
+        create: { name: definition.name },
+        update: {},
+      });
+    } catch (error) {
+      // Another instance created the row first
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+
+    const claimed = await prisma.jobLock.updateMany({
+      where: {
+        name: definition.name,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+        ...(slot ? { AND: [{ OR: [{ lastSlotAt: null }, { lastSlotAt: { lt: slot } }] }] } : {}),
+      },
+      data: {
+        lockedBy: this.instanceId,
+        lockedUntil: new Date(now.getTime() + (definition.lockTtlMs ?? DEFAULT_LOCK_TTL_MS)),
+        ...(slot ? { lastSlotAt: slot } : {}),
+      },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    // We hold the lock, so anything still RUNNING was left behind by a crashed instance
+    await prisma.jobRun.updateMany({
+      where: { jobName: definition.name, status: JobRunStatus.RUNNING },
+      data: {
+        status: JobRunStatus.FAILED,
+        finishedAt: now,
+        error: 'Abandoned: instance stopped before the run finished',
+      },
+    });
+
+    return true;
+  }
+
+  private async extendLock(definition: JobDefinition): Promise<void> {
+    await prisma.jobLock.updateMany({
+      where: { name: definition.name, lockedBy: this.instanceId },
+      data: {
+        lockedUntil: new Date(Date.now() + (definition.lockTtlMs ?? DEFAULT_LOCK_TTL_MS)),
+      },
+    });
+  }
+
+  private async releaseLock(jobName: string): Promise<void> {
+    await prisma.jobLock.updateMany({
+      where: { name: jobName, lockedBy: this.instanceId },
+      data: { lockedBy: null, lockedUntil: null },
+    });
+  }
+}
+
+export const jobRunnerService = new JobRunnerService();
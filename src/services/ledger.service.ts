@@ -0,0 +1,362 @@
+import { LedgerAccountType, LedgerDirection, LedgerEntry, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { fromKobo } from '../utils/money';
+
+/**
+ * Ledger Service
+ * Double-entry bookkeeping in kobo. Every money movement is a balanced entry
+ * (debits = credits) and account balances are maintained atomically alongside
+ * the lines, so each balance can be re-derived from its lines and verified.
+ */
+
+export interface LedgerAccountRef {
+  type: LedgerAccountType;
+  userId?: string; // Omit for platform accounts
+}
+
+export interface LedgerLineInput {
+  account: LedgerAccountRef;
+  direction: LedgerDirection;
+  amount: bigint; // Kobo
+}
+
+export interface PostEntryInput {
+  reference: string; // Idempotency key; posting the same reference twice is a no-op
+  description: string;
+  orderId?: string;
+  lines: LedgerLineInput[];
+}
+
+export interface AccountBalanceChange {
+  accountId: string;
+  type: LedgerAccountType;
+  userId: string | null;
+  balanceBefore: bigint;
+  balanceAfter: bigint;
+}
+
+export interface PostEntryResult {
+  entry: LedgerEntry;
+  alreadyPosted: boolean;
+  changes: AccountBalanceChange[];
+}
+
+// Asset accounts grow with debits; everything else grows with credits
+const DEBIT_NORMAL: LedgerAccountType[] = [LedgerAccountType.PROVIDER_CASH];
+
+// Balances a user can spend or withdraw must never go below zero
+const NON_NEGATIVE: LedgerAccountType[] = [
+  LedgerAccountType.DESIGNER_AVAILABLE,
+  LedgerAccountType.DESIGNER_PENDING,
+];
+
+const USER_ACCOUNTS: LedgerAccountType[] = [
+  LedgerAccountType.CUSTOMER_ESCROW,
+  LedgerAccountType.DESIGNER_PENDING,
+  LedgerAccountType.DESIGNER_AVAILABLE,
+];
+
+class LedgerService {
+  /**
+   * Post a balanced entry. Pass a transaction client to post atomically with
+   * other writes; otherwise the entry gets its own transaction.
+   */
+  async post(input: PostEntryInput, tx?: Prisma.TransactionClient): Promise<PostEntryResult> {
+    if (!tx) {
+      return prisma.$transaction((innerTx) => this.post(input, innerTx));
+    }
+
+    this.assertBalanced(input.lines);
+
+    // ON CONFLICT DO NOTHING: a concurrent post of the same reference waits for the other
+    // transaction and then finds its entry. Catching P2002 instead would abort the
+    // caller's transaction.
+    const [entry] = await tx.ledgerEntry.createManyAndReturn({
+      data: [
+        {
+          reference: input.reference,
+          description: input.description,
+          orderId: input.orderId,
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    if (!entry) {
+      const existing = await tx.ledgerEntry.findUniqueOrThrow({
+        where: { reference: input.reference },
+      });
+      return { entry: existing, alreadyPosted: true, changes: [] };
+    }
+
+    // Net movement per account, applied in a fixed order to avoid lock-order deadlocks
+    const deltas = new Map<string, { account: LedgerAccountRef; delta: bigint }>();
+
+    for (const line of input.lines) {
+      const accountId = await this.getOrCreateAccountId(line.account, tx);
+
+      await tx.ledgerLine.create({
+        data: {
+          entryId: entry.id,
+          accountId,
+          direction: line.direction,
+          amount: line.amount,
+        },
+      });
+
+      const signed = this.isNormalSide(line.account.type, line.direction)
+        ? line.amount
+        : -line.amount;
+      const current = deltas.get(accountId);
+      deltas.set(accountId, {
+        account: line.account,
+        delta: (current?.delta || BigInt(0)) + signed,
+      });
+    }
+
+    const changes: AccountBalanceChange[] = [];
+
+    for (const accountId of [...deltas.keys()].sort()) {
+      const { account, delta } = deltas.get(accountId)!;
+
+      if (delta < BigInt(0) && NON_NEGATIVE.includes(account.type)) {
+        // Conditional update so concurrent debits cannot overdraw the account
+        const updated = await tx.ledgerAccount.updateMany({
+          where: { id: accountId, balance: { gte: -delta } },
+          data: { balance: { increment: delta } },
+        });
+
+        if (updated.count === 0) {
+          throw new Error('Insufficient wallet balance');
+        }
+      } else {
+        await tx.ledgerAccount.update({
+          where: { id: accountId },
+          data: { balance: { increment: delta } },
+        });
+      }
+
+      const { balance } = await tx.ledgerAccount.findUniqueOrThrow({
+        where: { id: accountId },
+        select: { balance: true },
+      });
+
+      changes.push({
+        accountId,
+        type: account.type,
+        userId: account.userId || null,
+        balanceBefore: balance - delta,
+        balanceAfter: balance,
+      });
+    }
+
+    return { entry, alreadyPosted: false, changes };
+  }
+
+  async hasEntry(reference: string, client: Prisma.TransactionClient = prisma): Promise<boolean> {
+    const entry = await client.ledgerEntry.findUnique({
+      where: { reference },
+      select: { id: true },
+    });
+
+    return !!entry;
+  }
+
+  /**
+   * Balance in kobo (0 if the account has never been used)
+   */
+  async getBalance(account: LedgerAccountRef): Promise<bigint> {
+    const found = await prisma.ledgerAccount.findUnique({
+      where: { key: this.accountKey(account) },
+      select: { balance: true },
+    });
+
+    return found?.balance ?? BigInt(0);
+  }
+
+  /**
+   * An order's share of an account's balance in kobo: the net of the account's lines
+   * on entries posted for the order (0 if there are none)
+   */
+  async getOrderBalance(
+    orderId: string,
+    account: LedgerAccountRef,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<bigint> {
+    const sums = await client.ledgerLine.groupBy({
+      by: ['direction'],
+      where: { entry: { orderId }, account: { key: this.accountKey(account) } },
+      _sum: { amount: true },
+    });
+
+    return this.balanceFromTotals(
+      account.type,
+      sums.find((sum) => sum.direction === LedgerDirection.DEBIT)?._sum.amount,
+      sums.find((sum) => sum.direction === LedgerDirection.CREDIT)?._sum.amount
+    );
+  }
+
+  /**
+   * Recompute an account's balance from its lines and compare with the stored balance
+   */
+  async verifyAccount(accountId: string) {
+    const account = await prisma.ledgerAccount.findUniqueOrThrow({ where: { id: accountId } });
+
+    const sums = await prisma.ledgerLine.groupBy({
+      by: ['direction'],
+      where: { accountId },
+      _sum: { amount: true },
+    });
+
+    const debits = sums.find((sum) => sum.direction === LedgerDirection.DEBIT)?._sum.amount;
+    const credits = sums.find((sum) => sum.direction === LedgerDirection.CREDIT)?._sum.amount;
+    const computed = this.balanceFromTotals(account.type, debits, credits);
+
+    return {
+      accountId: account.id,
+      key: account.key,
+      type: account.type,
+      userId: account.userId,
+      balance: fromKobo(account.balance),
+      computedBalance: fromKobo(computed),
+      matches: computed === account.balance,
+    };
+  }
+
+  /**
+   * Check the whole ledger: total debits must equal total credits, and every
+   * account's stored balance must match its lines
+   */
+  async verifyLedger() {
+    const [totals, accountTotals, accounts] = await Promise.all([
+      prisma.ledgerLine.groupBy({
+        by: ['direction'],
+        _sum: { amount: true },
+      }),
+      prisma.ledgerLine.groupBy({
+        by: ['accountId', 'direction'],
+        _sum: { amount: true },
+      }),
+      prisma.ledgerAccount.findMany(),
+    ]);
+
+    const totalDebits =
+      totals.find((total) => total.direction === LedgerDirection.DEBIT)?._sum.amount ?? BigInt(0);
+    const totalCredits =
+      totals.find((total) => total.direction === LedgerDirection.CREDIT)?._sum.amount ?? BigInt(0);
+
+    const mismatchedAccounts = accounts
+      .map((account) => {
+        const totalFor = (direction: LedgerDirection) =>
+          accountTotals.find((row) => row.accountId === account.id && row.direction === direction)
+            ?._sum.amount;
+        const computed = this.balanceFromTotals(
+          account.type,
+          totalFor(LedgerDirection.DEBIT),
+          totalFor(LedgerDirection.CREDIT)
+        );
+
+        return { account, computed };
+      })
+      .filter(({ account, computed }) => computed !== account.balance)
+      .map(({ account, computed }) => ({
+        accountId: account.id,
+        key: account.key,
+        type: account.type,
+        userId: account.userId,
+        balance: fromKobo(account.balance),
+        computedBalance: fromKobo(computed),
+      }));
+
+    return {
+      accountsChecked: accounts.length,
+      totalDebits: fromKobo(totalDebits),
+      totalCredits: fromKobo(totalCredits),
+      balanced: totalDebits === totalCredits,
+      mismatchedAccounts,
+    };
+  }
+
+  /**
+   * A user's ledger accounts with balances in Naira (BigInt is not JSON serialisable)
+   */
+  async getUserAccounts(userId: string) {
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: { userId },
+      orderBy: { type: 'asc' },
+    });
+
+    return accounts.map((account) => ({
+      id: account.id,
+      type: account.type,
+      balance: fromKobo(account.balance),
+      updatedAt: account.updatedAt,
+    }));
+  }
+
+  private assertBalanced(lines: LedgerLineInput[]): void {
+    if (lines.length < 2) {
+      throw new Error('Invalid ledger entry: at least two lines are required');
+    }
+
+    let debits = BigInt(0);
+    let credits = BigInt(0);
+
+    for (const line of lines) {
+      if (line.amount <= BigInt(0)) {
+        throw new Error('Invalid ledger entry: line amounts must be positive');
+      }
+
+      if (USER_ACCOUNTS.includes(line.account.type) !== !!line.account.userId) {
+        throw new Error(`Invalid ledger entry: ${line.account.type} account requires a user`);
+      }
+
+      if (line.direction === LedgerDirection.DEBIT) {
+        debits += line.amount;
+      } else {
+        credits += line.amount;
+      }
+    }
+
+    if (debits !== credits) {
+      throw new Error(`Invalid ledger entry: debits (${debits}) do not equal credits (${credits})`);
+    }
+  }
+
+  private balanceFromTotals(
+    type: LedgerAccountType,
+    debits?: bigint | null,
+    credits?: bigint | null
+  ): bigint {
+    const net = (debits || BigInt(0)) - (credits || BigInt(0));
+    return DEBIT_NORMAL.includes(type) ? net : -net;
+  }
+
+  private isNormalSide(type: LedgerAccountType, direction: LedgerDirection): boolean {
+    return DEBIT_NORMAL.includes(type)
+      ? direction === LedgerDirection.DEBIT
+      : direction === LedgerDirection.CREDIT;
+  }
+
+  private accountKey(account: LedgerAccountRef): string {
+    return account.userId ? `${account.type}:${account.userId}` : account.type;
+  }
+
+  private async getOrCreateAccountId(
+    account: LedgerAccountRef,
+    tx: Prisma.TransactionClient
+  ): Promise<string> {
+    const key = this.accountKey(account);
+
+    const { id } = await tx.ledgerAccount.upsert({
+      where: { key },
+      create: { key, type: account.type, userId: account.userId },
+      update: {},
+      select: { id: true },
+    });
+
+    return id;
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -0,0 +1,25 @@
+import { MailMessage, MailTransport } from './mail.types';
+
+/**
+ * Prints emails to the server log (local development default)
+ */
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(
+      [
+        '📧 ---------- Email ----------',
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+        ...(message.attachments || []).map(
+          (attachment) => `📎 ${attachment.filename} (${attachment.content.length} bytes)`
+        ),
+        '------------------------------',
+      ].join('\n')
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { MailMessage, MailTransport } from './mail.types';
+
+/**
+ * Writes each email to MAIL_FILE_DIR as a .json file (local development and QA,
+ * so links in emails can be opened without a real mailbox). Attachments are
+ * written next to it.
+ */
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+
+  private directory = process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'logs', 'mail');
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}_${safeRecipient}.json`;
+    const filePath = path.join(this.directory, fileName);
+
+    const attachments: string[] = [];
+    for (const attachment of message.attachments || []) {
+      const attachmentPath = filePath.replace(/\.json$/, `_${attachment.filename}`);
+      await fs.writeFile(attachmentPath, attachment.content);
+      attachments.push(attachmentPath);
+    }
+
+    await fs.writeFile(filePath, JSON.stringify({ ...message, attachments }, null, 2), 'utf8');
+    console.log(`📧 Email to ${message.to} written to ${filePath}`);
+  }
+}
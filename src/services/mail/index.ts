@@ -0,0 +1,55 @@
+import { MailMessage, MailTransport } from './mail.types';
+import { ConsoleTransport } from './console.transport';
+import { FileTransport } from './file.transport';
+import { SendGridTransport } from './sendgrid.transport';
+
+export * from './mail.types';
+export * from './templates';
+
+const transports: Record<string, () => MailTransport> = {
+  console: () => new ConsoleTransport(),
+  file: () => new FileTransport(),
+  sendgrid: () => new SendGridTransport(),
+};
+
+/**
+ * Mail Service
+ * Sends transactional email through the transport chosen by MAIL_TRANSPORT
+ */
+class MailService {
+  private transport: MailTransport | null = null;
+
+  /**
+   * Swap the transport at runtime (e.g. from a script)
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const transport = this.getTransport();
+    const from = process.env.MAIL_FROM || 'QT Fashion <no-reply@qtfashion.com>';
+
+    await transport.send({ ...message, from });
+  }
+
+  /**
+   * Resolved lazily so MAIL_TRANSPORT is read after dotenv has loaded
+   */
+  private getTransport(): MailTransport {
+    if (!this.transport) {
+      const name = (process.env.MAIL_TRANSPORT || 'console').toLowerCase();
+      const factory = transports[name];
+
+      if (!factory) {
+        throw new Error(`Invalid MAIL_TRANSPORT: ${name}`);
+      }
+
+      this.transport = factory();
+    }
+
+    return this.transport;
+  }
+}
+
+export const mailService = new MailService();
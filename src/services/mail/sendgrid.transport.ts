@@ -0,0 +1,52 @@
+import axios from 'axios';
+import { MailMessage, MailTransport } from './mail.types';
+
+/**
+ * Delivers email through the SendGrid v3 Mail Send API
+ */
+export class SendGridTransport implements MailTransport {
+  readonly name = 'sendgrid';
+
+  private apiKey = process.env.SENDGRID_API_KEY || '';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    if (!this.apiKey) {
+      throw new Error('SENDGRID_API_KEY is required for the sendgrid mail transport');
+    }
+
+    await axios.post(
+      'https://api.sendgrid.com/v3/mail/send',
+      {
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: this.parseAddress(message.from),
+        subject: message.subject,
+        content: [
+          { type: 'text/plain', value: message.text },
+          ...(message.html ? [{ type: 'text/html', value: message.html }] : []),
+        ],
+        ...(message.attachments?.length
+          ? {
+              attachments: message.attachments.map((attachment) => ({
+                content: attachment.content.toString('base64'),
+                filename: attachment.filename,
+                type: attachment.contentType,
+                disposition: 'attachment',
+              })),
+            }
+          : {}),
+      },
+      {
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        timeout: 15000,
+      }
+    );
+  }
+
+  /**
+   * "QT Fashion <no-reply@qtfashion.com>" -> { name, email }
+   */
+  private parseAddress(address: string): { email: string; name?: string } {
+    const match = address.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+    return match ? { name: match[1] || undefined, email: match[2] } : { email: address.trim() };
+  }
+}
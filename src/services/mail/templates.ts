@@ -0,0 +1,84 @@
+import { MailMessage } from './mail.types';
+
+type Template = Omit<MailMessage, 'to'>;
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const layout = (heading: string, paragraphs: string[], action: { label: string; url: string }) =>
+  [
+    '<div style="font-family: Arial, sans-serif; max-width: 560px; margin: 0 auto;">',
+    `<h2>${escapeHtml(heading)}</h2>`,
+    ...paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    `<p><a href="${encodeURI(action.url)}" style="display: inline-block; padding: 12px 20px; background: #111; color: #fff; text-decoration: none; border-radius: 6px;">${escapeHtml(action.label)}</a></p>`,
+    `<p style="color: #666; font-size: 12px;">If the button doesn't work, copy this link into your browser:<br>${escapeHtml(action.url)}</p>`,
+    '<p style="color: #666; font-size: 12px;">QT Fashion</p>',
+    '</div>',
+  ].join('\n');
+
+export const passwordResetTemplate = (
+  fullName: string,
+  resetUrl: string,
+  expiresInMinutes: number
+): Template => {
+  const intro = `Hi ${fullName || 'there'}, we received a request to reset your QT Fashion password.`;
+  const expiry = `This link expires in ${expiresInMinutes} minutes and can only be used once.`;
+  const ignore =
+    "If you didn't ask for this, you can ignore this email - your password won't change.";
+
+  return {
+    subject: 'Reset your QT Fashion password',
+    text: `${intro}\n\nReset your password: ${resetUrl}\n\n${expiry}\n\n${ignore}`,
+    html: layout('Reset your password', [intro, expiry, ignore], {
+      label: 'Reset password',
+      url: resetUrl,
+    }),
+  };
+};
+
+export const emailVerificationTemplate = (
+  fullName: string,
+  verifyUrl: string,
+  expiresInHours: number
+): Template => {
+  const intro = `Hi ${fullName || 'there'}, please confirm that this is your email address.`;
+  const expiry = `This link expires in ${expiresInHours} hours.`;
+
+  return {
+    subject: 'Verify your email for QT Fashion',
+    text: `${intro}\n\nVerify your email: ${verifyUrl}\n\n${expiry}`,
+    html: layout('Verify your email', [intro, expiry], {
+      label: 'Verify email',
+      url: verifyUrl,
+    }),
+  };
+};
+
+export const invoiceTemplate = (
+  fullName: string,
+  invoice: {
+    kind: 'RECEIPT' | 'EARNINGS_STATEMENT';
+    invoiceNumber: string;
+    orderNumber: string;
+    amount: number;
+  },
+  orderUrl: string
+): Template => {
+  const amount = `₦${invoice.amount.toLocaleString()}`;
+  const isReceipt = invoice.kind === 'RECEIPT';
+  const intro = isReceipt
+    ? `Hi ${fullName || 'there'}, thanks for your payment of ${amount} for order ${invoice.orderNumber}.`
+    : `Hi ${fullName || 'there'}, ${amount} from order ${invoice.orderNumber} has been released to your wallet.`;
+  const attached = `Your ${isReceipt ? 'receipt' : 'earnings statement'} ${invoice.invoiceNumber} is attached as a PDF.`;
+
+  return {
+    subject: isReceipt
+      ? `Your receipt for order ${invoice.orderNumber}`
+      : `Earnings statement for order ${invoice.orderNumber}`,
+    text: `${intro}\n\n${attached}\n\nView your order: ${orderUrl}`,
+    html: layout(isReceipt ? 'Payment received' : 'Payment released', [intro, attached], {
+      label: 'View order',
+      url: orderUrl,
+    }),
+  };
+};
@@ -1,10 +1,11 @@
-import { PrismaClient, Notification } from '@prisma/client';
+import { PrismaClient, Notification, Invoice, Order, PaymentPurpose } from '@prisma/client';
 import { Expo, ExpoPushMessage } from 'expo-server-sdk';
 import {
   realtimeEventService,
   RealtimeDomain,
   RealtimeEventPayload,
 } from './realtime-event.service';
+import { toLegacyResponse, usesLegacyOrderStatuses } from '../utils/legacy-order-status';
 
 const prisma = new PrismaClient();
 const expo = new Expo();
@@ -169,7 +170,7 @@ export class NotificationService {
       // Get user's push token
       const user = await prisma.user.findUnique({
         where: { id: input.userId },
-        select: { expoPushToken: true },
+        select: { expoPushToken: true, pushOrderStatusVersion: true },
       });
 
       if (!user?.expoPushToken || !Expo.isExpoPushToken(user.expoPushToken)) {
@@ -182,7 +183,9 @@ export class NotificationService {
         sound: 'default',
         title: input.title,
         body: input.message,
-        data: input.data || {},
+        data: usesLegacyOrderStatuses(user.pushOrderStatusVersion)
+          ? (toLegacyResponse(input.data || {}) as Record<string, unknown>)
+          : input.data || {},
       };
 
       const chunks = expo.chunkPushNotifications([message]);
@@ -271,7 +274,29 @@ export class NotificationService {
     });
   }
 
-  async notifyPaymentReleased(order: any): Promise<void> {
+  async notifyPaymentReceived(
+    order: { id: string; orderNumber: string; customerId: string },
+    payment: { id: string; amount: number; purpose: PaymentPurpose },
+    receipt: Invoice | null
+  ): Promise<void> {
+    await this.notifyUser({
+      userId: order.customerId,
+      type: 'PAYMENT_SUCCESSFUL',
+      title: '✅ Payment Successful',
+      message: `We received your payment of ₦${payment.amount.toLocaleString()} for order #${order.orderNumber}.${receipt ? ` Your receipt ${receipt.invoiceNumber} is ready.` : ''}`,
+      orderId: order.id,
+      data: {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        paymentId: payment.id,
+        amount: payment.amount,
+        purpose: payment.purpose,
+        ...this.getInvoiceData(receipt),
+      },
+    });
+  }
+
+  async notifyPaymentReleased(order: any, statement: Invoice | null = null): Promise<void> {
     await this.notifyUser({
       userId: order.designerId,
       type: 'PAYMENT_RELEASED',
@@ -282,6 +307,7 @@ export class NotificationService {
         orderId: order.id,
         orderNumber: order.orderNumber,
         amount: order.paymentAmount,
+        ...this.getInvoiceData(statement),
       },
     });
   }
@@ -301,6 +327,44 @@ export class NotificationService {
     });
   }
 
+  async notifyDisputeResolved(
+    order: Order,
+    outcome: { ruling: string; customerRefundAmount: number; designerPayoutAmount: number }
+  ): Promise<void> {
+    const data = {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      ruling: outcome.ruling,
+      customerRefundAmount: outcome.customerRefundAmount,
+      designerPayoutAmount: outcome.designerPayoutAmount,
+    };
+
+    await Promise.all([
+      this.notifyUser({
+        userId: order.customerId,
+        type: 'DISPUTE_RESOLVED',
+        title: '⚖️ Dispute Resolved',
+        message:
+          outcome.customerRefundAmount > 0
+            ? `The dispute for order #${order.orderNumber} has been resolved. ₦${outcome.customerRefundAmount.toLocaleString()} is being refunded to you.`
+            : `The dispute for order #${order.orderNumber} has been resolved in the designer's favour.`,
+        orderId: order.id,
+        data,
+      }),
+      this.notifyUser({
+        userId: order.designerId,
+        type: 'DISPUTE_RESOLVED',
+        title: '⚖️ Dispute Resolved',
+        message:
+          outcome.designerPayoutAmount > 0
+            ? `The dispute for order #${order.orderNumber} has been resolved. ₦${outcome.designerPayoutAmount.toLocaleString()} has been deposited to your wallet.`
+            : `The dispute for order #${order.orderNumber} has been resolved in the customer's favour.`,
+        orderId: order.id,
+        data,
+      }),
+    ]);
+  }
+
   async notifyAutoConfirmSoon(order: any, hoursRemaining: number): Promise<void> {
     await this.notifyUser({
       userId: order.customerId,
@@ -315,6 +379,19 @@ export class NotificationService {
       },
     });
   }
+
+  /**
+   * Invoice reference for a notification's data, so the app can open the PDF
+   */
+  private getInvoiceData(invoice: Invoice | null) {
+    return invoice
+      ? {
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          invoiceUrl: `/api/orders/${invoice.orderId}/invoice/${invoice.id}?format=pdf`,
+        }
+      : {};
+  }
 }
 
 export const notificationService = new NotificationService();
@@ -1,7 +1,15 @@
-import { PrismaClient, OfferStatus, ResponsibleParty } from '@prisma/client';
+import {
+  PrismaClient,
+  Prisma,
+  OfferStatus,
+  OfferRoundAction,
+  ResponsibleParty,
+} from '@prisma/client';
 import orderService from './order.service';
+import settingsService from './settings.service';
 import { notificationService } from './notification.service';
 import { realtimeEventService } from './realtime-event.service';
+import { paymentPlanService, PaymentPlanInput } from './payment-plan.service';
 
 const prisma = new PrismaClient();
 
@@ -15,15 +23,71 @@ export interface CreateOfferData {
   expiresAt?: Date;
   tryOnImageUrl?: string;
   deadline?: Date;
+  paymentPlan?: PaymentPlanInput | null; // Deposit + balance; omit to pay in full
 }
 
 export interface CounterOfferData {
   designerPrice: number;
   designerNotes?: string;
   designerDeadline?: Date; // Designer can propose different deadline
+  paymentPlan?: PaymentPlanInput | null; // null switches back to paying in full
 }
 
+interface OfferRoundData {
+  action: OfferRoundAction;
+  actorRole: ResponsibleParty;
+  actorId: string;
+  price?: number | null;
+  deadline?: Date | null;
+  notes?: string | null;
+}
+
+const DEFAULT_MAX_NEGOTIATION_ROUNDS = 6;
+
 class OfferService {
+  /**
+   * Append a step to the offer's negotiation history (call inside the same
+   * transaction as the offer update so the history never drifts from the offer)
+   */
+  private async recordRound(tx: Prisma.TransactionClient, offerId: string, round: OfferRoundData) {
+    const last = await tx.offerRound.findFirst({
+      where: { offerId },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true },
+    });
+
+    return tx.offerRound.create({
+      data: {
+        offerId,
+        sequence: (last?.sequence || 0) + 1,
+        ...round,
+      },
+    });
+  }
+
+  private async getMaxNegotiationRounds(): Promise<number> {
+    return settingsService.getSetting<number>(
+      'offer_max_negotiation_rounds',
+      DEFAULT_MAX_NEGOTIATION_ROUNDS
+    );
+  }
+
+  /**
+   * Counter offers from either side count towards the limit
+   */
+  private async assertCanCounter(offerId: string) {
+    const [roundsUsed, maxRounds] = await Promise.all([
+      prisma.offerRound.count({ where: { offerId, action: OfferRoundAction.COUNTERED } }),
+      this.getMaxNegotiationRounds(),
+    ]);
+
+    if (roundsUsed >= maxRounds) {
+      throw new Error(
+        `Invalid counter offer: maximum of ${maxRounds} negotiation rounds reached. Accept or decline the current offer.`
+      );
+    }
+  }
+
   private publishOfferRealtimeToParticipants(
     offer: { id: string; customerId: string; designerId: string },
     action: string,
@@ -99,47 +163,62 @@ class OfferService {
 
     // Auto-set expiration to 7 days if not provided
     const expiresAt = data.expiresAt || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
-
-    const offer = await prisma.offer.create({
-      data: {
-        customerId: data.customerId,
-        designerId: design.designerId,
-        designId: data.designId,
-        customerPrice: data.customerPrice,
-        measurements: data.measurements,
-        notes: data.notes,
-        tryOnImageUrl: data.tryOnImageUrl,
-        expiresAt,
-        deadline: data.deadline,
-        status: OfferStatus.PENDING,
-      },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-            phoneNumber: true,
-          },
+    const paymentPlan = paymentPlanService.resolvePlan(data.paymentPlan);
+
+    const offer = await prisma.$transaction(async (tx) => {
+      const created = await tx.offer.create({
+        data: {
+          customerId: data.customerId,
+          designerId: design.designerId,
+          designId: data.designId,
+          customerPrice: data.customerPrice,
+          measurements: data.measurements,
+          notes: data.notes,
+          tryOnImageUrl: data.tryOnImageUrl,
+          expiresAt,
+          deadline: data.deadline,
+          ...paymentPlan,
+          status: OfferStatus.PENDING,
         },
-        designer: {
-          select: {
-            id: true,
-            fullName: true,
-            brandName: true,
-            email: true,
+        include: {
+          customer: {
+            select: {
+              id: true,
+              fullName: true,
+              email: true,
+              phoneNumber: true,
+            },
           },
-        },
-        design: {
-          select: {
-            id: true,
-            title: true,
-            price: true,
-            images: true,
-            category: true,
+          designer: {
+            select: {
+              id: true,
+              fullName: true,
+              brandName: true,
+              email: true,
+            },
+          },
+          design: {
+            select: {
+              id: true,
+              title: true,
+              price: true,
+              images: true,
+              category: true,
+            },
           },
         },
-      },
+      });
+
+      await this.recordRound(tx, created.id, {
+        action: OfferRoundAction.OFFERED,
+        actorRole: ResponsibleParty.CUSTOMER,
+        actorId: data.customerId,
+        price: data.customerPrice,
+        deadline: data.deadline,
+        notes: data.notes,
+      });
+
+      return created;
     });
 
     console.log(
@@ -255,6 +334,17 @@ class OfferService {
             category: true,
           },
         },
+        rounds: {
+          orderBy: { sequence: 'asc' },
+          include: {
+            actor: {
+              select: {
+                id: true,
+                fullName: true,
+              },
+            },
+          },
+        },
       },
     });
 
@@ -267,7 +357,19 @@ class OfferService {
       throw new Error('Unauthorized to view this offer');
     }
 
-    return offer;
+    const maxRounds = await this.getMaxNegotiationRounds();
+    const roundsUsed = offer.rounds.filter(
+      (round) => round.action === OfferRoundAction.COUNTERED
+    ).length;
+
+    return {
+      ...offer,
+      negotiation: {
+        roundsUsed,
+        maxRounds,
+        roundsRemaining: Math.max(maxRounds - roundsUsed, 0),
+      },
+    };
   }
 
   /**
@@ -321,38 +423,50 @@ class OfferService {
 
     // Update offer status to ACCEPTED
     // Order will be created after customer makes payment
-    const updatedOffer = await prisma.offer.update({
-      where: { id: offerId },
-      data: {
-        status: OfferStatus.ACCEPTED,
-        // If designer is accepting a customer counter (COUNTERED status), use customer price
-        // Otherwise use designer's counter price or original customer price
-        finalPrice:
-          offer.status === OfferStatus.COUNTERED && !offer.designerPrice
-            ? offer.customerPrice
-            : offer.designerPrice || offer.customerPrice,
-        // Set agreed deadline: use designer's proposed deadline if exists, otherwise customer's
-        agreedDeadline: offer.designerDeadline || offer.deadline,
-        acceptedAt: new Date(),
-        awaitingResponseFrom: null, // Negotiation complete
-      },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-          },
+    const updatedOffer = await prisma.$transaction(async (tx) => {
+      const updated = await tx.offer.update({
+        where: { id: offerId },
+        data: {
+          status: OfferStatus.ACCEPTED,
+          // If designer is accepting a customer counter (COUNTERED status), use customer price
+          // Otherwise use designer's counter price or original customer price
+          finalPrice:
+            offer.status === OfferStatus.COUNTERED && !offer.designerPrice
+              ? offer.customerPrice
+              : offer.designerPrice || offer.customerPrice,
+          // Set agreed deadline: use designer's proposed deadline if exists, otherwise customer's
+          agreedDeadline: offer.designerDeadline || offer.deadline,
+          acceptedAt: new Date(),
+          awaitingResponseFrom: null, // Negotiation complete
         },
-        designer: {
-          select: {
-            id: true,
-            fullName: true,
-            brandName: true,
+        include: {
+          customer: {
+            select: {
+              id: true,
+              fullName: true,
+              email: true,
+            },
+          },
+          designer: {
+            select: {
+              id: true,
+              fullName: true,
+              brandName: true,
+            },
           },
+          design: true,
         },
-        design: true,
-      },
+      });
+
+      await this.recordRound(tx, offerId, {
+        action: OfferRoundAction.ACCEPTED,
+        actorRole: ResponsibleParty.DESIGNER,
+        actorId: designerId,
+        price: updated.finalPrice,
+        deadline: updated.agreedDeadline,
+      });
+
+      return updated;
     });
 
     await this.notifyCounterparty(updatedOffer, designerId, {
@@ -436,32 +550,52 @@ class OfferService {
         );
       }
     }
-    const updatedOffer = await prisma.offer.update({
-      where: { id: offerId },
-      data: {
-        status: OfferStatus.COUNTERED,
-        designerPrice: data.designerPrice,
-        designerNotes: data.designerNotes,
-        designerDeadline: data.designerDeadline,
-        awaitingResponseFrom: ResponsibleParty.CUSTOMER, // Waiting for customer response
-      },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-          },
+
+    // An omitted plan keeps the one currently proposed
+    const paymentPlan =
+      data.paymentPlan !== undefined ? paymentPlanService.resolvePlan(data.paymentPlan) : {};
+
+    await this.assertCanCounter(offerId);
+    const updatedOffer = await prisma.$transaction(async (tx) => {
+      const updated = await tx.offer.update({
+        where: { id: offerId },
+        data: {
+          status: OfferStatus.COUNTERED,
+          designerPrice: data.designerPrice,
+          designerNotes: data.designerNotes,
+          designerDeadline: data.designerDeadline,
+          ...paymentPlan,
+          awaitingResponseFrom: ResponsibleParty.CUSTOMER, // Waiting for customer response
         },
-        designer: {
-          select: {
-            id: true,
-            fullName: true,
-            brandName: true,
+        include: {
+          customer: {
+            select: {
+              id: true,
+              fullName: true,
+              email: true,
+            },
+          },
+          designer: {
+            select: {
+              id: true,
+              fullName: true,
+              brandName: true,
+            },
           },
+          design: true,
         },
-        design: true,
-      },
+      });
+
+      await this.recordRound(tx, offerId, {
+        action: OfferRoundAction.COUNTERED,
+        actorRole: ResponsibleParty.DESIGNER,
+        actorId: designerId,
+        price: data.designerPrice,
+        deadline: data.designerDeadline,
+        notes: data.designerNotes,
+      });
+
+      return updated;
     });
 
     await this.notifyCounterparty(updatedOffer, designerId, {
@@ -492,7 +626,8 @@ class OfferService {
     customerId: string,
     newPrice: number,
     notes?: string,
-    newDeadline?: Date
+    newDeadline?: Date,
+    newPaymentPlan?: PaymentPlanInput | null
   ) {
     const offer = await prisma.offer.findUnique({
       where: { id: offerId },
@@ -552,33 +687,53 @@ class OfferService {
       }
     }
 
-    const updatedOffer = await prisma.offer.update({
-      where: { id: offerId },
-      data: {
-        status: OfferStatus.COUNTERED,
-        customerPrice: newPrice,
-        notes: notes || offer.notes,
-        deadline: newDeadline || offer.deadline, // Update customer's proposed deadline
-        designerDeadline: null, // Clear designer's counter-deadline (customer is countering)
-        awaitingResponseFrom: ResponsibleParty.DESIGNER, // Waiting for designer response
-      },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-          },
+    // An omitted plan keeps the one currently proposed
+    const paymentPlan =
+      newPaymentPlan !== undefined ? paymentPlanService.resolvePlan(newPaymentPlan) : {};
+
+    await this.assertCanCounter(offerId);
+
+    const updatedOffer = await prisma.$transaction(async (tx) => {
+      const updated = await tx.offer.update({
+        where: { id: offerId },
+        data: {
+          status: OfferStatus.COUNTERED,
+          customerPrice: newPrice,
+          notes: notes || offer.notes,
+          deadline: newDeadline || offer.deadline, // Update customer's proposed deadline
+          designerDeadline: null, // Clear designer's counter-deadline (customer is countering)
+          ...paymentPlan,
+          awaitingResponseFrom: ResponsibleParty.DESIGNER, // Waiting for designer response
         },
-        designer: {
-          select: {
-            id: true,
-            fullName: true,
-            brandName: true,
+        include: {
+          customer: {
+            select: {
+              id: true,
+              fullName: true,
+              email: true,
+            },
+          },
+          designer: {
+            select: {
+              id: true,
+              fullName: true,
+              brandName: true,
+            },
           },
+          design: true,
         },
-        design: true,
-      },
+      });
+
+      await this.recordRound(tx, offerId, {
+        action: OfferRoundAction.COUNTERED,
+        actorRole: ResponsibleParty.CUSTOMER,
+        actorId: customerId,
+        price: newPrice,
+        deadline: updated.deadline,
+        notes,
+      });
+
+      return updated;
     });
 
     await this.notifyCounterparty(updatedOffer, customerId, {
@@ -647,33 +802,45 @@ class OfferService {
     }
 
     // Accept at designer's price
-    const updatedOffer = await prisma.offer.update({
-      where: { id: offerId },
-      data: {
-        status: OfferStatus.ACCEPTED,
-        finalPrice: offer.designerPrice,
-        // Set agreed deadline: use designer's proposed deadline if exists, otherwise customer's
-        agreedDeadline: offer.designerDeadline || offer.deadline,
-        acceptedAt: new Date(),
-        awaitingResponseFrom: null, // Negotiation complete
-      },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-          },
+    const updatedOffer = await prisma.$transaction(async (tx) => {
+      const updated = await tx.offer.update({
+        where: { id: offerId },
+        data: {
+          status: OfferStatus.ACCEPTED,
+          finalPrice: offer.designerPrice,
+          // Set agreed deadline: use designer's proposed deadline if exists, otherwise customer's
+          agreedDeadline: offer.designerDeadline || offer.deadline,
+          acceptedAt: new Date(),
+          awaitingResponseFrom: null, // Negotiation complete
         },
-        designer: {
-          select: {
-            id: true,
-            fullName: true,
-            brandName: true,
+        include: {
+          customer: {
+            select: {
+              id: true,
+              fullName: true,
+              email: true,
+            },
           },
+          designer: {
+            select: {
+              id: true,
+              fullName: true,
+              brandName: true,
+            },
+          },
+          design: true,
         },
-        design: true,
-      },
+      });
+
+      await this.recordRound(tx, offerId, {
+        action: OfferRoundAction.ACCEPTED,
+        actorRole: ResponsibleParty.CUSTOMER,
+        actorId: customerId,
+        price: updated.finalPrice,
+        deadline: updated.agreedDeadline,
+      });
+
+      return updated;
     });
 
     await this.notifyCounterparty(updatedOffer, customerId, {
@@ -714,17 +881,27 @@ class OfferService {
       throw new Error(`Cannot decline offer with status: ${offer.status}`);
     }
 
-    const updatedOffer = await prisma.offer.update({
-      where: { id: offerId },
-      data: {
-        status: OfferStatus.REJECTED,
-        awaitingResponseFrom: null, // Negotiation ended
-      },
-      include: {
-        customer: true,
-        designer: true,
-        design: true,
-      },
+    const updatedOffer = await prisma.$transaction(async (tx) => {
+      const updated = await tx.offer.update({
+        where: { id: offerId },
+        data: {
+          status: OfferStatus.REJECTED,
+          awaitingResponseFrom: null, // Negotiation ended
+        },
+        include: {
+          customer: true,
+          designer: true,
+          design: true,
+        },
+      });
+
+      await this.recordRound(tx, offerId, {
+        action: OfferRoundAction.REJECTED,
+        actorRole: ResponsibleParty.CUSTOMER,
+        actorId: customerId,
+      });
+
+      return updated;
     });
 
     await this.notifyCounterparty(updatedOffer, customerId, {
@@ -773,18 +950,29 @@ class OfferService {
       throw new Error('Waiting for customer to respond');
     }
 
-    const updatedOffer = await prisma.offer.update({
-      where: { id: offerId },
-      data: {
-        status: OfferStatus.REJECTED,
-        designerNotes,
-        awaitingResponseFrom: null, // Negotiation ended
-      },
-      include: {
-        customer: true,
-        designer: true,
-        design: true,
-      },
+    const updatedOffer = await prisma.$transaction(async (tx) => {
+      const updated = await tx.offer.update({
+        where: { id: offerId },
+        data: {
+          status: OfferStatus.REJECTED,
+          designerNotes,
+          awaitingResponseFrom: null, // Negotiation ended
+        },
+        include: {
+          customer: true,
+          designer: true,
+          design: true,
+        },
+      });
+
+      await this.recordRound(tx, offerId, {
+        action: OfferRoundAction.REJECTED,
+        actorRole: ResponsibleParty.DESIGNER,
+        actorId: designerId,
+        notes: designerNotes,
+      });
+
+      return updated;
     });
 
     await this.notifyCounterparty(updatedOffer, designerId, {
@@ -825,16 +1013,26 @@ class OfferService {
       throw new Error('Cannot withdraw accepted offer');
     }
 
-    const updatedOffer = await prisma.offer.update({
-      where: { id: offerId },
-      data: {
-        status: OfferStatus.WITHDRAWN,
-      },
-      include: {
-        customer: true,
-        designer: true,
-        design: true,
-      },
+    const updatedOffer = await prisma.$transaction(async (tx) => {
+      const updated = await tx.offer.update({
+        where: { id: offerId },
+        data: {
+          status: OfferStatus.WITHDRAWN,
+        },
+        include: {
+          customer: true,
+          designer: true,
+          design: true,
+        },
+      });
+
+      await this.recordRound(tx, offerId, {
+        action: OfferRoundAction.WITHDRAWN,
+        actorRole: ResponsibleParty.CUSTOMER,
+        actorId: customerId,
+      });
+
+      return updated;
     });
 
     await this.notifyCounterparty(updatedOffer, customerId, {
@@ -854,6 +1052,88 @@ class OfferService {
     return updatedOffer;
   }
 
+  /**
+   * Expire offers still under negotiation whose expiresAt has passed (run by CronService).
+   * Accepted offers awaiting payment are left alone.
+   */
+  async expireStaleOffers(): Promise<number> {
+    const now = new Date();
+
+    const staleOffers = await prisma.offer.findMany({
+      where: {
+        status: { in: [OfferStatus.PENDING, OfferStatus.COUNTERED] },
+        expiresAt: { lt: now },
+      },
+      include: {
+        design: { select: { title: true } },
+      },
+    });
+
+    let expiredCount = 0;
+
+    for (const offer of staleOffers) {
+      try {
+        // Conditional on status so an offer accepted/countered meanwhile is not expired
+        const claimed = await prisma.offer.updateMany({
+          where: {
+            id: offer.id,
+            status: { in: [OfferStatus.PENDING, OfferStatus.COUNTERED] },
+          },
+          data: {
+            status: OfferStatus.EXPIRED,
+            awaitingResponseFrom: null,
+          },
+        });
+
+        if (claimed.count === 0) {
+          continue;
+        }
+
+        expiredCount++;
+
+        for (const userId of [offer.customerId, offer.designerId]) {
+          await notificationService.notifyUser({
+            userId,
+            type: 'OFFER_EXPIRED',
+            title: '⌛ Offer Expired',
+            message: `The offer for ${offer.design.title} expired before an agreement was reached.`,
+            offerId: offer.id,
+            data: {
+              offerId: offer.id,
+              status: OfferStatus.EXPIRED,
+            },
+            realtime: {
+              domain: 'offer',
+              action: 'offer_expired',
+              entityId: offer.id,
+              payload: {
+                offerId: offer.id,
+                status: OfferStatus.EXPIRED,
+              },
+            },
+          });
+        }
+
+        // No actor - the system expired it
+        realtimeEventService.publishToUsers([offer.customerId, offer.designerId], {
+          type: 'OFFER_UPDATED',
+          domain: 'offer',
+          action: 'offer_expired',
+          entityId: offer.id,
+          payload: {
+            offerId: offer.id,
+            status: OfferStatus.EXPIRED,
+            awaitingResponseFrom: null,
+          },
+        });
+      } catch (error) {
+        console.error(`[OfferService] Error expiring offer ${offer.id}:`, error);
+      }
+    }
+
+    return expiredCount;
+  }
+
   /**
    * Get customer measurements for an offer (Designer can view)
    */
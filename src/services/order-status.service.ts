@@ -0,0 +1,414 @@
+import { Order, OrderActor, OrderStatus, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import walletService from './wallet.service';
+import { notificationService } from './notification.service';
+import { realtimeEventService } from './realtime-event.service';
+import adminEventsService from './admin-events.service';
+import { paymentPlanService } from './payment-plan.service';
+import { voucherService } from './voucher.service';
+
+/**
+ * Order Status Service
+ * The order state machine. Defines which status changes are allowed and who may make
+ * them, records every change in the order's status history and runs the side effects
+ * that belong to the new status (escrow holds, notifications, realtime and admin
+ * events). Flows that move money by amounts of their own - releasing payment to the
+ * designer, refunds - do so around the transition.
+ */
+
+interface TransitionRule {
+  from: OrderStatus[];
+  to: OrderStatus;
+  actors: OrderActor[];
+}
+
+export interface TransitionContext {
+  actor: OrderActor;
+  actorId?: string | null; // Null for SYSTEM transitions
+  note?: string | null;
+  // Fields written together with the status
+  data?: Omit<Prisma.OrderUncheckedUpdateManyInput, 'status'>;
+  // Extra payload for the participants' realtime event
+  payload?: Record<string, unknown>;
+}
+
+export interface StatusChange {
+  order: Order;
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+  context: TransitionContext;
+}
+
+interface StatusEffects {
+  realtimeAction?: string;
+  notify?: (change: StatusChange) => Promise<unknown>;
+}
+
+// The designer owes work (and deadlines apply) until the order ships
+export const BEFORE_SHIPPING: OrderStatus[] = ['PAID', 'IN_PRODUCTION', 'READY_TO_SHIP'];
+const AWAITING_RECEIPT: OrderStatus[] = ['SHIPPED', 'DELIVERED', 'AWAITING_CONFIRMATION'];
+
+const TRANSITIONS: TransitionRule[] = [
+  { from: ['PAID'], to: 'IN_PRODUCTION', actors: ['DESIGNER', 'ADMIN'] },
+  { from: ['PAID', 'IN_PRODUCTION'], to: 'READY_TO_SHIP', actors: ['DESIGNER', 'ADMIN'] },
+  // Through the shipment endpoint, which records the tracking number
+  { from: BEFORE_SHIPPING, to: 'SHIPPED', actors: ['DESIGNER', 'ADMIN'] },
+  // Carrier tracking or an admin
+  { from: ['SHIPPED'], to: 'DELIVERED', actors: ['SYSTEM', 'ADMIN'] },
+  // The customer confirms receipt, or the confirmation window runs out
+  { from: AWAITING_RECEIPT, to: 'COMPLETED', actors: ['CUSTOMER', 'SYSTEM'] },
+  { from: [...BEFORE_SHIPPING, ...AWAITING_RECEIPT], to: 'DISPUTED', actors: ['CUSTOMER'] },
+  // A dispute ruled (at least partly) in the designer's favour
+  { from: ['DISPUTED'], to: 'COMPLETED', actors: ['ADMIN'] },
+  // By an admin, or through a cancellation request the other party accepted
+  {
+    from: ['PENDING_PAYMENT', ...BEFORE_SHIPPING],
+    to: 'CANCELLED',
+    actors: ['ADMIN', 'CUSTOMER', 'DESIGNER'],
+  },
+  // Once every payment made towards the order has been refunded
+  { from: ['CANCELLED', 'DISPUTED'], to: 'REFUNDED', actors: ['SYSTEM'] },
+  // A full refund ruling on an order with no online payment, refunded outside the platform
+  { from: ['DISPUTED'], to: 'REFUNDED', actors: ['ADMIN'] },
+];
+
+// Escrow and payment changes that must commit together with the status
+const ESCROW_EFFECTS: Partial<
+  Record<OrderStatus, (order: Order, tx: Prisma.TransactionClient) => Promise<void>>
+> = {
+  // The designer's pending earning is frozen while the dispute is open
+  DISPUTED: (order, tx) => walletService.holdEarning(order.id, tx),
+  // A balance payment still open can no longer count towards the order
+  CANCELLED: async (order, tx) => {
+    await tx.paymentTransaction.updateMany({
+      where: { offerId: order.offerId, purpose: 'BALANCE', status: 'PENDING' },
+      data: { status: 'EXPIRED', responseDescription: 'Order cancelled' },
+    });
+  },
+  // Nothing is owed to the designer, and a platform-funded voucher goes back to revenue
+  REFUNDED: async (order, tx) => {
+    await walletService.cancelEarning(order.id, tx);
+    await walletService.reverseVoucherFunding(
+      {
+        orderId: order.id,
+        customerId: order.customerId,
+        amount: voucherService.getPlatformFunding(order),
+      },
+      tx
+    );
+  },
+};
+
+// Run once the change has committed
+const STATUS_EFFECTS: Partial<Record<OrderStatus, StatusEffects>> = {
+  IN_PRODUCTION: {
+    notify: ({ order }) =>
+      notificationService.notifyUser({
+        userId: order.customerId,
+        type: 'ORDER_UPDATE',
+        title: '🧵 Production Started',
+        message: `Your designer has started working on order #${order.orderNumber}.`,
+        orderId: order.id,
+        data: { orderId: order.id, orderNumber: order.orderNumber, status: order.status },
+      }),
+  },
+  READY_TO_SHIP: {
+    notify: ({ order }) =>
+      notificationService.notifyUser({
+        userId: order.customerId,
+        type: 'ORDER_UPDATE',
+        title: '📦 Ready to Ship',
+        message: `Order #${order.orderNumber} is finished and will be shipped soon.`,
+        orderId: order.id,
+        data: { orderId: order.id, orderNumber: order.orderNumber, status: order.status },
+      }),
+  },
+  SHIPPED: {
+    realtimeAction: 'order_shipped',
+    notify: ({ order }) => notificationService.notifyOrderShipped(order),
+  },
+  DELIVERED: {
+    realtimeAction: 'order_delivered',
+    notify: ({ order }) => notificationService.notifyOrderDelivered(order),
+  },
+  COMPLETED: { realtimeAction: 'order_completed' },
+  DISPUTED: {
+    notify: ({ order }) => notificationService.notifyDisputeOpened(order),
+  },
+  CANCELLED: {
+    realtimeAction: 'order_cancelled',
+    notify: ({ order, context }) =>
+      Promise.all(
+        [order.customerId, order.designerId].map((userId) =>
+          notificationService.notifyUser({
+            userId,
+            type: 'ORDER_CANCELLED',
+            title: '🚫 Order Cancelled',
+            message: `Order #${order.orderNumber} has been cancelled.${context.note ? ` ${context.note}` : ''}`,
+            orderId: order.id,
+            data: { orderId: order.id, orderNumber: order.orderNumber },
+          })
+        )
+      ),
+  },
+};
+
+const ACTORS_BY_ROLE: Record<string, OrderActor> = {
+  CUSTOMER: 'CUSTOMER',
+  DESIGNER: 'DESIGNER',
+  ADMIN: 'ADMIN',
+};
+
+class OrderStatusService {
+  /**
+   * The actor a signed-in user's role acts as
+   */
+  getActorForRole(role: string): OrderActor {
+    const actor = ACTORS_BY_ROLE[role];
+    if (!actor) {
+      throw new Error(`Forbidden: ${role} users can't change order status`);
+    }
+    return actor;
+  }
+
+  /**
+   * Statuses the actor may move an order to from its current status
+   */
+  getAllowedTransitions(status: OrderStatus, actor: OrderActor): OrderStatus[] {
+    return TRANSITIONS.filter(
+      (rule) => rule.from.includes(status) && rule.actors.includes(actor)
+    ).map((rule) => rule.to);
+  }
+
+  canTransition(from: OrderStatus, to: OrderStatus, actor: OrderActor): boolean {
+    return this.getAllowedTransitions(from, actor).includes(to);
+  }
+
+  /**
+   * Throws with the reason the order can't move to the status
+   */
+  assertTransition(order: Order, to: OrderStatus, context: TransitionContext): void {
+    const rules = TRANSITIONS.filter((r) => r.to === to && r.from.includes(order.status));
+
+    if (rules.length === 0) {
+      throw new Error(`Invalid status transition: ${order.status} → ${to}`);
+    }
+
+    if (!rules.some((rule) => rule.actors.includes(context.actor))) {
+      throw new Error(
+        `Forbidden: a ${context.actor.toLowerCase()} can't move an order from ${order.status} to ${to}`
+      );
+    }
+
+    if (to === 'SHIPPED') {
+      paymentPlanService.assertFullyPaid(order);
+
+      if (!order.trackingNumber && typeof context.data?.trackingNumber !== 'string') {
+        throw new Error(
+          'Invalid status transition: add shipment tracking to mark the order as shipped'
+        );
+      }
+    }
+  }
+
+  /**
+   * Move an order to a new status and run its side effects. Throws if the change
+   * isn't allowed.
+   */
+  async transition(orderId: string, to: OrderStatus, context: TransitionContext): Promise<Order> {
+    const change = await prisma.$transaction((tx) => this.apply(orderId, to, context, tx, false));
+
+    await this.runSideEffects(change!);
+    return change!.order;
+  }
+
+  /**
+   * Like transition, but returns null instead of throwing when the order is no longer
+   * in a status it can move from (for jobs and webhooks that may race each other)
+   */
+  async transitionIfAllowed(
+    orderId: string,
+    to: OrderStatus,
+    context: TransitionContext
+  ): Promise<Order | null> {
+    const change = await prisma.$transaction((tx) => this.apply(orderId, to, context, tx, true));
+
+    if (!change) {
+      return null;
+    }
+
+    await this.runSideEffects(change);
+    return change.order;
+  }
+
+  /**
+   * Move an order to a new status inside the caller's transaction. Call
+   * runSideEffects with the result once the transaction has committed.
+   */
+  async applyInTransaction(
+    orderId: string,
+    to: OrderStatus,
+    context: TransitionContext,
+    tx: Prisma.TransactionClient
+  ): Promise<StatusChange> {
+    return (await this.apply(orderId, to, context, tx, false))!;
+  }
+
+  /**
+   * Like applyInTransaction, but returns null instead of throwing when the order is
+   * no longer in a status it can move from
+   */
+  async applyIfAllowedInTransaction(
+    orderId: string,
+    to: OrderStatus,
+    context: TransitionContext,
+    tx: Prisma.TransactionClient
+  ): Promise<StatusChange | null> {
+    return this.apply(orderId, to, context, tx, true);
+  }
+
+  /**
+   * Notifications, realtime and admin events for a committed status change
+   */
+  async runSideEffects(change: StatusChange): Promise<void> {
+    const { order, fromStatus, toStatus, context } = change;
+    const effects = STATUS_EFFECTS[toStatus] || {};
+
+    adminEventsService.emitOrderUpdated({
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      oldStatus: fromStatus,
+      newStatus: toStatus,
+    });
+    adminEventsService.emitStatsUpdated('order_status_changed');
+
+    realtimeEventService.publishToUsers([order.customerId, order.designerId], {
+      type: 'ORDER_UPDATED',
+      domain: 'order',
+      action: effects.realtimeAction || 'status_changed',
+      entityId: order.id,
+      actorUserId: context.actorId || undefined,
+      payload: {
+        orderId: order.id,
+        fromStatus,
+        status: toStatus,
+        ...(context.payload || {}),
+      },
+    });
+
+    try {
+      await effects.notify?.(change);
+    } catch (error) {
+      console.error(`[OrderStatus] Failed to notify ${toStatus} for order ${order.id}:`, error);
+    }
+
+    await paymentPlanService.handleStatusChange(order);
+  }
+
+  /**
+   * Start the timeline of a new order with the status it was created in
+   */
+  async recordCreated(
+    order: Pick<Order, 'id' | 'status'>,
+    context: Omit<TransitionContext, 'data' | 'payload'>,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    await client.orderStatusHistory.create({
+      data: {
+        orderId: order.id,
+        fromStatus: null,
+        toStatus: order.status,
+        actor: context.actor,
+        actorId: context.actorId ?? null,
+        note: context.note ?? null,
+      },
+    });
+  }
+
+  /**
+   * Status history of an order, oldest first. Pass userId to restrict it to the
+   * order's customer and designer.
+   */
+  async getTimeline(orderId: string, userId?: string) {
+    const order = await prisma.order.findFirst({
+      where: {
+        id: orderId,
+        ...(userId ? { OR: [{ customerId: userId }, { designerId: userId }] } : {}),
+      },
+      select: { id: true, orderNumber: true, status: true },
+    });
+
+    if (!order) {
+      throw new Error('Order not found or access denied');
+    }
+
+    const history = await prisma.orderStatusHistory.findMany({
+      where: { orderId },
+      include: {
+        actorUser: { select: { id: true, fullName: true, brandName: true, role: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { ...order, history };
+  }
+
+  private async apply(
+    orderId: string,
+    to: OrderStatus,
+    context: TransitionContext,
+    tx: Prisma.TransactionClient,
+    skipIfNotAllowed: boolean
+  ): Promise<StatusChange | null> {
+    const order = await tx.order.findUnique({ where: { id: orderId } });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    if (skipIfNotAllowed && !this.canTransition(order.status, to, context.actor)) {
+      return null;
+    }
+
+    this.assertTransition(order, to, context);
+
+    // Conditional on the status we validated, so concurrent changes can't both apply
+    const claimed = await tx.order.updateMany({
+      where: { id: orderId, status: order.status },
+      data: { ...context.data, status: to },
+    });
+
+    if (claimed.count === 0) {
+      if (skipIfNotAllowed) {
+        return null;
+      }
+      throw new Error('Invalid status transition: the order was updated at the same time');
+    }
+
+    await tx.orderStatusHistory.create({
+      data: {
+        orderId,
+        fromStatus: order.status,
+        toStatus: to,
+        actor: context.actor,
+        actorId: context.actorId ?? null,
+        note: context.note ?? null,
+      },
+    });
+
+    // Open cancellation requests can only be settled while the order hasn't shipped
+    if (BEFORE_SHIPPING.includes(order.status) && !BEFORE_SHIPPING.includes(to)) {
+      await tx.cancellationRequest.updateMany({
+        where: { orderId, status: { in: ['PENDING', 'CONTESTED'] } },
+        data: { status: 'EXPIRED', resolvedAt: new Date() },
+      });
+    }
+
+    const updated = await tx.order.findUniqueOrThrow({ where: { id: orderId } });
+    await ESCROW_EFFECTS[to]?.(updated, tx);
+
+    return { order: updated, fromStatus: order.status, toStatus: to, context };
+  }
+}
+
+export const orderStatusService = new OrderStatusService();
@@ -5,12 +5,21 @@
  */
 
 import prisma from '../config/database';
-import { Order, OrderStatus } from '@prisma/client';
+import { Order, OrderStatus, PaymentPurpose, Prisma } from '@prisma/client';
 import walletService from './wallet.service';
 import { notificationService } from './notification.service';
 import { realtimeEventService } from './realtime-event.service';
 import feeService from './fee.service';
 import adminEventsService from './admin-events.service';
+import disputeService from './dispute.service';
+import { trackingService } from './tracking.service';
+import { reviewService } from './review.service';
+import { paymentPlanService } from './payment-plan.service';
+import { voucherService } from './voucher.service';
+import { invoiceService } from './invoice.service';
+import { orderStatusService, BEFORE_SHIPPING } from './order-status.service';
+import { productionUpdateService } from './production-update.service';
+import { alterationService } from './alteration.service';
 
 interface ProductionStep {
   step: string;
@@ -42,6 +51,8 @@ interface UpdateProductionStepData {
   status?: 'pending' | 'in_progress' | 'completed';
   completedAt?: string;
   notes?: string;
+  photos?: string[];
+  changeRequestId?: string; // Customer change request this update addresses
 }
 
 interface UpdateShipmentData {
@@ -55,6 +66,34 @@ interface ConfirmDeliveryData {
   review?: string;
 }
 
+const orderParticipantsInclude = {
+  customer: {
+    select: {
+      id: true,
+      fullName: true,
+      email: true,
+      profileImage: true,
+    },
+  },
+  designer: {
+    select: {
+      id: true,
+      fullName: true,
+      brandName: true,
+      brandLogo: true,
+      email: true,
+    },
+  },
+  design: {
+    select: {
+      id: true,
+      title: true,
+      images: true,
+      category: true,
+    },
+  },
+} satisfies Prisma.OrderInclude;
+
 class OrderService {
   private publishOrderRealtimeToParticipants(
     order: { id: string; customerId: string; designerId: string },
@@ -141,7 +180,7 @@ class OrderService {
         designId: data.designId,
         finalPrice: data.finalPrice,
         measurements: data.measurements || {},
-        status: 'PENDING',
+        status: 'PAID',
         productionSteps: productionSteps as any,
         deadline: data.deadline || null,
         buyerProtectionUntil,
@@ -176,6 +215,8 @@ class OrderService {
       },
     });
 
+    await orderStatusService.recordCreated(order, { actor: 'SYSTEM', note: 'Order created' });
+
     // Emit SSE event to admins
     adminEventsService.emitNewOrder({
       orderId: order.id,
@@ -264,6 +305,10 @@ class OrderService {
     });
 
     if (existingOrder) {
+      if (payment.purpose === 'BALANCE') {
+        return this.applyBalancePayment(existingOrder, payment);
+      }
+
       // If order exists, just link this payment to it if not already linked
       if (!payment.orderId) {
         await prisma.paymentTransaction.update({
@@ -320,59 +365,143 @@ class OrderService {
     );
 
     const orderNumber = await this.generateOrderNumber();
-
-    // Create order with payment and address links
-    const order = await prisma.order.create({
-      data: {
-        orderNumber,
-        offerId: offer.id,
-        customerId: offer.customerId,
-        designerId: offer.designerId,
-        designId: offer.designId,
-        finalPrice: payment.amount,
-        measurements: offer.measurements || {},
-        status: 'PENDING',
-        productionSteps: productionSteps as any,
-        paymentTransactionId: payment.id,
-        shippingAddressId: address.id,
-        deadline: offer.agreedDeadline || offer.deadline || null, // Use negotiated deadline if exists
-      },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-            profileImage: true,
-          },
+    // A voucher reserved by this payment is recorded on the order
+    const redemption = await prisma.voucherRedemption.findUnique({
+      where: { paymentTransactionId: payment.id },
+      include: { voucher: true },
+    });
+    const discountAmount = redemption?.discountAmount || 0;
+    // On a payment plan this first payment is the deposit
+    const finalPrice = offer.finalPrice ?? payment.amount + discountAmount;
+    const fullyPaid =
+      paymentPlanService.getOutstandingBalance({
+        finalPrice,
+        discountAmount,
+        amountPaid: payment.amount,
+      }) <= 0;
+
+    // Fee estimates for the designer's pending earning, calculated before the transaction
+    const platformFunding = voucherService.getPlatformFunding({
+      discountAmount,
+      discountFundedBy: redemption?.voucher.fundedBy ?? null,
+    });
+    const paymentFee = await feeService.calculateFeeForDesigner(
+      offer.designerId,
+      payment.amount,
+      new Date()
+    );
+    const fundingFee =
+      platformFunding > 0
+        ? await feeService.calculateFeeForDesigner(offer.designerId, platformFunding, new Date())
+        : null;
+
+    // Create the order, link its payment and voucher and capture the funds into the
+    // customer's escrow together, so an order never exists without its escrow
+    const order = await prisma.$transaction(async (tx) => {
+      // Create order with payment and address links
+      const order = await tx.order.create({
+        data: {
+          orderNumber,
+          offerId: offer.id,
+          customerId: offer.customerId,
+          designerId: offer.designerId,
+          designId: offer.designId,
+          finalPrice,
+          depositPercentage: offer.depositPercentage,
+          balanceDueStatus: offer.balanceDueStatus,
+          amountPaid: payment.amount,
+          fullyPaidAt: fullyPaid ? new Date() : null,
+          voucherId: redemption?.voucherId,
+          discountAmount,
+          discountFundedBy: redemption?.voucher.fundedBy,
+          measurements: offer.measurements || {},
+          status: 'PAID',
+          productionSteps: productionSteps as any,
+          paymentTransactionId: payment.id,
+          shippingAddressId: address.id,
+          deadline: offer.agreedDeadline || offer.deadline || null, // Use negotiated deadline if exists
         },
-        designer: {
-          select: {
-            id: true,
-            fullName: true,
-            brandName: true,
-            brandLogo: true,
-            email: true,
+        include: {
+          customer: {
+            select: {
+              id: true,
+              fullName: true,
+              email: true,
+              profileImage: true,
+            },
           },
-        },
-        design: {
-          select: {
-            id: true,
-            title: true,
-            images: true,
-            category: true,
+          designer: {
+            select: {
+              id: true,
+              fullName: true,
+              brandName: true,
+              brandLogo: true,
+              email: true,
+            },
+          },
+          design: {
+            select: {
+              id: true,
+              title: true,
+              images: true,
+              category: true,
+            },
           },
+          offer: true,
+          paymentTransaction: true,
+          shippingAddress: true,
         },
-        offer: true,
-        paymentTransaction: true,
-        shippingAddress: true,
-      },
-    });
+      });
+
+      // Update payment transaction with order ID
+      await tx.paymentTransaction.update({
+        where: { id: payment.id },
+        data: { orderId: order.id },
+      });
 
-    // Update payment transaction with order ID
-    await prisma.paymentTransaction.update({
-      where: { id: payment.id },
-      data: { orderId: order.id },
+      await orderStatusService.recordCreated(
+        order,
+        {
+          actor: 'SYSTEM',
+          note: `Order created after payment ${payment.txnRef}`,
+        },
+        tx
+      );
+
+      // Captured funds are held in the customer's escrow until release or refund
+      await walletService.captureEscrow(
+        {
+          orderId: order.id,
+          customerId: order.customerId,
+          designerId: order.designerId,
+          paymentTransactionId: payment.id,
+          amount: payment.amount,
+          feeEstimate: paymentFee,
+        },
+        tx
+      );
+
+      if (redemption) {
+        await tx.voucherRedemption.update({
+          where: { id: redemption.id },
+          data: { orderId: order.id },
+        });
+      }
+
+      if (fundingFee) {
+        await walletService.fundVoucherDiscount(
+          {
+            orderId: order.id,
+            customerId: order.customerId,
+            designerId: order.designerId,
+            amount: platformFunding,
+            feeEstimate: fundingFee,
+          },
+          tx
+        );
+      }
+
+      return order;
     });
 
     // If this offer originated from a custom request, close the request now that
@@ -402,9 +531,105 @@ class OrderService {
     });
     adminEventsService.emitStatsUpdated('new_order');
 
+    // The receipt is emailed as a PDF and linked from the payment notification
+    const receipt = await invoiceService.sendPaymentReceipt(payment.id);
+    await notificationService.notifyPaymentReceived(order, payment, receipt);
+
     return order;
   }
 
+  /**
+   * Count a balance payment towards its order: link it, capture it into escrow and
+   * let the designer know the order can ship once fully paid
+   */
+  private async applyBalancePayment<T extends Order>(
+    order: T,
+    payment: { id: string; amount: number; purpose: PaymentPurpose }
+  ): Promise<T> {
+    const fee = await feeService.calculateFeeForDesigner(
+      order.designerId,
+      payment.amount,
+      new Date()
+    );
+
+    // The order row is locked, so a cancellation can't commit between the status check
+    // and the capture
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "orders" WHERE id = ${order.id} FOR UPDATE`;
+
+      // Claim the payment so a repeated verification doesn't count it twice
+      const claimed = await tx.paymentTransaction.updateMany({
+        where: { id: payment.id, orderId: null },
+        data: { orderId: order.id },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const current = await tx.order.findUniqueOrThrow({ where: { id: order.id } });
+      if (!BEFORE_SHIPPING.includes(current.status)) {
+        adminEventsService.emitSystemAlert(
+          'warning',
+          `Balance payment for ${current.status.toLowerCase()} order ${order.orderNumber} needs a manual refund`,
+          { orderId: order.id, paymentTransactionId: payment.id, amount: payment.amount }
+        );
+        throw new Error(`Invalid payment: order is ${current.status.toLowerCase()}`);
+      }
+
+      await walletService.captureEscrow(
+        {
+          orderId: order.id,
+          customerId: order.customerId,
+          designerId: order.designerId,
+          paymentTransactionId: payment.id,
+          amount: payment.amount,
+          feeEstimate: fee,
+        },
+        tx
+      );
+
+      return paymentPlanService.applyPayment(order.id, payment.amount, tx);
+    });
+
+    if (!updated) {
+      return order;
+    }
+
+    const balance = paymentPlanService.getOutstandingBalance(updated);
+
+    await notificationService.notifyUser({
+      userId: order.designerId,
+      type: 'BALANCE_PAID',
+      title: '💰 Balance Paid',
+      message: balance
+        ? `The customer paid ₦${payment.amount.toLocaleString()} towards order ${order.orderNumber}. ₦${balance.toLocaleString()} is still outstanding.`
+        : `Order ${order.orderNumber} is now fully paid and can be shipped.`,
+      orderId: order.id,
+      data: {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        amount: payment.amount,
+        balance,
+      },
+    });
+
+    const receipt = await invoiceService.sendPaymentReceipt(payment.id);
+    await notificationService.notifyPaymentReceived(order, payment, receipt);
+
+    this.publishOrderRealtimeToParticipants(order, 'balance_paid', order.customerId, {
+      amountPaid: updated.amountPaid,
+      fullyPaid: !!updated.fullyPaidAt,
+    });
+
+    return {
+      ...order,
+      amountPaid: updated.amountPaid,
+      fullyPaidAt: updated.fullyPaidAt,
+      balanceDueAt: updated.balanceDueAt,
+    };
+  }
+
   /**
    * Get all orders (filtered by user role)
    */
@@ -500,7 +725,8 @@ class OrderService {
   }
 
   /**
-   * Update order status
+   * Update order status (designer). Only the transitions the order state machine
+   * allows a designer are accepted; shipping goes through addShipment.
    */
   async updateOrderStatus(
     orderId: string,
@@ -519,60 +745,31 @@ class OrderService {
       throw new Error('Order not found or access denied');
     }
 
-    const updates: any = {
-      status: data.status,
-    };
-
-    if (data.progressNotes) {
-      updates.progressNotes = data.progressNotes;
+    // Cancelling settles escrow, so it goes through a cancellation request
+    if (data.status === 'CANCELLED') {
+      throw new Error('Invalid status transition: request a cancellation to cancel an order');
     }
 
-    if (data.status === 'DELIVERED') {
-      updates.deliveredAt = new Date();
+    // Older builds step through several legacy production statuses that are all
+    // IN_PRODUCTION now; repeating the current status just records the notes
+    if (data.status === existing.status) {
+      await prisma.order.update({
+        where: { id: orderId },
+        data: data.progressNotes ? { progressNotes: data.progressNotes } : {},
+      });
+    } else {
+      await orderStatusService.transition(orderId, data.status, {
+        actor: 'DESIGNER',
+        actorId: userId,
+        note: data.progressNotes,
+        data: data.progressNotes ? { progressNotes: data.progressNotes } : {},
+      });
     }
 
-    const order = await prisma.order.update({
+    return prisma.order.findUniqueOrThrow({
       where: { id: orderId },
-      data: updates,
-      include: {
-        customer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-            profileImage: true,
-          },
-        },
-        designer: {
-          select: {
-            id: true,
-            fullName: true,
-            brandName: true,
-            brandLogo: true,
-            email: true,
-          },
-        },
-        design: {
-          select: {
-            id: true,
-            title: true,
-            images: true,
-            category: true,
-          },
-        },
-      },
+      include: orderParticipantsInclude,
     });
-
-    // Emit SSE event to admins
-    adminEventsService.emitOrderUpdated({
-      orderId: order.id,
-      orderNumber: order.orderNumber,
-      oldStatus: existing.status,
-      newStatus: order.status,
-    });
-    adminEventsService.emitStatsUpdated('order_status_changed');
-
-    return order;
   }
 
   /**
@@ -598,6 +795,18 @@ class OrderService {
     const updates: any = {};
 
     if (data.productionSteps) {
+      // Steps can't be completed over the customer's open change requests
+      const completedSteps = productionUpdateService
+        .getSteps(existing)
+        .filter((step) => step.status === 'completed')
+        .map((step) => step.step);
+
+      for (const step of data.productionSteps) {
+        if (step.status === 'completed' && !completedSteps.includes(step.step)) {
+          await productionUpdateService.assertCanComplete(orderId, step.step);
+        }
+      }
+
       updates.productionSteps = data.productionSteps;
     }
 
@@ -641,7 +850,8 @@ class OrderService {
   }
 
   /**
-   * Update single production step
+   * Update single production step. Notes and photos are kept as a ProductionUpdate
+   * and shown to the customer.
    */
   async updateProductionStep(
     orderId: string,
@@ -662,60 +872,85 @@ class OrderService {
     }
 
     // Get current production steps
-    const currentSteps = (existing.productionSteps as any[]) || [];
+    const currentSteps = productionUpdateService.getSteps(existing);
+    const currentStep = currentSteps.find((step) => step.step === stepId);
+
+    if (!currentStep) {
+      throw new Error('Production step not found');
+    }
+
+    // The customer's change requests must be addressed before the step is completed
+    if (data.status === 'completed' && currentStep.status !== 'completed') {
+      await productionUpdateService.assertCanComplete(orderId, stepId, data.changeRequestId);
+    }
 
     // Find and update the specific step
-    const updatedSteps = currentSteps.map((step: any) => {
+    const updatedSteps = currentSteps.map((step) => {
       if (step.step === stepId) {
         return {
           ...step,
           ...(data.status && { status: data.status }),
           ...(data.completedAt && { completedAt: data.completedAt }),
-          ...(data.notes && { notes: data.notes }),
         };
       }
       return step;
     });
 
-    // Update the order
-    const order = await prisma.order.update({
-      where: { id: orderId },
-      data: {
-        productionSteps: updatedSteps as any,
-      },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-            profileImage: true,
-          },
+    // Update the order and record the update
+    const { order, update } = await prisma.$transaction(async (tx) => {
+      const order = await tx.order.update({
+        where: { id: orderId },
+        data: {
+          productionSteps: updatedSteps as any,
         },
-        designer: {
-          select: {
-            id: true,
-            fullName: true,
-            brandName: true,
-            brandLogo: true,
-            email: true,
+        include: {
+          customer: {
+            select: {
+              id: true,
+              fullName: true,
+              email: true,
+              profileImage: true,
+            },
           },
-        },
-        design: {
-          select: {
-            id: true,
-            title: true,
-            images: true,
-            category: true,
+          designer: {
+            select: {
+              id: true,
+              fullName: true,
+              brandName: true,
+              brandLogo: true,
+              email: true,
+            },
+          },
+          design: {
+            select: {
+              id: true,
+              title: true,
+              images: true,
+              category: true,
+            },
           },
         },
-      },
+      });
+
+      const update = await productionUpdateService.recordUpdate(tx, existing, userId, stepId, {
+        note: data.notes,
+        photos: data.photos,
+        stepStatus: data.status,
+        changeRequestId: data.changeRequestId,
+      });
+
+      return { order, update };
     });
 
+    if (update) {
+      await productionUpdateService.notifyCustomer(order, update);
+    }
+
     // Publish realtime event to customer
     this.publishOrderRealtimeToParticipants(order, 'production_updated', userId, {
       stepId,
       status: data.status,
+      productionUpdateId: update?.id,
     });
 
     return order;
@@ -743,54 +978,30 @@ class OrderService {
       throw new Error('Tracking number must be at least 5 characters');
     }
 
-    const order = await prisma.order.update({
-      where: { id: orderId },
+    // The state machine checks the order is fully paid, then notifies the customer
+    const order = await orderStatusService.transition(orderId, 'SHIPPED', {
+      actor: 'DESIGNER',
+      actorId: userId,
+      note: `Shipped with ${data.carrier} (${trimmedTracking})`,
       data: {
         carrier: data.carrier,
         trackingNumber: data.trackingNumber,
         estimatedDelivery: data.estimatedDelivery,
         shippedAt: new Date(),
-        status: 'SHIPPED',
       },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-            profileImage: true,
-          },
-        },
-        designer: {
-          select: {
-            id: true,
-            fullName: true,
-            brandName: true,
-            brandLogo: true,
-            email: true,
-          },
-        },
-        design: {
-          select: {
-            id: true,
-            title: true,
-            images: true,
-            category: true,
-          },
-        },
+      payload: {
+        carrier: data.carrier,
+        trackingNumber: data.trackingNumber,
       },
     });
 
-    // Notify customer that order has been shipped
-    await notificationService.notifyOrderShipped(order);
+    // Start the tracking history with the hand-over to the carrier
+    await trackingService.recordShipmentCreated(order);
 
-    // Publish realtime event to customer
-    this.publishOrderRealtimeToParticipants(order, 'order_shipped', userId, {
-      carrier: order.carrier,
-      trackingNumber: order.trackingNumber,
+    return prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: orderParticipantsInclude,
     });
-
-    return order;
   }
 
   /**
@@ -804,25 +1015,26 @@ class OrderService {
         id: orderId,
         customerId: userId,
       },
+      include: { design: { select: { title: true } } },
     });
 
     if (!existing) {
       throw new Error('Order not found or access denied');
     }
 
-    // Can confirm if order is SHIPPED or DELIVERED
-    if (
-      existing.status !== 'SHIPPED' &&
-      existing.status !== 'DELIVERED' &&
-      existing.status !== 'AWAITING_CONFIRMATION'
-    ) {
+    // Can confirm once the order has shipped
+    if (!orderStatusService.canTransition(existing.status, 'COMPLETED', 'CUSTOMER')) {
       throw new Error('Order must be shipped or delivered to confirm receipt');
     }
 
+    // An open alteration holds the countdown until the altered garment is back
+    await alterationService.assertNoOpenRequest(orderId);
+
     // Calculate platform fee using dynamic fee service
+    const settlementAmount = voucherService.getSettlementAmount(existing);
     const feeCalc = await feeService.calculateFeeForDesigner(
       existing.designerId,
-      existing.finalPrice,
+      settlementAmount,
       new Date()
     );
     const platformFee = feeCalc.feeAmount;
@@ -832,213 +1044,115 @@ class OrderService {
       `💰 Fee calculation: ${(feeCalc.percentage * 100).toFixed(1)}% fee via ${feeCalc.appliedRule} (${feeCalc.ruleDetails})`
     );
 
-    const order = await prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: 'COMPLETED',
-        deliveredAt: existing.deliveredAt || new Date(),
-        deliveryConfirmedBy: 'CUSTOMER',
-        customerConfirmedAt: new Date(),
-        paymentReleasedAt: new Date(),
-        paymentAmount,
-        platformFee,
-        feePercentageApplied: feeCalc.percentage,
-        feeRuleApplied: feeCalc.appliedRule,
-        rating: data.rating,
-        review: data.review,
-      },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-            profileImage: true,
-          },
-        },
-        designer: {
-          select: {
-            id: true,
-            fullName: true,
-            brandName: true,
-            brandLogo: true,
-            email: true,
-          },
-        },
-        design: {
-          select: {
-            id: true,
-            title: true,
-            images: true,
-            category: true,
+    const now = new Date();
+    const release = {
+      reference: `order-release:${orderId}`,
+      orderId,
+      customerId: existing.customerId,
+      recipientId: existing.designerId,
+      grossAmount: settlementAmount,
+      platformFee,
+      description: `Payment for order ${existing.orderNumber} - ${existing.design.title}`,
+    };
+
+    // Complete the order and release escrow to the designer's wallet (fee stays with
+    // the platform) together, so a completed order is never left unpaid
+    const { change, posted } = await prisma.$transaction(async (tx) => {
+      const change = await orderStatusService.applyInTransaction(
+        orderId,
+        'COMPLETED',
+        {
+          actor: 'CUSTOMER',
+          actorId: userId,
+          note: 'Customer confirmed receipt',
+          data: {
+            deliveredAt: existing.deliveredAt || now,
+            deliveryConfirmedBy: 'CUSTOMER',
+            customerConfirmedAt: now,
+            paymentReleasedAt: now,
+            paymentAmount,
+            platformFee,
+            feePercentageApplied: feeCalc.percentage,
+            feeRuleApplied: feeCalc.appliedRule,
           },
         },
-      },
+        tx
+      );
+      const posted = await walletService.releaseEscrowInTransaction(release, tx);
+
+      return { change, posted };
     });
 
-    // Release payment to designer's wallet
-    await walletService.creditWallet({
-      userId: order.designerId,
-      amount: paymentAmount,
-      description: `Payment for order ${order.orderNumber} - ${order.design.title}`,
-      orderId: order.id,
+    await orderStatusService.runSideEffects(change);
+    walletService.publishRelease(release, posted);
+
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: orderParticipantsInclude,
     });
 
     console.log(
       `💸 Payment of ₦${paymentAmount.toLocaleString()} released to designer ${order.designer.fullName || order.designer.brandName} (after ₦${platformFee.toLocaleString()} platform fee)`
     );
 
-    // Notify designer that payment has been released
-    await notificationService.notifyPaymentReleased(order);
+    // Notify designer that payment has been released, with their earnings statement
+    const statement = await invoiceService.sendEarningsStatement(order.id);
+    await notificationService.notifyPaymentReleased(order, statement);
 
-    return order;
+    const review = await this.recordConfirmationReview(order.id, userId, data);
+
+    return review ? { ...order, rating: review.rating, review: review.comment } : order;
   }
 
   /**
-   * Customer opens dispute
+   * Customer opens dispute (creates the dispute thread and freezes escrow)
    */
-  async openDispute(orderId: string, userId: string, reason: string): Promise<Order> {
-    // Verify customer owns this order
-    const existing = await prisma.order.findFirst({
-      where: {
-        id: orderId,
-        customerId: userId,
-      },
-    });
-
-    if (!existing) {
-      throw new Error('Order not found or access denied');
-    }
-
-    // Check buyer protection period (60 days from creation)
-    const protectionExpired =
-      existing.buyerProtectionUntil && new Date() > existing.buyerProtectionUntil;
-    if (protectionExpired) {
-      throw new Error('Buyer protection period has expired');
-    }
-
-    if (!reason || reason.trim().length < 10) {
-      throw new Error('Please provide a detailed reason for the dispute (at least 10 characters)');
-    }
-
-    const order = await prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: 'DISPUTED',
-        disputeOpenedAt: new Date(),
-        disputeReason: reason.trim(),
-      },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-            profileImage: true,
-          },
-        },
-        designer: {
-          select: {
-            id: true,
-            fullName: true,
-            brandName: true,
-            brandLogo: true,
-            email: true,
-          },
-        },
-        design: {
-          select: {
-            id: true,
-            title: true,
-            images: true,
-            category: true,
-          },
-        },
-      },
-    });
-
-    // Notify designer that a dispute was opened
-    await notificationService.notifyDisputeOpened(order);
+  async openDispute(
+    orderId: string,
+    userId: string,
+    reason: string,
+    evidence: string[] = []
+  ): Promise<Order> {
+    await disputeService.openDispute(orderId, userId, { reason, evidence });
 
-    return order;
+    return this.getOrderById(orderId, userId);
   }
 
   /**
    * Confirm delivery (customer only) - LEGACY METHOD
-   * Use confirmReceipt instead for new escrow flow
+   * Older app builds confirm delivery and receipt in one step, so this settles the
+   * order exactly like confirmReceipt (platform fee included)
    */
   async confirmDelivery(
     orderId: string,
     userId: string,
     data: ConfirmDeliveryData
   ): Promise<Order> {
-    // Verify customer owns this order
-    const existing = await prisma.order.findFirst({
-      where: {
-        id: orderId,
-        customerId: userId,
-      },
-    });
+    return this.confirmReceipt(orderId, userId, data);
+  }
 
-    if (!existing) {
-      throw new Error('Order not found or access denied');
+  /**
+   * Turn the optional rating sent with a delivery confirmation into a Review.
+   * Never fails the confirmation itself.
+   */
+  private async recordConfirmationReview(
+    orderId: string,
+    userId: string,
+    data: ConfirmDeliveryData
+  ) {
+    if (data.rating === undefined || data.rating === null) {
+      return null;
     }
 
-    // Verify order is in SHIPPING status
-    if (existing.status !== 'SHIPPING') {
-      throw new Error('Order must be in shipping status to confirm delivery');
+    try {
+      return await reviewService.createReview(orderId, userId, {
+        rating: Math.round(Number(data.rating)),
+        comment: data.review,
+      });
+    } catch (error) {
+      console.error(`Failed to record review for order ${orderId}:`, error);
+      return null;
     }
-
-    const order = await prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: 'DELIVERED',
-        deliveredAt: new Date(),
-        rating: data.rating,
-        review: data.review,
-      },
-      include: {
-        customer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-            profileImage: true,
-          },
-        },
-        designer: {
-          select: {
-            id: true,
-            fullName: true,
-            brandName: true,
-            brandLogo: true,
-            email: true,
-          },
-        },
-        design: {
-          select: {
-            id: true,
-            title: true,
-            images: true,
-            category: true,
-          },
-        },
-      },
-    });
-
-    // Release payment to designer's wallet
-    await walletService.creditWallet({
-      userId: order.designerId,
-      amount: order.finalPrice,
-      description: `Payment for order ${order.orderNumber} - ${order.design.title}`,
-      orderId: order.id,
-    });
-
-    console.log(
-      `💸 Payment of ₦${order.finalPrice.toLocaleString()} released to designer ${order.designer.fullName || order.designer.brandName}`
-    );
-
-    return order;
   }
 
   /**
@@ -1053,21 +1167,23 @@ class OrderService {
         prisma.order.count({
           where: {
             designerId: userId,
-            status: 'PENDING',
+            status: 'PAID',
           },
         }),
         prisma.order.count({
           where: {
             designerId: userId,
             status: {
-              in: ['SOURCING', 'CONSTRUCTION', 'QUALITY_CHECK'],
+              in: ['IN_PRODUCTION', 'READY_TO_SHIP'],
             },
           },
         }),
         prisma.order.count({
           where: {
             designerId: userId,
-            status: 'DELIVERED',
+            status: {
+              in: ['DELIVERED', 'AWAITING_CONFIRMATION', 'COMPLETED'],
+            },
           },
         }),
         prisma.order.aggregate({
@@ -1081,18 +1197,22 @@ class OrderService {
           where: { id: userId },
           select: { walletBalance: true },
         }),
-        // Get pending earnings (orders in SHIPPING status awaiting confirmation)
-        prisma.order.aggregate({
+        // Earnings still in escrow, split into pending and disputed (on hold)
+        prisma.designerEarning.groupBy({
+          by: ['status'],
           where: {
             designerId: userId,
-            status: 'SHIPPING',
+            status: { in: ['PENDING', 'ON_HOLD'] },
           },
           _sum: {
-            finalPrice: true,
+            netAmount: true,
           },
         }),
       ]);
 
+    const earningsFor = (status: string) =>
+      pendingRevenue.find((row) => row.status === status)?._sum.netAmount || 0;
+
     return {
       total,
       pending,
@@ -1100,7 +1220,8 @@ class OrderService {
       completed,
       totalRevenue: revenue._sum.finalPrice || 0,
       walletBalance: user?.walletBalance || 0,
-      pendingEarnings: pendingRevenue._sum.finalPrice || 0,
+      pendingEarnings: earningsFor('PENDING'),
+      onHoldEarnings: earningsFor('ON_HOLD'),
     };
   }
 }
@@ -0,0 +1,217 @@
+import { Order, OrderStatus, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import settingsService from './settings.service';
+import { notificationService } from './notification.service';
+
+/**
+ * Payment Plan Service
+ * Made-to-order offers can split the price into a deposit paid at acceptance and
+ * a balance paid later. The balance falls due when the order reaches the agreed
+ * status, the customer is reminded until it is paid, and the order can't ship
+ * before it is.
+ */
+
+export interface PaymentPlanInput {
+  depositPercentage?: number | string | null;
+  balanceDueStatus?: string | null;
+}
+
+export interface PaymentPlan {
+  depositPercentage: number | null;
+  balanceDueStatus: OrderStatus | null;
+}
+
+// Statuses that count as having reached each allowed due status
+const BALANCE_DUE_FROM: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  IN_PRODUCTION: ['IN_PRODUCTION', 'READY_TO_SHIP'],
+  READY_TO_SHIP: ['READY_TO_SHIP'],
+};
+
+// Orders in these statuses are no longer chased for their balance
+const CLOSED_STATUSES: OrderStatus[] = ['CANCELLED', 'REFUNDED', 'DISPUTED'];
+
+const DEFAULT_REMINDER_INTERVAL_HOURS = 48;
+
+const roundNaira = (amount: number) => Math.round(amount * 100) / 100;
+
+class PaymentPlanService {
+  /**
+   * Validate a proposed plan. A missing or null deposit means "pay in full".
+   */
+  resolvePlan(input: PaymentPlanInput | null | undefined): PaymentPlan {
+    if (!input || input.depositPercentage === null || input.depositPercentage === undefined) {
+      return { depositPercentage: null, balanceDueStatus: null };
+    }
+
+    const depositPercentage = Number(input.depositPercentage);
+    if (!Number.isFinite(depositPercentage) || depositPercentage <= 0 || depositPercentage >= 1) {
+      throw new Error('Invalid depositPercentage. Must be between 0 and 1 (e.g. 0.5 for 50%)');
+    }
+
+    const balanceDueStatus = (input.balanceDueStatus || 'READY_TO_SHIP') as OrderStatus;
+    if (!BALANCE_DUE_FROM[balanceDueStatus]) {
+      throw new Error(
+        `Invalid balanceDueStatus. Must be one of: ${Object.keys(BALANCE_DUE_FROM).join(', ')}`
+      );
+    }
+
+    return { depositPercentage, balanceDueStatus };
+  }
+
+  /**
+   * Amount due at acceptance: the deposit on a plan, otherwise the full price
+   * (both after any voucher discount)
+   */
+  getUpfrontAmount(price: number, depositPercentage: number | null): number {
+    return depositPercentage ? roundNaira(price * depositPercentage) : price;
+  }
+
+  /**
+   * What the customer still owes: the price less any voucher discount and payments so far
+   */
+  getOutstandingBalance(
+    order: Pick<Order, 'finalPrice' | 'discountAmount' | 'amountPaid'>
+  ): number {
+    return Math.max(0, roundNaira(order.finalPrice - order.discountAmount - order.amountPaid));
+  }
+
+  /**
+   * Count a captured payment towards the order
+   */
+  async applyPayment(
+    orderId: string,
+    amount: number,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<Order> {
+    const order = await client.order.update({
+      where: { id: orderId },
+      data: { amountPaid: { increment: amount } },
+    });
+
+    if (!order.fullyPaidAt && this.getOutstandingBalance(order) <= 0) {
+      return client.order.update({
+        where: { id: orderId },
+        data: { fullyPaidAt: new Date() },
+      });
+    }
+
+    return order;
+  }
+
+  /**
+   * Shipping is blocked while part of the price is unpaid
+   */
+  assertFullyPaid(order: Pick<Order, 'finalPrice' | 'discountAmount' | 'amountPaid'>): void {
+    const balance = this.getOutstandingBalance(order);
+
+    if (balance > 0) {
+      throw new Error(
+        `Invalid shipment: the customer still owes a balance of ₦${balance.toLocaleString()}`
+      );
+    }
+  }
+
+  /**
+   * Call after an order status change: the balance falls due once the order
+   * reaches the agreed status
+   */
+  async handleStatusChange(order: Order): Promise<void> {
+    if (!order.balanceDueStatus || order.balanceDueAt || order.fullyPaidAt) {
+      return;
+    }
+
+    if (!BALANCE_DUE_FROM[order.balanceDueStatus]?.includes(order.status)) {
+      return;
+    }
+
+    const balance = this.getOutstandingBalance(order);
+    if (balance <= 0) {
+      return;
+    }
+
+    const now = new Date();
+    const claimed = await prisma.order.updateMany({
+      where: { id: order.id, balanceDueAt: null },
+      data: { balanceDueAt: now, balanceReminderSentAt: now },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    await this.notifyBalanceDue(order, balance, false);
+  }
+
+  /**
+   * Scheduler entry point: remind customers of balances that are due and unpaid
+   */
+  async sendBalanceReminders() {
+    const intervalHours = await settingsService.getSetting<number>(
+      'balance_reminder_interval_hours',
+      DEFAULT_REMINDER_INTERVAL_HOURS
+    );
+    const cutoff = new Date(Date.now() - intervalHours * 60 * 60 * 1000);
+    const notRemindedSince = [
+      { balanceReminderSentAt: null },
+      { balanceReminderSentAt: { lt: cutoff } },
+    ];
+
+    const orders = await prisma.order.findMany({
+      where: {
+        fullyPaidAt: null,
+        balanceDueAt: { not: null },
+        status: { notIn: CLOSED_STATUSES },
+        OR: notRemindedSince,
+      },
+    });
+
+    let sent = 0;
+
+    for (const order of orders) {
+      const balance = this.getOutstandingBalance(order);
+      if (balance <= 0) {
+        continue;
+      }
+
+      // Claim the reminder so overlapping runs don't send it twice
+      const claimed = await prisma.order.updateMany({
+        where: { id: order.id, OR: notRemindedSince },
+        data: { balanceReminderSentAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      try {
+        await this.notifyBalanceDue(order, balance, true);
+        sent++;
+      } catch (error) {
+        console.error(`❌ Balance reminder failed for order ${order.orderNumber}:`, error);
+      }
+    }
+
+    console.log(`💳 Balance reminders: ${sent} sent (${orders.length} orders with a balance due)`);
+
+    return { checked: orders.length, sent };
+  }
+
+  private async notifyBalanceDue(order: Order, balance: number, isReminder: boolean) {
+    await notificationService.notifyUser({
+      userId: order.customerId,
+      type: 'BALANCE_DUE',
+      title: isReminder ? '⏰ Balance Payment Reminder' : '💳 Balance Payment Due',
+      message: isReminder
+        ? `Your order ${order.orderNumber} still has a balance of ₦${balance.toLocaleString()}. It will ship once the balance is paid.`
+        : `Your order ${order.orderNumber} has reached ${order.status.replace(/_/g, ' ').toLowerCase()}. Please pay the balance of ₦${balance.toLocaleString()} so it can ship.`,
+      orderId: order.id,
+      data: {
+        orderId: order.id,
+        offerId: order.offerId,
+        orderNumber: order.orderNumber,
+        balance,
+      },
+    });
+  }
+}
+
+export const paymentPlanService = new PaymentPlanService();
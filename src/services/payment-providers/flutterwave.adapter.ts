@@ -0,0 +1,224 @@
+import axios from 'axios';
+import { PaymentTransaction, Refund } from '@prisma/client';
+import {
+  PaymentCheckoutParams,
+  PaymentInitiateInput,
+  PaymentProviderAdapter,
+  PaymentVerification,
+  PaymentWebhookEvent,
+  PaymentWebhookRequest,
+  ProviderOutcome,
+  ProviderRefundInput,
+  ProviderRefundResult,
+} from './payment-provider.types';
+import { toAlphaCurrency, toMinorUnits } from './payment-provider.utils';
+import { verifySharedSecretHeader } from '../carriers/carrier.utils';
+
+interface FlutterwaveResponse<T> {
+  status: string;
+  message: string;
+  data: T;
+}
+
+interface FlutterwaveTransaction {
+  id: number;
+  tx_ref: string;
+  flw_ref?: string;
+  status: string; // successful | failed | pending | cancelled
+  amount: number; // major units
+  currency: string;
+  processor_response?: string;
+}
+
+interface FlutterwaveRefund {
+  id: number;
+  status: string; // completed | pending | failed
+  amount_refunded?: number;
+  tx_id?: number;
+}
+
+interface FlutterwaveWebhookPayload {
+  event?: string;
+  data?: Partial<FlutterwaveTransaction>;
+}
+
+const PAYMENT_STATUSES: Record<string, ProviderOutcome> = {
+  successful: 'SUCCESSFUL',
+  cancelled: 'CANCELLED',
+  failed: 'FAILED',
+};
+
+const REFUND_STATUSES: Record<string, ProviderRefundResult['outcome']> = {
+  completed: 'SUCCESSFUL',
+  'completed-offline': 'SUCCESSFUL',
+  failed: 'FAILED',
+};
+
+const PAYMENT_MESSAGES: Record<ProviderOutcome, string> = {
+  SUCCESSFUL: 'Payment successful',
+  PENDING: 'Transaction in progress',
+  CANCELLED: 'Payment cancelled',
+  FAILED: 'Payment failed',
+};
+
+/**
+ * Flutterwave adapter (Standard checkout, v3 API)
+ *
+ * Payments are created server-side and the app opens the hosted `checkout_url`.
+ * Amounts are sent in major units. Refunds need Flutterwave's transaction ID, which
+ * is stored as the payment reference. Webhooks carry the secret hash configured on
+ * the dashboard in the `verif-hash` header.
+ */
+export class FlutterwaveAdapter implements PaymentProviderAdapter {
+  readonly key = 'flutterwave';
+  readonly displayName = 'Flutterwave';
+  readonly signatureHeader = 'verif-hash';
+
+  private apiBaseUrl = process.env.FLUTTERWAVE_API_BASE_URL || 'https://api.flutterwave.com/v3';
+  private secretKey = process.env.FLUTTERWAVE_SECRET_KEY || '';
+  private webhookHash = process.env.FLUTTERWAVE_WEBHOOK_HASH;
+  private redirectUrl = process.env.FLUTTERWAVE_REDIRECT_URL;
+
+  isConfigured(): boolean {
+    return !!this.secretKey;
+  }
+
+  async initiate(input: PaymentInitiateInput): Promise<PaymentCheckoutParams> {
+    const currency = toAlphaCurrency(input.currency);
+
+    const response = await axios.post<FlutterwaveResponse<{ link: string }>>(
+      `${this.apiBaseUrl}/payments`,
+      {
+        tx_ref: input.txnRef,
+        amount: input.amount,
+        currency,
+        redirect_url: this.redirectUrl,
+        customer: { email: input.customer.email, name: input.customer.name },
+        customizations: { title: input.designerName, description: input.description },
+        meta: { customer_id: input.customer.id },
+      },
+      { headers: this.headers(), timeout: 15000 }
+    );
+
+    return {
+      txn_ref: input.txnRef,
+      amount: toMinorUnits(input.amount),
+      currency,
+      checkout_url: response.data.data.link,
+    };
+  }
+
+  async verify(payment: PaymentTransaction): Promise<PaymentVerification> {
+    const response = await axios.get<FlutterwaveResponse<FlutterwaveTransaction>>(
+      `${this.apiBaseUrl}/transactions/verify_by_reference`,
+      { params: { tx_ref: payment.txnRef }, headers: this.headers(), timeout: 15000 }
+    );
+
+    return this.toVerification(response.data.data);
+  }
+
+  async refund(input: ProviderRefundInput): Promise<ProviderRefundResult> {
+    if (!input.payment.paymentReference) {
+      throw new Error('Payment has no Flutterwave transaction ID to refund');
+    }
+
+    try {
+      const response = await axios.post<FlutterwaveResponse<FlutterwaveRefund>>(
+        `${this.apiBaseUrl}/transactions/${input.payment.paymentReference}/refund`,
+        { amount: input.amount, comments: `${input.refundReference}: ${input.reason}` },
+        { headers: this.headers(), timeout: 15000 }
+      );
+
+      return this.toRefundResult(response.data.data);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        const data = error.response.data as Partial<FlutterwaveResponse<unknown>> | undefined;
+        return {
+          outcome: 'FAILED',
+          responseCode: String(error.response.status),
+          responseDescription:
+            data?.message || `Refund request rejected (HTTP ${error.response.status})`,
+        };
+      }
+      throw error;
+    }
+  }
+
+  async getRefundStatus(refund: Refund): Promise<ProviderRefundResult> {
+    if (!refund.providerReference) {
+      throw new Error('Refund has not been accepted by Flutterwave yet');
+    }
+
+    const response = await axios.get<FlutterwaveResponse<FlutterwaveRefund>>(
+      `${this.apiBaseUrl}/refunds/${refund.providerReference}`,
+      { headers: this.headers(), timeout: 15000 }
+    );
+
+    return this.toRefundResult(response.data.data);
+  }
+
+  verifyWebhook(request: PaymentWebhookRequest): boolean {
+    return verifySharedSecretHeader(request, this.signatureHeader, this.webhookHash);
+  }
+
+  describeWebhook(body: unknown): { eventId?: string; eventType?: string } {
+    const payload = (body || {}) as FlutterwaveWebhookPayload;
+    const objectId = payload.data?.id;
+
+    return {
+      eventId:
+        payload.event && objectId !== undefined
+          ? `${payload.event}:${objectId}:${payload.data?.status || ''}`
+          : undefined,
+      eventType: payload.event,
+    };
+  }
+
+  parseWebhook(body: unknown): PaymentWebhookEvent {
+    const payload = (body || {}) as FlutterwaveWebhookPayload;
+    const eventType = payload.event || 'unknown';
+    const data = payload.data;
+
+    // Refund outcomes are not pushed reliably; they are picked up by status sync
+    if (eventType !== 'charge.completed' || !data?.tx_ref) {
+      return { type: 'IGNORED', eventType };
+    }
+
+    return {
+      type: 'PAYMENT',
+      eventType,
+      txnRef: data.tx_ref,
+      ...this.toVerification(data as FlutterwaveTransaction),
+    };
+  }
+
+  private toVerification(data: FlutterwaveTransaction): PaymentVerification {
+    const outcome = PAYMENT_STATUSES[data.status] || 'PENDING';
+
+    return {
+      outcome,
+      responseCode: data.status,
+      responseDescription: data.processor_response || data.status,
+      message: PAYMENT_MESSAGES[outcome],
+      // The numeric transaction ID is what the refund API expects
+      paymentReference: data.id !== undefined ? String(data.id) : undefined,
+      amountPaid: typeof data.amount === 'number' ? data.amount : undefined,
+    };
+  }
+
+  private toRefundResult(data: FlutterwaveRefund): ProviderRefundResult {
+    return {
+      outcome: REFUND_STATUSES[data.status] || 'PENDING',
+      responseCode: data.status,
+      responseDescription: `Refund ${data.status}`,
+      providerReference: data.id !== undefined ? String(data.id) : undefined,
+    };
+  }
+
+  private headers() {
+    return {
+      Authorization: `Bearer ${this.secretKey}`,
+      'Content-Type': 'application/json',
+    };
+  }
+}
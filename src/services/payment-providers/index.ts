@@ -0,0 +1,56 @@
+import settingsService from '../settings.service';
+import { PaymentProviderAdapter } from './payment-provider.types';
+import { InterswitchAdapter } from './interswitch.adapter';
+import { PaystackAdapter } from './paystack.adapter';
+import { FlutterwaveAdapter } from './flutterwave.adapter';
+
+export * from './payment-provider.types';
+
+/** Platform setting that selects the provider for new payments */
+export const PAYMENT_PROVIDER_SETTING = 'payment_provider';
+export const DEFAULT_PAYMENT_PROVIDER = 'interswitch';
+
+const adapters: PaymentProviderAdapter[] = [
+  new InterswitchAdapter(),
+  new PaystackAdapter(),
+  new FlutterwaveAdapter(),
+];
+
+export const listPaymentProviders = (): PaymentProviderAdapter[] => adapters;
+
+/**
+ * Get adapter by its key (stored on PaymentTransaction.provider and used by
+ * webhook routes: /api/payments/webhook/:provider)
+ */
+export const getPaymentProviderByKey = (key: string): PaymentProviderAdapter | undefined =>
+  adapters.find((adapter) => adapter.key === key.toLowerCase());
+
+/**
+ * Adapter for an existing transaction's provider
+ */
+export const getPaymentProvider = (key: string): PaymentProviderAdapter => {
+  const adapter = getPaymentProviderByKey(key);
+
+  if (!adapter) {
+    throw new Error(`Payment provider ${key} not found`);
+  }
+
+  return adapter;
+};
+
+/**
+ * Adapter for new payments, chosen by the `payment_provider` setting
+ */
+export const getActivePaymentProvider = async (): Promise<PaymentProviderAdapter> => {
+  const key = await settingsService.getSetting<string>(
+    PAYMENT_PROVIDER_SETTING,
+    DEFAULT_PAYMENT_PROVIDER
+  );
+  const adapter = getPaymentProvider(key);
+
+  if (!adapter.isConfigured()) {
+    throw new Error(`Payment provider ${adapter.displayName} is not configured`);
+  }
+
+  return adapter;
+};
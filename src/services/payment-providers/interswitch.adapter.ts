@@ -0,0 +1,328 @@
+import axios from 'axios';
+import { PaymentTransaction, Refund } from '@prisma/client';
+import {
+  getPaymentErrorMessage,
+  isPaymentCancelled,
+  isPaymentPending,
+  isPaymentSuccessful,
+} from '../../utils/payment-error-messages';
+import {
+  PaymentCheckoutParams,
+  PaymentInitiateInput,
+  PaymentProviderAdapter,
+  PaymentVerification,
+  PaymentWebhookEvent,
+  PaymentWebhookRequest,
+  ProviderOutcome,
+  ProviderRefundInput,
+  ProviderRefundResult,
+} from './payment-provider.types';
+import { fromMinorUnits, toMinorUnits, verifyHmacSha512Header } from './payment-provider.utils';
+
+interface InterswitchVerifyResponse {
+  Amount: number;
+  CardNumber?: string;
+  MerchantReference: string;
+  PaymentReference: string;
+  RetrievalReferenceNumber: string;
+  SplitAccounts: unknown[];
+  TransactionDate: string;
+  ResponseCode: string;
+  ResponseDescription: string;
+  AccountNumber?: string;
+}
+
+interface InterswitchRefundResponse {
+  responseCode: string;
+  responseDescription?: string;
+  refundReference?: string;
+  transactionReference?: string;
+}
+
+interface InterswitchAuthResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+interface InterswitchWebhookPayload {
+  uuid?: string;
+  eventId?: string | number;
+  id?: string | number;
+  eventType?: string;
+  transactionReference?: string;
+  paymentReference?: string;
+  refundReference?: string;
+  providerReference?: string;
+  responseCode?: string;
+  responseDescription?: string;
+}
+
+const toOutcome = (responseCode: string): ProviderOutcome => {
+  if (isPaymentSuccessful(responseCode)) return 'SUCCESSFUL';
+  if (isPaymentPending(responseCode)) return 'PENDING';
+  if (isPaymentCancelled(responseCode)) return 'CANCELLED';
+  return 'FAILED';
+};
+
+const toRefundOutcome = (responseCode: string): ProviderRefundResult['outcome'] => {
+  if (isPaymentSuccessful(responseCode)) return 'SUCCESSFUL';
+  if (isPaymentPending(responseCode)) return 'PENDING';
+  return 'FAILED';
+};
+
+/**
+ * Interswitch Payment Gateway (IPG) adapter
+ *
+ * Payments use the inline checkout, so initiating returns the widget parameters
+ * without calling the API. Refunds use the OAuth2 client credentials shared with
+ * payouts. Webhooks are signed with HMAC-SHA512 in `X-Interswitch-Signature`.
+ */
+export class InterswitchAdapter implements PaymentProviderAdapter {
+  readonly key = 'interswitch';
+  readonly displayName = 'Interswitch';
+  readonly signatureHeader = 'x-interswitch-signature';
+
+  private merchantCode = process.env.INTERSWITCH_MERCHANT_CODE || '';
+  private payItemId = process.env.INTERSWITCH_PAY_ITEM_ID || '';
+  private mode = process.env.INTERSWITCH_MODE || '';
+  private apiBaseUrl = process.env.INTERSWITCH_API_BASE_URL || '';
+  private inlineScriptUrl = process.env.INTERSWITCH_INLINE_SCRIPT_URL || '';
+  // INTERSWITCH_REFUND_BASE_URL lets local development point refunds at a stand-in
+  // (see interswitch-stub.js) without touching the live collections configuration.
+  private refundBaseUrl =
+    process.env.INTERSWITCH_REFUND_BASE_URL ||
+    process.env.INTERSWITCH_API_BASE_URL ||
+    'https://qa.interswitchng.com';
+  private clientId = process.env.INTERSWITCH_CLIENT_ID || '';
+  private clientSecret = process.env.INTERSWITCH_CLIENT_SECRET || '';
+  private webhookSecret =
+    process.env.INTERSWITCH_WEBHOOK_SECRET || process.env.INTERSWITCH_CLIENT_SECRET;
+  private accessToken: string | null = null;
+  private tokenExpiry: number = 0;
+
+  isConfigured(): boolean {
+    return (
+      !!this.merchantCode &&
+      !!this.payItemId &&
+      !!this.mode &&
+      !!this.apiBaseUrl &&
+      !!this.inlineScriptUrl
+    );
+  }
+
+  async initiate(input: PaymentInitiateInput): Promise<PaymentCheckoutParams> {
+    const params = {
+      merchant_code: this.merchantCode,
+      pay_item_id: this.payItemId,
+      txn_ref: input.txnRef,
+      amount: toMinorUnits(input.amount),
+      currency: input.currency,
+      cust_name: input.customer.name,
+      cust_email: input.customer.email,
+      cust_id: input.customer.id,
+      designer_name: input.designerName,
+      mode: this.mode,
+    };
+
+    console.log('[Interswitch] Checkout params prepared:', {
+      merchant_code: params.merchant_code,
+      pay_item_id: params.pay_item_id,
+      txn_ref: params.txn_ref,
+      amount: params.amount,
+      mode: params.mode,
+    });
+
+    return params;
+  }
+
+  async verify(payment: PaymentTransaction): Promise<PaymentVerification> {
+    const url = `${this.apiBaseUrl}/collections/api/v1/gettransaction.json`;
+    const params = {
+      merchantcode: this.merchantCode,
+      transactionreference: payment.txnRef,
+      amount: toMinorUnits(payment.amount),
+    };
+
+    console.log('[Interswitch] Calling verify API:', {
+      url,
+      merchantcode: params.merchantcode,
+      transactionreference: params.transactionreference,
+      amount: params.amount,
+    });
+
+    const response = await axios.get<InterswitchVerifyResponse>(url, { params });
+    const data = response.data;
+
+    console.log('[Interswitch] Verify API response:', {
+      ResponseCode: data.ResponseCode,
+      ResponseDescription: data.ResponseDescription,
+      MerchantReference: data.MerchantReference,
+      Amount: data.Amount,
+      PaymentReference: data.PaymentReference,
+    });
+
+    return {
+      outcome: toOutcome(data.ResponseCode),
+      responseCode: data.ResponseCode,
+      responseDescription: data.ResponseDescription,
+      message: getPaymentErrorMessage(data.ResponseCode),
+      paymentReference: data.PaymentReference,
+      amountPaid: typeof data.Amount === 'number' ? fromMinorUnits(data.Amount) : undefined,
+    };
+  }
+
+  async refund(input: ProviderRefundInput): Promise<ProviderRefundResult> {
+    const token = await this.getAccessToken();
+
+    try {
+      const response = await axios.post<InterswitchRefundResponse>(
+        `${this.refundBaseUrl}/api/v1/refunds`,
+        {
+          merchantCode: this.merchantCode,
+          transactionReference: input.payment.txnRef,
+          paymentReference: input.payment.paymentReference,
+          refundReference: input.refundReference,
+          amount: toMinorUnits(input.amount),
+          currencyCode: input.payment.currency,
+          reason: input.reason,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      return this.toRefundResult(response.data);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        // Provider rejected the request - final failure for this attempt
+        const data = error.response.data as Partial<InterswitchRefundResponse> | undefined;
+        return {
+          outcome: 'FAILED',
+          responseCode: data?.responseCode || String(error.response.status),
+          responseDescription:
+            data?.responseDescription || `Refund request rejected (HTTP ${error.response.status})`,
+        };
+      }
+      throw error;
+    }
+  }
+
+  async getRefundStatus(refund: Refund): Promise<ProviderRefundResult> {
+    const token = await this.getAccessToken();
+    const response = await axios.get<InterswitchRefundResponse>(
+      `${this.refundBaseUrl}/api/v1/refunds/${refund.refundReference}`,
+      {
+        headers: { Authorization: `Bearer ${token}` },
+      }
+    );
+
+    return this.toRefundResult(response.data);
+  }
+
+  verifyWebhook(request: PaymentWebhookRequest): boolean {
+    return verifyHmacSha512Header(request, this.signatureHeader, this.webhookSecret);
+  }
+
+  describeWebhook(body: unknown): { eventId?: string; eventType?: string } {
+    const payload = (body || {}) as InterswitchWebhookPayload;
+    const candidate = payload.uuid ?? payload.eventId ?? payload.id;
+
+    return {
+      eventId:
+        typeof candidate === 'string' || typeof candidate === 'number'
+          ? String(candidate)
+          : undefined,
+      eventType: typeof payload.eventType === 'string' ? payload.eventType : undefined,
+    };
+  }
+
+  parseWebhook(body: unknown): PaymentWebhookEvent {
+    const payload = (body || {}) as InterswitchWebhookPayload;
+    const eventType = payload.eventType || 'UNKNOWN';
+
+    // Refund status changes are reconciled against our Refund records
+    if (eventType === 'REFUND.COMPLETED' || eventType === 'REFUND.FAILED') {
+      const responseCode =
+        eventType === 'REFUND.FAILED' && !payload.responseCode
+          ? 'FAILED'
+          : payload.responseCode || '';
+
+      return {
+        type: 'REFUND',
+        eventType,
+        outcome: eventType === 'REFUND.FAILED' ? 'FAILED' : toRefundOutcome(responseCode),
+        responseCode,
+        responseDescription: payload.responseDescription,
+        refundReference: payload.refundReference,
+        providerReference: payload.providerReference,
+      };
+    }
+
+    if (eventType !== 'TRANSACTION.COMPLETED' || !payload.transactionReference) {
+      return { type: 'IGNORED', eventType };
+    }
+
+    const responseCode = payload.responseCode || '';
+    // A completed transaction that is neither approved nor cancelled has failed
+    const outcome = toOutcome(responseCode);
+
+    return {
+      type: 'PAYMENT',
+      eventType,
+      txnRef: payload.transactionReference,
+      outcome: outcome === 'PENDING' ? 'FAILED' : outcome,
+      responseCode,
+      responseDescription: payload.responseDescription || getPaymentErrorMessage(responseCode),
+      message: getPaymentErrorMessage(responseCode),
+      paymentReference: payload.paymentReference,
+    };
+  }
+
+  private toRefundResult(data: InterswitchRefundResponse): ProviderRefundResult {
+    return {
+      outcome: toRefundOutcome(data.responseCode),
+      responseCode: data.responseCode,
+      responseDescription: data.responseDescription || getPaymentErrorMessage(data.responseCode),
+      providerReference: data.refundReference,
+    };
+  }
+
+  /**
+   * Get Interswitch access token using OAuth2 client credentials
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.tokenExpiry) {
+      return this.accessToken;
+    }
+
+    const authString = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+
+    try {
+      const response = await axios.post<InterswitchAuthResponse>(
+        `${this.refundBaseUrl}/oauth/token`,
+        { grant_type: 'client_credentials' },
+        {
+          headers: {
+            Authorization: `Basic ${authString}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      this.accessToken = response.data.access_token;
+      // Set expiry to 5 minutes before actual expiry for safety
+      this.tokenExpiry = Date.now() + (response.data.expires_in - 300) * 1000;
+
+      return this.accessToken;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        console.error('[Interswitch] Auth failed:', error.response?.status, error.response?.data);
+      }
+      throw new Error('Failed to authenticate with payment provider');
+    }
+  }
+}
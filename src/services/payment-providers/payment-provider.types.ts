@@ -0,0 +1,133 @@
+import { IncomingHttpHeaders } from 'http';
+import { PaymentTransaction, Refund } from '@prisma/client';
+
+/**
+ * Normalized outcome of a payment or refund, whatever the provider's own codes
+ */
+export type ProviderOutcome = 'SUCCESSFUL' | 'PENDING' | 'FAILED' | 'CANCELLED';
+
+export interface PaymentInitiateInput {
+  txnRef: string;
+  amount: number; // Naira
+  currency: string; // ISO 4217 numeric code as stored on PaymentTransaction (566 = NGN)
+  customer: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  designerName: string;
+  description: string;
+}
+
+/**
+ * Parameters the app needs to open the provider's checkout. `txn_ref`, `amount`
+ * (minor units) and `currency` are always present; hosted checkouts add `checkout_url`.
+ */
+export type PaymentCheckoutParams = {
+  txn_ref: string;
+  amount: number;
+  currency: string;
+  checkout_url?: string;
+} & Record<string, unknown>;
+
+/**
+ * Result of asking the provider for a transaction's status
+ */
+export interface PaymentVerification {
+  outcome: ProviderOutcome;
+  responseCode: string;
+  responseDescription: string;
+  /** User-facing message for the outcome */
+  message: string;
+  paymentReference?: string;
+  /** Amount the provider says was paid (Naira), when it reports one */
+  amountPaid?: number;
+}
+
+export interface ProviderRefundInput {
+  payment: PaymentTransaction;
+  refundReference: string;
+  amount: number; // Naira
+  reason: string;
+}
+
+/**
+ * Provider response to a refund request or refund status query
+ */
+export interface ProviderRefundResult {
+  outcome: Exclude<ProviderOutcome, 'CANCELLED'>;
+  responseCode: string;
+  responseDescription?: string;
+  providerReference?: string;
+}
+
+/**
+ * Webhook payload normalized by the adapter
+ */
+export type PaymentWebhookEvent =
+  | {
+      type: 'PAYMENT';
+      eventType: string;
+      txnRef: string;
+      outcome: ProviderOutcome;
+      responseCode: string;
+      responseDescription: string;
+      message: string;
+      paymentReference?: string;
+      amountPaid?: number;
+    }
+  | {
+      type: 'REFUND';
+      eventType: string;
+      outcome: Exclude<ProviderOutcome, 'CANCELLED'>;
+      responseCode: string;
+      responseDescription?: string;
+      /** Our reference, for providers that echo it back */
+      refundReference?: string;
+      providerReference?: string;
+      /** Used to find the refund when the provider echoes neither reference */
+      txnRef?: string;
+      amount?: number;
+    }
+  | {
+      type: 'IGNORED';
+      eventType: string;
+    };
+
+export interface PaymentWebhookRequest {
+  headers: IncomingHttpHeaders;
+  rawBody?: Buffer;
+  body: unknown;
+}
+
+/**
+ * Payment provider adapter contract. New payments use the provider chosen by the
+ * `payment_provider` setting; verification, webhooks and refunds always go to the
+ * provider stored on the transaction.
+ */
+export interface PaymentProviderAdapter {
+  /** Stable key stored on PaymentTransaction.provider and used in webhook URLs */
+  readonly key: string;
+  readonly displayName: string;
+  /** Header carrying the webhook signature (stored with the webhook event) */
+  readonly signatureHeader: string;
+
+  /** Whether the credentials needed to take payments are configured */
+  isConfigured(): boolean;
+
+  initiate(input: PaymentInitiateInput): Promise<PaymentCheckoutParams>;
+
+  verify(payment: PaymentTransaction): Promise<PaymentVerification>;
+
+  refund(input: ProviderRefundInput): Promise<ProviderRefundResult>;
+
+  getRefundStatus(refund: Refund, payment: PaymentTransaction): Promise<ProviderRefundResult>;
+
+  /** Verify a webhook request really came from the provider */
+  verifyWebhook(request: PaymentWebhookRequest): boolean;
+
+  /** The provider's ID and type for a webhook payload, used for de-duplication */
+  describeWebhook(body: unknown): { eventId?: string; eventType?: string };
+
+  parseWebhook(body: unknown): PaymentWebhookEvent;
+}
@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import { safeEqual } from '../carriers/carrier.utils';
+import { PaymentWebhookRequest } from './payment-provider.types';
+
+const ALPHA_CURRENCY_CODES: Record<string, string> = {
+  '566': 'NGN',
+  '840': 'USD',
+  '826': 'GBP',
+};
+
+/**
+ * ISO 4217 alphabetic code for the numeric code stored on PaymentTransaction
+ */
+export const toAlphaCurrency = (currency: string): string =>
+  ALPHA_CURRENCY_CODES[currency] || currency;
+
+/**
+ * Naira to kobo, as sent to provider APIs
+ */
+export const toMinorUnits = (amount: number): number => Math.round(amount * 100);
+
+export const fromMinorUnits = (amount: number): number => amount / 100;
+
+/**
+ * Verify a hex HMAC-SHA512 of the raw request body sent in a header
+ */
+export const verifyHmacSha512Header = (
+  request: PaymentWebhookRequest,
+  headerName: string,
+  secret: string | undefined
+): boolean => {
+  const signature = request.headers[headerName.toLowerCase()];
+
+  if (!secret || !request.rawBody || typeof signature !== 'string') {
+    return false;
+  }
+
+  const expected = crypto.createHmac('sha512', secret).update(request.rawBody).digest('hex');
+
+  return safeEqual(signature.toLowerCase(), expected);
+};
@@ -0,0 +1,254 @@
+import axios from 'axios';
+import { PaymentTransaction, Refund } from '@prisma/client';
+import {
+  PaymentCheckoutParams,
+  PaymentInitiateInput,
+  PaymentProviderAdapter,
+  PaymentVerification,
+  PaymentWebhookEvent,
+  PaymentWebhookRequest,
+  ProviderOutcome,
+  ProviderRefundInput,
+  ProviderRefundResult,
+} from './payment-provider.types';
+import {
+  fromMinorUnits,
+  toAlphaCurrency,
+  toMinorUnits,
+  verifyHmacSha512Header,
+} from './payment-provider.utils';
+
+interface PaystackResponse<T> {
+  status: boolean;
+  message: string;
+  data: T;
+}
+
+interface PaystackInitializeData {
+  authorization_url: string;
+  access_code: string;
+  reference: string;
+}
+
+interface PaystackTransaction {
+  id: number;
+  reference: string;
+  status: string; // success | failed | abandoned | ongoing | pending | processing | queued | reversed
+  amount: number; // kobo
+  currency: string;
+  gateway_response?: string;
+}
+
+interface PaystackRefund {
+  id: number;
+  status: string; // pending | processing | processed | failed | needs-attention
+  amount: number;
+  transaction_reference?: string;
+  refund_reference?: string;
+  transaction?: { reference?: string };
+}
+
+interface PaystackWebhookPayload {
+  event?: string;
+  data?: Partial<PaystackTransaction & PaystackRefund>;
+}
+
+const PAYMENT_STATUSES: Record<string, ProviderOutcome> = {
+  success: 'SUCCESSFUL',
+  abandoned: 'CANCELLED',
+  failed: 'FAILED',
+  reversed: 'FAILED',
+};
+
+const REFUND_STATUSES: Record<string, ProviderRefundResult['outcome']> = {
+  processed: 'SUCCESSFUL',
+  failed: 'FAILED',
+};
+
+const PAYMENT_MESSAGES: Record<ProviderOutcome, string> = {
+  SUCCESSFUL: 'Payment successful',
+  PENDING: 'Transaction in progress',
+  CANCELLED: 'Payment cancelled',
+  FAILED: 'Payment failed',
+};
+
+/**
+ * Paystack adapter
+ *
+ * Payments are initialized server-side; the app opens `checkout_url` (or passes
+ * `access_code` to Paystack's inline SDK). Webhooks are signed with HMAC-SHA512
+ * of the body using the secret key, sent in `X-Paystack-Signature`.
+ */
+export class PaystackAdapter implements PaymentProviderAdapter {
+  readonly key = 'paystack';
+  readonly displayName = 'Paystack';
+  readonly signatureHeader = 'x-paystack-signature';
+
+  private apiBaseUrl = process.env.PAYSTACK_API_BASE_URL || 'https://api.paystack.co';
+  private secretKey = process.env.PAYSTACK_SECRET_KEY || '';
+  private publicKey = process.env.PAYSTACK_PUBLIC_KEY || '';
+  private callbackUrl = process.env.PAYSTACK_CALLBACK_URL;
+
+  isConfigured(): boolean {
+    return !!this.secretKey;
+  }
+
+  async initiate(input: PaymentInitiateInput): Promise<PaymentCheckoutParams> {
+    const amount = toMinorUnits(input.amount);
+    const currency = toAlphaCurrency(input.currency);
+
+    const response = await axios.post<PaystackResponse<PaystackInitializeData>>(
+      `${this.apiBaseUrl}/transaction/initialize`,
+      {
+        reference: input.txnRef,
+        amount,
+        currency,
+        email: input.customer.email,
+        callback_url: this.callbackUrl,
+        metadata: {
+          customer_id: input.customer.id,
+          customer_name: input.customer.name,
+          designer_name: input.designerName,
+          description: input.description,
+        },
+      },
+      { headers: this.headers(), timeout: 15000 }
+    );
+
+    return {
+      txn_ref: input.txnRef,
+      amount,
+      currency,
+      checkout_url: response.data.data.authorization_url,
+      access_code: response.data.data.access_code,
+      public_key: this.publicKey,
+      email: input.customer.email,
+    };
+  }
+
+  async verify(payment: PaymentTransaction): Promise<PaymentVerification> {
+    const response = await axios.get<PaystackResponse<PaystackTransaction>>(
+      `${this.apiBaseUrl}/transaction/verify/${encodeURIComponent(payment.txnRef)}`,
+      { headers: this.headers(), timeout: 15000 }
+    );
+
+    return this.toVerification(response.data.data);
+  }
+
+  async refund(input: ProviderRefundInput): Promise<ProviderRefundResult> {
+    try {
+      const response = await axios.post<PaystackResponse<PaystackRefund>>(
+        `${this.apiBaseUrl}/refund`,
+        {
+          transaction: input.payment.txnRef,
+          amount: toMinorUnits(input.amount),
+          currency: toAlphaCurrency(input.payment.currency),
+          merchant_note: `${input.refundReference}: ${input.reason}`,
+        },
+        { headers: this.headers(), timeout: 15000 }
+      );
+
+      return this.toRefundResult(response.data.data);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        const data = error.response.data as Partial<PaystackResponse<unknown>> | undefined;
+        return {
+          outcome: 'FAILED',
+          responseCode: String(error.response.status),
+          responseDescription:
+            data?.message || `Refund request rejected (HTTP ${error.response.status})`,
+        };
+      }
+      throw error;
+    }
+  }
+
+  async getRefundStatus(refund: Refund): Promise<ProviderRefundResult> {
+    if (!refund.providerReference) {
+      throw new Error('Refund has not been accepted by Paystack yet');
+    }
+
+    const response = await axios.get<PaystackResponse<PaystackRefund>>(
+      `${this.apiBaseUrl}/refund/${refund.providerReference}`,
+      { headers: this.headers(), timeout: 15000 }
+    );
+
+    return this.toRefundResult(response.data.data);
+  }
+
+  verifyWebhook(request: PaymentWebhookRequest): boolean {
+    return verifyHmacSha512Header(request, this.signatureHeader, this.secretKey);
+  }
+
+  describeWebhook(body: unknown): { eventId?: string; eventType?: string } {
+    const payload = (body || {}) as PaystackWebhookPayload;
+    // Paystack has no event ID; the event plus the object's ID and status is stable across retries
+    const objectId = payload.data?.id ?? payload.data?.reference;
+
+    return {
+      eventId:
+        payload.event && objectId !== undefined
+          ? `${payload.event}:${objectId}:${payload.data?.status || ''}`
+          : undefined,
+      eventType: payload.event,
+    };
+  }
+
+  parseWebhook(body: unknown): PaymentWebhookEvent {
+    const payload = (body || {}) as PaystackWebhookPayload;
+    const eventType = payload.event || 'unknown';
+    const data = payload.data || {};
+
+    if (eventType === 'charge.success' && data.reference) {
+      return {
+        type: 'PAYMENT',
+        eventType,
+        txnRef: data.reference,
+        ...this.toVerification(data as PaystackTransaction),
+      };
+    }
+
+    if (eventType.startsWith('refund.')) {
+      const result = this.toRefundResult(data as PaystackRefund);
+      return {
+        type: 'REFUND',
+        eventType,
+        ...result,
+        providerReference: data.id !== undefined ? String(data.id) : undefined,
+        txnRef: data.transaction_reference || data.transaction?.reference,
+        amount: typeof data.amount === 'number' ? fromMinorUnits(data.amount) : undefined,
+      };
+    }
+
+    return { type: 'IGNORED', eventType };
+  }
+
+  private toVerification(data: PaystackTransaction): PaymentVerification {
+    const outcome = PAYMENT_STATUSES[data.status] || 'PENDING';
+
+    return {
+      outcome,
+      responseCode: data.status,
+      responseDescription: data.gateway_response || data.status,
+      message: PAYMENT_MESSAGES[outcome],
+      paymentReference: data.id !== undefined ? String(data.id) : undefined,
+      amountPaid: typeof data.amount === 'number' ? fromMinorUnits(data.amount) : undefined,
+    };
+  }
+
+  private toRefundResult(data: PaystackRefund): ProviderRefundResult {
+    return {
+      outcome: REFUND_STATUSES[data.status] || 'PENDING',
+      responseCode: data.status,
+      responseDescription: `Refund ${data.status}`,
+      providerReference: data.id !== undefined ? String(data.id) : undefined,
+    };
+  }
+
+  private headers() {
+    return {
+      Authorization: `Bearer ${this.secretKey}`,
+      'Content-Type': 'application/json',
+    };
+  }
+}
@@ -1,85 +1,37 @@
-import { PrismaClient, PaymentStatus } from '@prisma/client';
+import {
+  PrismaClient,
+  PaymentPurpose,
+  PaymentStatus,
+  PaymentTransaction,
+  Prisma,
+} from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
-import axios from 'axios';
+import { refundService } from './refund.service';
+import { notificationService } from './notification.service';
+import { realtimeEventService } from './realtime-event.service';
+import { paymentPlanService } from './payment-plan.service';
+import { voucherService, VoucherQuote } from './voucher.service';
 import {
-  getPaymentErrorMessage,
-  isPaymentSuccessful,
-  isPaymentPending,
-  isPaymentCancelled,
-} from '../utils/payment-error-messages';
+  getActivePaymentProvider,
+  getPaymentProvider,
+  PaymentCheckoutParams,
+  PaymentVerification,
+  ProviderOutcome,
+} from './payment-providers';
 
 const prisma = new PrismaClient();
 
-interface InterswitchCheckoutParams {
-  merchant_code: string;
-  pay_item_id: string;
-  txn_ref: string;
-  amount: number; // Amount in kobo (multiply Naira by 100)
-  currency: string;
-  cust_name: string;
-  cust_email: string;
-  cust_id: string;
-  designer_name: string;
-  mode: string;
-  site_redirect_url?: string;
-}
+// PENDING leaves the transaction as it is until the provider reports a final status
+const PAYMENT_STATUS_BY_OUTCOME: Record<ProviderOutcome, PaymentStatus | null> = {
+  SUCCESSFUL: PaymentStatus.SUCCESSFUL,
+  CANCELLED: PaymentStatus.CANCELLED,
+  FAILED: PaymentStatus.FAILED,
+  PENDING: null,
+};
 
-interface InterswitchVerifyResponse {
-  Amount: number;
-  CardNumber?: string;
-  MerchantReference: string;
-  PaymentReference: string;
-  RetrievalReferenceNumber: string;
-  SplitAccounts: any[];
-  TransactionDate: string;
-  ResponseCode: string;
-  ResponseDescription: string;
-  AccountNumber?: string;
-}
+export type PaymentCheckout = PaymentCheckoutParams & { provider: string; purpose: PaymentPurpose };
 
 export class PaymentService {
-  private merchantCode: string;
-  private payItemId: string;
-  private mode: string;
-  private apiBaseUrl: string;
-  private inlineScriptUrl: string;
-
-  constructor() {
-    // Require environment variables - no fallbacks
-    this.merchantCode = process.env.INTERSWITCH_MERCHANT_CODE!;
-    this.payItemId = process.env.INTERSWITCH_PAY_ITEM_ID!;
-    this.mode = process.env.INTERSWITCH_MODE!;
-    this.apiBaseUrl = process.env.INTERSWITCH_API_BASE_URL!;
-    this.inlineScriptUrl = process.env.INTERSWITCH_INLINE_SCRIPT_URL!;
-
-    // Validate required environment variables
-    if (
-      !this.merchantCode ||
-      !this.payItemId ||
-      !this.mode ||
-      !this.apiBaseUrl ||
-      !this.inlineScriptUrl
-    ) {
-      const missing = [];
-      if (!this.merchantCode) missing.push('INTERSWITCH_MERCHANT_CODE');
-      if (!this.payItemId) missing.push('INTERSWITCH_PAY_ITEM_ID');
-      if (!this.mode) missing.push('INTERSWITCH_MODE');
-      if (!this.apiBaseUrl) missing.push('INTERSWITCH_API_BASE_URL');
-      if (!this.inlineScriptUrl) missing.push('INTERSWITCH_INLINE_SCRIPT_URL');
-
-      throw new Error(`Missing required Interswitch environment variables: ${missing.join(', ')}`);
-    }
-
-    // Log configuration on startup
-    console.log('[Payment Service] Interswitch Configuration:', {
-      merchantCode: this.merchantCode,
-      payItemId: this.payItemId,
-      mode: this.mode,
-      apiBaseUrl: this.apiBaseUrl,
-      inlineScriptUrl: this.inlineScriptUrl,
-    });
-  }
-
   /**
    * Generate unique transaction reference
    */
@@ -90,9 +42,12 @@ export class PaymentService {
   }
 
   /**
-   * Initiate payment - creates PaymentTransaction and returns checkout params
+   * Initiate payment - creates PaymentTransaction with the active provider and
+   * returns that provider's checkout params. On a payment plan the first payment is
+   * the deposit; once the order exists, paying again settles the balance. A voucher
+   * can only be applied to the first payment.
    */
-  async initiatePayment(offerId: string, addressId: string, userId: string) {
+  async initiatePayment(offerId: string, addressId: string, userId: string, voucherCode?: string) {
     // Fetch offer with customer details and measurements
     const offer = await prisma.offer.findUnique({
       where: { id: offerId },
@@ -104,6 +59,7 @@ export class PaymentService {
         },
         designer: true,
         design: true,
+        order: true,
       },
     });
 
@@ -139,11 +95,52 @@ export class PaymentService {
       throw new Error('Invalid shipping address');
     }
 
+    let purpose: PaymentPurpose = PaymentPurpose.FULL;
+    let amount = offer.finalPrice;
+    let voucher: VoucherQuote | null = null;
+
+    if (offer.order) {
+      if (voucherCode) {
+        throw new Error('Invalid voucher: vouchers can only be applied to the first payment');
+      }
+      const balance = paymentPlanService.getOutstandingBalance(offer.order);
+      if (balance <= 0) {
+        throw new Error('Order is already fully paid');
+      }
+      if (['CANCELLED', 'REFUNDED', 'DISPUTED'].includes(offer.order.status)) {
+        throw new Error(`Invalid payment: order is ${offer.order.status.toLowerCase()}`);
+      }
+      purpose = PaymentPurpose.BALANCE;
+      amount = balance;
+    } else {
+      if (voucherCode) {
+        voucher = await voucherService.quote(voucherCode, {
+          offerId,
+          customerId: offer.customerId,
+          designerId: offer.designerId,
+          price: offer.finalPrice,
+          category: offer.design.category,
+        });
+      }
+
+      const price = voucher ? voucher.amountAfterDiscount : offer.finalPrice;
+      if (offer.depositPercentage) {
+        purpose = PaymentPurpose.DEPOSIT;
+      }
+      amount = paymentPlanService.getUpfrontAmount(price, offer.depositPercentage);
+    }
+
+    const provider = await getActivePaymentProvider();
+
     // Check if there's an existing pending payment that hasn't been attempted yet
     // We only reuse truly pending payments (retriesCount = 0) to avoid duplicate txnRef issues
     const existingPayment = await prisma.paymentTransaction.findFirst({
       where: {
         offerId,
+        provider: provider.key,
+        purpose,
+        amount,
+        voucherRedemption: voucher ? { is: { voucherId: voucher.voucher.id } } : { is: null },
         status: PaymentStatus.PENDING,
         retriesCount: 0, // Only reuse if never attempted
         expiresAt: {
@@ -154,7 +151,7 @@ export class PaymentService {
 
     if (existingPayment) {
       // Return existing payment params
-      return this.prepareCheckoutParams(existingPayment, offer.customer, offer.designer);
+      return this.withVoucher(await this.prepareCheckoutParams(existingPayment, offer), voucher);
     }
 
     // Mark any old failed/cancelled payments as expired to avoid confusion
@@ -174,54 +171,139 @@ export class PaymentService {
     const txnRef = this.generateTxnRef();
     const expiresAt = new Date(Date.now() + 30 * 60 * 1000); // 30 minutes from now
 
-    const paymentTransaction = await prisma.paymentTransaction.create({
-      data: {
-        offerId,
-        txnRef,
-        amount: offer.finalPrice,
-        currency: '566', // NGN
-        status: PaymentStatus.PENDING,
-        expiresAt,
-      },
+    const paymentTransaction = await prisma.$transaction(async (tx) => {
+      const created = await tx.paymentTransaction.create({
+        data: {
+          offerId,
+          txnRef,
+          provider: provider.key,
+          purpose,
+          amount,
+          currency: '566', // NGN
+          status: PaymentStatus.PENDING,
+          expiresAt,
+        },
+      });
+
+      if (voucher) {
+        await voucherService.reserve(created.id, userId, voucher, tx);
+      }
+
+      return created;
     });
 
-    return this.prepareCheckoutParams(paymentTransaction, offer.customer, offer.designer);
+    return this.withVoucher(await this.prepareCheckoutParams(paymentTransaction, offer), voucher);
   }
 
   /**
-   * Prepare checkout parameters for Interswitch inline checkout
+   * Check a voucher against an accepted offer before paying, showing the discount
+   * and what is due now
    */
-  private prepareCheckoutParams(
-    payment: any,
-    customer: any,
-    designer: any
-  ): InterswitchCheckoutParams {
-    const params = {
-      merchant_code: this.merchantCode,
-      pay_item_id: this.payItemId,
-      txn_ref: payment.txnRef,
-      amount: Math.round(payment.amount * 100), // Convert to kobo
-      currency: payment.currency,
-      cust_name: customer.fullName || customer.email,
-      cust_email: customer.email,
-      cust_id: customer.id,
-      designer_name: designer.fullName || designer.businessName || 'Designer',
-      mode: this.mode,
+  async previewVoucher(offerId: string, userId: string, voucherCode: string) {
+    const offer = await prisma.offer.findUnique({
+      where: { id: offerId },
+      include: { design: { select: { category: true } }, order: { select: { id: true } } },
+    });
+
+    if (!offer) {
+      throw new Error('Offer not found');
+    }
+
+    if (offer.customerId !== userId) {
+      throw new Error('Unauthorized: You can only pay for your own offers');
+    }
+
+    if (offer.status !== 'ACCEPTED' || !offer.finalPrice) {
+      throw new Error('Offer must be accepted before payment');
+    }
+
+    if (offer.order) {
+      throw new Error('Invalid voucher: vouchers can only be applied to the first payment');
+    }
+
+    const quote = await voucherService.quote(voucherCode, {
+      offerId,
+      customerId: offer.customerId,
+      designerId: offer.designerId,
+      price: offer.finalPrice,
+      category: offer.design.category,
+    });
+
+    return {
+      code: quote.voucher.code,
+      description: quote.voucher.description,
+      price: offer.finalPrice,
+      discountAmount: quote.discountAmount,
+      totalAfterDiscount: quote.amountAfterDiscount,
+      amountDueNow: paymentPlanService.getUpfrontAmount(
+        quote.amountAfterDiscount,
+        offer.depositPercentage
+      ),
     };
+  }
 
-    console.log('[Payment Service] Checkout params prepared:', {
-      merchant_code: params.merchant_code,
-      pay_item_id: params.pay_item_id,
+  private withVoucher(checkout: PaymentCheckout, voucher: VoucherQuote | null): PaymentCheckout {
+    return voucher
+      ? {
+          ...checkout,
+          voucher: { code: voucher.voucher.code, discountAmount: voucher.discountAmount },
+        }
+      : checkout;
+  }
+
+  /**
+   * Get checkout parameters from the transaction's provider. Hosted checkouts can't be
+   * initialized twice with the same reference, so the params are stored and reused.
+   */
+  private async prepareCheckoutParams(
+    payment: PaymentTransaction,
+    offer: {
+      customer: { id: string; fullName: string; email: string };
+      designer: { fullName: string; brandName: string | null };
+      design: { title: string };
+    }
+  ): Promise<PaymentCheckout> {
+    if (payment.checkoutParams) {
+      return {
+        provider: payment.provider,
+        purpose: payment.purpose,
+        ...(payment.checkoutParams as PaymentCheckoutParams),
+      };
+    }
+
+    const provider = getPaymentProvider(payment.provider);
+    const params = await provider.initiate({
+      txnRef: payment.txnRef,
+      amount: payment.amount,
+      currency: payment.currency,
+      customer: {
+        id: offer.customer.id,
+        name: offer.customer.fullName || offer.customer.email,
+        email: offer.customer.email,
+      },
+      designerName: offer.designer.brandName || offer.designer.fullName || 'Designer',
+      description:
+        payment.purpose === PaymentPurpose.FULL
+          ? offer.design.title
+          : `${offer.design.title} (${payment.purpose.toLowerCase()})`,
+    });
+
+    await prisma.paymentTransaction.update({
+      where: { id: payment.id },
+      data: { checkoutParams: params as Prisma.InputJsonValue },
+    });
+
+    console.log('[Payment Service] Checkout prepared:', {
+      provider: provider.key,
       txn_ref: params.txn_ref,
       amount: params.amount,
-      mode: params.mode,
     });
 
-    return params;
+    return { provider: provider.key, purpose: payment.purpose, ...params };
   }
 
   /**
-   * Verify payment transaction with Interswitch
+   * Verify payment transaction with the provider that took it
    */
   async verifyTransaction(txnRef: string, userId: string, payRef?: string, isSimulated?: boolean) {
     console.log('[Payment Service] Starting verification:', {
@@ -276,7 +358,7 @@ export class PaymentService {
     }
 
     // Check if payment already successful
-    if (payment.status === PaymentStatus.SUCCESSFUL && payment.order) {
+    if (payment.status === PaymentStatus.SUCCESSFUL && payment.orderId) {
       return {
         success: true,
         payment,
@@ -315,7 +397,7 @@ export class PaymentService {
     try {
       // Check if this is a simulated payment
       if (isSimulated || payRef?.startsWith('SIM-')) {
-        // For simulated payments, mark as successful without calling Interswitch
+        // For simulated payments, mark as successful without calling the provider
         console.log(`[SIMULATION] Processing simulated payment: ${txnRef}, PayRef: ${payRef}`);
 
         const updatedPayment = await prisma.paymentTransaction.update({
@@ -338,71 +420,34 @@ export class PaymentService {
         };
       }
 
-      // Call Interswitch API to verify transaction
-      const amountInKobo = Math.round(payment.amount * 100);
-      const url = `${this.apiBaseUrl}/collections/api/v1/gettransaction.json`;
-      const params = {
-        merchantcode: this.merchantCode,
-        transactionreference: txnRef,
-        amount: amountInKobo,
-      };
-
-      console.log('[Payment Service] Calling Interswitch verify API:', {
-        url,
-        merchantcode: params.merchantcode,
-        transactionreference: params.transactionreference,
-        amount: params.amount,
-        apiBaseUrl: this.apiBaseUrl,
-      });
-
-      const response = await axios.get<InterswitchVerifyResponse>(url, { params });
-      const data = response.data;
-
-      console.log('[Payment Service] Interswitch API response:', {
-        ResponseCode: data.ResponseCode,
-        ResponseDescription: data.ResponseDescription,
-        MerchantReference: data.MerchantReference,
-        Amount: data.Amount,
-        PaymentReference: data.PaymentReference,
-      });
+      const provider = getPaymentProvider(payment.provider);
+      const verification = this.checkAmountPaid(payment, await provider.verify(payment));
 
       // Update payment transaction with response
-      const updateData: any = {
-        responseCode: data.ResponseCode,
-        responseDescription: data.ResponseDescription,
-        paymentReference: data.PaymentReference,
-        retriesCount: payment.retriesCount + 1,
-      };
-
-      // Determine payment status based on response code
-      if (isPaymentSuccessful(data.ResponseCode)) {
-        updateData.status = PaymentStatus.SUCCESSFUL;
-        updateData.paidAt = new Date();
-      } else if (isPaymentCancelled(data.ResponseCode)) {
-        updateData.status = PaymentStatus.CANCELLED;
-      } else if (!isPaymentPending(data.ResponseCode)) {
-        updateData.status = PaymentStatus.FAILED;
-      }
-
       const updatedPayment = await prisma.paymentTransaction.update({
         where: { id: payment.id },
-        data: updateData,
+        data: {
+          responseCode: verification.responseCode,
+          responseDescription: verification.responseDescription,
+          paymentReference: verification.paymentReference,
+          retriesCount: payment.retriesCount + 1,
+          ...this.getStatusUpdate(verification.outcome),
+        },
       });
 
       return {
-        success: isPaymentSuccessful(data.ResponseCode),
+        success: verification.outcome === 'SUCCESSFUL',
         payment: updatedPayment,
-        message: getPaymentErrorMessage(data.ResponseCode),
-        responseCode: data.ResponseCode,
+        message: verification.message,
+        responseCode: verification.responseCode,
       };
     } catch (error: any) {
-      console.error('[Payment Service] Interswitch verification error:', {
+      console.error('[Payment Service] Verification error:', {
         message: error.message,
         response: error.response?.data,
         status: error.response?.status,
         txnRef,
-        merchantCode: this.merchantCode,
-        payItemId: this.payItemId,
+        provider: payment.provider,
       });
 
       // Update payment with error
@@ -419,52 +464,196 @@ export class PaymentService {
   }
 
   /**
-   * Handle webhook notification from Interswitch
+   * Handle a verified webhook notification from a payment provider
    */
-  async handleWebhook(payload: any) {
-    // Implement webhook handling for TRANSACTION.COMPLETED events
-    // This is called by Interswitch when transaction status changes
-    const { transactionReference, responseCode, eventType } = payload;
+  async handleWebhook(providerKey: string, payload: unknown) {
+    const provider = getPaymentProvider(providerKey);
+    const event = provider.parseWebhook(payload);
+
+    // Refund status changes are reconciled against our Refund records
+    if (event.type === 'REFUND') {
+      const refund = await refundService.applyProviderUpdate({
+        refundReference: event.refundReference,
+        providerReference: event.providerReference,
+        txnRef: event.txnRef,
+        amount: event.amount,
+        outcome: event.outcome,
+        responseCode: event.responseCode,
+        responseDescription: event.responseDescription,
+      });
 
-    if (eventType !== 'TRANSACTION.COMPLETED') {
+      return { processed: true, refund, message: `Refund ${refund.status.toLowerCase()}` };
+    }
+
+    if (event.type === 'IGNORED') {
       return { processed: false, message: 'Not a final event' };
     }
 
     const payment = await prisma.paymentTransaction.findUnique({
-      where: { txnRef: transactionReference },
+      where: { txnRef: event.txnRef },
     });
 
     if (!payment) {
       throw new Error('Payment transaction not found');
     }
 
-    // Update payment status based on webhook
-    const updateData: any = {
-      responseCode,
-      responseDescription: payload.responseDescription,
-      paymentReference: payload.paymentReference,
-    };
-
-    if (isPaymentSuccessful(responseCode)) {
-      updateData.status = PaymentStatus.SUCCESSFUL;
-      updateData.paidAt = new Date();
-    } else if (isPaymentCancelled(responseCode)) {
-      updateData.status = PaymentStatus.CANCELLED;
-    } else {
-      updateData.status = PaymentStatus.FAILED;
+    if (payment.provider !== provider.key) {
+      throw new Error(
+        `Invalid webhook: payment ${payment.txnRef} was not made with ${provider.key}`
+      );
     }
 
+    const result = this.checkAmountPaid(payment, event);
+
+    // Update payment status based on webhook
     const updatedPayment = await prisma.paymentTransaction.update({
       where: { id: payment.id },
-      data: updateData,
+      data: {
+        responseCode: result.responseCode,
+        responseDescription: result.responseDescription,
+        paymentReference: result.paymentReference,
+        ...this.getStatusUpdate(result.outcome),
+      },
     });
 
     return {
       processed: true,
       payment: updatedPayment,
-      message: getPaymentErrorMessage(responseCode),
+      message: result.message,
+    };
+  }
+
+  private getStatusUpdate(outcome: ProviderOutcome): Prisma.PaymentTransactionUpdateInput {
+    const status = PAYMENT_STATUS_BY_OUTCOME[outcome];
+
+    if (!status) {
+      return {};
+    }
+
+    return status === PaymentStatus.SUCCESSFUL ? { status, paidAt: new Date() } : { status };
+  }
+
+  /**
+   * A provider reporting success for less than the transaction amount is treated as a failure
+   */
+  private checkAmountPaid<T extends PaymentVerification>(
+    payment: PaymentTransaction,
+    result: T
+  ): T {
+    if (
+      result.outcome !== 'SUCCESSFUL' ||
+      result.amountPaid === undefined ||
+      Math.round(result.amountPaid * 100) >= Math.round(payment.amount * 100)
+    ) {
+      return result;
+    }
+
+    console.error('[Payment Service] Amount mismatch:', {
+      txnRef: payment.txnRef,
+      expected: payment.amount,
+      paid: result.amountPaid,
+    });
+
+    return {
+      ...result,
+      outcome: 'FAILED',
+      responseDescription: `Amount paid (₦${result.amountPaid.toLocaleString()}) is less than ₦${payment.amount.toLocaleString()}`,
+      message: 'Amount paid does not match the order total',
     };
   }
+
+  /**
+   * Expire pending payments whose 30-minute checkout window has passed (run by CronService).
+   * The customer can start a fresh payment for the same offer afterwards.
+   */
+  async expireStalePayments(): Promise<number> {
+    const now = new Date();
+
+    const stalePayments = await prisma.paymentTransaction.findMany({
+      where: {
+        status: PaymentStatus.PENDING,
+        expiresAt: { lt: now },
+      },
+    });
+
+    if (stalePayments.length === 0) {
+      return 0;
+    }
+
+    const offers = await prisma.offer.findMany({
+      where: { id: { in: [...new Set(stalePayments.map((payment) => payment.offerId))] } },
+      select: {
+        id: true,
+        customerId: true,
+        designerId: true,
+        design: { select: { title: true } },
+      },
+    });
+    const offersById = new Map(offers.map((offer) => [offer.id, offer]));
+
+    let expiredCount = 0;
+
+    for (const payment of stalePayments) {
+      try {
+        // Conditional on status so a payment verified meanwhile is not expired
+        const claimed = await prisma.paymentTransaction.updateMany({
+          where: { id: payment.id, status: PaymentStatus.PENDING },
+          data: {
+            status: PaymentStatus.EXPIRED,
+            responseDescription: 'Payment link expired',
+          },
+        });
+
+        if (claimed.count === 0) {
+          continue;
+        }
+
+        expiredCount++;
+
+        const offer = offersById.get(payment.offerId);
+        if (!offer) {
+          continue;
+        }
+
+        const payload = {
+          offerId: offer.id,
+          paymentId: payment.id,
+          txnRef: payment.txnRef,
+          status: PaymentStatus.EXPIRED,
+        };
+
+        await notificationService.notifyUser({
+          userId: offer.customerId,
+          type: 'PAYMENT_EXPIRED',
+          title: '⌛ Payment Link Expired',
+          message: `Your payment of ₦${payment.amount.toLocaleString()} for ${offer.design.title} was not completed in time. You can start a new payment from the offer.`,
+          offerId: offer.id,
+          data: payload,
+        });
+
+        await notificationService.notifyUser({
+          userId: offer.designerId,
+          type: 'PAYMENT_EXPIRED',
+          title: '⌛ Customer Payment Expired',
+          message: `The customer's payment for ${offer.design.title} was not completed in time. The offer is still awaiting payment.`,
+          offerId: offer.id,
+          data: payload,
+        });
+
+        realtimeEventService.publishToUsers([offer.customerId, offer.designerId], {
+          type: 'PAYMENT_UPDATED',
+          domain: 'payment',
+          action: 'payment_expired',
+          entityId: payment.id,
+          payload,
+        });
+      } catch (error) {
+        console.error(`[Payment Service] Error expiring payment ${payment.txnRef}:`, error);
+      }
+    }
+
+    return expiredCount;
+  }
 }
 
 export const paymentService = new PaymentService();
@@ -0,0 +1,237 @@
+import { PayoutFrequency, PayoutSchedule } from '@prisma/client';
+import prisma from '../config/database';
+import { PayoutService } from './payout.service';
+import { notificationService } from './notification.service';
+
+/**
+ * Payout Schedule Service
+ * Designers can opt into automatic payouts (daily, weekly, or once the available
+ * balance reaches a threshold). The scheduler withdraws the whole available balance
+ * through the normal payout flow; pending and on-hold earnings are never included.
+ */
+
+export interface PayoutScheduleInput {
+  frequency: string;
+  dayOfWeek?: number | null;
+  minimumBalance?: number | null;
+}
+
+const payoutService = new PayoutService();
+
+class PayoutScheduleService {
+  async getSchedule(userId: string): Promise<PayoutSchedule | null> {
+    return prisma.payoutSchedule.findUnique({ where: { userId } });
+  }
+
+  /**
+   * Create or replace the designer's schedule (re-enables a disabled one)
+   */
+  async saveSchedule(userId: string, input: PayoutScheduleInput): Promise<PayoutSchedule> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, accountVerified: true, accountNumber: true, bankCode: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.role !== 'DESIGNER') {
+      throw new Error('Only designers can schedule payouts');
+    }
+
+    if (!user.accountVerified || !user.accountNumber || !user.bankCode) {
+      throw new Error('Please add and verify your bank account before scheduling payouts');
+    }
+
+    if (!Object.values(PayoutFrequency).includes(input.frequency as PayoutFrequency)) {
+      throw new Error(
+        `Invalid frequency. Must be one of: ${Object.values(PayoutFrequency).join(', ')}`
+      );
+    }
+
+    const frequency = input.frequency as PayoutFrequency;
+    const data = {
+      frequency,
+      dayOfWeek: null as number | null,
+      minimumBalance: null as number | null,
+      enabled: true,
+      lastError: null,
+    };
+
+    if (frequency === PayoutFrequency.WEEKLY) {
+      const day = Number(input.dayOfWeek);
+      if (!Number.isInteger(day) || day < 0 || day > 6) {
+        throw new Error('Invalid dayOfWeek. Must be 0 (Sunday) to 6 (Saturday)');
+      }
+      data.dayOfWeek = day;
+    }
+
+    if (frequency === PayoutFrequency.THRESHOLD) {
+      const { minWithdrawalAmount, fee } = payoutService.getPayoutLimits();
+      const minimum = Number(input.minimumBalance);
+      if (!Number.isFinite(minimum) || minimum < minWithdrawalAmount + fee) {
+        throw new Error(
+          `Invalid minimumBalance. Must be at least ₦${(minWithdrawalAmount + fee).toLocaleString()}`
+        );
+      }
+      data.minimumBalance = minimum;
+    }
+
+    return prisma.payoutSchedule.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+  }
+
+  async disableSchedule(userId: string): Promise<PayoutSchedule> {
+    const schedule = await this.getSchedule(userId);
+
+    if (!schedule) {
+      throw new Error('Payout schedule not found');
+    }
+
+    return prisma.payoutSchedule.update({
+      where: { userId },
+      data: { enabled: false },
+    });
+  }
+
+  /**
+   * Scheduler entry point: create a payout for every schedule that is due today
+   */
+  async runScheduledPayouts() {
+    const now = new Date();
+    const startOfToday = new Date(now);
+    startOfToday.setHours(0, 0, 0, 0);
+
+    const { minWithdrawalAmount, fee } = payoutService.getPayoutLimits();
+
+    const schedules = await prisma.payoutSchedule.findMany({
+      where: {
+        enabled: true,
+        OR: [{ lastRunAt: null }, { lastRunAt: { lt: startOfToday } }],
+        user: { accountVerified: true },
+      },
+      include: {
+        user: { select: { walletBalance: true } },
+      },
+    });
+
+    let paid = 0;
+    let failed = 0;
+    let skipped = 0;
+
+    for (const schedule of schedules) {
+      const balance = schedule.user.walletBalance;
+
+      if (!this.isDue(schedule, balance, now)) {
+        skipped++;
+        continue;
+      }
+
+      // Withdraw everything that is available, leaving room for the fee
+      const amount = Math.floor((balance - fee) * 100) / 100;
+      if (amount < minWithdrawalAmount) {
+        skipped++;
+        continue;
+      }
+
+      // Don't stack payouts while an earlier one is still with the provider
+      const inFlight = await prisma.payout.count({
+        where: {
+          userId: schedule.userId,
+          status: { in: ['PENDING_APPROVAL', 'PENDING', 'PROCESSING'] },
+        },
+      });
+      if (inFlight > 0) {
+        skipped++;
+        continue;
+      }
+
+      // Claim today's run so overlapping runs (or a manual trigger) can't pay twice
+      const claimed = await prisma.payoutSchedule.updateMany({
+        where: {
+          id: schedule.id,
+          enabled: true,
+          OR: [{ lastRunAt: null }, { lastRunAt: { lt: startOfToday } }],
+        },
+        data: { lastRunAt: now },
+      });
+      if (claimed.count === 0) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        // A failed provider call reverses the wallet debit inside createPayout
+        const payout = await payoutService.createPayout(schedule.userId, amount, {
+          scheduled: true,
+        });
+
+        await prisma.payoutSchedule.update({
+          where: { id: schedule.id },
+          data: { lastPayoutId: payout.id, lastError: null },
+        });
+
+        const awaitingApproval = payout.status === 'PENDING_APPROVAL';
+
+        await notificationService.notifyUser({
+          userId: schedule.userId,
+          type: 'PAYOUT_SCHEDULED',
+          title: awaitingApproval ? '🕒 Automatic Payout Under Review' : '💸 Automatic Payout Sent',
+          message: awaitingApproval
+            ? `Your ${schedule.frequency.toLowerCase()} payout of ₦${amount.toLocaleString()} is being reviewed and will be sent once approved`
+            : `₦${amount.toLocaleString()} is on its way to your bank account (${schedule.frequency.toLowerCase()} payout)`,
+          data: {
+            payoutId: payout.id,
+            amount,
+            fee,
+            status: payout.status,
+            transactionReference: payout.transactionReference,
+          },
+        });
+
+        paid++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Scheduled payout failed for user ${schedule.userId}:`, message);
+
+        await prisma.payoutSchedule.update({
+          where: { id: schedule.id },
+          data: { lastError: message },
+        });
+
+        await notificationService.notifyUser({
+          userId: schedule.userId,
+          type: 'PAYOUT_FAILED',
+          title: '⚠️ Automatic Payout Failed',
+          message: `We couldn't send your scheduled payout of ₦${amount.toLocaleString()}. Your balance has been restored and we'll try again at the next scheduled time.`,
+          data: { amount, error: message },
+        });
+
+        failed++;
+      }
+    }
+
+    console.log(`💸 Scheduled payouts: ${paid} sent, ${failed} failed, ${skipped} skipped`);
+
+    return { checked: schedules.length, paid, failed, skipped };
+  }
+
+  private isDue(schedule: PayoutSchedule, balance: number, now: Date): boolean {
+    switch (schedule.frequency) {
+      case PayoutFrequency.DAILY:
+        return true;
+      case PayoutFrequency.WEEKLY:
+        return schedule.dayOfWeek === now.getDay();
+      case PayoutFrequency.THRESHOLD:
+        return schedule.minimumBalance !== null && balance >= schedule.minimumBalance;
+      default:
+        return false;
+    }
+  }
+}
+
+export const payoutScheduleService = new PayoutScheduleService();
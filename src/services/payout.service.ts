@@ -1,9 +1,26 @@
-import { PrismaClient } from '@prisma/client';
+import { Payout, PayoutAuditAction, Prisma, PrismaClient } from '@prisma/client';
 import axios, { AxiosError } from 'axios';
 import { v4 as uuidv4 } from 'uuid';
+import walletService from './wallet.service';
+import settingsService from './settings.service';
+import adminEventsService from './admin-events.service';
+import { notificationService } from './notification.service';
 
 const prisma = new PrismaClient();
 
+const DEFAULT_APPROVAL_THRESHOLD = 500000; // Naira
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000; // 5, 10, 20... minutes
+
+// Interswitch/NIBSS codes that mean "try again later" rather than a bad request
+const TRANSIENT_RESPONSE_CODES = ['06', '68', '91', '96'];
+
+// Payouts Interswitch may still report on: in flight, or waiting for a retry
+const AWAITING_PROVIDER: Prisma.PayoutWhereInput[] = [
+  { status: 'PROCESSING' },
+  { status: 'PENDING', nextRetryAt: { not: null } },
+];
+
 interface BankLookupRequest {
   transactionReference: string;
   payoutChannel: string;
@@ -304,9 +321,22 @@ export class PayoutService {
   }
 
   /**
-   * Create a payout/withdrawal request
+   * Minimum withdrawal and the fee charged on top of each payout (Naira)
    */
-  async createPayout(userId: string, amount: number): Promise<any> {
+  getPayoutLimits(): { minWithdrawalAmount: number; fee: number } {
+    return { minWithdrawalAmount: this.minWithdrawalAmount, fee: this.payoutFee };
+  }
+
+  /**
+   * Create a payout/withdrawal request. The wallet is debited straight away;
+   * withdrawals above the approval threshold then wait for an admin, everything
+   * else is sent to Interswitch immediately.
+   */
+  async createPayout(
+    userId: string,
+    amount: number,
+    options: { scheduled?: boolean; retryOfId?: string; approvedById?: string } = {}
+  ): Promise<any> {
     // Validate minimum amount
     if (amount < this.minWithdrawalAmount) {
       throw new Error(`Minimum withdrawal amount is ₦${this.minWithdrawalAmount.toLocaleString()}`);
@@ -349,8 +379,17 @@ export class PayoutService {
       );
     }
 
+    // Large withdrawals wait for an admin unless an admin is the one creating them
+    const approvalThreshold = await settingsService.getSetting<number>(
+      'payout_approval_threshold',
+      DEFAULT_APPROVAL_THRESHOLD
+    );
+    const needsApproval =
+      !options.approvedById && approvalThreshold > 0 && amount > approvalThreshold;
+
     // Generate transaction reference
     const transactionRef = this.generateTransactionRef();
+    const narration = `${options.scheduled ? 'Scheduled withdrawal' : 'Withdrawal'} to ${user.bankName}`;
 
     // Create payout record
     const payout = await prisma.payout.create({
@@ -359,39 +398,117 @@ export class PayoutService {
         amount: amount,
         fee: fee,
         netAmount: netAmount,
-        status: 'PENDING',
+        status: needsApproval ? 'PENDING_APPROVAL' : 'PENDING',
         channel: 'BANK_TRANSFER',
         recipientBank: user.bankCode,
         recipientAccount: user.accountNumber,
         recipientName: user.accountName,
         transactionReference: transactionRef,
-        narration: `Withdrawal to ${user.bankName}`,
+        narration,
+        scheduled: options.scheduled || false,
+        retryOfId: options.retryOfId,
       },
     });
 
     try {
-      // Debit wallet first
-      await this.debitWallet(userId, totalDebit, `Withdrawal request ${transactionRef}`);
-
-      // Update payout status to PROCESSING
+      // Debit wallet first (amount to payout clearing, fee to platform revenue).
+      // Queued withdrawals stay debited so the balance can't be spent twice.
+      await walletService.debitForPayout({
+        payoutId: payout.id,
+        userId,
+        amount,
+        fee,
+        description: `Withdrawal request ${transactionRef}`,
+      });
+    } catch (error) {
       await prisma.payout.update({
         where: { id: payout.id },
-        data: { status: 'PROCESSING' },
+        data: {
+          status: 'FAILED',
+          responseMessage: error instanceof Error ? error.message : 'Wallet debit failed',
+        },
       });
+      throw error;
+    }
 
+    await this.recordAudit(payout.id, 'REQUESTED', null, payout.status, {
+      performedById: options.approvedById || userId,
+      metadata: {
+        amount,
+        fee,
+        scheduled: payout.scheduled,
+        ...(options.retryOfId ? { retryOfId: options.retryOfId } : {}),
+      },
+    });
+
+    if (needsApproval) {
+      await this.recordAudit(payout.id, 'QUEUED_FOR_APPROVAL', payout.status, payout.status, {
+        metadata: { approvalThreshold },
+      });
+
+      adminEventsService.emitSystemAlert(
+        'info',
+        `Withdrawal of ₦${amount.toLocaleString()} by ${user.fullName} is awaiting approval`,
+        { payoutId: payout.id, userId, amount, approvalThreshold }
+      );
+
+      return payout;
+    }
+
+    return this.submitPayout(payout.id, ['PENDING'], options.approvedById);
+  }
+
+  /**
+   * Send a payout to Interswitch. The payout is claimed from one of `fromStatuses`
+   * first so two callers can never submit it at the same time.
+   *
+   * Transient failures (network errors, 5xx, retryable response codes) are retried
+   * with exponential backoff; anything else, or running out of retries, fails the
+   * payout and returns the money to the wallet.
+   */
+  private async submitPayout(
+    payoutId: string,
+    fromStatuses: string[],
+    performedById?: string
+  ): Promise<Payout> {
+    const current = await prisma.payout.findUnique({ where: { id: payoutId } });
+
+    if (!current) {
+      throw new Error('Payout not found');
+    }
+
+    const claimed = fromStatuses.includes(current.status)
+      ? await prisma.payout.updateMany({
+          where: { id: payoutId, status: current.status },
+          data: { status: 'PROCESSING', nextRetryAt: null },
+        })
+      : { count: 0 };
+
+    if (claimed.count === 0) {
+      throw new Error('Payout is already being processed');
+    }
+
+    const payout: Payout = { ...current, status: 'PROCESSING', nextRetryAt: null };
+
+    await this.recordAudit(payout.id, 'SUBMITTED', current.status, 'PROCESSING', {
+      performedById,
+      metadata: { attempt: payout.retryCount + 1 },
+    });
+
+    try {
       // Call Interswitch Payout API
       const token = await this.getAccessToken();
 
       const payoutRequest: PayoutRequest = {
-        transactionReference: transactionRef,
+        transactionReference: payout.transactionReference,
         payoutChannel: 'BANK_TRANSFER',
-        amount: netAmount,
+        amount: payout.netAmount,
         currencyCode: 'NGN',
-        narration: `Withdrawal to ${user.bankName}`,
+        narration: payout.narration || 'Withdrawal',
         recipient: {
-          recipientBank: user.bankCode,
-          recipientName: user.accountName,
-          recipientAccount: user.accountNumber,
+          recipientBank: payout.recipientBank,
+          recipientName: payout.recipientName,
+          recipientAccount: payout.recipientAccount,
         },
         walletDetails: {
           walletId: this.walletId,
@@ -412,9 +529,9 @@ export class PayoutService {
         }
       );
 
-      // Update payout with Interswitch response
-      const updatedPayout = await prisma.payout.update({
-        where: { id: payout.id },
+      // Update payout with Interswitch response, unless a webhook got there first
+      const recorded = await prisma.payout.updateMany({
+        where: { id: payout.id, status: 'PROCESSING' },
         data: {
           interswitchReference: response.data.reference,
           processingReference: response.data.processingReference,
@@ -424,33 +541,560 @@ export class PayoutService {
           completedAt: response.data.status === 'SUCCESSFUL' ? new Date() : null,
         },
       });
+      const updatedPayout = await prisma.payout.findUniqueOrThrow({ where: { id: payout.id } });
+
+      if (recorded.count > 0 && updatedPayout.status === 'SUCCESSFUL') {
+        await walletService.settlePayout(payout.id, payout.netAmount);
+        await this.recordAudit(payout.id, 'SUCCEEDED', 'PROCESSING', 'SUCCESSFUL', {
+          metadata: { responseCode: response.data.responseCode },
+        });
+      }
 
       return updatedPayout;
     } catch (error) {
-      // If payout API call fails, refund the wallet and mark payout as failed
-      await this.refundWallet(userId, totalDebit, `Refund for failed withdrawal ${transactionRef}`);
+      return this.handleSubmitFailure(payout, error);
+    }
+  }
 
-      await prisma.payout.update({
-        where: { id: payout.id },
+  private async handleSubmitFailure(payout: Payout, error: unknown): Promise<Payout> {
+    const failure = this.describeFailure(error);
+    const maxRetries = await settingsService.getSetting<number>(
+      'payout_max_retries',
+      DEFAULT_MAX_RETRIES
+    );
+
+    if (failure.transient && payout.retryCount < maxRetries) {
+      const nextRetryAt = new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** payout.retryCount);
+
+      console.warn(
+        `⏳ Payout ${payout.transactionReference} failed (${failure.message}); retry ${payout.retryCount + 1}/${maxRetries} at ${nextRetryAt.toISOString()}`
+      );
+
+      const scheduled = await prisma.payout.updateMany({
+        where: { id: payout.id, status: 'PROCESSING' },
         data: {
-          status: 'FAILED',
-          responseMessage: axios.isAxiosError(error)
-            ? error.response?.data?.message || error.message
-            : 'Payout request failed',
+          status: 'PENDING',
+          retryCount: { increment: 1 },
+          nextRetryAt,
+          responseCode: failure.responseCode,
+          responseMessage: failure.message,
         },
       });
+      const updatedPayout = await prisma.payout.findUniqueOrThrow({ where: { id: payout.id } });
 
-      if (axios.isAxiosError(error)) {
-        const axiosError = error as AxiosError<any>;
-        console.error('Payout API error:', axiosError.response?.data);
+      // A webhook already reported the outcome
+      if (scheduled.count === 0) {
+        return updatedPayout;
+      }
+
+      await this.recordAudit(payout.id, 'RETRY_SCHEDULED', 'PROCESSING', 'PENDING', {
+        reason: failure.message,
+        metadata: {
+          responseCode: failure.responseCode ?? null,
+          retry: updatedPayout.retryCount,
+          nextRetryAt: nextRetryAt.toISOString(),
+        },
+      });
+
+      return updatedPayout;
+    }
+
+    if (!(await this.failPayout(payout, failure.message, failure.responseCode))) {
+      return prisma.payout.findUniqueOrThrow({ where: { id: payout.id } });
+    }
+
+    if (axios.isAxiosError(error)) {
+      const axiosError = error as AxiosError<any>;
+      console.error('Payout API error:', axiosError.response?.data);
+      throw new Error(
+        axiosError.response?.data?.message ||
+          axiosError.response?.data?.responseDescription ||
+          'Failed to process withdrawal. Your balance has been refunded.'
+      );
+    }
+    throw new Error('Failed to process withdrawal. Your balance has been refunded.');
+  }
+
+  /**
+   * Mark a payout as failed and refund the wallet. Returns false if a webhook already
+   * reported its outcome.
+   */
+  private async failPayout(
+    payout: Payout,
+    message: string,
+    responseCode?: string
+  ): Promise<boolean> {
+    const claimed = await prisma.payout.updateMany({
+      where: { id: payout.id, status: payout.status },
+      data: {
+        status: 'FAILED',
+        nextRetryAt: null,
+        responseCode,
+        responseMessage: message,
+        completedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    await walletService.reversePayout({
+      payoutId: payout.id,
+      userId: payout.userId,
+      amount: payout.amount,
+      fee: payout.fee,
+      description: `Refund for failed withdrawal ${payout.transactionReference}`,
+    });
+
+    await this.recordAudit(payout.id, 'FAILED', payout.status, 'FAILED', {
+      reason: message,
+      metadata: { responseCode: responseCode ?? null, retries: payout.retryCount },
+    });
+
+    return true;
+  }
+
+  private describeFailure(error: unknown): {
+    message: string;
+    responseCode?: string;
+    transient: boolean;
+  } {
+    if (!axios.isAxiosError(error)) {
+      return {
+        message: error instanceof Error ? error.message : 'Payout request failed',
+        transient: false,
+      };
+    }
+
+    const response = error.response;
+    const responseCode: string | undefined = response?.data?.responseCode;
+    const message =
+      response?.data?.message ||
+      response?.data?.responseDescription ||
+      error.message ||
+      'Payout request failed';
+
+    // No response at all (timeout, connection reset) or the provider is struggling
+    const transient =
+      !response ||
+      response.status >= 500 ||
+      response.status === 429 ||
+      (!!responseCode && TRANSIENT_RESPONSE_CODES.includes(responseCode));
+
+    return { message, responseCode, transient };
+  }
+
+  /**
+   * Scheduler entry point: resubmit payouts whose backoff has elapsed
+   */
+  async retryDuePayouts() {
+    const due = await prisma.payout.findMany({
+      where: { status: 'PENDING', nextRetryAt: { lte: new Date() } },
+      orderBy: { nextRetryAt: 'asc' },
+      take: 50,
+    });
+
+    let succeeded = 0;
+    let rescheduled = 0;
+    let failed = 0;
+
+    for (const payout of due) {
+      try {
+        const result = await this.resubmit(payout);
+
+        if (result.status === 'PENDING') {
+          rescheduled++;
+        } else {
+          succeeded++;
+        }
+      } catch (error) {
+        console.error(`❌ Payout retry ${payout.transactionReference} failed:`, error);
+
+        // Out of retries (or a permanent error): the wallet has been refunded
+        const latest = await prisma.payout.findUnique({ where: { id: payout.id } });
+        if (latest?.status === 'FAILED') {
+          failed++;
+          await this.notifyPayoutFailed(payout);
+        }
+      }
+    }
+
+    return { due: due.length, succeeded, rescheduled, failed };
+  }
+
+  /**
+   * Resubmit a payout waiting for a retry. A timed-out request may have reached
+   * Interswitch after all, so ask for its status before sending it again. If
+   * Interswitch can't be asked, the payout stays pending until the next retry.
+   */
+  private async resubmit(payout: Payout, performedById?: string): Promise<Payout> {
+    let found: Payout | null;
+
+    try {
+      found = await this.recordStatusAtProvider(payout, performedById);
+    } catch (error) {
+      console.error(
+        `⏳ Could not check payout ${payout.transactionReference} with Interswitch, leaving it pending:`,
+        error
+      );
+      return payout;
+    }
+
+    return found ?? this.submitPayout(payout.id, ['PENDING'], performedById);
+  }
+
+  /**
+   * For a payout waiting for a retry: record it as processing or successful if
+   * Interswitch received it after all. Returns null when Interswitch doesn't have it
+   * in flight or paid (safe to send again or cancel); throws if it can't be asked.
+   */
+  private async recordStatusAtProvider(
+    payout: Payout,
+    performedById?: string
+  ): Promise<Payout | null> {
+    let existing: PayoutResponse;
+
+    try {
+      existing = await this.getPayoutStatus(payout.transactionReference);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        return null;
+      }
+      throw error;
+    }
+
+    if (existing.status !== 'SUCCESSFUL' && existing.status !== 'PROCESSING') {
+      return null;
+    }
+
+    const claimed = await prisma.payout.updateMany({
+      where: { id: payout.id, status: 'PENDING' },
+      data: {
+        status: existing.status,
+        nextRetryAt: null,
+        interswitchReference: existing.reference,
+        processingReference: existing.processingReference,
+        responseCode: existing.responseCode,
+        responseMessage: existing.responseDescription,
+        completedAt: existing.status === 'SUCCESSFUL' ? new Date() : null,
+      },
+    });
+
+    if (claimed.count > 0 && existing.status === 'SUCCESSFUL') {
+      await walletService.settlePayout(payout.id, payout.netAmount);
+      await this.recordAudit(payout.id, 'SUCCEEDED', 'PENDING', 'SUCCESSFUL', {
+        performedById,
+        reason: 'Found at Interswitch before retrying',
+      });
+    }
+
+    return prisma.payout.findUniqueOrThrow({ where: { id: payout.id } });
+  }
+
+  /**
+   * Admin: list payouts (e.g. status=PENDING_APPROVAL for the approval queue)
+   */
+  async listPayouts(filters: { status?: string; userId?: string; page?: number; limit?: number }) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const where: Prisma.PayoutWhereInput = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.userId) where.userId = filters.userId;
+
+    const [payouts, total] = await Promise.all([
+      prisma.payout.findMany({
+        where,
+        include: {
+          user: { select: { id: true, fullName: true, email: true, brandName: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.payout.count({ where }),
+    ]);
+
+    return {
+      payouts,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Admin: a payout with its audit trail and retry attempts
+   */
+  async getPayoutForAdmin(payoutId: string) {
+    const payout = await prisma.payout.findUnique({
+      where: { id: payoutId },
+      include: {
+        user: {
+          select: { id: true, fullName: true, email: true, brandName: true, walletBalance: true },
+        },
+        auditLogs: {
+          include: { performedBy: { select: { id: true, fullName: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+        retryOf: { select: { id: true, transactionReference: true, status: true } },
+        retries: { select: { id: true, transactionReference: true, status: true } },
+      },
+    });
+
+    if (!payout) {
+      throw new Error('Payout not found');
+    }
+
+    return payout;
+  }
+
+  /**
+   * Admin: release a queued withdrawal to Interswitch
+   */
+  async approvePayout(payoutId: string, adminId: string, note?: string): Promise<Payout> {
+    const payout = await this.getQueuedPayout(payoutId, ['PENDING_APPROVAL']);
+
+    await this.recordAudit(payout.id, 'APPROVED', 'PENDING_APPROVAL', 'PENDING_APPROVAL', {
+      performedById: adminId,
+      reason: note,
+    });
+
+    try {
+      return await this.submitPayout(payout.id, ['PENDING_APPROVAL'], adminId);
+    } catch (error) {
+      await this.notifyPayoutFailed(payout);
+      throw error;
+    }
+  }
+
+  /**
+   * Admin: refuse a queued (or retry-pending) withdrawal and refund the wallet
+   */
+  async rejectPayout(payoutId: string, adminId: string, reason: string): Promise<Payout> {
+    if (!reason?.trim()) {
+      throw new Error('A rejection reason is required');
+    }
+
+    const payout = await this.getQueuedPayout(payoutId, ['PENDING_APPROVAL', 'PENDING']);
+
+    // A retry-pending payout may already be with Interswitch
+    if (payout.status === 'PENDING') {
+      let found: Payout | null;
+
+      try {
+        found = await this.recordStatusAtProvider(payout, adminId);
+      } catch {
         throw new Error(
-          axiosError.response?.data?.message ||
-            axiosError.response?.data?.responseDescription ||
-            'Failed to process withdrawal. Your balance has been refunded.'
+          'Could not confirm the payout status with Interswitch. Try again in a few minutes.'
         );
       }
-      throw new Error('Failed to process withdrawal. Your balance has been refunded.');
+
+      if (found) {
+        throw new Error(
+          `Invalid payout status: Interswitch already has this payout as ${found.status}`
+        );
+      }
+    }
+
+    const claimed = await prisma.payout.updateMany({
+      where: { id: payout.id, status: payout.status },
+      data: {
+        status: 'REJECTED',
+        nextRetryAt: null,
+        responseMessage: reason.trim(),
+        completedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Payout is already being processed');
+    }
+
+    await walletService.reversePayout({
+      payoutId: payout.id,
+      userId: payout.userId,
+      amount: payout.amount,
+      fee: payout.fee,
+      description: `Refund for rejected withdrawal ${payout.transactionReference}`,
+    });
+
+    await this.recordAudit(payout.id, 'REJECTED', payout.status, 'REJECTED', {
+      performedById: adminId,
+      reason: reason.trim(),
+    });
+
+    await notificationService.notifyUser({
+      userId: payout.userId,
+      type: 'PAYOUT_REJECTED',
+      title: '🚫 Withdrawal Rejected',
+      message: `Your withdrawal of ₦${payout.amount.toLocaleString()} was not approved and the full amount has been returned to your wallet. Reason: ${reason.trim()}`,
+      data: { payoutId: payout.id, amount: payout.amount, reason: reason.trim() },
+    });
+
+    return prisma.payout.findUniqueOrThrow({ where: { id: payout.id } });
+  }
+
+  /**
+   * Admin: retry now. A payout waiting on backoff is resubmitted as is; a failed
+   * one (already refunded) becomes a new withdrawal for the same amount.
+   */
+  async forceRetryPayout(payoutId: string, adminId: string): Promise<Payout> {
+    const payout = await prisma.payout.findUnique({ where: { id: payoutId } });
+
+    if (!payout) {
+      throw new Error('Payout not found');
+    }
+
+    if (payout.status === 'PENDING') {
+      await this.recordAudit(payout.id, 'FORCE_RETRIED', 'PENDING', 'PENDING', {
+        performedById: adminId,
+      });
+      return this.resubmit(payout, adminId);
+    }
+
+    if (payout.status === 'FAILED') {
+      const retry = await this.createPayout(payout.userId, payout.amount, {
+        scheduled: payout.scheduled,
+        retryOfId: payout.id,
+        approvedById: adminId,
+      });
+
+      await this.recordAudit(payout.id, 'FORCE_RETRIED', 'FAILED', 'FAILED', {
+        performedById: adminId,
+        metadata: { retryPayoutId: retry.id },
+      });
+
+      return retry;
+    }
+
+    throw new Error(`Invalid payout status: only PENDING or FAILED payouts can be retried`);
+  }
+
+  private async getQueuedPayout(payoutId: string, statuses: string[]): Promise<Payout> {
+    const payout = await prisma.payout.findUnique({ where: { id: payoutId } });
+
+    if (!payout) {
+      throw new Error('Payout not found');
+    }
+
+    if (!statuses.includes(payout.status)) {
+      throw new Error(
+        `Invalid payout status: expected ${statuses.join(' or ')} but payout is ${payout.status}`
+      );
+    }
+
+    return payout;
+  }
+
+  private async notifyPayoutFailed(payout: Payout): Promise<void> {
+    await notificationService.notifyUser({
+      userId: payout.userId,
+      type: 'PAYOUT_FAILED',
+      title: '⚠️ Withdrawal Failed',
+      message: `Your withdrawal of ₦${payout.amount.toLocaleString()} could not be completed. The full amount has been returned to your wallet.`,
+      data: { payoutId: payout.id, amount: payout.amount },
+    });
+  }
+
+  /**
+   * Apply a status reported by Interswitch (status check or webhook). The payout is
+   * claimed from a status still waiting on Interswitch, so a late or repeated report
+   * can't change a payout that was already settled, failed or rejected.
+   */
+  private async applyProviderStatus(
+    payout: Payout,
+    report: { status: string; responseCode?: string; responseDescription?: string },
+    source: 'status_check' | 'webhook'
+  ): Promise<void> {
+    if (!['PROCESSING', 'SUCCESSFUL', 'FAILED'].includes(report.status)) {
+      return;
+    }
+
+    const final = report.status === 'SUCCESSFUL' || report.status === 'FAILED';
+    const claimed = await prisma.payout.updateMany({
+      where: { id: payout.id, OR: AWAITING_PROVIDER },
+      data: {
+        status: report.status,
+        nextRetryAt: null,
+        responseCode: report.responseCode,
+        responseMessage: report.responseDescription,
+        completedAt: final ? new Date() : null,
+      },
+    });
+
+    if (claimed.count === 0) {
+      console.warn(
+        `⚠️ Ignoring ${report.status} from ${source} for payout ${payout.transactionReference}: it is no longer awaiting Interswitch`
+      );
+      return;
     }
+
+    // If failed, refund the wallet
+    if (report.status === 'FAILED') {
+      await walletService.reversePayout({
+        payoutId: payout.id,
+        userId: payout.userId,
+        amount: payout.amount,
+        fee: payout.fee,
+        description: `Refund for failed withdrawal ${payout.transactionReference}`,
+      });
+    }
+
+    if (report.status === 'SUCCESSFUL') {
+      await walletService.settlePayout(payout.id, payout.netAmount);
+    }
+
+    await this.recordProviderOutcome(payout, report.status, source, report);
+  }
+
+  /**
+   * Audit a final status reported by Interswitch (status check or webhook)
+   */
+  private async recordProviderOutcome(
+    payout: Payout,
+    status: string,
+    source: 'status_check' | 'webhook',
+    response: { responseCode?: string; responseDescription?: string }
+  ): Promise<void> {
+    if (status === payout.status || (status !== 'SUCCESSFUL' && status !== 'FAILED')) {
+      return;
+    }
+
+    await this.recordAudit(
+      payout.id,
+      status === 'SUCCESSFUL' ? 'SUCCEEDED' : 'FAILED',
+      payout.status,
+      status,
+      {
+        reason: response.responseDescription,
+        metadata: { source, responseCode: response.responseCode ?? null },
+      }
+    );
+  }
+
+  private async recordAudit(
+    payoutId: string,
+    action: PayoutAuditAction,
+    fromStatus: string | null,
+    toStatus: string,
+    details: { performedById?: string; reason?: string; metadata?: Prisma.InputJsonValue } = {}
+  ): Promise<void> {
+    await prisma.payoutAuditLog.create({
+      data: {
+        payoutId,
+        action,
+        fromStatus,
+        toStatus,
+        performedById: details.performedById,
+        reason: details.reason,
+        metadata: details.metadata,
+      },
+    });
   }
 
   /**
@@ -472,6 +1116,10 @@ export class PayoutService {
 
       return response.data;
     } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new Error('Payout not found at Interswitch');
+      }
+
       console.error('Failed to get payout status:', error);
       throw new Error('Failed to check payout status');
     }
@@ -497,28 +1145,9 @@ export class PayoutService {
     try {
       const status = await this.getPayoutStatus(transactionReference);
 
-      const updatedPayout = await prisma.payout.update({
-        where: { transactionReference },
-        data: {
-          status: status.status,
-          responseCode: status.responseCode,
-          responseMessage: status.responseDescription,
-          completedAt:
-            status.status === 'SUCCESSFUL' || status.status === 'FAILED' ? new Date() : null,
-        },
-      });
-
-      // If failed, refund the wallet
-      if (status.status === 'FAILED') {
-        const totalDebit = payout.amount + payout.fee;
-        await this.refundWallet(
-          payout.userId,
-          totalDebit,
-          `Refund for failed withdrawal ${transactionReference}`
-        );
-      }
+      await this.applyProviderStatus(payout, status, 'status_check');
 
-      return updatedPayout;
+      return await prisma.payout.findUniqueOrThrow({ where: { id: payout.id } });
     } catch (error) {
       console.error('Failed to update payout status:', error);
       throw error;
@@ -566,80 +1195,6 @@ export class PayoutService {
     return payout;
   }
 
-  /**
-   * Debit user wallet
-   */
-  private async debitWallet(userId: string, amount: number, description: string) {
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { walletBalance: true },
-    });
-
-    if (!user) {
-      throw new Error('User not found');
-    }
-
-    const balanceBefore = user.walletBalance;
-    const balanceAfter = balanceBefore - amount;
-
-    if (balanceAfter < 0) {
-      throw new Error('Insufficient balance');
-    }
-
-    // Update user wallet balance
-    await prisma.user.update({
-      where: { id: userId },
-      data: { walletBalance: balanceAfter },
-    });
-
-    // Create wallet transaction record
-    await prisma.walletTransaction.create({
-      data: {
-        userId,
-        type: 'DEBIT',
-        amount,
-        balanceBefore,
-        balanceAfter,
-        description,
-      },
-    });
-  }
-
-  /**
-   * Refund user wallet (in case of failed payout)
-   */
-  private async refundWallet(userId: string, amount: number, description: string) {
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { walletBalance: true },
-    });
-
-    if (!user) {
-      throw new Error('User not found');
-    }
-
-    const balanceBefore = user.walletBalance;
-    const balanceAfter = balanceBefore + amount;
-
-    // Update user wallet balance
-    await prisma.user.update({
-      where: { id: userId },
-      data: { walletBalance: balanceAfter },
-    });
-
-    // Create wallet transaction record
-    await prisma.walletTransaction.create({
-      data: {
-        userId,
-        type: 'CREDIT',
-        amount,
-        balanceBefore,
-        balanceAfter,
-        description,
-      },
-    });
-  }
-
   /**
    * Handle webhook from Interswitch (status updates)
    */
@@ -656,26 +1211,11 @@ export class PayoutService {
         return;
       }
 
-      // Update payout status
-      await prisma.payout.update({
-        where: { transactionReference },
-        data: {
-          status,
-          responseCode,
-          responseMessage: responseDescription,
-          completedAt: status === 'SUCCESSFUL' || status === 'FAILED' ? new Date() : null,
-        },
-      });
-
-      // If failed, refund the wallet
-      if (status === 'FAILED' && payout.status !== 'FAILED') {
-        const totalDebit = payout.amount + payout.fee;
-        await this.refundWallet(
-          payout.userId,
-          totalDebit,
-          `Refund for failed withdrawal ${transactionReference}`
-        );
-      }
+      await this.applyProviderStatus(
+        payout,
+        { status, responseCode, responseDescription },
+        'webhook'
+      );
     } catch (error) {
       console.error('Webhook processing error:', error);
       throw error;
@@ -0,0 +1,368 @@
+/**
+ * Production Update Service
+ *
+ * Designers post notes and photos against each production step, and customers react
+ * to them or ask for changes. A step with an open change request can't be marked
+ * completed until a later update on that step addresses it.
+ */
+
+import prisma from '../config/database';
+import {
+  Order,
+  Prisma,
+  ProductionChangeRequest,
+  ProductionReaction,
+  ProductionUpdate,
+} from '@prisma/client';
+import { notificationService } from './notification.service';
+import { realtimeEventService } from './realtime-event.service';
+import { BEFORE_SHIPPING } from './order-status.service';
+
+export type ProductionStepStatus = 'pending' | 'in_progress' | 'completed';
+
+interface ProductionStepEntry {
+  step: string;
+  status: ProductionStepStatus;
+  completedAt?: string;
+}
+
+export interface RecordProductionUpdateData {
+  note?: string;
+  photos?: string[];
+  stepStatus?: ProductionStepStatus;
+  changeRequestId?: string; // Open change request this update addresses
+}
+
+interface RequestChangeData {
+  message: string;
+  photos?: string[];
+  productionUpdateId?: string; // The update being responded to
+}
+
+const MAX_PHOTOS = 5;
+
+const PRODUCTION_REACTIONS = Object.values(ProductionReaction);
+
+const updateInclude = {
+  author: { select: { id: true, fullName: true, brandName: true, profileImage: true } },
+};
+
+const changeRequestInclude = {
+  customer: { select: { id: true, fullName: true, profileImage: true } },
+};
+
+class ProductionUpdateService {
+  /**
+   * Steps from the order's productionSteps JSON
+   */
+  getSteps(order: Pick<Order, 'productionSteps'>): ProductionStepEntry[] {
+    return Array.isArray(order.productionSteps)
+      ? (order.productionSteps as unknown as ProductionStepEntry[])
+      : [];
+  }
+
+  /**
+   * Reject completing a step while the customer has open change requests on it.
+   * The change request being addressed by the same update doesn't count.
+   */
+  async assertCanComplete(orderId: string, stepName: string, addressingChangeRequestId?: string) {
+    const openRequests = await prisma.productionChangeRequest.count({
+      where: {
+        orderId,
+        stepName,
+        status: 'OPEN',
+        ...(addressingChangeRequestId && { id: { not: addressingChangeRequestId } }),
+      },
+    });
+
+    if (openRequests > 0) {
+      throw new Error(
+        `Invalid step update: the customer has ${openRequests} open change request(s) on "${stepName}"`
+      );
+    }
+  }
+
+  /**
+   * Record the designer's note, photos and step status, resolving the change request
+   * it addresses. Runs inside the caller's transaction; nothing is recorded for a
+   * status-less update without a note or photos.
+   */
+  async recordUpdate(
+    tx: Prisma.TransactionClient,
+    order: Order,
+    authorId: string,
+    stepName: string,
+    data: RecordProductionUpdateData
+  ): Promise<ProductionUpdate | null> {
+    const note = data.note?.trim() || null;
+    const photos = data.photos || [];
+
+    if (photos.length > MAX_PHOTOS) {
+      throw new Error(`Invalid step update: at most ${MAX_PHOTOS} photos per update`);
+    }
+
+    if (data.changeRequestId && !note && photos.length === 0) {
+      throw new Error(
+        'Invalid step update: add a note or photos showing how the change request was addressed'
+      );
+    }
+
+    if (!note && photos.length === 0 && !data.stepStatus) {
+      return null;
+    }
+
+    const update = await tx.productionUpdate.create({
+      data: {
+        orderId: order.id,
+        stepName,
+        authorId,
+        note,
+        photos,
+        stepStatus: data.stepStatus,
+      },
+    });
+
+    if (data.changeRequestId) {
+      // Claim the request so it is only resolved once
+      const resolved = await tx.productionChangeRequest.updateMany({
+        where: { id: data.changeRequestId, orderId: order.id, stepName, status: 'OPEN' },
+        data: { status: 'RESOLVED', resolvedByUpdateId: update.id, resolvedAt: new Date() },
+      });
+
+      if (resolved.count === 0) {
+        throw new Error('Invalid step update: the change request is not open on this step');
+      }
+    }
+
+    return update;
+  }
+
+  /**
+   * Tell the customer about a recorded update (after its transaction commits)
+   */
+  async notifyCustomer(order: Order, update: ProductionUpdate) {
+    const message =
+      update.stepStatus === 'completed'
+        ? `"${update.stepName}" is complete on order #${order.orderNumber}.`
+        : update.note
+          ? `"${update.stepName}" on order #${order.orderNumber}: ${update.note}`
+          : `New photos of "${update.stepName}" on order #${order.orderNumber}.`;
+
+    await this.notify(order, order.customerId, {
+      type: 'PRODUCTION_UPDATE',
+      title: '🧵 Production Update',
+      message,
+      productionUpdateId: update.id,
+    });
+  }
+
+  /**
+   * Production steps with their updates and change requests (customer or designer)
+   */
+  async getOrderProduction(orderId: string, userId: string) {
+    const order = await prisma.order.findFirst({
+      where: {
+        id: orderId,
+        OR: [{ customerId: userId }, { designerId: userId }],
+      },
+    });
+
+    if (!order) {
+      throw new Error('Order not found or access denied');
+    }
+
+    const [updates, changeRequests] = await Promise.all([
+      prisma.productionUpdate.findMany({
+        where: { orderId },
+        include: updateInclude,
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.productionChangeRequest.findMany({
+        where: { orderId },
+        include: changeRequestInclude,
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const steps = this.getSteps(order).map((step) => {
+      const stepChangeRequests = changeRequests.filter((request) => request.stepName === step.step);
+
+      return {
+        ...step,
+        updates: updates.filter((update) => update.stepName === step.step),
+        changeRequests: stepChangeRequests,
+        openChangeRequests: stepChangeRequests.filter((request) => request.status === 'OPEN')
+          .length,
+      };
+    });
+
+    return { orderId, steps };
+  }
+
+  /**
+   * Customer reacts to an update
+   */
+  async reactToUpdate(
+    orderId: string,
+    updateId: string,
+    customerId: string,
+    reaction: string
+  ): Promise<ProductionUpdate> {
+    if (!PRODUCTION_REACTIONS.includes(reaction as ProductionReaction)) {
+      throw new Error(`Invalid reaction. Must be one of: ${PRODUCTION_REACTIONS.join(', ')}`);
+    }
+
+    const order = await this.getCustomerOrder(orderId, customerId);
+
+    const existing = await prisma.productionUpdate.findFirst({
+      where: { id: updateId, orderId },
+    });
+
+    if (!existing) {
+      throw new Error('Production update not found');
+    }
+
+    const update = await prisma.productionUpdate.update({
+      where: { id: updateId },
+      data: { reaction: reaction as ProductionReaction, reactedAt: new Date() },
+      include: updateInclude,
+    });
+
+    this.publish(order, 'production_reaction', customerId, {
+      stepId: update.stepName,
+      productionUpdateId: update.id,
+      reaction: update.reaction,
+    });
+
+    return update;
+  }
+
+  /**
+   * Customer asks for changes on a step before it is completed
+   */
+  async requestChange(
+    orderId: string,
+    stepName: string,
+    customerId: string,
+    data: RequestChangeData
+  ): Promise<ProductionChangeRequest> {
+    const order = await this.getCustomerOrder(orderId, customerId);
+
+    if (!BEFORE_SHIPPING.includes(order.status)) {
+      throw new Error('Invalid change request: production has finished on this order');
+    }
+
+    const step = this.getSteps(order).find((entry) => entry.step === stepName);
+    if (!step) {
+      throw new Error('Production step not found');
+    }
+
+    if (step.status === 'completed') {
+      throw new Error('Invalid change request: this step is already completed');
+    }
+
+    const message = data.message?.trim();
+    if (!message) {
+      throw new Error('A message describing the changes is required');
+    }
+
+    const photos = data.photos || [];
+    if (photos.length > MAX_PHOTOS) {
+      throw new Error(`Invalid change request: at most ${MAX_PHOTOS} photos per request`);
+    }
+
+    if (data.productionUpdateId) {
+      const update = await prisma.productionUpdate.findFirst({
+        where: { id: data.productionUpdateId, orderId, stepName },
+      });
+
+      if (!update) {
+        throw new Error('Production update not found');
+      }
+    }
+
+    const changeRequest = await prisma.productionChangeRequest.create({
+      data: {
+        orderId,
+        stepName,
+        productionUpdateId: data.productionUpdateId,
+        customerId,
+        message,
+        photos,
+      },
+      include: changeRequestInclude,
+    });
+
+    await this.notify(order, order.designerId, {
+      type: 'PRODUCTION_CHANGE_REQUESTED',
+      title: '✏️ Changes Requested',
+      message: `The customer asked for changes to "${stepName}" on order #${order.orderNumber}: ${message}`,
+      productionChangeRequestId: changeRequest.id,
+    });
+
+    this.publish(order, 'production_change_requested', customerId, {
+      stepId: stepName,
+      productionChangeRequestId: changeRequest.id,
+    });
+
+    return changeRequest;
+  }
+
+  private async getCustomerOrder(orderId: string, customerId: string): Promise<Order> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, customerId },
+    });
+
+    if (!order) {
+      throw new Error('Order not found or access denied');
+    }
+
+    return order;
+  }
+
+  private async notify(
+    order: Order,
+    userId: string,
+    content: { type: string; title: string; message: string } & Record<string, string>
+  ) {
+    const { type, title, message, ...ids } = content;
+
+    try {
+      await notificationService.notifyUser({
+        userId,
+        type,
+        title,
+        message,
+        orderId: order.id,
+        data: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          ...ids,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to send production update notification:', error);
+    }
+  }
+
+  private publish(
+    order: Order,
+    action: string,
+    actorUserId: string,
+    payload: Record<string, unknown>
+  ) {
+    realtimeEventService.publishToUsers([order.customerId, order.designerId], {
+      type: 'ORDER_UPDATED',
+      domain: 'order',
+      action,
+      entityId: order.id,
+      actorUserId,
+      payload: {
+        orderId: order.id,
+        ...payload,
+      },
+    });
+  }
+}
+
+export const productionUpdateService = new ProductionUpdateService();
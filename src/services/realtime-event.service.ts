@@ -1,7 +1,15 @@
 import { Response } from 'express';
 import { randomUUID } from 'crypto';
+import { toLegacyResponse } from '../utils/legacy-order-status';
 
-export type RealtimeDomain = 'custom_request' | 'offer' | 'notification' | 'order' | 'wallet';
+export type RealtimeDomain =
+  | 'custom_request'
+  | 'offer'
+  | 'notification'
+  | 'order'
+  | 'wallet'
+  | 'message'
+  | 'payment';
 
 export interface RealtimeEventPayload {
   [key: string]: unknown;
@@ -23,13 +31,18 @@ interface SseClient {
   userId: string;
   response: Response;
   heartbeatTimer: NodeJS.Timeout;
+  legacyOrderStatuses: boolean; // Older app build: order statuses are sent with legacy names
 }
 
 class RealtimeEventService {
   private readonly clientsByUser = new Map<string, Map<string, SseClient>>();
   private readonly heartbeatIntervalMs = 15000;
 
-  subscribe(userId: string, response: Response): void {
+  subscribe(
+    userId: string,
+    response: Response,
+    options: { legacyOrderStatuses?: boolean } = {}
+  ): void {
     response.setHeader('Content-Type', 'text/event-stream');
     response.setHeader('Cache-Control', 'no-cache, no-transform');
     response.setHeader('Connection', 'keep-alive');
@@ -50,6 +63,7 @@ class RealtimeEventService {
       userId,
       response,
       heartbeatTimer,
+      legacyOrderStatuses: options.legacyOrderStatuses ?? false,
     });
     this.clientsByUser.set(userId, userClients);
 
@@ -95,7 +109,10 @@ class RealtimeEventService {
     };
 
     clients.forEach((client) => {
-      this.writeEvent(client.response, fullEvent);
+      this.writeEvent(
+        client.response,
+        client.legacyOrderStatuses ? this.toLegacyEvent(fullEvent) : fullEvent
+      );
     });
 
     console.log(`[Realtime] Event delivered to ${clients.size} client(s) for user ${userId}`);
@@ -141,6 +158,21 @@ class RealtimeEventService {
     this.clientsByUser.set(userId, userClients);
   }
 
+  /**
+   * Event with order statuses renamed for an older app build. Order events carry the
+   * order's own status at the top of their payload.
+   */
+  private toLegacyEvent(event: RealtimeEvent): RealtimeEvent {
+    if (!event.payload) {
+      return event;
+    }
+
+    return {
+      ...event,
+      payload: toLegacyResponse(event.payload, event.domain === 'order') as RealtimeEventPayload,
+    };
+  }
+
   private writeEvent(response: Response, event: RealtimeEvent): void {
     const eventId = randomUUID();
     response.write(`id: ${eventId}\n`);
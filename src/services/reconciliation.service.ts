@@ -0,0 +1,534 @@
+import { LedgerAccountType, LedgerDirection, Prisma, ReconciliationStatus } from '@prisma/client';
+import prisma from '../config/database';
+import adminEventsService from './admin-events.service';
+import { ledgerService } from './ledger.service';
+import { voucherService } from './voucher.service';
+import { fromKobo, toKobo } from '../utils/money';
+
+/**
+ * Reconciliation Service
+ * Recomputes wallet, escrow and payout balances from history and compares them
+ * with the stored figures and the ledger. Mismatches are recorded per user and
+ * per order in a report; any drift raises an admin SYSTEM_ALERT.
+ */
+
+export interface ReconciliationIssue {
+  code: string;
+  message: string;
+  expected?: number;
+  actual?: number;
+}
+
+interface UserMismatch {
+  userId: string;
+  issues: ReconciliationIssue[];
+}
+
+interface OrderMismatch {
+  orderId: string;
+  orderNumber: string;
+  issues: ReconciliationIssue[];
+}
+
+// Float-era amounts are rounded separately (fee vs net), so allow a kobo either way
+const TOLERANCE_KOBO = BigInt(1);
+
+const sumKobo = (amounts: number[]): bigint =>
+  amounts.reduce((sum, amount) => sum + toKobo(amount), BigInt(0));
+
+const withinTolerance = (expected: bigint, actual: bigint): boolean => {
+  const difference = expected > actual ? expected - actual : actual - expected;
+  return difference <= TOLERANCE_KOBO;
+};
+
+const mismatch = (
+  code: string,
+  message: string,
+  expected: bigint,
+  actual: bigint
+): ReconciliationIssue => ({
+  code,
+  message,
+  expected: fromKobo(expected),
+  actual: fromKobo(actual),
+});
+
+class ReconciliationService {
+  /**
+   * Run a full reconciliation and store the report
+   */
+  async run(triggeredById?: string) {
+    const startedAt = new Date();
+
+    // Ledger checks only apply to activity after the ledger was introduced
+    const firstEntry = await prisma.ledgerEntry.findFirst({
+      orderBy: { createdAt: 'asc' },
+      select: { createdAt: true },
+    });
+    const ledgerStart = firstEntry?.createdAt ?? null;
+
+    const ledger = await ledgerService.verifyLedger();
+    const ledgerIssues: ReconciliationIssue[] = [];
+
+    if (!ledger.balanced) {
+      ledgerIssues.push({
+        code: 'LEDGER_UNBALANCED',
+        message: 'Total debits do not equal total credits',
+        expected: ledger.totalDebits,
+        actual: ledger.totalCredits,
+      });
+    }
+
+    for (const account of ledger.mismatchedAccounts) {
+      ledgerIssues.push({
+        code: 'ACCOUNT_BALANCE_DRIFT',
+        message: `Stored balance of ${account.key} does not match its postings`,
+        expected: account.computedBalance,
+        actual: account.balance,
+      });
+    }
+
+    const users = await this.checkUsers();
+    const payouts = await this.checkPayouts(ledgerStart);
+    const orders = await this.checkOrders();
+
+    const userMismatches = this.mergeUserIssues(users.mismatches, payouts.mismatches);
+    const drift =
+      ledgerIssues.length > 0 || userMismatches.length > 0 || orders.mismatches.length > 0;
+
+    const report = await prisma.reconciliationReport.create({
+      data: {
+        status: drift ? ReconciliationStatus.DRIFT : ReconciliationStatus.CLEAN,
+        triggeredById,
+        usersChecked: users.checked,
+        ordersChecked: orders.checked,
+        accountsChecked: ledger.accountsChecked,
+        payoutsChecked: payouts.checked,
+        ledgerIssues: ledgerIssues as unknown as Prisma.InputJsonValue,
+        userMismatches: userMismatches as unknown as Prisma.InputJsonValue,
+        orderMismatches: orders.mismatches as unknown as Prisma.InputJsonValue,
+        startedAt,
+      },
+    });
+
+    if (drift) {
+      adminEventsService.emitSystemAlert(
+        'error',
+        `Reconciliation found drift: ${ledgerIssues.length} ledger issues, ${userMismatches.length} users, ${orders.mismatches.length} orders`,
+        {
+          reportId: report.id,
+          ledgerIssues: ledgerIssues.length,
+          userMismatches: userMismatches.length,
+          orderMismatches: orders.mismatches.length,
+        }
+      );
+    }
+
+    return report;
+  }
+
+  async listReports(filters: { status?: string; page?: number; limit?: number }) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const where: Prisma.ReconciliationReportWhereInput = {};
+    if (
+      filters.status &&
+      Object.values(ReconciliationStatus).includes(filters.status as ReconciliationStatus)
+    ) {
+      where.status = filters.status as ReconciliationStatus;
+    }
+
+    const [reports, total] = await Promise.all([
+      prisma.reconciliationReport.findMany({
+        where,
+        // Summaries only; fetch a single report for the mismatch details
+        select: {
+          id: true,
+          status: true,
+          usersChecked: true,
+          ordersChecked: true,
+          accountsChecked: true,
+          payoutsChecked: true,
+          startedAt: true,
+          finishedAt: true,
+          triggeredBy: { select: { id: true, fullName: true } },
+        },
+        orderBy: { finishedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.reconciliationReport.count({ where }),
+    ]);
+
+    return {
+      reports,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getReport(reportId: string) {
+    const report = await prisma.reconciliationReport.findUnique({
+      where: { id: reportId },
+      include: { triggeredBy: { select: { id: true, fullName: true } } },
+    });
+
+    if (!report) {
+      throw new Error('Reconciliation report not found');
+    }
+
+    return report;
+  }
+
+  /**
+   * walletBalance vs the sum of wallet transactions, and vs the ledger
+   */
+  private async checkUsers(): Promise<{ checked: number; mismatches: UserMismatch[] }> {
+    const [users, transactionTotals, availableAccounts] = await Promise.all([
+      prisma.user.findMany({
+        where: {
+          OR: [
+            { walletBalance: { not: 0 } },
+            { walletTransactions: { some: {} } },
+            { ledgerAccounts: { some: { type: LedgerAccountType.DESIGNER_AVAILABLE } } },
+          ],
+        },
+        select: { id: true, walletBalance: true },
+      }),
+      prisma.walletTransaction.groupBy({
+        by: ['userId', 'type'],
+        _sum: { amount: true },
+      }),
+      prisma.ledgerAccount.findMany({
+        where: { type: LedgerAccountType.DESIGNER_AVAILABLE },
+        select: { userId: true, balance: true },
+      }),
+    ]);
+
+    const ledgerByUser = new Map(
+      availableAccounts.map((account) => [account.userId, account.balance])
+    );
+
+    const mismatches: UserMismatch[] = [];
+
+    for (const user of users) {
+      const issues: ReconciliationIssue[] = [];
+      const stored = toKobo(user.walletBalance);
+
+      const totalOf = (type: string) =>
+        transactionTotals.find((row) => row.userId === user.id && row.type === type)?._sum.amount ||
+        0;
+      const fromHistory = toKobo(totalOf('CREDIT')) - toKobo(totalOf('DEBIT'));
+
+      if (!withinTolerance(fromHistory, stored)) {
+        issues.push(
+          mismatch(
+            'WALLET_HISTORY_MISMATCH',
+            'walletBalance does not equal credits minus debits in wallet transactions',
+            fromHistory,
+            stored
+          )
+        );
+      }
+
+      const ledgerBalance = ledgerByUser.get(user.id) ?? BigInt(0);
+      if (ledgerBalance !== stored) {
+        issues.push(
+          mismatch(
+            'WALLET_LEDGER_MISMATCH',
+            'walletBalance does not equal the DESIGNER_AVAILABLE ledger balance',
+            ledgerBalance,
+            stored
+          )
+        );
+      }
+
+      if (issues.length > 0) {
+        mismatches.push({ userId: user.id, issues });
+      }
+    }
+
+    return { checked: users.length, mismatches };
+  }
+
+  /**
+   * Every payout since the ledger started must be debited, and then either
+   * settled (SUCCESSFUL) or reversed (FAILED / REJECTED)
+   */
+  private async checkPayouts(
+    ledgerStart: Date | null
+  ): Promise<{ checked: number; mismatches: UserMismatch[] }> {
+    if (!ledgerStart) {
+      return { checked: 0, mismatches: [] };
+    }
+
+    const payouts = await prisma.payout.findMany({
+      where: { createdAt: { gte: ledgerStart } },
+      select: { id: true, userId: true, status: true, amount: true, fee: true },
+    });
+
+    const references = payouts.flatMap((payout) => [
+      `payout:${payout.id}`,
+      `payout-reversal:${payout.id}`,
+      `payout-settled:${payout.id}`,
+    ]);
+    const entries = await prisma.ledgerEntry.findMany({
+      where: { reference: { in: references } },
+      select: { reference: true },
+    });
+    const posted = new Set(entries.map((entry) => entry.reference));
+
+    const issuesByUser = new Map<string, ReconciliationIssue[]>();
+    const flag = (userId: string, issue: ReconciliationIssue) => {
+      issuesByUser.set(userId, [...(issuesByUser.get(userId) || []), issue]);
+    };
+
+    for (const payout of payouts) {
+      const debited = posted.has(`payout:${payout.id}`);
+      const total = payout.amount + payout.fee;
+
+      if (payout.status === 'FAILED' || payout.status === 'REJECTED') {
+        if (debited && !posted.has(`payout-reversal:${payout.id}`)) {
+          flag(payout.userId, {
+            code: 'PAYOUT_NOT_REVERSED',
+            message: `${payout.status === 'FAILED' ? 'Failed' : 'Rejected'} payout ${payout.id} was debited but never returned to the wallet`,
+            expected: total,
+          });
+        }
+        continue;
+      }
+
+      if (!debited) {
+        flag(payout.userId, {
+          code: 'PAYOUT_NOT_DEBITED',
+          message: `Payout ${payout.id} (${payout.status}) has no wallet debit in the ledger`,
+          expected: total,
+        });
+      }
+
+      if (payout.status === 'SUCCESSFUL' && !posted.has(`payout-settled:${payout.id}`)) {
+        flag(payout.userId, {
+          code: 'PAYOUT_NOT_SETTLED',
+          message: `Successful payout ${payout.id} has no settlement in the ledger`,
+          expected: payout.amount,
+        });
+      }
+    }
+
+    return {
+      checked: payouts.length,
+      mismatches: [...issuesByUser].map(([userId, issues]) => ({ userId, issues })),
+    };
+  }
+
+  /**
+   * Per order: payment vs price, released amounts vs price, and (for orders
+   * captured through the ledger) escrow movements vs the order's own figures
+   */
+  private async checkOrders(): Promise<{ checked: number; mismatches: OrderMismatch[] }> {
+    const orders = await prisma.order.findMany({
+      where: {
+        OR: [{ paymentTransactionId: { not: null } }, { paymentReleasedAt: { not: null } }],
+      },
+      select: {
+        id: true,
+        orderNumber: true,
+        finalPrice: true,
+        amountPaid: true,
+        fullyPaidAt: true,
+        discountAmount: true,
+        discountFundedBy: true,
+        paymentAmount: true,
+        platformFee: true,
+        paymentReleasedAt: true,
+        status: true,
+        paymentTransaction: { select: { id: true, amount: true, refundedAmount: true } },
+        payments: {
+          where: { status: 'SUCCESSFUL' },
+          select: { id: true, amount: true, refundedAmount: true },
+        },
+        dispute: { select: { customerRefundAmount: true } },
+      },
+    });
+
+    // The designer's pending share has left escrow but is still held for the order
+    const escrowLines = await prisma.ledgerLine.findMany({
+      where: {
+        account: {
+          type: { in: [LedgerAccountType.CUSTOMER_ESCROW, LedgerAccountType.DESIGNER_PENDING] },
+        },
+        entry: { orderId: { in: orders.map((order) => order.id) } },
+      },
+      select: {
+        direction: true,
+        amount: true,
+        account: { select: { type: true } },
+        entry: { select: { orderId: true, reference: true } },
+      },
+    });
+
+    const escrowByOrder = new Map<
+      string,
+      { captured: bigint; funded: bigint; net: bigint; released: boolean }
+    >();
+    for (const line of escrowLines) {
+      const orderId = line.entry.orderId!;
+      const totals = escrowByOrder.get(orderId) || {
+        captured: BigInt(0),
+        funded: BigInt(0),
+        net: BigInt(0),
+        released: false,
+      };
+
+      const isEscrow = line.account.type === LedgerAccountType.CUSTOMER_ESCROW;
+
+      if (line.direction === LedgerDirection.CREDIT) {
+        totals.net += line.amount;
+        if (isEscrow && line.entry.reference.startsWith('payment:')) {
+          totals.captured += line.amount;
+        }
+        if (isEscrow && line.entry.reference.startsWith('voucher:')) {
+          totals.funded += line.amount;
+        }
+      } else {
+        totals.net -= line.amount;
+      }
+
+      if (line.entry.reference === `order-release:${orderId}`) {
+        totals.released = true;
+      }
+
+      escrowByOrder.set(orderId, totals);
+    }
+
+    const mismatches: OrderMismatch[] = [];
+
+    for (const order of orders) {
+      const issues: ReconciliationIssue[] = [];
+      // What the customer pays: the price less any voucher discount
+      const price = toKobo(order.finalPrice) - toKobo(order.discountAmount);
+      const platformFunding = toKobo(voucherService.getPlatformFunding(order));
+      // Every payment on a payment plan; older orders may only link their first one
+      const payments =
+        order.payments.length > 0
+          ? order.payments
+          : order.paymentTransaction
+            ? [order.paymentTransaction]
+            : [];
+      const payment =
+        payments.length > 0
+          ? {
+              amount: sumKobo(payments.map((entry) => entry.amount)),
+              refundedAmount: sumKobo(payments.map((entry) => entry.refundedAmount)),
+            }
+          : null;
+      // Until the balance is paid only the amount paid so far is expected
+      const paid = order.fullyPaidAt ? price : toKobo(order.amountPaid);
+
+      if (payment && !withinTolerance(paid, payment.amount)) {
+        issues.push(
+          mismatch(
+            'PAYMENT_AMOUNT_MISMATCH',
+            order.fullyPaidAt
+              ? 'Captured payments do not equal the order price'
+              : 'Captured payments do not equal the amount paid towards the order',
+            paid,
+            payment.amount
+          )
+        );
+      }
+
+      // What left escrow for the designer: net payout plus platform fee
+      const releasedGross =
+        order.paymentReleasedAt && order.paymentAmount !== null
+          ? toKobo(order.paymentAmount) + toKobo(order.platformFee || 0)
+          : null;
+
+      if (releasedGross !== null) {
+        const expected = paid - toKobo(order.dispute?.customerRefundAmount || 0) + platformFunding;
+        if (!withinTolerance(expected, releasedGross)) {
+          issues.push(
+            mismatch(
+              'RELEASE_AMOUNT_MISMATCH',
+              'Released amount plus platform fee does not equal the amount paid (plus any platform-funded discount) less customer refunds',
+              expected,
+              releasedGross
+            )
+          );
+        }
+      }
+
+      const escrow = escrowByOrder.get(order.id);
+      if (payment && escrow && escrow.captured > BigInt(0)) {
+        if (escrow.captured !== payment.amount) {
+          issues.push(
+            mismatch(
+              'ESCROW_CAPTURE_MISMATCH',
+              'Escrow captured in the ledger does not equal the payments',
+              payment.amount,
+              escrow.captured
+            )
+          );
+        }
+
+        if (escrow.funded !== platformFunding) {
+          issues.push(
+            mismatch(
+              'VOUCHER_FUNDING_MISMATCH',
+              'Platform-funded voucher discount in the ledger does not equal the order discount',
+              platformFunding,
+              escrow.funded
+            )
+          );
+        }
+
+        if (order.paymentReleasedAt && !escrow.released) {
+          issues.push({
+            code: 'MISSING_LEDGER_RELEASE',
+            message: 'Order is marked as paid out but the ledger has no escrow release',
+          });
+        }
+
+        // A platform-funded discount sits in escrow until it is released or reversed
+        const fundingHeld = order.status === 'REFUNDED' ? BigInt(0) : escrow.funded;
+        const expectedEscrow =
+          payment.amount - payment.refundedAmount + fundingHeld - (releasedGross ?? BigInt(0));
+        if (!withinTolerance(expectedEscrow, escrow.net)) {
+          issues.push(
+            mismatch(
+              'ESCROW_BALANCE_MISMATCH',
+              'Escrow still held in the ledger does not match payment, refunds and release',
+              expectedEscrow,
+              escrow.net
+            )
+          );
+        }
+      }
+
+      if (issues.length > 0) {
+        mismatches.push({ orderId: order.id, orderNumber: order.orderNumber, issues });
+      }
+    }
+
+    return { checked: orders.length, mismatches };
+  }
+
+  private mergeUserIssues(...groups: UserMismatch[][]): UserMismatch[] {
+    const merged = new Map<string, ReconciliationIssue[]>();
+
+    for (const group of groups) {
+      for (const { userId, issues } of group) {
+        merged.set(userId, [...(merged.get(userId) || []), ...issues]);
+      }
+    }
+
+    return [...merged].map(([userId, issues]) => ({ userId, issues }));
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
@@ -0,0 +1,576 @@
+import { LedgerAccountType, LedgerDirection, Prisma, Refund, RefundStatus } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import prisma from '../config/database';
+import { notificationService } from './notification.service';
+import { realtimeEventService } from './realtime-event.service';
+import adminEventsService from './admin-events.service';
+import { ledgerService } from './ledger.service';
+import { orderStatusService, StatusChange } from './order-status.service';
+import { getPaymentErrorMessage } from '../utils/payment-error-messages';
+import { toKobo } from '../utils/money';
+import { getPaymentProvider, ProviderRefundResult } from './payment-providers';
+
+export type RefundSource = 'CUSTOMER' | 'ADMIN' | 'DISPUTE' | 'CANCELLATION';
+
+interface CreateRefundInput {
+  orderId: string;
+  amount?: number; // Omit for a full refund of the remaining captured amount
+  reason: string;
+  requestedById?: string;
+  source: RefundSource;
+}
+
+/**
+ * Provider status update for a refund (from the refund API, a status query or a webhook)
+ */
+export interface RefundProviderUpdate {
+  outcome: ProviderRefundResult['outcome'];
+  responseCode: string;
+  responseDescription?: string;
+  /** Our reference; providers that don't echo it back are matched by their own reference */
+  refundReference?: string;
+  providerReference?: string;
+  /** Last resort for providers that echo neither: the payment and refund amount */
+  txnRef?: string;
+  amount?: number;
+}
+
+/**
+ * Refunds that still hold part of a payment. A FAILED refund can be resubmitted,
+ * so its amount stays reserved until it succeeds.
+ */
+const RESERVED_REFUND_STATUSES: RefundStatus[] = ['PENDING', 'PROCESSING', 'FAILED'];
+
+const roundNaira = (amount: number) => Math.round(amount * 100) / 100;
+
+export class RefundService {
+  /**
+   * Generate unique refund reference
+   */
+  generateRefundRef(): string {
+    const timestamp = Date.now();
+    const uuid = uuidv4().split('-')[0];
+    return `RF-${timestamp}-${uuid}`.toUpperCase();
+  }
+
+  /**
+   * Refund an order's captured payments and submit each refund to its provider.
+   * On a payment plan the amount is taken from the latest payment first, giving one
+   * refund per payment. Provider failures are recorded on the refunds rather than thrown.
+   */
+  async createRefund(input: CreateRefundInput): Promise<Refund[]> {
+    const created = await prisma.$transaction((tx) => this.createRefundRecords(input, tx));
+
+    return this.submitRefunds(created);
+  }
+
+  /**
+   * Create an order's refunds inside the caller's transaction without submitting them.
+   * The order row is locked so concurrent refunds can't both pass the refundable check;
+   * pass the result to submitRefunds once the transaction has committed.
+   */
+  async createRefundRecords(
+    input: CreateRefundInput,
+    tx: Prisma.TransactionClient
+  ): Promise<Refund[]> {
+    const reason = input.reason?.trim();
+    if (!reason) {
+      throw new Error('Refund reason is required');
+    }
+
+    await tx.$queryRaw`SELECT id FROM "orders" WHERE id = ${input.orderId} FOR UPDATE`;
+
+    const order = await tx.order.findUnique({
+      where: { id: input.orderId },
+      include: {
+        payments: {
+          where: { status: 'SUCCESSFUL' },
+          orderBy: { paidAt: 'desc' },
+          include: {
+            refunds: {
+              where: { status: { in: RESERVED_REFUND_STATUSES } },
+              select: { amount: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    if (order.payments.length === 0) {
+      throw new Error('No captured payment found for this order');
+    }
+
+    // Dispute rulings and cancellation settlements refund what they take out of escrow.
+    // Anything else may only refund an order that was cancelled, and nothing was
+    // released from it.
+    if (input.source === 'CUSTOMER' || input.source === 'ADMIN') {
+      if (order.status !== 'CANCELLED') {
+        throw new Error('Invalid refund: only cancelled orders can be refunded');
+      }
+
+      // A cancellation request settles its own refund (less any designer compensation)
+      const settledCancellation = await tx.cancellationRequest.count({
+        where: { orderId: order.id, settledAt: { not: null } },
+      });
+      if (settledCancellation > 0) {
+        throw new Error(
+          'Invalid refund: the refund for this order was issued when it was cancelled'
+        );
+      }
+    }
+
+    const payments = order.payments.map((payment) => {
+      const reserved = payment.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+      return {
+        payment,
+        untouched: payment.refundedAmount === 0 && reserved === 0,
+        refundable: roundNaira(payment.amount - payment.refundedAmount - reserved),
+      };
+    });
+    const refundable = roundNaira(payments.reduce((sum, entry) => sum + entry.refundable, 0));
+
+    if (refundable <= 0) {
+      throw new Error('This payment has already been fully refunded');
+    }
+
+    const amount = input.amount !== undefined ? roundNaira(input.amount) : refundable;
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error('Invalid refund amount');
+    }
+    if (amount > refundable) {
+      throw new Error(
+        `Invalid refund amount. Maximum refundable is ₦${refundable.toLocaleString()}`
+      );
+    }
+
+    const created: Refund[] = [];
+    let remaining = amount;
+
+    for (const { payment, untouched, refundable: available } of payments) {
+      if (remaining <= 0) {
+        break;
+      }
+      if (available <= 0) {
+        continue;
+      }
+
+      const share = Math.min(available, remaining);
+      remaining = roundNaira(remaining - share);
+
+      const refund = await tx.refund.create({
+        data: {
+          refundReference: this.generateRefundRef(),
+          paymentTransactionId: payment.id,
+          orderId: order.id,
+          amount: share,
+          isFull: share === available && untouched,
+          reason,
+          source: input.source,
+          requestedById: input.requestedById,
+        },
+      });
+
+      console.log(
+        `↩️ [Refund Service] Refund ${refund.refundReference} created for order ${order.orderNumber}: ₦${share.toLocaleString()} (${input.source})`
+      );
+
+      created.push(refund);
+    }
+
+    return created;
+  }
+
+  /**
+   * Submit refunds created by createRefundRecords, one after another
+   */
+  async submitRefunds(refunds: Refund[]): Promise<Refund[]> {
+    const submitted: Refund[] = [];
+    for (const refund of refunds) {
+      submitted.push(await this.submitRefund(refund.id));
+    }
+
+    return submitted;
+  }
+
+  /**
+   * Customer requests a refund for their cancelled order (full remaining amount)
+   */
+  async requestCustomerRefund(orderId: string, customerId: string, reason?: string) {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, customerId },
+    });
+
+    if (!order) {
+      throw new Error('Order not found or access denied');
+    }
+
+    return this.createRefund({
+      orderId,
+      reason: reason || `Refund for cancelled order ${order.orderNumber}`,
+      requestedById: customerId,
+      source: 'CUSTOMER',
+    });
+  }
+
+  /**
+   * Send a PENDING (or previously FAILED) refund to the provider that took the payment.
+   * The refund reference is reused so the provider can de-duplicate retries.
+   */
+  async submitRefund(refundId: string): Promise<Refund> {
+    const refund = await prisma.refund.findUnique({
+      where: { id: refundId },
+      include: { paymentTransaction: true },
+    });
+
+    if (!refund) {
+      throw new Error('Refund not found');
+    }
+
+    if (refund.status !== 'PENDING' && refund.status !== 'FAILED') {
+      throw new Error(`Refund is already ${refund.status.toLowerCase()}`);
+    }
+
+    const payment = refund.paymentTransaction;
+
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: { status: 'PENDING', attempts: { increment: 1 }, failedAt: null },
+    });
+
+    try {
+      // Rejections come back as a FAILED result; only an unknown outcome throws
+      const result = await getPaymentProvider(payment.provider).refund({
+        payment,
+        refundReference: refund.refundReference,
+        amount: refund.amount,
+        reason: refund.reason,
+      });
+
+      return this.applyProviderUpdate({ ...result, refundReference: refund.refundReference });
+    } catch (error) {
+      // Network error / timeout: outcome unknown, keep PENDING so it can be synced or retried
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ [Refund Service] Refund ${refund.refundReference} not submitted:`, message);
+
+      return prisma.refund.update({
+        where: { id: refund.id },
+        data: { responseDescription: `Submission error: ${message}` },
+      });
+    }
+  }
+
+  /**
+   * Query the provider for the current status of a refund
+   */
+  async syncRefundStatus(refundId: string): Promise<Refund> {
+    const refund = await prisma.refund.findUnique({
+      where: { id: refundId },
+      include: { paymentTransaction: true },
+    });
+
+    if (!refund) {
+      throw new Error('Refund not found');
+    }
+
+    if (refund.status === 'SUCCESSFUL') {
+      return refund;
+    }
+
+    const payment = refund.paymentTransaction;
+    const result = await getPaymentProvider(payment.provider).getRefundStatus(refund, payment);
+
+    return this.applyProviderUpdate({ ...result, refundReference: refund.refundReference });
+  }
+
+  /**
+   * Apply a provider status update to a refund. Idempotent: a refund that is
+   * already SUCCESSFUL is never counted twice against the payment.
+   */
+  async applyProviderUpdate(update: RefundProviderUpdate): Promise<Refund> {
+    const refund = await this.findRefundForUpdate(update);
+
+    if (!refund) {
+      throw new Error('Refund not found');
+    }
+
+    if (refund.status === 'SUCCESSFUL') {
+      return refund;
+    }
+
+    const description = update.responseDescription || getPaymentErrorMessage(update.responseCode);
+    const common = {
+      responseCode: update.responseCode,
+      responseDescription: description,
+      ...(update.providerReference ? { providerReference: update.providerReference } : {}),
+    };
+
+    if (update.outcome === 'PENDING') {
+      return prisma.refund.update({
+        where: { id: refund.id },
+        data: { ...common, status: 'PROCESSING' },
+      });
+    }
+
+    if (update.outcome !== 'SUCCESSFUL') {
+      const failed = await prisma.refund.update({
+        where: { id: refund.id },
+        data: { ...common, status: 'FAILED', failedAt: new Date() },
+      });
+
+      console.error(
+        `❌ [Refund Service] Refund ${refund.refundReference} failed: ${update.responseCode} ${description}`
+      );
+      adminEventsService.emitSystemAlert('error', `Refund ${refund.refundReference} failed`, {
+        refundId: refund.id,
+        orderId: refund.orderId,
+        responseCode: update.responseCode,
+        responseDescription: description,
+      });
+
+      return failed;
+    }
+
+    const completed = await prisma.$transaction(async (tx) => {
+      // Guard against a concurrent webhook + status query both completing the refund
+      const claimed = await tx.refund.updateMany({
+        where: { id: refund.id, status: { not: 'SUCCESSFUL' } },
+        data: { ...common, status: 'SUCCESSFUL', completedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const payment = await tx.paymentTransaction.update({
+        where: { id: refund.paymentTransactionId },
+        data: { refundedAmount: { increment: refund.amount } },
+      });
+
+      // Refunded money leaves the customer's escrow and our provider account
+      const offer = await tx.offer.findUniqueOrThrow({
+        where: { id: payment.offerId },
+        select: { customerId: true },
+      });
+      const amount = toKobo(refund.amount);
+
+      await ledgerService.post(
+        {
+          reference: `refund:${refund.id}`,
+          description: `Refund ${refund.refundReference}`,
+          orderId: refund.orderId || undefined,
+          lines: [
+            {
+              account: { type: LedgerAccountType.CUSTOMER_ESCROW, userId: offer.customerId },
+              direction: LedgerDirection.DEBIT,
+              amount,
+            },
+            {
+              account: { type: LedgerAccountType.PROVIDER_CASH },
+              direction: LedgerDirection.CREDIT,
+              amount,
+            },
+          ],
+        },
+        tx
+      );
+
+      // The order is refunded once every payment made towards it has been
+      let orderStatusChange: StatusChange | null = null;
+      const orderPayments = refund.orderId
+        ? await tx.paymentTransaction.findMany({
+            where: { orderId: refund.orderId, status: 'SUCCESSFUL' },
+            select: { amount: true, refundedAmount: true },
+          })
+        : [];
+      const unrefunded = orderPayments.reduce(
+        (sum, orderPayment) => sum + orderPayment.amount - orderPayment.refundedAmount,
+        0
+      );
+      if (refund.orderId && roundNaira(unrefunded) <= 0) {
+        const order = await tx.order.findUnique({ where: { id: refund.orderId } });
+        if (order && (order.status === 'CANCELLED' || order.status === 'DISPUTED')) {
+          // Also cancels the designer's earning and reverses any platform-funded voucher
+          orderStatusChange = await orderStatusService.applyInTransaction(
+            order.id,
+            'REFUNDED',
+            { actor: 'SYSTEM', note: `Refund ${refund.refundReference} completed` },
+            tx
+          );
+        }
+      }
+
+      return { orderStatusChange };
+    });
+
+    const updated = await prisma.refund.findUniqueOrThrow({
+      where: { id: refund.id },
+      include: {
+        order: {
+          select: { id: true, orderNumber: true, customerId: true, designerId: true },
+        },
+      },
+    });
+
+    if (completed && updated.order) {
+      const order = updated.order;
+
+      console.log(
+        `✅ [Refund Service] Refund ${refund.refundReference} completed: ₦${refund.amount.toLocaleString()} for order ${order.orderNumber}`
+      );
+
+      await notificationService.notifyUser({
+        userId: order.customerId,
+        type: 'REFUND_COMPLETED',
+        title: '↩️ Refund Processed',
+        message: `₦${refund.amount.toLocaleString()} has been refunded to your original payment method for order #${order.orderNumber}`,
+        orderId: order.id,
+        data: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          refundId: refund.id,
+          amount: refund.amount,
+        },
+      });
+
+      realtimeEventService.publishToUsers([order.customerId, order.designerId], {
+        type: 'ORDER_UPDATED',
+        domain: 'order',
+        action: 'refund_completed',
+        entityId: order.id,
+        payload: {
+          orderId: order.id,
+          refundId: refund.id,
+          amount: refund.amount,
+        },
+      });
+
+      if (completed.orderStatusChange) {
+        await orderStatusService.runSideEffects(completed.orderStatusChange);
+      }
+      adminEventsService.emitStatsUpdated('refund_completed');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Refunds for an order (customer of the order only)
+   */
+  async getOrderRefunds(orderId: string, customerId: string) {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, customerId },
+      select: { id: true },
+    });
+
+    if (!order) {
+      throw new Error('Order not found or access denied');
+    }
+
+    return prisma.refund.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * List refunds (admin)
+   */
+  async listRefunds(filters: { status?: string; page?: number; limit?: number }) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const where: Prisma.RefundWhereInput = {};
+
+    if (filters.status && filters.status !== 'ALL') {
+      where.status = filters.status as RefundStatus;
+    }
+
+    const [refunds, total] = await Promise.all([
+      prisma.refund.findMany({
+        where,
+        include: {
+          order: {
+            select: {
+              id: true,
+              orderNumber: true,
+              status: true,
+              customer: { select: { id: true, fullName: true, email: true } },
+            },
+          },
+          paymentTransaction: {
+            select: { txnRef: true, amount: true, refundedAmount: true },
+          },
+          requestedBy: { select: { id: true, fullName: true, email: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.refund.count({ where }),
+    ]);
+
+    return {
+      refunds,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get refund by ID (admin)
+   */
+  async getRefundById(refundId: string) {
+    const refund = await prisma.refund.findUnique({
+      where: { id: refundId },
+      include: {
+        order: true,
+        paymentTransaction: true,
+        requestedBy: { select: { id: true, fullName: true, email: true } },
+      },
+    });
+
+    if (!refund) {
+      throw new Error('Refund not found');
+    }
+
+    return refund;
+  }
+
+  private async findRefundForUpdate(update: RefundProviderUpdate): Promise<Refund | null> {
+    if (update.refundReference) {
+      return prisma.refund.findUnique({ where: { refundReference: update.refundReference } });
+    }
+
+    if (update.providerReference) {
+      const refund = await prisma.refund.findFirst({
+        where: { providerReference: update.providerReference },
+      });
+      if (refund) {
+        return refund;
+      }
+    }
+
+    if (update.txnRef && update.amount !== undefined) {
+      // Oldest unsettled refund of that amount on the payment
+      return prisma.refund.findFirst({
+        where: {
+          paymentTransaction: { txnRef: update.txnRef },
+          amount: update.amount,
+          status: { in: RESERVED_REFUND_STATUSES },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+    }
+
+    return null;
+  }
+}
+
+export const refundService = new RefundService();
@@ -0,0 +1,541 @@
+/**
+ * Review Service
+ * Customer reviews of completed orders, designer replies, moderation, and the
+ * rating aggregates kept on designers and designs.
+ */
+
+import prisma from '../config/database';
+import { Prisma, Review, ReviewStatus } from '@prisma/client';
+import { notificationService } from './notification.service';
+import adminEventsService from './admin-events.service';
+import settingsService from './settings.service';
+
+// Reviews that are shown publicly and count toward ratings
+const VISIBLE_STATUSES: ReviewStatus[] = ['PUBLISHED', 'FLAGGED'];
+
+const REVIEWABLE_ORDER_STATUSES = ['DELIVERED', 'COMPLETED'];
+
+export type RatingDistribution = Record<'1' | '2' | '3' | '4' | '5', number>;
+
+export interface ReviewInput {
+  rating: number;
+  comment?: string;
+  photos?: string[];
+}
+
+export interface ListReviewsOptions {
+  page?: number;
+  limit?: number;
+  rating?: number;
+  sort?: 'newest' | 'highest' | 'lowest';
+}
+
+export interface AdminListReviewsFilters {
+  status?: string;
+  designerId?: string;
+  page?: number;
+  limit?: number;
+}
+
+const reviewInclude = {
+  customer: {
+    select: {
+      id: true,
+      fullName: true,
+      profileImage: true,
+    },
+  },
+  design: {
+    select: {
+      id: true,
+      title: true,
+      images: true,
+    },
+  },
+} satisfies Prisma.ReviewInclude;
+
+class ReviewService {
+  /**
+   * Customer reviews an order they received
+   */
+  async createReview(orderId: string, customerId: string, input: ReviewInput) {
+    this.assertValidRating(input.rating);
+
+    const order = await prisma.order.findFirst({
+      where: {
+        id: orderId,
+        customerId,
+      },
+      include: { reviewRecord: { select: { id: true } } },
+    });
+
+    if (!order) {
+      throw new Error('Order not found or access denied');
+    }
+
+    if (!REVIEWABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new Error('Invalid order status: only delivered or completed orders can be reviewed');
+    }
+
+    if (order.reviewRecord) {
+      throw new Error('Review already exists for this order');
+    }
+
+    const editWindowHours = await settingsService.getSetting<number>(
+      'review_edit_window_hours',
+      48
+    );
+    const comment = input.comment?.trim() || null;
+
+    const [review] = await prisma.$transaction([
+      prisma.review.create({
+        data: {
+          orderId,
+          customerId,
+          designerId: order.designerId,
+          designId: order.designId,
+          rating: input.rating,
+          comment,
+          photos: input.photos || [],
+          editableUntil: new Date(Date.now() + editWindowHours * 60 * 60 * 1000),
+        },
+        include: reviewInclude,
+      }),
+      // Keep the legacy order columns in sync for older clients
+      prisma.order.update({
+        where: { id: orderId },
+        data: { rating: input.rating, review: comment },
+      }),
+    ]);
+
+    await this.refreshAggregates(review.designerId, review.designId);
+
+    await notificationService.notifyUser({
+      userId: order.designerId,
+      type: 'NEW_REVIEW',
+      title: '⭐ New Review',
+      message: `${review.customer.fullName || 'A customer'} rated order #${order.orderNumber} ${input.rating}/5`,
+      orderId,
+      data: {
+        reviewId: review.id,
+        orderId,
+        orderNumber: order.orderNumber,
+        rating: input.rating,
+      },
+    });
+
+    return review;
+  }
+
+  /**
+   * Customer edits their review while the edit window is open
+   */
+  async updateReview(reviewId: string, customerId: string, input: Partial<ReviewInput>) {
+    const existing = await this.getReviewOrThrow(reviewId);
+
+    if (existing.customerId !== customerId) {
+      throw new Error('Forbidden: you can only edit your own reviews');
+    }
+
+    if (existing.status === 'HIDDEN') {
+      throw new Error('Forbidden: this review has been hidden by moderators');
+    }
+
+    if (existing.editableUntil < new Date()) {
+      throw new Error('Forbidden: the edit window for this review has closed');
+    }
+
+    if (input.rating !== undefined) {
+      this.assertValidRating(input.rating);
+    }
+
+    const comment = input.comment !== undefined ? input.comment.trim() || null : undefined;
+
+    const [review] = await prisma.$transaction([
+      prisma.review.update({
+        where: { id: reviewId },
+        data: {
+          rating: input.rating,
+          comment,
+          photos: input.photos,
+          editedAt: new Date(),
+        },
+        include: reviewInclude,
+      }),
+      prisma.order.update({
+        where: { id: existing.orderId },
+        data: { rating: input.rating, review: comment },
+      }),
+    ]);
+
+    if (input.rating !== undefined && input.rating !== existing.rating) {
+      await this.refreshAggregates(review.designerId, review.designId);
+    }
+
+    return review;
+  }
+
+  /**
+   * Designer posts (or edits) a public reply to a review
+   */
+  async replyToReview(reviewId: string, designerId: string, reply: string) {
+    const existing = await this.getReviewOrThrow(reviewId);
+
+    if (existing.designerId !== designerId) {
+      throw new Error('Forbidden: you can only reply to reviews of your own orders');
+    }
+
+    const review = await prisma.review.update({
+      where: { id: reviewId },
+      data: {
+        designerReply: reply.trim(),
+        designerRepliedAt: new Date(),
+      },
+      include: reviewInclude,
+    });
+
+    // Only notify on the first reply, not on edits
+    if (!existing.designerReply) {
+      await notificationService.notifyUser({
+        userId: review.customerId,
+        type: 'REVIEW_REPLY',
+        title: '💬 Designer Replied',
+        message: 'The designer replied to your review.',
+        orderId: review.orderId,
+        data: {
+          reviewId: review.id,
+          orderId: review.orderId,
+        },
+      });
+    }
+
+    return review;
+  }
+
+  /**
+   * Report a review for moderation. It stays visible until an admin decides.
+   */
+  async flagReview(reviewId: string, userId: string, reason: string) {
+    const existing = await this.getReviewOrThrow(reviewId);
+
+    if (existing.status === 'HIDDEN') {
+      throw new Error('Review not found');
+    }
+
+    if (existing.customerId === userId) {
+      throw new Error('Invalid request: you cannot flag your own review');
+    }
+
+    const review = await prisma.review.update({
+      where: { id: reviewId },
+      data: {
+        status: 'FLAGGED',
+        flaggedById: userId,
+        flagReason: reason.trim(),
+        flaggedAt: new Date(),
+      },
+    });
+
+    if (existing.status !== 'FLAGGED') {
+      adminEventsService.emitSystemAlert('info', 'Review flagged for moderation', {
+        reviewId,
+        orderId: review.orderId,
+        reason: review.flagReason,
+      });
+    }
+
+    return review;
+  }
+
+  /**
+   * Public reviews of a designer with their rating summary
+   */
+  async getDesignerReviews(designerId: string, options: ListReviewsOptions = {}) {
+    const designer = await prisma.user.findUnique({
+      where: { id: designerId },
+      select: { role: true, averageRating: true, reviewCount: true, ratingDistribution: true },
+    });
+
+    if (!designer || designer.role !== 'DESIGNER') {
+      throw new Error('Designer not found');
+    }
+
+    const result = await this.listVisibleReviews({ designerId }, options);
+
+    return {
+      ...result,
+      summary: {
+        averageRating: designer.averageRating,
+        reviewCount: designer.reviewCount,
+        distribution: this.normalizeDistribution(designer.ratingDistribution),
+      },
+    };
+  }
+
+  /**
+   * Public reviews of a design with its rating summary
+   */
+  async getDesignReviews(designId: string, options: ListReviewsOptions = {}) {
+    const design = await prisma.design.findUnique({
+      where: { id: designId },
+      select: { averageRating: true, reviewCount: true },
+    });
+
+    if (!design) {
+      throw new Error('Design not found');
+    }
+
+    const result = await this.listVisibleReviews({ designId }, options);
+
+    return {
+      ...result,
+      summary: {
+        averageRating: design.averageRating,
+        reviewCount: design.reviewCount,
+      },
+    };
+  }
+
+  /**
+   * Review for an order (customer or designer of the order)
+   */
+  async getOrderReview(orderId: string, userId: string) {
+    const review = await prisma.review.findFirst({
+      where: {
+        orderId,
+        OR: [{ customerId: userId }, { designerId: userId }],
+      },
+      include: reviewInclude,
+    });
+
+    if (!review) {
+      throw new Error('Review not found');
+    }
+
+    return review;
+  }
+
+  /**
+   * List reviews for moderation (admin)
+   */
+  async listReviews(filters: AdminListReviewsFilters) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const where: Prisma.ReviewWhereInput = {};
+
+    if (filters.status && filters.status !== 'ALL') {
+      where.status = filters.status as ReviewStatus;
+    }
+
+    if (filters.designerId) {
+      where.designerId = filters.designerId;
+    }
+
+    const [reviews, total] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        include: {
+          ...reviewInclude,
+          designer: { select: { id: true, fullName: true, brandName: true } },
+          flaggedBy: { select: { id: true, fullName: true, email: true } },
+          order: { select: { id: true, orderNumber: true } },
+        },
+        orderBy: filters.status === 'FLAGGED' ? { flaggedAt: 'asc' } : { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.review.count({ where }),
+    ]);
+
+    return {
+      reviews,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Publish or hide a review (admin). Hidden reviews drop out of the ratings.
+   */
+  async moderateReview(
+    reviewId: string,
+    adminId: string,
+    decision: { action: 'PUBLISH' | 'HIDE'; note?: string }
+  ) {
+    const existing = await this.getReviewOrThrow(reviewId);
+    const status: ReviewStatus = decision.action === 'HIDE' ? 'HIDDEN' : 'PUBLISHED';
+
+    const review = await prisma.review.update({
+      where: { id: reviewId },
+      data: {
+        status,
+        moderatedById: adminId,
+        moderationNote: decision.note,
+        moderatedAt: new Date(),
+      },
+      include: reviewInclude,
+    });
+
+    const wasVisible = VISIBLE_STATUSES.includes(existing.status);
+    const isVisible = VISIBLE_STATUSES.includes(status);
+
+    if (wasVisible !== isVisible) {
+      await this.refreshAggregates(review.designerId, review.designId);
+    }
+
+    if (status === 'HIDDEN' && existing.status !== 'HIDDEN') {
+      await notificationService.notifyUser({
+        userId: review.customerId,
+        type: 'REVIEW_HIDDEN',
+        title: '🚫 Review Removed',
+        message: 'One of your reviews was removed for breaking our review guidelines.',
+        orderId: review.orderId,
+        data: {
+          reviewId: review.id,
+          orderId: review.orderId,
+          note: decision.note,
+        },
+      });
+    }
+
+    return review;
+  }
+
+  /**
+   * Recompute the designer's (and design's) rating from visible reviews
+   */
+  async refreshAggregates(designerId: string, designId: string | null): Promise<void> {
+    const grouped = await prisma.review.groupBy({
+      by: ['rating'],
+      where: { designerId, status: { in: VISIBLE_STATUSES } },
+      _count: { _all: true },
+    });
+
+    const distribution = this.normalizeDistribution(null);
+    let total = 0;
+    let sum = 0;
+
+    for (const group of grouped) {
+      const key = String(group.rating) as keyof RatingDistribution;
+      if (key in distribution) {
+        distribution[key] = group._count._all;
+        total += group._count._all;
+        sum += group.rating * group._count._all;
+      }
+    }
+
+    await prisma.user.update({
+      where: { id: designerId },
+      data: {
+        averageRating: total > 0 ? this.roundRating(sum / total) : 0,
+        reviewCount: total,
+        ratingDistribution: distribution,
+      },
+    });
+
+    if (designId) {
+      const designStats = await prisma.review.aggregate({
+        where: { designId, status: { in: VISIBLE_STATUSES } },
+        _avg: { rating: true },
+        _count: { _all: true },
+      });
+
+      await prisma.design.update({
+        where: { id: designId },
+        data: {
+          averageRating: this.roundRating(designStats._avg.rating || 0),
+          reviewCount: designStats._count._all,
+        },
+      });
+    }
+  }
+
+  private async listVisibleReviews(where: Prisma.ReviewWhereInput, options: ListReviewsOptions) {
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+    const filter: Prisma.ReviewWhereInput = {
+      ...where,
+      status: { in: VISIBLE_STATUSES },
+      ...(options.rating ? { rating: options.rating } : {}),
+    };
+
+    let orderBy: Prisma.ReviewOrderByWithRelationInput[] = [{ createdAt: 'desc' }];
+    if (options.sort === 'highest') {
+      orderBy = [{ rating: 'desc' }, { createdAt: 'desc' }];
+    } else if (options.sort === 'lowest') {
+      orderBy = [{ rating: 'asc' }, { createdAt: 'desc' }];
+    }
+
+    const [reviews, total] = await Promise.all([
+      prisma.review.findMany({
+        where: filter,
+        select: {
+          id: true,
+          orderId: true,
+          rating: true,
+          comment: true,
+          photos: true,
+          editedAt: true,
+          designerReply: true,
+          designerRepliedAt: true,
+          createdAt: true,
+          customer: reviewInclude.customer,
+          design: reviewInclude.design,
+        },
+        orderBy,
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.review.count({ where: filter }),
+    ]);
+
+    return {
+      reviews,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private async getReviewOrThrow(reviewId: string): Promise<Review> {
+    const review = await prisma.review.findUnique({
+      where: { id: reviewId },
+    });
+
+    if (!review) {
+      throw new Error('Review not found');
+    }
+
+    return review;
+  }
+
+  private assertValidRating(rating: number): void {
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new Error('Invalid rating: must be a whole number from 1 to 5');
+    }
+  }
+
+  private normalizeDistribution(value: Prisma.JsonValue | null): RatingDistribution {
+    const stored = (value && typeof value === 'object' ? value : {}) as Record<string, number>;
+    return {
+      '1': stored['1'] || 0,
+      '2': stored['2'] || 0,
+      '3': stored['3'] || 0,
+      '4': stored['4'] || 0,
+      '5': stored['5'] || 0,
+    };
+  }
+
+  private roundRating(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export const reviewService = new ReviewService();
@@ -0,0 +1,261 @@
+import crypto from 'crypto';
+import { Session, User } from '@prisma/client';
+import prisma from '../config/database';
+import { generateToken, getTokenLifetimeSeconds } from '../utils/jwt';
+
+// A client firing parallel refreshes presents the same token twice; the loser
+// replays a token rotated moments ago, which isn't treated as theft
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export type SessionRevokeReason = 'LOGOUT' | 'USER_REVOKED' | 'TOKEN_REUSE' | 'PASSWORD_CHANGED';
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  token: string; // Short-lived access token
+  expiresIn: number; // Access token lifetime in seconds
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+}
+
+/**
+ * Session Service
+ * Issues access/refresh token pairs and tracks the login sessions behind them.
+ *
+ * Refresh tokens look like `<sessionId>.<secret>`; only a hash of the secret is
+ * stored. Every refresh rotates the secret, so presenting an old one means the
+ * token leaked and the whole session is revoked (unless it was rotated within
+ * the last few seconds by a parallel refresh).
+ */
+class SessionService {
+  /**
+   * Start a new session for a user (login, signup)
+   */
+  async createSession(
+    user: Pick<User, 'id' | 'email' | 'role'>,
+    context: SessionContext = {}
+  ): Promise<SessionTokens> {
+    const secret = this.generateSecret();
+
+    const session = await prisma.session.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: this.hashSecret(secret),
+        userAgent: context.userAgent?.slice(0, 255),
+        ipAddress: context.ipAddress,
+        expiresAt: this.getRefreshExpiry(),
+      },
+    });
+
+    return this.issueTokens(user, session.id, secret, session.expiresAt);
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair (rotates the refresh token)
+   */
+  async refreshSession(refreshToken: string, context: SessionContext = {}): Promise<SessionTokens> {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+
+    if (!sessionId || !secret) {
+      throw new Error('Refresh token is malformed');
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { user: true },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      throw new Error('Refresh token is expired or revoked');
+    }
+
+    const presentedHash = this.hashSecret(secret);
+
+    if (!this.safeEqual(presentedHash, session.refreshTokenHash)) {
+      if (this.isRecentlyRotated(session, presentedHash)) {
+        throw new Error('Refresh token already rotated, use the latest refresh token');
+      }
+
+      // An already-rotated token was replayed: assume it was stolen
+      await this.revokeById(session.id, 'TOKEN_REUSE');
+      console.warn(`🚨 Refresh token reuse detected for session ${session.id}`, {
+        userId: session.userId,
+        ip: context.ipAddress,
+      });
+      throw new Error('Refresh token reuse detected, session revoked');
+    }
+
+    const nextSecret = this.generateSecret();
+    const expiresAt = this.getRefreshExpiry();
+
+    // Conditional on the hash we verified so two concurrent refreshes can't both win
+    const rotated = await prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null },
+      data: {
+        refreshTokenHash: this.hashSecret(nextSecret),
+        previousRefreshTokenHash: presentedHash,
+        rotatedAt: new Date(),
+        lastUsedAt: new Date(),
+        expiresAt,
+        ...(context.userAgent ? { userAgent: context.userAgent.slice(0, 255) } : {}),
+        ...(context.ipAddress ? { ipAddress: context.ipAddress } : {}),
+      },
+    });
+
+    if (rotated.count === 0) {
+      // A parallel refresh rotated it first
+      throw new Error('Refresh token already rotated, use the latest refresh token');
+    }
+
+    return this.issueTokens(session.user, session.id, nextSecret, expiresAt);
+  }
+
+  /**
+   * Load an active (not revoked, not expired) session with its user
+   */
+  async getActiveSession(sessionId: string) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { user: true },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Active sessions for a user, most recently used first
+   */
+  async listSessions(userId: string, currentSessionId?: string) {
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        createdAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of the user's own sessions
+   */
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevokeReason = 'USER_REVOKED'
+  ): Promise<void> {
+    const result = await prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    if (result.count === 0) {
+      throw new Error('Session not found');
+    }
+  }
+
+  /**
+   * Revoke every active session for a user, optionally keeping the current one
+   */
+  async revokeAllSessions(
+    userId: string,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+      },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.count;
+  }
+
+  private async revokeById(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+
+  private issueTokens(
+    user: Pick<User, 'id' | 'email' | 'role'>,
+    sessionId: string,
+    secret: string,
+    refreshTokenExpiresAt: Date
+  ): SessionTokens {
+    const token = generateToken({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+    });
+
+    return {
+      token,
+      expiresIn: getTokenLifetimeSeconds(token),
+      refreshToken: `${sessionId}.${secret}`,
+      refreshTokenExpiresAt: refreshTokenExpiresAt.toISOString(),
+    };
+  }
+
+  private generateSecret(): string {
+    return crypto.randomBytes(48).toString('base64url');
+  }
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufA = Buffer.from(a);
+    const bufB = Buffer.from(b);
+    return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+  }
+
+  /**
+   * Whether the presented token is the one a parallel refresh just replaced
+   */
+  private isRecentlyRotated(
+    session: Pick<Session, 'previousRefreshTokenHash' | 'rotatedAt'>,
+    presentedHash: string
+  ): boolean {
+    return (
+      !!session.previousRefreshTokenHash &&
+      !!session.rotatedAt &&
+      Date.now() - session.rotatedAt.getTime() <= ROTATION_GRACE_MS &&
+      this.safeEqual(presentedHash, session.previousRefreshTokenHash)
+    );
+  }
+
+  private getRefreshExpiry(): Date {
+    // Read lazily so the value is picked up after dotenv has loaded
+    const ttlDays = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+    return new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000);
+  }
+}
+
+export default new SessionService();
@@ -1,6 +1,19 @@
 import prisma from '../config/database';
-import { OrderStatus } from '@prisma/client';
-import { notificationService } from './notification.service';
+import { AlterationRequest, Order, OrderStatus, Prisma } from '@prisma/client';
+import { realtimeEventService } from './realtime-event.service';
+import { orderStatusService } from './order-status.service';
+import { alterationService } from './alteration.service';
+import {
+  CarrierTrackingEvent,
+  CarrierWebhookRequest,
+  getCarrierAdapterByKey,
+  resolveCarrierAdapter,
+} from './carriers';
+
+type TrackingSource = 'POLL' | 'WEBHOOK' | 'MANUAL';
+
+// Orders updated by a webhook within this window are not polled again
+const POLL_INTERVAL_MS = 6 * 60 * 60 * 1000;
 
 /**
  * Tracking Service
@@ -13,16 +26,15 @@ class TrackingService {
    */
   async checkShipmentStatus(): Promise<void> {
     try {
-      // Get all orders that are shipped but not yet delivered
+      const pollBefore = new Date(Date.now() - POLL_INTERVAL_MS + 5 * 60 * 1000);
+
+      // Get all orders that are shipped but not yet delivered (and not recently pushed by webhook)
       const shippedOrders = await prisma.order.findMany({
         where: {
           status: OrderStatus.SHIPPED,
           trackingNumber: { not: null },
           deliveredAt: null,
-        },
-        include: {
-          customer: true,
-          designer: true,
+          OR: [{ lastTrackingSyncAt: null }, { lastTrackingSyncAt: { lt: pollBefore } }],
         },
       });
 
@@ -30,50 +42,284 @@ class TrackingService {
 
       for (const order of shippedOrders) {
         try {
-          // For now, we'll implement a mock tracking check
-          // In production, integrate with tracking APIs like:
-          // - AfterShip API
-          // - Sendbox API
-          // - Carrier-specific APIs (DHL, FedEx, etc.)
+          const adapter = resolveCarrierAdapter(order.carrier);
 
-          const deliveryStatus = await this.getTrackingStatus(
+          if (!adapter.isConfigured()) {
+            console.log(
+              `[Tracking] ${adapter.displayName} not configured, skipping order ${order.orderNumber}`
+            );
+            continue;
+          }
+
+          const result = await adapter.getTracking(
             order.trackingNumber!,
-            order.carrier || 'Unknown'
+            order.carrier || undefined
           );
-
-          if (deliveryStatus.isDelivered) {
-            await this.markAsDelivered(order.id, deliveryStatus.deliveredAt);
-          }
+          await this.recordEvents(order, adapter.key, result.events, 'POLL');
         } catch (error) {
           console.error(`[Tracking] Error checking order ${order.id}:`, error);
           // Continue with next order even if one fails
         }
       }
+
+      await this.checkAlterationShipments(pollBefore);
     } catch (error) {
       console.error('[Tracking] Error in checkShipmentStatus:', error);
     }
   }
 
   /**
-   * Get tracking status from carrier API
-   * TODO: Integrate with real tracking APIs
+   * Ingest a carrier webhook push. Returns how many orders and events were updated.
    */
-  private async getTrackingStatus(
+  async ingestWebhook(
+    carrierKey: string,
+    request: CarrierWebhookRequest
+  ): Promise<{ ordersUpdated: number; eventsRecorded: number }> {
+    const adapter = getCarrierAdapterByKey(carrierKey);
+
+    if (!adapter) {
+      throw new Error(`Carrier not found: ${carrierKey}`);
+    }
+
+    if (!adapter.verifyWebhook(request)) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const updates = adapter.parseWebhook(request.body);
+    let ordersUpdated = 0;
+    let eventsRecorded = 0;
+
+    for (const update of updates) {
+      const orders = await prisma.order.findMany({
+        where: {
+          trackingNumber: update.trackingNumber,
+          status: { in: [OrderStatus.SHIPPED, OrderStatus.DELIVERED] },
+        },
+      });
+
+      // Return shipments of altered garments
+      const alterations = await prisma.alterationRequest.findMany({
+        where: { trackingNumber: update.trackingNumber, status: 'SHIPPED' },
+      });
+
+      for (const alteration of alterations) {
+        eventsRecorded += await this.recordAlterationEvents(
+          alteration,
+          adapter.key,
+          update.events,
+          'WEBHOOK'
+        );
+        ordersUpdated++;
+      }
+
+      if (orders.length === 0 && alterations.length === 0) {
+        console.log(
+          `[Tracking] ${adapter.displayName} webhook for unknown tracking number ${update.trackingNumber}`
+        );
+        continue;
+      }
+
+      for (const order of orders) {
+        const recorded = await this.recordEvents(order, adapter.key, update.events, 'WEBHOOK');
+        ordersUpdated++;
+        eventsRecorded += recorded;
+      }
+    }
+
+    console.log(
+      `[Tracking] ${adapter.displayName} webhook: ${updates.length} shipment(s), ${eventsRecorded} new event(s)`
+    );
+
+    return { ordersUpdated, eventsRecorded };
+  }
+
+  /**
+   * Store carrier events for an order (duplicates ignored), update the latest
+   * status, and start the confirmation window when a delivery scan arrives.
+   */
+  async recordEvents(
+    order: Order,
+    carrierKey: string,
+    events: CarrierTrackingEvent[],
+    source: TrackingSource
+  ): Promise<number> {
+    if (!order.trackingNumber) {
+      return 0;
+    }
+
+    const { created, latest } = await this.storeEvents(
+      order.id,
+      order.trackingNumber,
+      carrierKey,
+      events,
+      source
+    );
+
+    await prisma.order.update({
+      where: { id: order.id },
+      data: {
+        lastTrackingSyncAt: new Date(),
+        ...(latest ? { trackingStatus: latest.status } : {}),
+      },
+    });
+
+    if (created.count > 0) {
+      realtimeEventService.publishToUsers([order.customerId, order.designerId], {
+        type: 'ORDER_UPDATED',
+        domain: 'order',
+        action: 'tracking_updated',
+        entityId: order.id,
+        payload: {
+          orderId: order.id,
+          trackingStatus: latest?.status,
+          description: latest?.description,
+          location: latest?.location,
+        },
+      });
+    }
+
+    const delivered = events.find((event) => event.status === 'DELIVERED');
+    if (delivered && order.status === OrderStatus.SHIPPED) {
+      await this.markAsDelivered(order.id, delivered.occurredAt);
+    }
+
+    return created.count;
+  }
+
+  /**
+   * Poll return shipments of altered garments that are on their way to the customer
+   */
+  private async checkAlterationShipments(pollBefore: Date): Promise<void> {
+    const shippedAlterations = await prisma.alterationRequest.findMany({
+      where: {
+        status: 'SHIPPED',
+        trackingNumber: { not: null },
+        OR: [{ lastTrackingSyncAt: null }, { lastTrackingSyncAt: { lt: pollBefore } }],
+      },
+    });
+
+    console.log(`[Tracking] Checking ${shippedAlterations.length} alteration return shipments...`);
+
+    for (const alteration of shippedAlterations) {
+      try {
+        const adapter = resolveCarrierAdapter(alteration.carrier);
+
+        if (!adapter.isConfigured()) {
+          continue;
+        }
+
+        const result = await adapter.getTracking(
+          alteration.trackingNumber!,
+          alteration.carrier || undefined
+        );
+        await this.recordAlterationEvents(alteration, adapter.key, result.events, 'POLL');
+      } catch (error) {
+        console.error(`[Tracking] Error checking alteration ${alteration.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Store carrier events for an alteration's return shipment on its order, and resume
+   * the order's countdown when the delivery scan arrives
+   */
+  private async recordAlterationEvents(
+    alteration: AlterationRequest,
+    carrierKey: string,
+    events: CarrierTrackingEvent[],
+    source: TrackingSource
+  ): Promise<number> {
+    if (!alteration.trackingNumber) {
+      return 0;
+    }
+
+    const { created, latest } = await this.storeEvents(
+      alteration.orderId,
+      alteration.trackingNumber,
+      carrierKey,
+      events,
+      source
+    );
+
+    await prisma.alterationRequest.update({
+      where: { id: alteration.id },
+      data: {
+        lastTrackingSyncAt: new Date(),
+        ...(latest ? { trackingStatus: latest.status } : {}),
+      },
+    });
+
+    const delivered = events.find((event) => event.status === 'DELIVERED');
+    if (delivered) {
+      await alterationService.markReturnDelivered(alteration.id, delivered.occurredAt, 'TRACKING');
+    }
+
+    return created.count;
+  }
+
+  /**
+   * Insert a shipment's events (duplicates ignored) and pick out the latest one
+   */
+  private async storeEvents(
+    orderId: string,
     trackingNumber: string,
-    carrier: string
-  ): Promise<{ isDelivered: boolean; deliveredAt?: Date }> {
-    // MOCK IMPLEMENTATION
-    // In production, implement actual API calls based on carrier
+    carrierKey: string,
+    events: CarrierTrackingEvent[],
+    source: TrackingSource
+  ) {
+    const created = events.length
+      ? await prisma.trackingEvent.createMany({
+          data: events.map((event) => ({
+            orderId,
+            carrier: carrierKey,
+            trackingNumber,
+            status: event.status,
+            rawStatus: event.rawStatus,
+            description: event.description,
+            location: event.location,
+            occurredAt: event.occurredAt,
+            source,
+          })),
+          skipDuplicates: true,
+        })
+      : { count: 0 };
 
-    // For demo purposes, you could add logic like:
-    // - Check if shipment is older than 7 days = auto-mark delivered
-    // - Integrate with AfterShip, Sendbox, or carrier-specific APIs
+    const latest = [...events].sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime())[0];
 
-    console.log(`[Tracking] Mock check for ${carrier} tracking ${trackingNumber}`);
+    return { created, latest };
+  }
 
-    return {
-      isDelivered: false,
-    };
+  /**
+   * Tracking history for an order (customer or designer of the order)
+   */
+  async getOrderTrackingHistory(orderId: string, userId: string) {
+    const order = await prisma.order.findFirst({
+      where: {
+        id: orderId,
+        OR: [{ customerId: userId }, { designerId: userId }],
+      },
+      select: {
+        id: true,
+        orderNumber: true,
+        status: true,
+        carrier: true,
+        trackingNumber: true,
+        trackingStatus: true,
+        estimatedDelivery: true,
+        shippedAt: true,
+        deliveredAt: true,
+        lastTrackingSyncAt: true,
+        trackingEvents: {
+          orderBy: { occurredAt: 'desc' },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new Error('Order not found or access denied');
+    }
+
+    return order;
   }
 
   /**
@@ -85,25 +331,26 @@ class TrackingService {
     const confirmationWindowEnd = new Date(deliveryDate.getTime() + 10 * 24 * 60 * 60 * 1000); // +10 days
     const autoConfirmAt = confirmationWindowEnd;
 
-    const updatedOrder = await prisma.order.update({
-      where: { id: orderId },
+    // A webhook and a poll may both report delivery; only the first moves the order
+    const order = await orderStatusService.transitionIfAllowed(orderId, OrderStatus.DELIVERED, {
+      actor: 'SYSTEM',
+      note: 'Delivery reported by carrier tracking',
       data: {
-        status: OrderStatus.DELIVERED,
         deliveredAt: deliveryDate,
+        deliveryConfirmedBy: 'TRACKING',
         confirmationWindowStart,
         confirmationWindowEnd,
         autoConfirmAt,
       },
-      include: {
-        customer: true,
-        designer: true,
+      payload: {
+        deliveredAt: deliveryDate.toISOString(),
+        autoConfirmAt: autoConfirmAt.toISOString(),
       },
     });
 
-    console.log(`[Tracking] Order ${orderId} marked as delivered`);
-
-    // Notify customer that order was delivered
-    await notificationService.notifyOrderDelivered(updatedOrder);
+    if (order) {
+      console.log(`[Tracking] Order ${orderId} marked as delivered`);
+    }
   }
 
   /**
@@ -122,7 +369,44 @@ class TrackingService {
       throw new Error('Order must be in SHIPPED status');
     }
 
-    await this.markAsDelivered(orderId);
+    await this.recordEvents(
+      order,
+      'manual',
+      [
+        {
+          status: 'DELIVERED',
+          description: 'Marked as delivered manually',
+          occurredAt: new Date(),
+        },
+      ],
+      'MANUAL'
+    );
+  }
+
+  /**
+   * Record the designer's hand-over to the carrier as the first tracking event
+   */
+  async recordShipmentCreated(order: Order): Promise<void> {
+    if (!order.trackingNumber) {
+      return;
+    }
+
+    const adapter = resolveCarrierAdapter(order.carrier);
+    const data: Prisma.TrackingEventCreateManyInput = {
+      orderId: order.id,
+      carrier: adapter.key,
+      trackingNumber: order.trackingNumber,
+      status: 'INFO_RECEIVED',
+      description: `Shipment handed to ${order.carrier || 'carrier'}`,
+      occurredAt: order.shippedAt || new Date(),
+      source: 'MANUAL',
+    };
+
+    await prisma.trackingEvent.createMany({ data: [data], skipDuplicates: true });
+    await prisma.order.update({
+      where: { id: order.id },
+      data: { trackingStatus: 'INFO_RECEIVED' },
+    });
   }
 }
 
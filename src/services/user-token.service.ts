@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import { UserTokenType } from '@prisma/client';
+import prisma from '../config/database';
+
+/**
+ * User Token Service
+ * Issues and consumes the single-use tokens sent by email (password reset,
+ * email verification). Tokens are stored hashed; issuing a new token
+ * invalidates any unused token of the same type.
+ */
+class UserTokenService {
+  /**
+   * Create a token and return the raw value to embed in the email link
+   */
+  async issue(userId: string, type: UserTokenType, ttlMinutes: number): Promise<string> {
+    const rawToken = crypto.randomBytes(32).toString('base64url');
+
+    await prisma.$transaction([
+      prisma.userToken.updateMany({
+        where: { userId, type, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      prisma.userToken.create({
+        data: {
+          userId,
+          type,
+          tokenHash: this.hash(rawToken),
+          expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+        },
+      }),
+    ]);
+
+    return rawToken;
+  }
+
+  /**
+   * Mark a token as used and return the user it belongs to.
+   * Throws if the token is unknown, expired, already used or of another type.
+   */
+  async consume(rawToken: string, type: UserTokenType): Promise<{ userId: string }> {
+    const token = await prisma.userToken.findUnique({
+      where: { tokenHash: this.hash(rawToken || '') },
+    });
+
+    if (!token || token.type !== type || token.usedAt || token.expiresAt < new Date()) {
+      throw new Error('Invalid or expired token');
+    }
+
+    // Conditional on usedAt so the same link can't be redeemed twice concurrently
+    const claimed = await prisma.userToken.updateMany({
+      where: { id: token.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Invalid or expired token');
+    }
+
+    return { userId: token.userId };
+  }
+
+  /**
+   * When the user was last sent a token of this type (used for resend throttling)
+   */
+  async getLastIssuedAt(userId: string, type: UserTokenType): Promise<Date | null> {
+    const latest = await prisma.userToken.findFirst({
+      where: { userId, type },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+
+    return latest?.createdAt ?? null;
+  }
+
+  private hash(rawToken: string): string {
+    return crypto.createHash('sha256').update(rawToken).digest('hex');
+  }
+}
+
+export const userTokenService = new UserTokenService();
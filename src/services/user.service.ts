@@ -46,6 +46,9 @@ class UserService {
         brandLogo: true,
         brandBanner: true,
         bio: true,
+        averageRating: true,
+        reviewCount: true,
+        ratingDistribution: true,
         createdAt: true,
       },
     });
@@ -71,11 +74,23 @@ class UserService {
       },
     });
 
+    const { averageRating, reviewCount, ratingDistribution, ...profile } = user;
+
     return {
-      ...user,
+      ...profile,
       stats: {
         designCount,
         completedOrders,
+        averageRating,
+        reviewCount,
+      },
+      ratingDistribution: {
+        '1': 0,
+        '2': 0,
+        '3': 0,
+        '4': 0,
+        '5': 0,
+        ...((ratingDistribution as Record<string, number> | null) || {}),
       },
     };
   }
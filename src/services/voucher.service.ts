@@ -0,0 +1,377 @@
+import {
+  Order,
+  Prisma,
+  Voucher,
+  VoucherDiscountType,
+  VoucherFundedBy,
+  VoucherRedemption,
+} from '@prisma/client';
+import prisma from '../config/database';
+
+/**
+ * Voucher Service
+ * Customer-facing discount codes applied to the first payment of an order. A voucher
+ * is funded either by the platform (the designer is still paid on the full price) or
+ * by the designer (who is paid, and charged fees, on the discounted price).
+ */
+
+export interface CreateVoucherData {
+  code: string;
+  description?: string;
+  discountType: string;
+  discountValue: number;
+  maxDiscountAmount?: number | null;
+  minOrderAmount?: number | null;
+  fundedBy?: string;
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+  startsAt?: Date | null;
+  expiresAt?: Date | null;
+  designerId?: string | null;
+  category?: string | null;
+}
+
+export type UpdateVoucherData = Partial<Omit<CreateVoucherData, 'code'>> & {
+  isActive?: boolean;
+};
+
+export interface VoucherQuote {
+  voucher: Voucher;
+  discountAmount: number; // Naira
+  amountAfterDiscount: number; // Naira
+}
+
+interface VoucherTarget {
+  offerId: string;
+  customerId: string;
+  designerId: string;
+  price: number;
+  category?: string | null;
+}
+
+const roundNaira = (amount: number) => Math.round(amount * 100) / 100;
+
+// Redemptions hold a place while their payment is pending and count once it succeeds.
+// Earlier attempts to pay for the same offer are ignored: an offer becomes one order.
+const liveRedemptions = (now: Date, offerId: string): Prisma.VoucherRedemptionWhereInput => ({
+  paymentTransaction: {
+    offerId: { not: offerId },
+    OR: [{ status: 'SUCCESSFUL' }, { status: 'PENDING', expiresAt: { gt: now } }],
+  },
+});
+
+class VoucherService {
+  normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Validate a code for an order and work out the discount. Throws with the reason
+   * the voucher can't be used.
+   */
+  async quote(code: string, target: VoucherTarget): Promise<VoucherQuote> {
+    const voucher = await prisma.voucher.findUnique({
+      where: { code: this.normalizeCode(code) },
+    });
+
+    if (!voucher || !voucher.isActive) {
+      throw new Error('Invalid voucher code');
+    }
+
+    const now = new Date();
+    if (voucher.startsAt && voucher.startsAt > now) {
+      throw new Error('Invalid voucher: this voucher is not active yet');
+    }
+    if (voucher.expiresAt && voucher.expiresAt < now) {
+      throw new Error('Invalid voucher: this voucher has expired');
+    }
+
+    if (voucher.designerId && voucher.designerId !== target.designerId) {
+      throw new Error("Invalid voucher: this voucher can't be used with this designer");
+    }
+    if (
+      voucher.category &&
+      voucher.category.toLowerCase() !== (target.category || '').toLowerCase()
+    ) {
+      throw new Error(`Invalid voucher: this voucher only applies to ${voucher.category}`);
+    }
+    if (voucher.minOrderAmount && target.price < voucher.minOrderAmount) {
+      throw new Error(
+        `Invalid voucher: the minimum order for this voucher is ₦${voucher.minOrderAmount.toLocaleString()}`
+      );
+    }
+
+    if (voucher.usageLimit !== null) {
+      const used = await prisma.voucherRedemption.count({
+        where: { voucherId: voucher.id, ...liveRedemptions(now, target.offerId) },
+      });
+      if (used >= voucher.usageLimit) {
+        throw new Error('Invalid voucher: this voucher has been fully redeemed');
+      }
+    }
+
+    if (voucher.perUserLimit !== null) {
+      const usedByCustomer = await prisma.voucherRedemption.count({
+        where: {
+          voucherId: voucher.id,
+          userId: target.customerId,
+          ...liveRedemptions(now, target.offerId),
+        },
+      });
+      if (usedByCustomer >= voucher.perUserLimit) {
+        throw new Error('Invalid voucher: you have already used this voucher');
+      }
+    }
+
+    const discountAmount = this.calculateDiscount(voucher, target.price);
+    if (discountAmount >= target.price) {
+      throw new Error("Invalid voucher: the discount can't cover the whole price");
+    }
+
+    return {
+      voucher,
+      discountAmount,
+      amountAfterDiscount: roundNaira(target.price - discountAmount),
+    };
+  }
+
+  /**
+   * Reserve the voucher for a payment. The reservation lapses if the payment
+   * fails or expires, so abandoned checkouts don't use up the voucher.
+   */
+  async reserve(
+    paymentTransactionId: string,
+    userId: string,
+    quote: VoucherQuote,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<VoucherRedemption> {
+    return client.voucherRedemption.create({
+      data: {
+        voucherId: quote.voucher.id,
+        userId,
+        paymentTransactionId,
+        discountAmount: quote.discountAmount,
+      },
+    });
+  }
+
+  /**
+   * The part of the discount the platform pays for (tops up escrow with)
+   */
+  getPlatformFunding(order: Pick<Order, 'discountAmount' | 'discountFundedBy'>): number {
+    return order.discountFundedBy === VoucherFundedBy.PLATFORM ? order.discountAmount : 0;
+  }
+
+  /**
+   * What the designer's sale is worth once fully paid: the price, less any discount
+   * the designer agreed to fund. Fees are calculated on this amount.
+   */
+  getSettlementAmount(
+    order: Pick<Order, 'finalPrice' | 'discountAmount' | 'discountFundedBy'>
+  ): number {
+    return order.discountFundedBy === VoucherFundedBy.DESIGNER
+      ? roundNaira(order.finalPrice - order.discountAmount)
+      : order.finalPrice;
+  }
+
+  async createVoucher(data: CreateVoucherData, createdBy: string): Promise<Voucher> {
+    const code = this.normalizeCode(data.code || '');
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      throw new Error('Invalid voucher code. Use 3-32 letters, numbers, dashes or underscores');
+    }
+
+    const existing = await prisma.voucher.findUnique({ where: { code } });
+    if (existing) {
+      throw new Error(`Voucher ${code} already exists`);
+    }
+
+    const fields = this.validateFields(data);
+    if (!fields.discountType || fields.discountValue === undefined) {
+      throw new Error('Discount type and discount value are required');
+    }
+    await this.assertDesigner(fields.designerId);
+
+    return prisma.voucher.create({
+      data: {
+        ...fields,
+        code,
+        discountType: fields.discountType,
+        discountValue: fields.discountValue,
+        createdBy,
+      },
+    });
+  }
+
+  async updateVoucher(voucherId: string, data: UpdateVoucherData): Promise<Voucher> {
+    const voucher = await prisma.voucher.findUnique({ where: { id: voucherId } });
+    if (!voucher) {
+      throw new Error('Voucher not found');
+    }
+
+    const fields = this.validateFields({
+      discountType: voucher.discountType,
+      discountValue: voucher.discountValue,
+      startsAt: voucher.startsAt,
+      expiresAt: voucher.expiresAt,
+      ...data,
+    });
+    await this.assertDesigner(fields.designerId);
+
+    return prisma.voucher.update({
+      where: { id: voucherId },
+      data: {
+        ...fields,
+        ...(data.isActive !== undefined ? { isActive: !!data.isActive } : {}),
+      },
+    });
+  }
+
+  async listVouchers(filters: { active?: boolean; page?: number; limit?: number }) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const where: Prisma.VoucherWhereInput =
+      filters.active !== undefined ? { isActive: filters.active } : {};
+
+    const [vouchers, total] = await Promise.all([
+      prisma.voucher.findMany({
+        where,
+        include: {
+          designer: { select: { id: true, fullName: true, brandName: true } },
+          _count: { select: { orders: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.voucher.count({ where }),
+    ]);
+
+    return {
+      vouchers,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getVoucherById(voucherId: string) {
+    const voucher = await prisma.voucher.findUnique({
+      where: { id: voucherId },
+      include: {
+        designer: { select: { id: true, fullName: true, brandName: true } },
+        createdByUser: { select: { id: true, fullName: true } },
+        redemptions: {
+          where: { orderId: { not: null } },
+          include: {
+            user: { select: { id: true, fullName: true, email: true } },
+            order: { select: { id: true, orderNumber: true, status: true, finalPrice: true } },
+          },
+          orderBy: { createdAt: 'desc' },
+          take: 50,
+        },
+      },
+    });
+
+    if (!voucher) {
+      throw new Error('Voucher not found');
+    }
+
+    const totals = await prisma.order.aggregate({
+      where: { voucherId },
+      _count: true,
+      _sum: { discountAmount: true },
+    });
+
+    return {
+      ...voucher,
+      timesRedeemed: totals._count,
+      totalDiscount: totals._sum.discountAmount || 0,
+    };
+  }
+
+  private async assertDesigner(designerId: string | null | undefined) {
+    if (!designerId) {
+      return;
+    }
+
+    const designer = await prisma.user.findUnique({ where: { id: designerId } });
+    if (!designer || designer.role !== 'DESIGNER') {
+      throw new Error('Designer not found');
+    }
+  }
+
+  private calculateDiscount(voucher: Voucher, price: number): number {
+    if (voucher.discountType === VoucherDiscountType.FIXED) {
+      return roundNaira(Math.min(voucher.discountValue, price));
+    }
+
+    const discount = price * voucher.discountValue;
+    return roundNaira(
+      voucher.maxDiscountAmount ? Math.min(discount, voucher.maxDiscountAmount) : discount
+    );
+  }
+
+  private validateFields(data: UpdateVoucherData) {
+    const discountType = data.discountType as VoucherDiscountType | undefined;
+    if (discountType && !Object.values(VoucherDiscountType).includes(discountType)) {
+      throw new Error(
+        `Invalid discount type. Must be one of: ${Object.values(VoucherDiscountType).join(', ')}`
+      );
+    }
+
+    const fundedBy = data.fundedBy as VoucherFundedBy | undefined;
+    if (fundedBy && !Object.values(VoucherFundedBy).includes(fundedBy)) {
+      throw new Error(
+        `Invalid fundedBy. Must be one of: ${Object.values(VoucherFundedBy).join(', ')}`
+      );
+    }
+
+    const discountValue = data.discountValue !== undefined ? Number(data.discountValue) : undefined;
+    if (discountValue !== undefined) {
+      if (!Number.isFinite(discountValue) || discountValue <= 0) {
+        throw new Error('Invalid discount value. Must be greater than 0');
+      }
+      if (discountType === VoucherDiscountType.PERCENTAGE && discountValue >= 1) {
+        throw new Error('Invalid discount value. Percentages must be below 1 (e.g. 0.1 for 10%)');
+      }
+    }
+
+    for (const field of ['maxDiscountAmount', 'minOrderAmount'] as const) {
+      const value = data[field];
+      if (value !== undefined && value !== null && (!Number.isFinite(value) || value <= 0)) {
+        throw new Error(`Invalid ${field}. Must be greater than 0`);
+      }
+    }
+
+    for (const field of ['usageLimit', 'perUserLimit'] as const) {
+      const value = data[field];
+      if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 1)) {
+        throw new Error(`Invalid ${field}. Must be a whole number of at least 1`);
+      }
+    }
+
+    if (data.startsAt && data.expiresAt && data.startsAt >= data.expiresAt) {
+      throw new Error('Invalid validity window: expiresAt must be after startsAt');
+    }
+
+    return {
+      discountType,
+      discountValue,
+      fundedBy,
+      description: data.description,
+      maxDiscountAmount: data.maxDiscountAmount,
+      minOrderAmount: data.minOrderAmount,
+      usageLimit: data.usageLimit,
+      perUserLimit: data.perUserLimit,
+      startsAt: data.startsAt,
+      expiresAt: data.expiresAt,
+      designerId: data.designerId,
+      category: data.category?.trim() || (data.category === undefined ? undefined : null),
+    };
+  }
+}
+
+export const voucherService = new VoucherService();
@@ -1,123 +1,615 @@
+import { EarningStatus, LedgerAccountType, LedgerDirection, Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { realtimeEventService } from './realtime-event.service';
+import feeService, { FeeCalculation } from './fee.service';
+import { ledgerService, LedgerLineInput, PostEntryResult } from './ledger.service';
+import { fromKobo, toKobo } from '../utils/money';
 
-interface CreditWalletData {
-  userId: string;
-  amount: number;
+interface CaptureEscrowData {
+  orderId: string;
+  customerId: string;
+  designerId: string;
+  paymentTransactionId: string;
+  amount: number; // Naira
+  feeEstimate?: FeeCalculation; // Fee on amount, calculated when omitted
+}
+
+interface VoucherFundingData {
+  orderId: string;
+  customerId: string;
+  designerId: string;
+  amount: number; // Naira discount paid for by the platform
+  feeEstimate?: FeeCalculation; // Fee on amount, calculated when omitted
+}
+
+interface ReleaseEscrowData {
+  reference: string; // e.g. "order-release:<orderId>"
+  orderId: string;
+  customerId: string; // Whose escrow is drawn down
+  recipientId: string; // Whose wallet is credited
+  grossAmount: number; // Naira taken from escrow
+  platformFee?: number; // Naira kept as revenue; the recipient gets gross - fee
   description: string;
-  orderId?: string;
 }
 
-interface DebitWalletData {
+interface PayoutDebitData {
+  payoutId: string;
   userId: string;
-  amount: number;
+  amount: number; // Naira sent to the bank
+  fee: number; // Naira payout fee
   description: string;
 }
 
+/**
+ * Wallet Service
+ * User-facing wallet operations on top of the ledger. `User.walletBalance` and
+ * wallet_transactions are projections of the user's DESIGNER_AVAILABLE account,
+ * written in the same transaction as the ledger entry.
+ *
+ * Money still in escrow is tracked per order as a DesignerEarning: PENDING until
+ * released, ON_HOLD while disputed, then AVAILABLE (in the wallet) or CANCELLED.
+ * The designer's estimated share sits in their DESIGNER_PENDING account until the
+ * release moves it to DESIGNER_AVAILABLE, or a cancellation returns it to escrow.
+ */
 class WalletService {
   /**
-   * Credit user's wallet
+   * Customer payment captured for an order: provider cash in, held in customer escrow.
+   * The designer's share starts as a PENDING earning with an estimated fee.
    */
-  async creditWallet(data: CreditWalletData): Promise<void> {
-    const { userId, amount, description, orderId } = data;
+  async captureEscrow(data: CaptureEscrowData, client?: Prisma.TransactionClient): Promise<void> {
+    await this.creditEscrow(
+      data,
+      {
+        reference: `payment:${data.paymentTransactionId}`,
+        description: `Payment captured for order ${data.orderId}`,
+        source: LedgerAccountType.PROVIDER_CASH,
+      },
+      client
+    );
+  }
 
-    // Get current balance
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { walletBalance: true, fullName: true, brandName: true },
-    });
+  /**
+   * A platform-funded voucher discount: revenue tops up the customer's escrow so the
+   * designer is paid on the full price, exactly as if the customer had paid it.
+   */
+  async fundVoucherDiscount(
+    data: VoucherFundingData,
+    client?: Prisma.TransactionClient
+  ): Promise<void> {
+    await this.creditEscrow(
+      data,
+      {
+        reference: `voucher:${data.orderId}`,
+        description: `Voucher discount funded by the platform for order ${data.orderId}`,
+        source: LedgerAccountType.PLATFORM_REVENUE,
+      },
+      client
+    );
+  }
 
-    if (!user) {
-      throw new Error('User not found');
+  /**
+   * Return a platform-funded discount to revenue when the order is refunded instead
+   * of fulfilled. Safe to call more than once.
+   */
+  async reverseVoucherFunding(
+    data: Omit<VoucherFundingData, 'designerId'>,
+    client?: Prisma.TransactionClient
+  ): Promise<void> {
+    const amount = toKobo(data.amount);
+    if (amount <= BigInt(0)) {
+      return;
     }
 
-    const balanceBefore = user.walletBalance;
-    const balanceAfter = balanceBefore + amount;
+    await ledgerService.post(
+      {
+        reference: `voucher-reversal:${data.orderId}`,
+        description: `Voucher discount returned to the platform for order ${data.orderId}`,
+        orderId: data.orderId,
+        lines: [
+          {
+            account: { type: LedgerAccountType.CUSTOMER_ESCROW, userId: data.customerId },
+            direction: LedgerDirection.DEBIT,
+            amount,
+          },
+          {
+            account: { type: LedgerAccountType.PLATFORM_REVENUE },
+            direction: LedgerDirection.CREDIT,
+            amount,
+          },
+        ],
+      },
+      client
+    );
+  }
 
-    // Update balance and create transaction record in a transaction
-    await prisma.$transaction([
-      // Update user balance
-      prisma.user.update({
-        where: { id: userId },
-        data: { walletBalance: balanceAfter },
-      }),
-      // Create transaction record
-      prisma.walletTransaction.create({
-        data: {
-          userId,
-          type: 'CREDIT',
-          amount,
-          balanceBefore,
-          balanceAfter,
-          description,
-          orderId,
+  /**
+   * Credit an order's escrow from `source`, earmark the designer's estimated share in
+   * their DESIGNER_PENDING account and add it to their PENDING earning (a balance
+   * payment adds to the earning created by the deposit)
+   */
+  private async creditEscrow(
+    data: VoucherFundingData,
+    entry: { reference: string; description: string; source: LedgerAccountType },
+    client?: Prisma.TransactionClient
+  ): Promise<void> {
+    // The fee actually charged is calculated again at release
+    const feeCalc =
+      data.feeEstimate ??
+      (await feeService.calculateFeeForDesigner(data.designerId, data.amount, new Date()));
+
+    if (!client) {
+      return prisma.$transaction((tx) =>
+        this.creditEscrow({ ...data, feeEstimate: feeCalc }, entry, tx)
+      );
+    }
+
+    const amount = toKobo(data.amount);
+    const pending = toKobo(feeCalc.designerReceives);
+
+    const lines: LedgerLineInput[] = [
+      {
+        account: { type: entry.source },
+        direction: LedgerDirection.DEBIT,
+        amount,
+      },
+      {
+        account: { type: LedgerAccountType.CUSTOMER_ESCROW, userId: data.customerId },
+        direction: LedgerDirection.CREDIT,
+        amount,
+      },
+    ];
+
+    if (pending > BigInt(0)) {
+      lines.push(
+        {
+          account: { type: LedgerAccountType.CUSTOMER_ESCROW, userId: data.customerId },
+          direction: LedgerDirection.DEBIT,
+          amount: pending,
         },
-      }),
-    ]);
+        {
+          account: { type: LedgerAccountType.DESIGNER_PENDING, userId: data.designerId },
+          direction: LedgerDirection.CREDIT,
+          amount: pending,
+        }
+      );
+    }
+
+    const posted = await ledgerService.post(
+      {
+        reference: entry.reference,
+        description: entry.description,
+        orderId: data.orderId,
+        lines,
+      },
+      client
+    );
+
+    if (posted.alreadyPosted) {
+      return;
+    }
+
+    await client.designerEarning.upsert({
+      where: { orderId: data.orderId },
+      create: {
+        orderId: data.orderId,
+        designerId: data.designerId,
+        grossAmount: data.amount,
+        platformFee: feeCalc.feeAmount,
+        netAmount: feeCalc.designerReceives,
+      },
+      update: {
+        grossAmount: { increment: data.amount },
+        platformFee: { increment: feeCalc.feeAmount },
+        netAmount: { increment: feeCalc.designerReceives },
+      },
+    });
+  }
+
+  /**
+   * Release escrow into a user's wallet, keeping the platform fee as revenue.
+   * A release to the designer also clears the order's DESIGNER_PENDING share.
+   * Safe to call twice with the same reference (the second call does nothing).
+   */
+  async releaseEscrow(data: ReleaseEscrowData): Promise<void> {
+    const posted = await prisma.$transaction((tx) => this.releaseEscrowInTransaction(data, tx));
+
+    this.publishRelease(data, posted);
+  }
+
+  /**
+   * releaseEscrow inside the caller's transaction, so the release commits together
+   * with other writes (e.g. a dispute ruling). Pass the result to publishRelease once
+   * the transaction has committed. Returns null when there is nothing to release.
+   */
+  async releaseEscrowInTransaction(
+    data: ReleaseEscrowData,
+    tx: Prisma.TransactionClient
+  ): Promise<PostEntryResult | null> {
+    const gross = toKobo(data.grossAmount);
+    const fee = toKobo(data.platformFee || 0);
+    const net = gross - fee;
+
+    if (gross <= BigInt(0)) {
+      return null;
+    }
+
+    if (net < BigInt(0)) {
+      throw new Error('Invalid escrow release: platform fee exceeds the amount released');
+    }
+
+    const toCustomer = data.recipientId === data.customerId;
+
+    // Released to the designer: their pending share is paid out of DESIGNER_PENDING
+    // and only the rest (which may be negative) comes from escrow
+    const pending = toCustomer
+      ? BigInt(0)
+      : await ledgerService.getOrderBalance(
+          data.orderId,
+          { type: LedgerAccountType.DESIGNER_PENDING, userId: data.recipientId },
+          tx
+        );
+    const fromEscrow = gross - pending;
+
+    const lines: LedgerLineInput[] = [];
+
+    if (pending > BigInt(0)) {
+      lines.push({
+        account: { type: LedgerAccountType.DESIGNER_PENDING, userId: data.recipientId },
+        direction: LedgerDirection.DEBIT,
+        amount: pending,
+      });
+    }
+
+    if (fromEscrow !== BigInt(0)) {
+      lines.push({
+        account: { type: LedgerAccountType.CUSTOMER_ESCROW, userId: data.customerId },
+        direction: fromEscrow > BigInt(0) ? LedgerDirection.DEBIT : LedgerDirection.CREDIT,
+        amount: fromEscrow > BigInt(0) ? fromEscrow : -fromEscrow,
+      });
+    }
+
+    if (net > BigInt(0)) {
+      lines.push({
+        account: { type: LedgerAccountType.DESIGNER_AVAILABLE, userId: data.recipientId },
+        direction: LedgerDirection.CREDIT,
+        amount: net,
+      });
+    }
+
+    if (fee > BigInt(0)) {
+      lines.push({
+        account: { type: LedgerAccountType.PLATFORM_REVENUE },
+        direction: LedgerDirection.CREDIT,
+        amount: fee,
+      });
+    }
 
+    const posted = await ledgerService.post(
+      {
+        reference: data.reference,
+        description: data.description,
+        orderId: data.orderId,
+        lines,
+      },
+      tx
+    );
+
+    await this.applyProjection(tx, posted, data.description, data.orderId);
+
+    if (!posted.alreadyPosted) {
+      if (toCustomer) {
+        // Escrow returned to the customer: nothing left for the designer
+        await this.cancelEarning(data.orderId, tx);
+      } else {
+        await tx.designerEarning.updateMany({
+          where: {
+            orderId: data.orderId,
+            status: { in: [EarningStatus.PENDING, EarningStatus.ON_HOLD] },
+          },
+          data: {
+            status: EarningStatus.AVAILABLE,
+            grossAmount: fromKobo(gross),
+            platformFee: fromKobo(fee),
+            netAmount: fromKobo(net),
+            releasedAt: new Date(),
+          },
+        });
+      }
+    }
+
+    return posted;
+  }
+
+  /**
+   * Log and publish a release made with releaseEscrowInTransaction
+   */
+  publishRelease(data: ReleaseEscrowData, posted: PostEntryResult | null): void {
+    if (!posted) {
+      return;
+    }
+
+    if (posted.alreadyPosted) {
+      console.warn(`⚠️ Escrow release ${data.reference} was already posted - skipped`);
+      return;
+    }
+
+    const fee = toKobo(data.platformFee || 0);
+    const net = toKobo(data.grossAmount) - fee;
     console.log(
-      `✅ Credited ₦${amount.toLocaleString()} to ${user.brandName || user.fullName}'s wallet`
+      `✅ Credited ₦${fromKobo(net).toLocaleString()} to wallet of user ${data.recipientId} (fee ₦${fromKobo(fee).toLocaleString()})`
     );
-    console.log(`   Previous balance: ₦${balanceBefore.toLocaleString()}`);
-    console.log(`   New balance: ₦${balanceAfter.toLocaleString()}`);
-
-    // Publish real-time wallet update event
-    realtimeEventService.publishToUser(userId, {
-      type: 'WALLET_UPDATED',
-      domain: 'wallet',
-      action: 'wallet_credited',
-      entityId: userId,
-      actorUserId: userId,
-      payload: {
+
+    this.publishWalletChanges(posted, 'wallet_credited', data.description, data.orderId);
+  }
+
+  /**
+   * Withdrawal requested: move amount + fee out of the available balance
+   */
+  async debitForPayout(data: PayoutDebitData): Promise<void> {
+    const amount = toKobo(data.amount);
+    const fee = toKobo(data.fee);
+
+    const lines: LedgerLineInput[] = [
+      {
+        account: { type: LedgerAccountType.DESIGNER_AVAILABLE, userId: data.userId },
+        direction: LedgerDirection.DEBIT,
+        amount: amount + fee,
+      },
+      {
+        account: { type: LedgerAccountType.PAYOUT_CLEARING },
+        direction: LedgerDirection.CREDIT,
+        amount,
+      },
+    ];
+
+    if (fee > BigInt(0)) {
+      lines.push({
+        account: { type: LedgerAccountType.PLATFORM_REVENUE },
+        direction: LedgerDirection.CREDIT,
+        amount: fee,
+      });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const posted = await ledgerService.post(
+        {
+          reference: `payout:${data.payoutId}`,
+          description: data.description,
+          lines,
+        },
+        tx
+      );
+
+      await this.applyProjection(tx, posted, data.description);
+
+      return posted;
+    });
+
+    this.publishWalletChanges(result, 'wallet_debited', data.description);
+  }
+
+  /**
+   * Failed withdrawal: return amount + fee to the available balance.
+   * Does nothing if the withdrawal was never debited, was already reversed or has
+   * been settled.
+   */
+  async reversePayout(data: PayoutDebitData): Promise<void> {
+    const amount = toKobo(data.amount);
+    const fee = toKobo(data.fee);
+
+    const lines: LedgerLineInput[] = [
+      {
+        account: { type: LedgerAccountType.PAYOUT_CLEARING },
+        direction: LedgerDirection.DEBIT,
         amount,
-        balanceBefore,
-        balanceAfter,
-        description,
-        orderId,
       },
+      {
+        account: { type: LedgerAccountType.DESIGNER_AVAILABLE, userId: data.userId },
+        direction: LedgerDirection.CREDIT,
+        amount: amount + fee,
+      },
+    ];
+
+    if (fee > BigInt(0)) {
+      lines.push({
+        account: { type: LedgerAccountType.PLATFORM_REVENUE },
+        direction: LedgerDirection.DEBIT,
+        amount: fee,
+      });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      await this.lockPayout(data.payoutId, tx);
+
+      if (!(await ledgerService.hasEntry(`payout:${data.payoutId}`, tx))) {
+        return null;
+      }
+
+      if (await ledgerService.hasEntry(`payout-settled:${data.payoutId}`, tx)) {
+        console.warn(`⚠️ Payout ${data.payoutId} was already settled - not reversed`);
+        return null;
+      }
+
+      const posted = await ledgerService.post(
+        {
+          reference: `payout-reversal:${data.payoutId}`,
+          description: data.description,
+          lines,
+        },
+        tx
+      );
+
+      await this.applyProjection(tx, posted, data.description);
+
+      return posted;
     });
+
+    if (result) {
+      this.publishWalletChanges(result, 'wallet_credited', data.description);
+    }
   }
 
   /**
-   * Debit user's wallet (for withdrawals)
+   * Withdrawal confirmed by the provider: the money has left our provider account.
+   * Does nothing if the withdrawal has already been reversed.
    */
-  async debitWallet(data: DebitWalletData): Promise<void> {
-    const { userId, amount, description } = data;
+  async settlePayout(payoutId: string, amount: number): Promise<void> {
+    const kobo = toKobo(amount);
 
-    // Get current balance
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { walletBalance: true },
+    await prisma.$transaction(async (tx) => {
+      await this.lockPayout(payoutId, tx);
+
+      if (await ledgerService.hasEntry(`payout-reversal:${payoutId}`, tx)) {
+        console.warn(`⚠️ Payout ${payoutId} was already reversed - not settled`);
+        return;
+      }
+
+      await ledgerService.post(
+        {
+          reference: `payout-settled:${payoutId}`,
+          description: `Payout ${payoutId} settled`,
+          lines: [
+            {
+              account: { type: LedgerAccountType.PAYOUT_CLEARING },
+              direction: LedgerDirection.DEBIT,
+              amount: kobo,
+            },
+            {
+              account: { type: LedgerAccountType.PROVIDER_CASH },
+              direction: LedgerDirection.CREDIT,
+              amount: kobo,
+            },
+          ],
+        },
+        tx
+      );
     });
+  }
 
-    if (!user) {
-      throw new Error('User not found');
+  /**
+   * Dispute opened: freeze the designer's pending earning
+   */
+  async holdEarning(orderId: string, client: Prisma.TransactionClient = prisma): Promise<void> {
+    await client.designerEarning.updateMany({
+      where: { orderId, status: EarningStatus.PENDING },
+      data: { status: EarningStatus.ON_HOLD, heldAt: new Date() },
+    });
+  }
+
+  /**
+   * The designer will not be paid for this order (full refund to the customer):
+   * their pending share goes back to the customer's escrow
+   */
+  async cancelEarning(orderId: string, client?: Prisma.TransactionClient): Promise<void> {
+    if (!client) {
+      return prisma.$transaction((tx) => this.cancelEarning(orderId, tx));
     }
 
-    if (user.walletBalance < amount) {
-      throw new Error('Insufficient wallet balance');
+    const order = await client.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: { customerId: true, designerId: true },
+    });
+    const pending = await ledgerService.getOrderBalance(
+      orderId,
+      { type: LedgerAccountType.DESIGNER_PENDING, userId: order.designerId },
+      client
+    );
+
+    if (pending > BigInt(0)) {
+      await ledgerService.post(
+        {
+          reference: `earning-cancelled:${orderId}`,
+          description: `Pending earning returned to escrow for order ${orderId}`,
+          orderId,
+          lines: [
+            {
+              account: { type: LedgerAccountType.DESIGNER_PENDING, userId: order.designerId },
+              direction: LedgerDirection.DEBIT,
+              amount: pending,
+            },
+            {
+              account: { type: LedgerAccountType.CUSTOMER_ESCROW, userId: order.customerId },
+              direction: LedgerDirection.CREDIT,
+              amount: pending,
+            },
+          ],
+        },
+        client
+      );
     }
 
-    const balanceBefore = user.walletBalance;
-    const balanceAfter = balanceBefore - amount;
+    await client.designerEarning.updateMany({
+      where: { orderId, status: { in: [EarningStatus.PENDING, EarningStatus.ON_HOLD] } },
+      data: { status: EarningStatus.CANCELLED, cancelledAt: new Date() },
+    });
+  }
 
-    // Update balance and create transaction record
-    await prisma.$transaction([
-      prisma.user.update({
-        where: { id: userId },
-        data: { walletBalance: balanceAfter },
-      }),
-      prisma.walletTransaction.create({
-        data: {
-          userId,
-          type: 'DEBIT',
-          amount,
-          balanceBefore,
-          balanceAfter,
-          description,
+  /**
+   * Available (withdrawable), pending (in escrow) and on-hold (disputed) balances,
+   * with the orders behind the pending and on-hold amounts
+   */
+  async getBalanceBreakdown(userId: string) {
+    const [available, earnings] = await Promise.all([
+      this.getBalance(userId),
+      prisma.designerEarning.findMany({
+        where: {
+          designerId: userId,
+          status: { in: [EarningStatus.PENDING, EarningStatus.ON_HOLD] },
+        },
+        include: {
+          order: {
+            select: {
+              orderNumber: true,
+              status: true,
+              autoConfirmAt: true,
+              disputeOpenedAt: true,
+            },
+          },
         },
+        orderBy: { createdAt: 'asc' },
       }),
     ]);
+
+    const toItem = (earning: (typeof earnings)[number]) => ({
+      orderId: earning.orderId,
+      orderNumber: earning.order.orderNumber,
+      orderStatus: earning.order.status,
+      grossAmount: earning.grossAmount,
+      platformFee: earning.platformFee,
+      amount: earning.netAmount,
+      // Null until the order is delivered and the confirmation window starts
+      expectedReleaseAt: earning.order.autoConfirmAt,
+      heldAt: earning.heldAt,
+    });
+
+    const pendingOrders = earnings
+      .filter((earning) => earning.status === EarningStatus.PENDING)
+      .map(toItem)
+      .sort(
+        (a, b) =>
+          (a.expectedReleaseAt?.getTime() ?? Infinity) -
+          (b.expectedReleaseAt?.getTime() ?? Infinity)
+      );
+    const onHoldOrders = earnings
+      .filter((earning) => earning.status === EarningStatus.ON_HOLD)
+      .map(toItem);
+
+    const sum = (items: { amount: number }[]) =>
+      fromKobo(items.reduce((total, item) => total + toKobo(item.amount), BigInt(0)));
+
+    const pending = sum(pendingOrders);
+    const onHold = sum(onHoldOrders);
+
+    return {
+      currency: 'NGN',
+      available,
+      pending,
+      onHold,
+      total: fromKobo(toKobo(available) + toKobo(pending) + toKobo(onHold)),
+      nextReleaseAt: pendingOrders[0]?.expectedReleaseAt ?? null,
+      pendingOrders,
+      onHoldOrders,
+    };
   }
 
   /**
@@ -132,6 +624,31 @@ class WalletService {
     return user?.walletBalance || 0;
   }
 
+  /**
+   * Check the walletBalance projection against the ledger
+   */
+  async verifyBalance(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { walletBalance: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const ledgerBalance = await ledgerService.getBalance({
+      type: LedgerAccountType.DESIGNER_AVAILABLE,
+      userId,
+    });
+
+    return {
+      walletBalance: user.walletBalance,
+      ledgerBalance: fromKobo(ledgerBalance),
+      matches: toKobo(user.walletBalance) === ledgerBalance,
+    };
+  }
+
   /**
    * Get wallet transaction history
    */
@@ -142,6 +659,83 @@ class WalletService {
       take: 50,
     });
   }
+
+  /**
+   * Serialize the settlement and reversal of a payout, so only one of them is posted
+   */
+  private async lockPayout(payoutId: string, tx: Prisma.TransactionClient): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM "payouts" WHERE id = ${payoutId} FOR UPDATE`;
+  }
+
+  /**
+   * Mirror DESIGNER_AVAILABLE movements onto users.walletBalance and wallet_transactions
+   */
+  private async applyProjection(
+    tx: Prisma.TransactionClient,
+    posted: PostEntryResult,
+    description: string,
+    orderId?: string
+  ): Promise<void> {
+    for (const change of posted.changes) {
+      if (change.type !== LedgerAccountType.DESIGNER_AVAILABLE || !change.userId) {
+        continue;
+      }
+
+      const delta = change.balanceAfter - change.balanceBefore;
+      if (delta === BigInt(0)) {
+        continue;
+      }
+
+      await tx.user.update({
+        where: { id: change.userId },
+        data: { walletBalance: fromKobo(change.balanceAfter) },
+      });
+
+      await tx.walletTransaction.create({
+        data: {
+          userId: change.userId,
+          type: delta > BigInt(0) ? 'CREDIT' : 'DEBIT',
+          amount: fromKobo(delta > BigInt(0) ? delta : -delta),
+          balanceBefore: fromKobo(change.balanceBefore),
+          balanceAfter: fromKobo(change.balanceAfter),
+          description,
+          orderId,
+          ledgerEntryId: posted.entry.id,
+        },
+      });
+    }
+  }
+
+  private publishWalletChanges(
+    posted: PostEntryResult,
+    action: string,
+    description: string,
+    orderId?: string
+  ): void {
+    for (const change of posted.changes) {
+      if (change.type !== LedgerAccountType.DESIGNER_AVAILABLE || !change.userId) {
+        continue;
+      }
+
+      const delta = change.balanceAfter - change.balanceBefore;
+
+      // Publish real-time wallet update event
+      realtimeEventService.publishToUser(change.userId, {
+        type: 'WALLET_UPDATED',
+        domain: 'wallet',
+        action,
+        entityId: change.userId,
+        actorUserId: change.userId,
+        payload: {
+          amount: fromKobo(delta > BigInt(0) ? delta : -delta),
+          balanceBefore: fromKobo(change.balanceBefore),
+          balanceAfter: fromKobo(change.balanceAfter),
+          description,
+          orderId,
+        },
+      });
+    }
+  }
 }
 
 export default new WalletService();
@@ -0,0 +1,255 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { Prisma, WebhookEvent, WebhookEventStatus, WebhookSource } from '@prisma/client';
+import prisma from '../config/database';
+import { paymentService } from './payment.service';
+import { PayoutService } from './payout.service';
+import { DEFAULT_PAYMENT_PROVIDER, getPaymentProvider } from './payment-providers';
+
+/**
+ * Webhook Event Service
+ * Verifies webhook signatures with the provider's adapter, stores every verified
+ * delivery in webhook_events and processes each provider event at most once.
+ * Stored events can be replayed by an admin (e.g. after fixing a handler bug).
+ */
+
+export interface WebhookRequest {
+  headers: IncomingHttpHeaders;
+  rawBody?: Buffer;
+  body: unknown;
+}
+
+export interface WebhookIngestResult {
+  eventId: string;
+  status: WebhookEventStatus;
+  duplicate: boolean;
+  result?: unknown;
+}
+
+// A RECEIVED event older than this was abandoned mid-processing and may be replayed
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+const payoutService = new PayoutService();
+
+class WebhookEventService {
+  /**
+   * Verify, store and process a webhook delivery. A redelivered event that was
+   * already handled is acknowledged without running the handler again.
+   * Payouts only go through Interswitch, so payout webhooks always use its adapter.
+   */
+  async ingest(
+    source: WebhookSource,
+    request: WebhookRequest,
+    providerKey: string = DEFAULT_PAYMENT_PROVIDER
+  ): Promise<WebhookIngestResult> {
+    const provider = getPaymentProvider(providerKey);
+
+    if (source === WebhookSource.PAYOUT && provider.key !== DEFAULT_PAYMENT_PROVIDER) {
+      throw new Error(`Invalid webhook source: ${source} for ${provider.key}`);
+    }
+
+    if (!provider.verifyWebhook(request)) {
+      console.warn(
+        `[Webhooks] Rejected ${provider.key} ${source} webhook with an invalid signature`
+      );
+      throw new Error('Invalid webhook signature');
+    }
+
+    const payload = (request.body || {}) as Record<string, unknown>;
+    const described = provider.describeWebhook(payload);
+    // Events without a provider id are keyed by their body, which has to be the raw bytes
+    // so a redelivery hashes the same
+    const eventId = described.eventId || (request.rawBody ? this.hashBody(request.rawBody) : null);
+    if (!eventId) {
+      throw new Error('Invalid webhook: no event id and no raw body to identify it by');
+    }
+    const eventType = described.eventType || null;
+    const signature = request.headers[provider.signatureHeader];
+
+    let event: WebhookEvent;
+    try {
+      event = await prisma.webhookEvent.create({
+        data: {
+          provider: provider.key,
+          source,
+          eventId,
+          eventType,
+          payload: payload as Prisma.InputJsonValue,
+          signature: typeof signature === 'string' ? signature : null,
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+
+      // Redelivery: only a previously failed event is processed again
+      const existing = await prisma.webhookEvent.update({
+        where: { provider_eventId: { provider: provider.key, eventId } },
+        data: { deliveries: { increment: 1 } },
+      });
+
+      const claimed = await prisma.webhookEvent.updateMany({
+        where: { id: existing.id, status: WebhookEventStatus.FAILED },
+        data: { status: WebhookEventStatus.RECEIVED, attempts: { increment: 1 } },
+      });
+
+      if (claimed.count === 0) {
+        console.log(`[Webhooks] Duplicate ${source} event ${eventId} (${existing.status})`);
+        return { eventId, status: existing.status, duplicate: true };
+      }
+
+      event = existing;
+    }
+
+    return this.process(event);
+  }
+
+  /**
+   * Admin: run a stored event through its handler again
+   */
+  async replay(id: string, adminId: string): Promise<WebhookIngestResult> {
+    const event = await prisma.webhookEvent.findUnique({ where: { id } });
+
+    if (!event) {
+      throw new Error('Webhook event not found');
+    }
+
+    const claimed = await prisma.webhookEvent.updateMany({
+      where: {
+        id,
+        OR: [
+          { status: { not: WebhookEventStatus.RECEIVED } },
+          { updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+        ],
+      },
+      data: {
+        status: WebhookEventStatus.RECEIVED,
+        attempts: { increment: 1 },
+        lastReplayedById: adminId,
+        lastReplayedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Webhook event is already being processed');
+    }
+
+    console.log(`[Webhooks] Replaying ${event.source} event ${event.eventId} for admin ${adminId}`);
+
+    return this.process(event);
+  }
+
+  async listEvents(filters: {
+    provider?: string;
+    source?: string;
+    status?: string;
+    eventId?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const where: Prisma.WebhookEventWhereInput = {};
+    if (filters.provider) {
+      where.provider = filters.provider.toLowerCase();
+    }
+    if (filters.source && Object.values(WebhookSource).includes(filters.source as WebhookSource)) {
+      where.source = filters.source as WebhookSource;
+    }
+    if (
+      filters.status &&
+      Object.values(WebhookEventStatus).includes(filters.status as WebhookEventStatus)
+    ) {
+      where.status = filters.status as WebhookEventStatus;
+    }
+    if (filters.eventId) {
+      where.eventId = filters.eventId;
+    }
+
+    const [events, total] = await Promise.all([
+      prisma.webhookEvent.findMany({
+        where,
+        orderBy: { receivedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.webhookEvent.count({ where }),
+    ]);
+
+    return {
+      events,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getEvent(id: string) {
+    const event = await prisma.webhookEvent.findUnique({
+      where: { id },
+      include: { lastReplayedBy: { select: { id: true, fullName: true } } },
+    });
+
+    if (!event) {
+      throw new Error('Webhook event not found');
+    }
+
+    return event;
+  }
+
+  /**
+   * Run the handler for a claimed (RECEIVED) event and record the outcome
+   */
+  private async process(event: WebhookEvent): Promise<WebhookIngestResult> {
+    try {
+      const result = await this.dispatch(event);
+      const ignored =
+        !!result &&
+        typeof result === 'object' &&
+        (result as { processed?: boolean }).processed === false;
+      const status = ignored ? WebhookEventStatus.IGNORED : WebhookEventStatus.PROCESSED;
+
+      await prisma.webhookEvent.update({
+        where: { id: event.id },
+        data: { status, lastError: null, processedAt: new Date() },
+      });
+
+      return { eventId: event.eventId, status, duplicate: false, result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      await prisma.webhookEvent.update({
+        where: { id: event.id },
+        data: { status: WebhookEventStatus.FAILED, lastError: message },
+      });
+
+      throw error;
+    }
+  }
+
+  private async dispatch(event: WebhookEvent): Promise<unknown> {
+    switch (event.source) {
+      case WebhookSource.PAYMENT:
+        return paymentService.handleWebhook(event.provider, event.payload);
+      case WebhookSource.PAYOUT:
+        return payoutService.handleWebhook(event.payload);
+      default:
+        throw new Error(`Invalid webhook source: ${event.source}`);
+    }
+  }
+
+  /**
+   * Stands in for the event ID when a payload has none, so identical redeliveries
+   * still deduplicate
+   */
+  private hashBody(rawBody: Buffer): string {
+    return `sha256:${crypto.createHash('sha256').update(rawBody).digest('hex')}`;
+  }
+}
+
+export const webhookEventService = new WebhookEventService();
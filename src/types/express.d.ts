@@ -7,6 +7,10 @@ declare global {
         email: string;
         role: string;
       };
+      // Session behind the access token (set by authenticate)
+      sessionId?: string;
+      // Unparsed JSON body, kept for webhook signature verification
+      rawBody?: Buffer;
     }
   }
 }
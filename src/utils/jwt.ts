@@ -1,18 +1,44 @@
 import jwt from 'jsonwebtoken';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
-
 export interface JwtPayload {
   userId: string;
   email: string;
   role: string;
+  sid: string; // Session id, checked against the sessions table on every request
 }
 
+/**
+ * Read lazily so the secret is picked up after dotenv has loaded
+ */
+const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+
+  if (!secret) {
+    throw new Error('JWT_SECRET environment variable is required');
+  }
+
+  return secret;
+};
+
+/**
+ * Access token lifetime, e.g. '15m' (read lazily like the secret)
+ */
+const getJwtExpiresIn = (): jwt.SignOptions['expiresIn'] =>
+  (process.env.JWT_EXPIRES_IN || '15m') as jwt.SignOptions['expiresIn'];
+
 export const generateToken = (payload: JwtPayload): string => {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN } as any);
+  const options: jwt.SignOptions = { expiresIn: getJwtExpiresIn() };
+  return jwt.sign(payload, getJwtSecret(), options);
 };
 
 export const verifyToken = (token: string): JwtPayload => {
-  return jwt.verify(token, JWT_SECRET) as JwtPayload;
+  return jwt.verify(token, getJwtSecret()) as JwtPayload;
+};
+
+/**
+ * Lifetime of a freshly issued access token, in seconds
+ */
+export const getTokenLifetimeSeconds = (token: string): number => {
+  const decoded = jwt.decode(token) as { iat?: number; exp?: number } | null;
+  return decoded?.iat && decoded?.exp ? decoded.exp - decoded.iat : 0;
 };
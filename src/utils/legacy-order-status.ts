@@ -0,0 +1,107 @@
+import { OrderStatus } from '@prisma/client';
+
+/**
+ * Legacy Order Statuses
+ * PENDING, SOURCING, CONSTRUCTION, QUALITY_CHECK and SHIPPING predate the current
+ * order lifecycle. No order is in them any more, but older app builds still send and
+ * expect them.
+ *
+ * Deprecation path:
+ * 1. Legacy statuses sent to the API are read as their lifecycle status, and clients
+ *    that don't send `X-Order-Status-Version: 2` get legacy names back on order and
+ *    notification routes, on the realtime stream and in push notifications.
+ * 2. Once the older builds are retired, set LEGACY_ORDER_STATUS_RESPONSES=false so
+ *    everyone gets lifecycle names.
+ * 3. Drop the legacy values from the OrderStatus enum, and this module with them.
+ */
+
+export const LEGACY_ORDER_STATUSES = [
+  'PENDING',
+  'SOURCING',
+  'CONSTRUCTION',
+  'QUALITY_CHECK',
+  'SHIPPING',
+] as const;
+
+export type LegacyOrderStatus = (typeof LEGACY_ORDER_STATUSES)[number];
+
+// Header a client sends once it understands the lifecycle statuses
+export const ORDER_STATUS_VERSION_HEADER = 'X-Order-Status-Version';
+
+// Same mapping as the data migration
+const TO_LIFECYCLE: Record<LegacyOrderStatus, OrderStatus> = {
+  PENDING: 'PAID',
+  SOURCING: 'IN_PRODUCTION',
+  CONSTRUCTION: 'IN_PRODUCTION',
+  QUALITY_CHECK: 'IN_PRODUCTION',
+  SHIPPING: 'SHIPPED',
+};
+
+// The legacy name an older build shows for each lifecycle status that replaced one.
+// SHIPPED predates the lifecycle too, so older builds already know it.
+const TO_LEGACY: Partial<Record<string, LegacyOrderStatus>> = {
+  PAID: 'PENDING',
+  IN_PRODUCTION: 'CONSTRUCTION',
+  READY_TO_SHIP: 'QUALITY_CHECK',
+};
+
+// Order status fields on other models (`status` is only renamed on orders)
+const ORDER_STATUS_FIELDS = ['fromStatus', 'toStatus', 'orderStatusAtOpen', 'orderStatus'];
+
+// Keys whose values are orders even when they don't carry an orderNumber
+const ORDER_KEYS = ['order', 'orders'];
+
+export const isLegacyOrderStatus = (status: string): status is LegacyOrderStatus =>
+  (LEGACY_ORDER_STATUSES as readonly string[]).includes(status);
+
+// Statuses orders can be in
+export const LIFECYCLE_ORDER_STATUSES: OrderStatus[] = Object.values(OrderStatus).filter(
+  (status) => !isLegacyOrderStatus(status)
+);
+
+/**
+ * Read a status sent by a client, accepting legacy names. Other values are left for
+ * the order state machine to reject.
+ */
+export const toLifecycleStatus = (status: string): OrderStatus =>
+  isLegacyOrderStatus(status) ? TO_LIFECYCLE[status] : (status as OrderStatus);
+
+export const legacyResponsesEnabled = (): boolean =>
+  process.env.LEGACY_ORDER_STATUS_RESPONSES !== 'false';
+
+/**
+ * Whether a client gets legacy names, given the status version it sent (header value,
+ * or the version recorded with its push token)
+ */
+export const usesLegacyOrderStatuses = (orderStatusVersion?: string | number | null): boolean =>
+  legacyResponsesEnabled() && String(orderStatusVersion) !== '2';
+
+/**
+ * Copy of a response body, realtime payload or push payload with order statuses
+ * renamed for an older app build. Orders are recognised by their orderNumber or by
+ * sitting under an `order`/`orders` key, since other models have statuses of their
+ * own; pass isOrder when the value itself is known to describe an order.
+ */
+export const toLegacyResponse = (value: unknown, isOrder = false): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item) => toLegacyResponse(item, isOrder));
+  }
+
+  if (!value || typeof value !== 'object' || value.constructor !== Object) {
+    return value;
+  }
+
+  const source = value as Record<string, unknown>;
+  const describesOrder = isOrder || 'orderNumber' in source;
+
+  return Object.fromEntries(
+    Object.entries(source).map(([key, field]) => {
+      const isStatusField =
+        ORDER_STATUS_FIELDS.includes(key) || (describesOrder && key === 'status');
+      if (isStatusField && typeof field === 'string') {
+        return [key, TO_LEGACY[field] || field];
+      }
+      return [key, toLegacyResponse(field, ORDER_KEYS.includes(key))];
+    })
+  );
+};
@@ -0,0 +1,21 @@
+/**
+ * Money helpers
+ *
+ * The ledger stores amounts as integer kobo (BigInt) and is the only record of
+ * money. Prices, fees, payment totals and wallet projections elsewhere are still
+ * Naira floats: they are inputs and display copies, and every one of them goes
+ * through toKobo (rounded to the nearest kobo) before anything is posted. Balances,
+ * payouts and reconciliation read the ledger, never the float columns.
+ */
+
+export const toKobo = (naira: number): bigint => {
+  if (!Number.isFinite(naira)) {
+    throw new Error('Invalid amount');
+  }
+
+  return BigInt(Math.round(naira * 100));
+};
+
+export const fromKobo = (kobo: bigint): number => {
+  return Number(kobo) / 100;
+};
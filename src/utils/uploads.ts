@@ -0,0 +1,29 @@
+/**
+ * Upload helpers
+ *
+ * Collects Cloudinary URLs from a multipart request handled by the `upload`
+ * middleware, plus any already-uploaded URLs sent in the JSON body
+ * (clients that use /api/uploads/images first). Body URLs are only accepted
+ * when they point at our own Cloudinary account.
+ */
+
+import { Request } from 'express';
+import { isCloudinaryAssetUrl } from '../config/cloudinary';
+
+const MAX_URL_LENGTH = 2048;
+
+export const collectUploadedUrls = (req: Request, bodyField: string): string[] => {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+  // Cloudinary URL is available at file.path (set by multer-storage-cloudinary)
+  const uploaded = files.map((file) => file.path).filter(Boolean);
+
+  const fromBody = req.body?.[bodyField];
+  const bodyUrls: unknown[] = Array.isArray(fromBody) ? fromBody : fromBody ? [fromBody] : [];
+
+  const provided = bodyUrls.filter(
+    (url): url is string =>
+      typeof url === 'string' && url.length <= MAX_URL_LENGTH && isCloudinaryAssetUrl(url)
+  );
+
+  return [...uploaded, ...provided];
+};